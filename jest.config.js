@@ -33,17 +33,35 @@ module.exports = {
   verbose: true,
   projects: [
     {
+      // Project entries don't inherit the settings above
       displayName: 'main',
+      preset: 'ts-jest',
       testEnvironment: 'node',
+      moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+        '^@main/(.*)$': '<rootDir>/src/main/$1',
+        '^@renderer/(.*)$': '<rootDir>/src/renderer/$1',
+        '^@shared/(.*)$': '<rootDir>/src/shared/$1'
+      },
+      setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
       testMatch: [
         '**/tests/unit/services/**/*.spec.ts',
+        '**/tests/unit/utils/**/*.spec.ts',
         '**/tests/contract/services/**/*.spec.ts',
         '**/tests/integration/**/*.spec.ts'
       ]
     },
     {
       displayName: 'renderer',
+      preset: 'ts-jest',
       testEnvironment: 'jsdom',
+      moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+        '^@main/(.*)$': '<rootDir>/src/main/$1',
+        '^@renderer/(.*)$': '<rootDir>/src/renderer/$1',
+        '^@shared/(.*)$': '<rootDir>/src/shared/$1'
+      },
+      setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
       testMatch: [
         '**/tests/unit/components/**/*.spec.ts',
         '**/tests/contract/ipc/**/*.spec.ts'
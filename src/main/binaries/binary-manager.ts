@@ -217,7 +217,7 @@ export class BinaryManager {
 
     // Verify whisper
     try {
-      const hasModel = await this.whisper.checkModelExists('tiny' as any);
+      const hasModel = await this.whisper.checkModelExists('tiny');
       console.log('whisper verified, has model:', hasModel);
     } catch (error) {
       console.warn('whisper verification failed:', error);
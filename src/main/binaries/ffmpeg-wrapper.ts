@@ -6,12 +6,31 @@ import { spawn, ChildProcess } from 'child_process';
 import path from 'path';
 import fs from 'fs-extra';
 import { app } from 'electron';
-import { CompressionConfig, VideoCodec, AudioCodec } from '../../shared/types/compression';
+import { CompressionConfig, VideoCodec, AudioCodec, HardwareEncoderProbe } from '../../shared/types/compression';
+import { WaveformData } from '../../shared/types/subtitle';
+import { MediaStream, RemuxOptions, StreamExtractOptions, StreamExtractResult } from '../../shared/types/video';
+import { PeakAccumulator, WAVEFORM_SAMPLE_RATE, DEFAULT_PEAKS_PER_SECOND } from '../utils/waveform';
+import { buildExtractArgs, buildRemuxArgs, getRemuxPath, parseStreams, planExtraction } from '../utils/media-streams';
+import {
+  candidateEncoders,
+  hardwareInputArgs,
+  hardwareRateArgs,
+  hardwareUploadFilter,
+  parseEncoderList,
+  parseHwaccels,
+  selectHardwareEncoder,
+  summarizeFailure,
+  testEncodeArgs
+} from '../utils/hardware-encoders';
+
+// A test encode that hangs is stuck on a driver, not slow
+const TEST_ENCODE_TIMEOUT = 15000;
 
 export class FfmpegWrapper {
   private ffmpegPath: string;
   private ffprobePath: string;
   private processes: Map<string, ChildProcess> = new Map();
+  private hardwareEncoders: string[] = [];
 
   constructor() {
     const platform = process.platform;
@@ -89,6 +108,80 @@ export class FfmpegWrapper {
     });
   }
 
+  // Video, audio and subtitle streams with their language, codec and flags
+  async getStreams(filePath: string): Promise<MediaStream[]> {
+    return parseStreams(await this.getVideoInfo(filePath));
+  }
+
+  /**
+   * Save streams to files of their own in one pass, copied where the format
+   * holds the codec and converted otherwise
+   */
+  async extractStreams(inputPath: string, options: StreamExtractOptions): Promise<StreamExtractResult[]> {
+    const streams = await this.getStreams(inputPath);
+    const outputDir = options.outputDir ?? path.dirname(inputPath);
+    const outputs = planExtraction(inputPath, streams, options.streams, outputDir);
+
+    await fs.ensureDir(outputDir);
+    await this.runCommand(buildExtractArgs(inputPath, outputs));
+
+    return outputs.map(({ index, type, format, outputPath, converted }) => ({ index, type, format, outputPath, converted }));
+  }
+
+  // Write a copy with tracks added, dropped, reordered or relabelled, without re-encoding
+  async remux(inputPath: string, options: RemuxOptions): Promise<string> {
+    const outputPath = options.outputPath ?? getRemuxPath(inputPath);
+    if (path.resolve(outputPath) === path.resolve(inputPath)) {
+      throw new Error('The remuxed file must not replace its input');
+    }
+
+    const files = [...new Set(options.tracks.flatMap(track => (track.file !== undefined ? [track.file] : [])))];
+    const sources = await Promise.all(
+      [inputPath, ...files].map(async file => ({ path: file, streams: await this.getStreams(file) }))
+    );
+
+    await this.runCommand(buildRemuxArgs(sources, options.tracks, outputPath));
+    return outputPath;
+  }
+
+  // First line of `ffmpeg -version`, which identifies the build
+  async getVersion(): Promise<string> {
+    const { output } = await this.capture(['-hide_banner', '-version']);
+    return output.split('\n')[0].replace(/\s+Copyright.*$/, '').trim();
+  }
+
+  /**
+   * The hardware encoders that work here: those this ffmpeg was built with
+   * for the platform, each test-encoding a blank clip. Built-in encoders
+   * without a device or driver fail the test.
+   */
+  async probeHardwareEncoders(): Promise<HardwareEncoderProbe> {
+    const ffmpegVersion = await this.getVersion();
+    const built = parseEncoderList((await this.capture(['-hide_banner', '-encoders'])).output);
+    const hwaccels = parseHwaccels((await this.capture(['-hide_banner', '-hwaccels'])).output);
+
+    const available = candidateEncoders(process.platform).filter(encoder => built.has(encoder));
+    const working: string[] = [];
+    const failures: Record<string, string> = {};
+
+    for (const encoder of available) {
+      const { code, output } = await this.capture(testEncodeArgs(encoder), TEST_ENCODE_TIMEOUT);
+      if (code === 0) {
+        working.push(encoder);
+      } else {
+        failures[encoder] = summarizeFailure(output, code);
+      }
+    }
+
+    this.hardwareEncoders = working;
+    return { ffmpegVersion, hwaccels, available, working, failures, probedAt: new Date().toISOString() };
+  }
+
+  // Hardware encoders `compress` may use, from a probe or its cached result
+  setHardwareEncoders(working: string[]): void {
+    this.hardwareEncoders = working;
+  }
+
   async compress(
     inputPath: string,
     outputPath: string,
@@ -101,33 +194,32 @@ export class FfmpegWrapper {
     const videoInfo = await this.getVideoInfo(inputPath);
     const duration = parseFloat(videoInfo.format.duration);
 
+    // Hardware encoder for the codec when asked for and one passed the probe
+    const softwareCodec = this.getVideoCodecString(config.videoCodec);
+    const encoder = config.hardwareAcceleration
+      ? selectHardwareEncoder(softwareCodec, this.hardwareEncoders)
+      : undefined;
+
     const args: string[] = [
+      ...(encoder !== undefined ? hardwareInputArgs(encoder) : []),
       '-i', inputPath,
       '-y' // Overwrite output file
     ];
 
     // Video codec
-    args.push('-c:v', this.getVideoCodecString(config.videoCodec));
-
-    // Hardware acceleration
-    if (config.hardwareAcceleration) {
-      if (process.platform === 'darwin') {
-        args.unshift('-hwaccel', 'videotoolbox');
-      } else if (process.platform === 'win32') {
-        args.unshift('-hwaccel', 'dxva2');
-      } else {
-        args.unshift('-hwaccel', 'vaapi');
-      }
-    }
+    args.push('-c:v', encoder ?? softwareCodec);
 
     // Video bitrate or CRF
-    if (config.crf !== undefined) {
+    if (encoder !== undefined) {
+      args.push(...hardwareRateArgs(encoder, config));
+    } else if (config.crf !== undefined) {
       args.push('-crf', config.crf.toString());
     } else if (config.videoBitrate) {
       args.push('-b:v', `${config.videoBitrate}k`);
     }
 
     // Resolution
+    const filters: string[] = [];
     if (config.resolution && config.resolution !== 'original') {
       const resolutionMap: { [key: string]: string } = {
         '2160p': '3840:2160',
@@ -139,9 +231,16 @@ export class FfmpegWrapper {
       };
       const scale = resolutionMap[config.resolution];
       if (scale) {
-        args.push('-vf', `scale=${scale}:force_original_aspect_ratio=decrease`);
+        filters.push(`scale=${scale}:force_original_aspect_ratio=decrease`);
       }
     }
+    const upload = encoder !== undefined ? hardwareUploadFilter(encoder) : undefined;
+    if (upload !== undefined) {
+      filters.push(upload);
+    }
+    if (filters.length > 0) {
+      args.push('-vf', filters.join(','));
+    }
 
     // Frame rate
     if (config.fps && config.fps > 0) {
@@ -158,8 +257,8 @@ export class FfmpegWrapper {
       }
     }
 
-    // Two-pass encoding
-    if (config.twoPass) {
+    // Two-pass encoding, which hardware encoders don't do
+    if (config.twoPass && encoder === undefined) {
       // First pass
       const passLogFile = path.join(path.dirname(outputPath), `ffmpeg2pass-${taskId}`);
       const firstPassArgs = [
@@ -369,6 +468,100 @@ export class FfmpegWrapper {
     await this.runCommand(args);
   }
 
+  // Part of the first audio stream as mono 16kHz WAV, the input Whisper expects
+  async extractAudio(
+    videoPath: string,
+    outputPath: string,
+    startTime: number = 0,
+    duration?: number
+  ): Promise<void> {
+    const args = ['-v', 'error', '-ss', (startTime / 1000).toFixed(3), '-i', videoPath];
+
+    if (duration !== undefined) {
+      args.push('-t', (duration / 1000).toFixed(3));
+    }
+
+    args.push('-map', '0:a:0', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le', '-y', outputPath);
+
+    await this.runCommand(args);
+  }
+
+  /**
+   * Peaks of the first audio stream, decoded to mono PCM on stdout and
+   * reduced while it streams. `audioFilter` runs before the peaks are taken.
+   */
+  async extractWaveform(
+    videoPath: string,
+    peaksPerSecond: number = DEFAULT_PEAKS_PER_SECOND,
+    audioFilter?: string
+  ): Promise<WaveformData> {
+    return new Promise((resolve, reject) => {
+      const args = [
+        '-v', 'error',
+        '-i', videoPath,
+        '-map', '0:a:0',
+        '-ac', '1',
+        '-ar', WAVEFORM_SAMPLE_RATE.toString()
+      ];
+
+      if (audioFilter) {
+        args.push('-af', audioFilter);
+      }
+
+      args.push('-f', 's16le', '-');
+
+      const process = spawn(this.ffmpegPath, args);
+      const accumulator = new PeakAccumulator(WAVEFORM_SAMPLE_RATE, peaksPerSecond);
+      let stderr = '';
+
+      process.stdout.on('data', (data: Buffer) => {
+        accumulator.push(data);
+      });
+
+      process.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        if (code === 0) {
+          resolve(accumulator.finish());
+        } else {
+          reject(new Error(`Failed to read audio: ${stderr.trim() || `ffmpeg exited with code ${code}`}`));
+        }
+      });
+
+      process.on('error', (error) => {
+        reject(error);
+      });
+    });
+  }
+
+  // Exit code and everything ffmpeg printed; killed after `timeout` ms if given
+  private capture(args: string[], timeout?: number): Promise<{ code: number | null; output: string }> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(this.ffmpegPath, args);
+      let output = '';
+      const timer = timeout !== undefined ? setTimeout(() => ffmpeg.kill('SIGKILL'), timeout) : undefined;
+
+      ffmpeg.stdout.on('data', (data: Buffer) => {
+        output += data.toString();
+      });
+      ffmpeg.stderr.on('data', (data: Buffer) => {
+        output += data.toString();
+      });
+
+      ffmpeg.on('close', (code) => {
+        clearTimeout(timer);
+        resolve({ code, output });
+      });
+
+      ffmpeg.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
   private runCommand(args: string[]): Promise<void> {
     return new Promise((resolve, reject) => {
       const process = spawn(this.ffmpegPath, args);
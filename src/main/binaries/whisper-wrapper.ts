@@ -6,7 +6,13 @@ import { spawn, ChildProcess } from 'child_process';
 import path from 'path';
 import fs from 'fs-extra';
 import { app } from 'electron';
-import { SubtitleConfig, WhisperModel } from '../../shared/types/subtitle';
+import { SubtitleConfig } from '../../shared/types/subtitle';
+import {
+  DEFAULT_WHISPER_MODEL,
+  getModelFileName,
+  isGgmlModel,
+  modelIdFromFileName
+} from '../utils/whisper-models';
 
 export class WhisperWrapper {
   private binaryPath: string;
@@ -19,7 +25,8 @@ export class WhisperWrapper {
     if (isProd) {
       const resourcePath = process.resourcesPath;
       this.binaryPath = path.join(resourcePath, 'bin', 'whisper', this.getBinaryName());
-      this.modelsPath = path.join(resourcePath, 'models', 'whisper');
+      // Models are downloaded at runtime, so they can't live in the read-only resources
+      this.modelsPath = path.join(app.getPath('userData'), 'models', 'whisper');
     } else {
       this.binaryPath = path.join(__dirname, '../../../../bin', 'whisper', this.getBinaryName());
       this.modelsPath = path.join(__dirname, '../../../../models', 'whisper');
@@ -47,66 +54,66 @@ export class WhisperWrapper {
     fs.ensureDirSync(this.modelsPath);
   }
 
-  private getModelPath(model: WhisperModel): string {
-    const modelFiles: { [key in WhisperModel]: string } = {
-      [WhisperModel.TINY]: 'ggml-tiny.bin',
-      [WhisperModel.BASE]: 'ggml-base.bin',
-      [WhisperModel.SMALL]: 'ggml-small.bin',
-      [WhisperModel.MEDIUM]: 'ggml-medium.bin',
-      [WhisperModel.LARGE]: 'ggml-large.bin'
-    };
+  getModelsPath(): string {
+    return this.modelsPath;
+  }
 
-    return path.join(this.modelsPath, modelFiles[model]);
+  getModelPath(modelId: string): string {
+    return path.join(this.modelsPath, getModelFileName(modelId));
   }
 
-  async downloadModel(model: WhisperModel, onProgress?: (progress: number) => void): Promise<void> {
-    const modelPath = this.getModelPath(model);
+  // Interrupted downloads are kept next to the model until they finish
+  getPartialPath(modelId: string): string {
+    return `${this.getModelPath(modelId)}.part`;
+  }
 
-    // Check if model already exists
-    if (await fs.pathExists(modelPath)) {
-      console.log(`Model ${model} already exists`);
-      return;
-    }
+  // Ids of every model file in the models directory, catalog or imported
+  async listModelFiles(): Promise<string[]> {
+    const files = await fs.readdir(this.modelsPath);
+    return files
+      .filter(file => /\.(bin|ggml)$/i.test(file))
+      .map(file => modelIdFromFileName(file));
+  }
 
-    // Model URLs (these would be actual URLs to model files)
-    const modelUrls: { [key in WhisperModel]: string } = {
-      [WhisperModel.TINY]: 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-tiny.bin',
-      [WhisperModel.BASE]: 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-base.bin',
-      [WhisperModel.SMALL]: 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-small.bin',
-      [WhisperModel.MEDIUM]: 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-medium.bin',
-      [WhisperModel.LARGE]: 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-large-v3.bin'
-    };
+  async getPartialSize(modelId: string): Promise<number> {
+    const partialPath = this.getPartialPath(modelId);
+    if (await fs.pathExists(partialPath)) {
+      const stats = await fs.stat(partialPath);
+      return stats.size;
+    }
+    return 0;
+  }
 
-    const url = modelUrls[model];
+  async deleteModel(modelId: string): Promise<void> {
+    await fs.remove(this.getModelPath(modelId));
+    await fs.remove(this.getPartialPath(modelId));
+  }
 
-    // Download model using Node.js https
-    const https = require('https');
-    const file = fs.createWriteStream(modelPath);
+  /**
+   * Copy a ggml model file into the models directory. Files named like the
+   * upstream ones (ggml-<id>.bin) keep their id, so an imported catalog
+   * model counts as installed.
+   */
+  async importModel(filePath: string): Promise<string> {
+    const handle = await fs.open(filePath, 'r');
+    const header = Buffer.alloc(4);
+    try {
+      await fs.read(handle, header, 0, 4, 0);
+    } finally {
+      await fs.close(handle);
+    }
 
-    return new Promise((resolve, reject) => {
-      https.get(url, (response: any) => {
-        const totalSize = parseInt(response.headers['content-length'], 10);
-        let downloadedSize = 0;
+    if (!isGgmlModel(header)) {
+      throw new Error('Not a whisper.cpp (ggml) model file');
+    }
 
-        response.pipe(file);
+    const modelId = modelIdFromFileName(path.basename(filePath));
+    if (await this.checkModelExists(modelId)) {
+      throw new Error(`Model ${modelId} is already installed`);
+    }
 
-        response.on('data', (chunk: Buffer) => {
-          downloadedSize += chunk.length;
-          if (onProgress && totalSize) {
-            const progress = (downloadedSize / totalSize) * 100;
-            onProgress(progress);
-          }
-        });
-
-        file.on('finish', () => {
-          file.close();
-          resolve();
-        });
-      }).on('error', (error: Error) => {
-        fs.unlink(modelPath, () => {});
-        reject(error);
-      });
-    });
+    await fs.copy(filePath, this.getModelPath(modelId));
+    return modelId;
   }
 
   async generateSubtitles(
@@ -116,8 +123,9 @@ export class WhisperWrapper {
   ): Promise<{ taskId: string; outputPath: string }> {
     const taskId = `whisper-${Date.now()}`;
 
-    // Ensure model is downloaded
-    await this.downloadModel(config.whisperModel);
+    if (!(await this.checkModelExists(config.whisperModel))) {
+      throw new Error(`Whisper model ${config.whisperModel} is not installed`);
+    }
 
     const modelPath = this.getModelPath(config.whisperModel);
     const outputDir = path.dirname(audioPath);
@@ -196,7 +204,7 @@ export class WhisperWrapper {
     audioPath: string,
     language: string = 'auto'
   ): Promise<Array<{ start: number; end: number; text: string }>> {
-    const modelPath = this.getModelPath(WhisperModel.BASE);
+    const modelPath = this.getModelPath(DEFAULT_WHISPER_MODEL);
     const outputPath = path.join(path.dirname(audioPath), `transcript-${Date.now()}.json`);
 
     const args = [
@@ -232,7 +240,7 @@ export class WhisperWrapper {
   }
 
   async detectLanguage(audioPath: string): Promise<string> {
-    const modelPath = this.getModelPath(WhisperModel.TINY);
+    const modelPath = this.getModelPath('tiny');
 
     const args = [
       '-m', modelPath,
@@ -278,13 +286,13 @@ export class WhisperWrapper {
     return false;
   }
 
-  async checkModelExists(model: WhisperModel): Promise<boolean> {
-    const modelPath = this.getModelPath(model);
+  async checkModelExists(modelId: string): Promise<boolean> {
+    const modelPath = this.getModelPath(modelId);
     return fs.pathExists(modelPath);
   }
 
-  async getModelSize(model: WhisperModel): Promise<number> {
-    const modelPath = this.getModelPath(model);
+  async getModelSize(modelId: string): Promise<number> {
+    const modelPath = this.getModelPath(modelId);
     if (await fs.pathExists(modelPath)) {
       const stats = await fs.stat(modelPath);
       return stats.size;
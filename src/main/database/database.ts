@@ -5,6 +5,8 @@
 import Store from 'electron-store';
 import { DownloadTask, ProcessingTask } from '../../shared/types/tasks';
 import { UserPreferences, DEFAULT_PREFERENCES } from '../../shared/types/preferences';
+import { CompressionPresetRecord } from '../../shared/types/compression';
+import { defaultDatabase, ProcessingQueueItem } from './schema';
 
 interface DatabaseSchema {
   tasks: {
@@ -13,6 +15,8 @@ interface DatabaseSchema {
   };
   history: DownloadTask[];
   preferences: UserPreferences;
+  compressionPresets: CompressionPresetRecord[];
+  processingQueue: ProcessingQueueItem[];
   cache: {
     videoInfo: { [url: string]: { data: any; timestamp: number } };
     thumbnails: { [url: string]: string };
@@ -40,6 +44,8 @@ export class Database {
         },
         history: [],
         preferences: DEFAULT_PREFERENCES,
+        compressionPresets: defaultDatabase.compressionPresets,
+        processingQueue: [],
         cache: {
           videoInfo: {},
           thumbnails: {}
@@ -62,6 +68,8 @@ export class Database {
         },
         history: { type: 'array' },
         preferences: { type: 'object' },
+        compressionPresets: { type: 'array' },
+        processingQueue: { type: 'array' },
         cache: { type: 'object' },
         statistics: { type: 'object' }
       }
@@ -210,6 +218,24 @@ export class Database {
     this.store.set('preferences', DEFAULT_PREFERENCES);
   }
 
+  // Compression Presets
+  async getCompressionPresets(): Promise<CompressionPresetRecord[]> {
+    return this.store.get('compressionPresets', []);
+  }
+
+  async saveCompressionPresets(presets: CompressionPresetRecord[]): Promise<void> {
+    this.store.set('compressionPresets', presets);
+  }
+
+  // Processing Queue
+  async getProcessingQueue(): Promise<ProcessingQueueItem[]> {
+    return this.store.get('processingQueue', []);
+  }
+
+  async saveProcessingQueue(items: ProcessingQueueItem[]): Promise<void> {
+    this.store.set('processingQueue', items);
+  }
+
   // Cache Management
   async getCachedVideoInfo(url: string): Promise<any | null> {
     const cache = this.store.get('cache.videoInfo', {});
@@ -301,6 +327,8 @@ export class Database {
     if (data.tasks) this.store.set('tasks', data.tasks);
     if (data.history) this.store.set('history', data.history);
     if (data.preferences) this.store.set('preferences', data.preferences);
+    if (data.compressionPresets) this.store.set('compressionPresets', data.compressionPresets);
+    if (data.processingQueue) this.store.set('processingQueue', data.processingQueue);
     if (data.cache) this.store.set('cache', data.cache);
     if (data.statistics) this.store.set('statistics', data.statistics);
   }
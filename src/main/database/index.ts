@@ -4,4 +4,6 @@
 
 export { Database, getDatabase } from './database';
 export { TaskRepository } from './repositories/task-repository';
-export { HistoryRepository } from './repositories/history-repository';
\ No newline at end of file
+export { HistoryRepository } from './repositories/history-repository';
+export { CompressionPresetRepository } from './repositories/preset-repository';
+export { ProcessingQueueRepository } from './repositories/processing-queue-repository';
\ No newline at end of file
@@ -0,0 +1,139 @@
+/**
+ * Compression preset repository: saved compression configs, with one default
+ * per output format and JSON import/export
+ */
+
+import { getDatabase } from '../database';
+import {
+  CompressionPresetInput,
+  CompressionPresetRecord
+} from '../../../shared/types/compression';
+import {
+  parsePresetFile,
+  serializePresets,
+  setDefaultPreset,
+  uniquePresetName,
+  validatePresetConfig
+} from '../../utils/compression-presets';
+
+export class CompressionPresetRepository {
+  private db = getDatabase();
+
+  async getAll(): Promise<CompressionPresetRecord[]> {
+    return this.db.getCompressionPresets();
+  }
+
+  async getById(id: string): Promise<CompressionPresetRecord | null> {
+    const presets = await this.getAll();
+    return presets.find(preset => preset.id === id) ?? null;
+  }
+
+  async getDefault(outputFormat: string): Promise<CompressionPresetRecord | null> {
+    const presets = await this.getAll();
+    return presets.find(preset => preset.isDefault && preset.config.outputFormat === outputFormat) ?? null;
+  }
+
+  async create(input: CompressionPresetInput): Promise<CompressionPresetRecord> {
+    const presets = await this.getAll();
+    const now = new Date().toISOString();
+    const preset: CompressionPresetRecord = {
+      id: this.generateId('preset'),
+      name: this.checkName(input.name, presets),
+      description: input.description,
+      config: validatePresetConfig(input.config),
+      isDefault: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    presets.push(preset);
+    return this.saveAndGet(input.isDefault === true ? setDefaultPreset(presets, preset.id) : presets, preset.id);
+  }
+
+  async update(id: string, input: Partial<CompressionPresetInput>): Promise<CompressionPresetRecord> {
+    const presets = await this.getAll();
+    const index = this.findIndex(presets, id);
+    const current = presets[index];
+
+    presets[index] = {
+      ...current,
+      name: input.name !== undefined ? this.checkName(input.name, presets.filter(p => p.id !== id)) : current.name,
+      description: 'description' in input ? input.description : current.description,
+      config: input.config ? validatePresetConfig(input.config) : current.config,
+      isDefault: input.isDefault ?? current.isDefault,
+      updatedAt: new Date().toISOString()
+    };
+
+    // A default moved to another format replaces that format's default
+    return this.saveAndGet(presets[index].isDefault ? setDefaultPreset(presets, id) : presets, id);
+  }
+
+  async delete(id: string): Promise<void> {
+    const presets = await this.getAll();
+    this.findIndex(presets, id);
+    await this.db.saveCompressionPresets(presets.filter(preset => preset.id !== id));
+  }
+
+  async setDefault(id: string): Promise<CompressionPresetRecord> {
+    const presets = await this.getAll();
+    return this.saveAndGet(setDefaultPreset(presets, id), id);
+  }
+
+  // All presets, or the ones in `ids`
+  async exportPresets(ids?: string[]): Promise<string> {
+    const presets = await this.getAll();
+    return serializePresets(ids ? presets.filter(preset => ids.includes(preset.id)) : presets);
+  }
+
+  // Imported presets never replace defaults, and get a number when their name is taken
+  async importPresets(text: string): Promise<CompressionPresetRecord[]> {
+    const inputs = parsePresetFile(text);
+    const presets = await this.getAll();
+    const now = new Date().toISOString();
+
+    const imported = inputs.map(input => {
+      const preset: CompressionPresetRecord = {
+        id: this.generateId('preset'),
+        name: uniquePresetName(input.name, presets.map(p => p.name)),
+        description: input.description,
+        config: input.config,
+        isDefault: false,
+        createdAt: now,
+        updatedAt: now
+      };
+      presets.push(preset);
+      return preset;
+    });
+
+    await this.db.saveCompressionPresets(presets);
+    return imported;
+  }
+
+  private checkName(name: string, others: CompressionPresetRecord[]): string {
+    const trimmed = name.trim();
+    if (trimmed === '') {
+      throw new Error('Preset name is required');
+    }
+    if (others.some(preset => preset.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A preset named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private findIndex(presets: CompressionPresetRecord[], id: string): number {
+    const index = presets.findIndex(preset => preset.id === id);
+    if (index < 0) {
+      throw new Error(`Compression preset not found: ${id}`);
+    }
+    return index;
+  }
+
+  private async saveAndGet(presets: CompressionPresetRecord[], id: string): Promise<CompressionPresetRecord> {
+    await this.db.saveCompressionPresets(presets);
+    return presets[this.findIndex(presets, id)];
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
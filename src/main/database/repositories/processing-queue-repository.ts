@@ -0,0 +1,23 @@
+/**
+ * Processing queue repository: unfinished jobs kept across restarts, in queue order
+ */
+
+import { getDatabase } from '../database';
+import { ProcessingQueueItem } from '../schema';
+
+export class ProcessingQueueRepository {
+  private db = getDatabase();
+
+  async getByType(type: ProcessingQueueItem['type']): Promise<ProcessingQueueItem[]> {
+    const items = await this.db.getProcessingQueue();
+    return items
+      .filter(item => item.type === type)
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  // Replace the stored items of `type`, leaving other kinds of job alone
+  async replaceType(type: ProcessingQueueItem['type'], items: ProcessingQueueItem[]): Promise<void> {
+    const others = (await this.db.getProcessingQueue()).filter(item => item.type !== type);
+    await this.db.saveProcessingQueue([...others, ...items]);
+  }
+}
@@ -5,7 +5,6 @@
 import { getDatabase } from '../database';
 import { DownloadTask, ProcessingTask, TaskStatus } from '../../../shared/types/tasks';
 import { VideoInfo } from '../../../shared/types/video';
-import { v4 as uuidv4 } from 'uuid';
 
 export class TaskRepository {
   private db = getDatabase();
@@ -22,7 +21,7 @@ export class TaskRepository {
     }
   ): Promise<DownloadTask> {
     const task: DownloadTask = {
-      id: uuidv4(),
+      id: this.generateId('download'),
       type: 'download',
       url,
       videoInfo,
@@ -54,7 +53,7 @@ export class TaskRepository {
     config: any
   ): Promise<ProcessingTask> {
     const task: ProcessingTask = {
-      id: uuidv4(),
+      id: this.generateId('processing'),
       type: 'processing',
       processingType: type,
       inputPath,
@@ -72,6 +71,15 @@ export class TaskRepository {
     return task;
   }
 
+  async saveDownloadTask(task: DownloadTask): Promise<void> {
+    const existing = await this.db.getTask(task.id);
+    if (existing) {
+      await this.db.updateTask(task.id, task);
+    } else {
+      await this.db.addDownloadTask(task);
+    }
+  }
+
   // Read
   async getAllTasks(): Promise<(DownloadTask | ProcessingTask)[]> {
     return this.db.getAllTasks();
@@ -108,6 +116,11 @@ export class TaskRepository {
     return this.db.getTask(taskId);
   }
 
+  async getDownloadTasksByStatus(statuses: TaskStatus[]): Promise<DownloadTask[]> {
+    const tasks = await this.db.getDownloadTasks();
+    return tasks.filter(t => statuses.includes(t.status));
+  }
+
   async getTasksByStatus(status: TaskStatus): Promise<(DownloadTask | ProcessingTask)[]> {
     const tasks = await this.getAllTasks();
     return tasks.filter(t => t.status === status);
@@ -129,12 +142,16 @@ export class TaskRepository {
     // Add to history if download task is finished
     if (status === 'completed' || status === 'failed') {
       const task = await this.getTaskById(taskId);
-      if (task && task.type === 'download') {
-        await this.db.addToHistory(task as DownloadTask);
+      if (task && this.isDownloadTask(task)) {
+        await this.db.addToHistory(task);
       }
     }
   }
 
+  async updateDownloadTask(taskId: string, updates: Partial<DownloadTask>): Promise<void> {
+    await this.db.updateTask(taskId, updates);
+  }
+
   async updateTaskProgress(
     taskId: string,
     progress: number,
@@ -161,7 +178,7 @@ export class TaskRepository {
   async resumeTask(taskId: string): Promise<void> {
     const task = await this.getTaskById(taskId);
     if (task) {
-      const status = task.type === 'download' ? 'downloading' : 'processing';
+      const status = this.isDownloadTask(task) ? 'downloading' : 'processing';
       await this.updateTaskStatus(taskId, status);
     }
   }
@@ -189,8 +206,8 @@ export class TaskRepository {
       });
 
       // Add to history
-      if (task.type === 'download') {
-        await this.db.addToHistory(task as DownloadTask);
+      if (this.isDownloadTask(task)) {
+        await this.db.addToHistory(task);
       }
     }
   }
@@ -199,7 +216,7 @@ export class TaskRepository {
     const task = await this.getTaskById(taskId);
     if (task) {
       const retryCount = (task as DownloadTask).retryCount || 0;
-      const status = task.type === 'download' ? 'downloading' : 'processing';
+      const status = this.isDownloadTask(task) ? 'downloading' : 'processing';
 
       await this.db.updateTask(taskId, {
         status,
@@ -235,12 +252,13 @@ export class TaskRepository {
 
   async startNextTask(): Promise<DownloadTask | ProcessingTask | null> {
     const task = await this.getNextQueuedTask();
-    if (task) {
-      const status = task.type === 'download' ? 'downloading' : 'processing';
-      await this.updateTaskStatus(task.id, status);
-      return task;
-    }
-    return null;
+    return task ? this.startTask(task) : null;
+  }
+
+  async startTask<T extends DownloadTask | ProcessingTask>(task: T): Promise<T> {
+    const status = this.isDownloadTask(task) ? 'downloading' : 'processing';
+    await this.updateTaskStatus(task.id, status);
+    return task;
   }
 
   async getRunningTasksCount(): Promise<number> {
@@ -250,9 +268,11 @@ export class TaskRepository {
     ).length;
   }
 
+  // Whether another download fits under maxConcurrent; processing tasks don't take download slots
   async canStartNewTask(maxConcurrent: number = 3): Promise<boolean> {
-    const runningCount = await this.getRunningTasksCount();
-    return runningCount < maxConcurrent;
+    const tasks = await this.getAllTasks();
+    const downloading = tasks.filter(t => this.isDownloadTask(t) && t.status === 'downloading').length;
+    return downloading < maxConcurrent;
   }
 
   // Statistics
@@ -274,4 +294,12 @@ export class TaskRepository {
       paused: tasks.filter(t => t.status === 'paused').length
     };
   }
-}
\ No newline at end of file
+
+  private isDownloadTask(task: DownloadTask | ProcessingTask): task is DownloadTask {
+    return 'videoInfo' in task;
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
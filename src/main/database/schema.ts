@@ -3,12 +3,14 @@
  * Using JSON-based storage instead of SQLite
  */
 
+import { CompressionPresetRecord } from '../../shared/types/compression';
+
 export interface DatabaseSchema {
   videos: VideoRecord[];
   downloads: DownloadRecord[];
   subtitles: SubtitleRecord[];
   preferences: UserPreferences;
-  compressionPresets: CompressionPreset[];
+  compressionPresets: CompressionPresetRecord[];
   processingQueue: ProcessingQueueItem[];
 }
 
@@ -68,27 +70,12 @@ export interface UserPreferences {
   };
 }
 
-export interface CompressionPreset {
-  id: string;
-  name: string;
-  config: {
-    format: string;
-    resolution: string;
-    videoBitrate?: number;
-    audioBitrate?: number;
-    preset?: string;
-    crf?: number;
-  };
-  isDefault: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
 export interface ProcessingQueueItem {
   id: string;
   type: 'subtitle_generation' | 'subtitle_embedding' | 'video_compression';
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed';
   priority: number;
+  batchId?: string;
   inputFile: string;
   outputFile?: string;
   config?: Record<string, unknown>;
@@ -118,10 +105,13 @@ export const defaultDatabase: DatabaseSchema = {
       id: 'default-high',
       name: '高质量',
       config: {
-        format: 'mp4',
+        outputFormat: 'mp4',
         resolution: '1080p',
+        videoCodec: 'libx264',
+        audioCodec: 'aac',
         preset: 'slow',
-        crf: 18
+        crf: 18,
+        audioBitrate: 192
       },
       isDefault: false,
       createdAt: new Date().toISOString(),
@@ -131,10 +121,13 @@ export const defaultDatabase: DatabaseSchema = {
       id: 'default-medium',
       name: '标准质量',
       config: {
-        format: 'mp4',
+        outputFormat: 'mp4',
         resolution: '720p',
+        videoCodec: 'libx264',
+        audioCodec: 'aac',
         preset: 'medium',
-        crf: 23
+        crf: 23,
+        audioBitrate: 128
       },
       isDefault: true,
       createdAt: new Date().toISOString(),
@@ -144,14 +137,32 @@ export const defaultDatabase: DatabaseSchema = {
       id: 'default-low',
       name: '压缩优先',
       config: {
-        format: 'mp4',
+        outputFormat: 'mp4',
         resolution: '480p',
+        videoCodec: 'libx264',
+        audioCodec: 'aac',
         preset: 'fast',
-        crf: 28
+        crf: 28,
+        audioBitrate: 96
       },
       isDefault: false,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
+    },
+    {
+      id: 'default-webm',
+      name: 'WebM',
+      config: {
+        outputFormat: 'webm',
+        resolution: '720p',
+        videoCodec: 'libvpx-vp9',
+        audioCodec: 'libopus',
+        crf: 32,
+        audioBitrate: 96
+      },
+      isDefault: true,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
     }
   ],
   processingQueue: []
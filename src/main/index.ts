@@ -13,6 +13,19 @@ import { SubtitleService } from './services/subtitles';
 import { ConverterService } from './services/converter';
 import { StorageService } from './services/storage';
 import { UpdateService } from './services/updater';
+import { DownloadScheduler } from './services/download-scheduler';
+import { SubscriptionService } from './services/subscriptions';
+import { BandwidthManager } from './services/bandwidth';
+import { NetworkProfileService } from './services/network-profiles';
+import { TranslationService } from './services/translation';
+import { WhisperModelService } from './services/whisper-models';
+import { HardwareEncoderService } from './services/hardware-encoders';
+import { CompressionQueue } from './services/compression-queue';
+import { TaskRepository } from './database/repositories/task-repository';
+import { CompressionPresetRepository } from './database/repositories/preset-repository';
+import { ProcessingQueueRepository } from './database/repositories/processing-queue-repository';
+import { FfmpegWrapper } from './binaries/ffmpeg-wrapper';
+import { WhisperWrapper } from './binaries/whisper-wrapper';
 
 // IPC Handlers
 import { VideoHandlers } from './ipc/video-handlers';
@@ -20,6 +33,7 @@ import { SubtitleHandlers } from './ipc/subtitle-handlers';
 import { CompressionHandlers } from './ipc/compression-handlers';
 import { SettingsHandlers } from './ipc/settings-handlers';
 import { SystemHandlers } from './ipc/system-handlers';
+import { SubscriptionHandlers } from './ipc/subscription-handlers';
 
 // Window Manager
 import { MainWindow } from './windows/main-window';
@@ -29,12 +43,24 @@ import { TrayManager } from './tray/tray-manager';
 class Application {
   private mainWindow: MainWindow | null = null;
   private trayManager: TrayManager | null = null;
+  // Set while downloads and encodes are being stopped, then once it's safe to exit
+  private shuttingDown = false;
+  private readyToQuit = false;
   private services: {
     downloader: DownloaderService;
+    scheduler: DownloadScheduler;
+    bandwidth: BandwidthManager;
+    networkProfiles: NetworkProfileService;
+    translation: TranslationService;
+    whisperModels: WhisperModelService;
+    subscriptions: SubscriptionService;
     subtitle: SubtitleService;
     converter: ConverterService;
+    hardwareEncoders: HardwareEncoderService;
+    compressionQueue: CompressionQueue;
     storage: StorageService;
     updater: UpdateService;
+    ffmpeg: FfmpegWrapper;
   } | null = null;
   private handlers: {
     video: VideoHandlers;
@@ -42,6 +68,7 @@ class Application {
     compression: CompressionHandlers;
     settings: SettingsHandlers;
     system: SystemHandlers;
+    subscription: SubscriptionHandlers;
   } | null = null;
 
   constructor() {
@@ -60,7 +87,9 @@ class Application {
 
     // Protocol registration
     protocol.registerSchemesAsPrivileged([
-      { scheme: 'prevideo', privileges: { secure: true, standard: true } }
+      { scheme: 'prevideo', privileges: { secure: true, standard: true } },
+      // Local media for the subtitle editor's video preview, streamed so seeking works
+      { scheme: 'prevideo-media', privileges: { secure: true, standard: true, stream: true, supportFetchAPI: true } }
     ]);
 
     // Single instance lock
@@ -105,21 +134,28 @@ class Application {
       }
     });
 
-    // Before quit
-    app.on('before-quit', async (event) => {
-      // Save window state
-      if (this.mainWindow?.window) {
-        const bounds = this.mainWindow.window.getBounds();
-        const isMaximized = this.mainWindow.window.isMaximized();
+    // Before quit: hold the quit until running downloads and encodes are
+    // stopped, then quit again
+    app.on('before-quit', (event) => {
+      if (this.readyToQuit) {
+        return;
+      }
 
-        await this.services?.storage.saveWindowState({
-          ...bounds,
-          isMaximized
-        });
+      event.preventDefault();
+      if (this.shuttingDown) {
+        return;
       }
 
-      // Cleanup
-      this.cleanup();
+      this.shuttingDown = true;
+      app.isQuitting = true;
+      this.shutdown()
+        .catch(error => {
+          console.error('Failed to shut down cleanly:', error);
+        })
+        .finally(() => {
+          this.readyToQuit = true;
+          app.quit();
+        });
     });
 
     // Certificate error handler
@@ -142,6 +178,21 @@ class Application {
     // Initialize IPC handlers
     this.initializeHandlers();
 
+    // Network profiles are needed by every yt-dlp call
+    await this.services?.networkProfiles.load();
+    await this.services?.translation.load();
+    await this.services?.whisperModels.load();
+
+    // Apply the current bandwidth window before anything starts downloading
+    await this.services?.bandwidth.start();
+
+    // Pick up downloads and compressions queued by the previous session
+    await this.services?.scheduler.restore();
+    await this.services?.compressionQueue.restore();
+
+    // Check subscriptions for new uploads on their own intervals
+    this.services?.subscriptions.startAutoSync();
+
     // Setup security
     this.setupSecurity();
 
@@ -169,13 +220,42 @@ class Application {
     const subtitle = new SubtitleService();
     const converter = new ConverterService();
     const updater = new UpdateService(storage);
+    const bandwidth = new BandwidthManager(downloader, storage);
+    const networkProfiles = new NetworkProfileService(storage);
+    const translation = new TranslationService(storage);
+    const ffmpeg = new FfmpegWrapper();
+    const hardwareEncoders = new HardwareEncoderService(storage, ffmpeg);
+    const compressionQueue = new CompressionQueue(converter, new ProcessingQueueRepository(), storage);
+    const whisperModels = new WhisperModelService(storage, new WhisperWrapper());
+    const taskRepository = new TaskRepository();
+    const scheduler = new DownloadScheduler(downloader, taskRepository, storage, bandwidth);
+    const subscriptions = new SubscriptionService(storage, downloader, scheduler, taskRepository);
+
+    downloader.setNetworkProfiles(networkProfiles);
+    subtitle.setNetworkProfiles(networkProfiles);
+    updater.setNetworkProfiles(networkProfiles);
+    translation.setNetworkProfiles(networkProfiles);
+    whisperModels.setNetworkProfiles(networkProfiles);
+    subtitle.setTranslation(translation);
+    subtitle.setFfmpeg(ffmpeg);
+    subtitle.setWhisperModels(whisperModels);
+    converter.setHardwareEncoders(hardwareEncoders);
 
     this.services = {
       downloader,
+      scheduler,
+      bandwidth,
+      networkProfiles,
+      translation,
+      whisperModels,
+      subscriptions,
       subtitle,
       converter,
+      hardwareEncoders,
+      compressionQueue,
       storage,
-      updater
+      updater,
+      ffmpeg
     };
   }
 
@@ -183,11 +263,33 @@ class Application {
     if (!this.services) return;
 
     this.handlers = {
-      video: new VideoHandlers(this.services.downloader, this.services.storage),
-      subtitle: new SubtitleHandlers(this.services.subtitle, this.services.storage),
-      compression: new CompressionHandlers(this.services.converter, this.services.storage),
-      settings: new SettingsHandlers(this.services.storage, this.services.updater),
-      system: new SystemHandlers()
+      video: new VideoHandlers(
+        this.services.downloader,
+        this.services.storage,
+        this.services.scheduler
+      ),
+      subtitle: new SubtitleHandlers(
+        this.services.subtitle,
+        this.services.storage,
+        this.services.ffmpeg,
+        this.services.whisperModels
+      ),
+      compression: new CompressionHandlers(
+        this.services.converter,
+        this.services.storage,
+        this.services.ffmpeg,
+        new CompressionPresetRepository(),
+        this.services.hardwareEncoders,
+        this.services.compressionQueue
+      ),
+      settings: new SettingsHandlers(
+        this.services.storage,
+        this.services.updater,
+        this.services.networkProfiles,
+        this.services.translation
+      ),
+      system: new SystemHandlers(),
+      subscription: new SubscriptionHandlers(this.services.subscriptions)
     };
   }
 
@@ -203,6 +305,7 @@ class Application {
             "style-src 'self' 'unsafe-inline'",
             "img-src 'self' data: https:",
             "font-src 'self' data:",
+            "media-src 'self' prevideo-media:",
             "connect-src 'self' https://api.github.com"
           ].join('; ')
         }
@@ -287,9 +390,43 @@ class Application {
         callback({ error: -6 }); // FILE_NOT_FOUND
       }
     });
+
+    // Handle prevideo-media://local/<encoded file path>, limited to media opened in the editor
+    protocol.registerFileProtocol('prevideo-media', (request, callback) => {
+      const filePath = decodeURIComponent(new URL(request.url).pathname.slice(1));
+
+      if (this.handlers?.subtitle.isEditorMedia(filePath) === true && fs.existsSync(filePath)) {
+        callback({ path: filePath });
+      } else {
+        callback({ error: -6 }); // FILE_NOT_FOUND
+      }
+    });
   }
 
-  private cleanup(): void {
+  private async shutdown(): Promise<void> {
+    // Save window state
+    if (this.mainWindow?.window) {
+      const bounds = this.mainWindow.window.getBounds();
+      const isMaximized = this.mainWindow.window.isMaximized();
+
+      await this.services?.storage.saveWindowState({
+        ...bounds,
+        isMaximized
+      });
+    }
+
+    await this.cleanup();
+  }
+
+  private async cleanup(): Promise<void> {
+    // Stop running work while the handlers still listen to the services:
+    // downloads are checkpointed so they resume on the next launch, and encodes,
+    // stopped ones included, are killed so their jobs run again
+    if (this.services) {
+      await this.services.scheduler.suspendAll();
+      await this.services.compressionQueue.suspendAll();
+    }
+
     // Cleanup handlers
     if (this.handlers) {
       this.handlers.video.destroy();
@@ -297,11 +434,14 @@ class Application {
       this.handlers.compression.destroy();
       this.handlers.settings.destroy();
       this.handlers.system.destroy();
+      this.handlers.subscription.destroy();
     }
 
     // Cleanup services
     if (this.services) {
       this.services.updater.stopAutoUpdateCheck();
+      this.services.subscriptions.stopAutoSync();
+      this.services.bandwidth.stop();
     }
 
     // Cleanup tray
@@ -338,6 +478,11 @@ class Application {
     await this.services?.updater.checkForUpdates();
   }
 
+  public async syncSubscriptions(): Promise<number> {
+    const results = await this.services?.subscriptions.syncAll() || [];
+    return results.reduce((total, result) => total + result.queuedCount, 0);
+  }
+
   public openPreferences(): void {
     this.mainWindow?.window.webContents.send('open-preferences');
   }
@@ -2,27 +2,52 @@
  * Compression-related IPC handlers
  */
 
-import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { ipcMain, IpcMainInvokeEvent, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ConverterService } from '../services/converter';
 import { StorageService } from '../services/storage';
+import { FfmpegWrapper } from '../binaries/ffmpeg-wrapper';
+import { CompressionPresetRepository } from '../database/repositories/preset-repository';
+import { HardwareEncoderService } from '../services/hardware-encoders';
+import { CompressionQueue } from '../services/compression-queue';
+import { planTargetSize } from '../utils/target-size';
+import { applyPresetDefaults } from '../utils/compression-presets';
 import {
   CompressionConfig,
   CompressionTask,
   VideoResolution,
   CompressionPreset,
+  CompressionPresetInput,
+  CompressionBatchSummary,
+  CompressionJob,
   StreamingOptimization
 } from '../../shared/types/compression';
-import { VideoMetadata } from '../../shared/types/video';
+import { TaskMoveTarget } from '../../shared/types/tasks';
+import { VideoMetadata, RemuxOptions, StreamExtractOptions } from '../../shared/types/video';
 
 export class CompressionHandlers {
   private converterService: ConverterService;
   private storageService: StorageService;
-
-  constructor(converterService: ConverterService, storageService: StorageService) {
+  private ffmpeg: FfmpegWrapper;
+  private presets: CompressionPresetRepository;
+  private hardwareEncoders: HardwareEncoderService;
+  private queue: CompressionQueue;
+
+  constructor(
+    converterService: ConverterService,
+    storageService: StorageService,
+    ffmpeg: FfmpegWrapper,
+    presets: CompressionPresetRepository,
+    hardwareEncoders: HardwareEncoderService,
+    queue: CompressionQueue
+  ) {
     this.converterService = converterService;
     this.storageService = storageService;
+    this.ffmpeg = ffmpeg;
+    this.presets = presets;
+    this.hardwareEncoders = hardwareEncoders;
+    this.queue = queue;
     this.registerHandlers();
     this.setupEventForwarding();
   }
@@ -35,16 +60,7 @@ export class CompressionHandlers {
       config: CompressionConfig
     ) => {
       try {
-        // Use user preferences if not specified
-        const preferences = await this.storageService.getPreferences();
-
-        const mergedConfig: CompressionConfig = {
-          ...config,
-          preset: config.preset || preferences.compressionPreset,
-          targetFileSize: config.targetFileSize || preferences.targetFileSize,
-          hardwareAcceleration: config.hardwareAcceleration ?? preferences.hardwareAcceleration
-        };
-
+        const mergedConfig = await this.resolveConfig(config);
         const task = await this.converterService.compressVideo(inputPath, mergedConfig);
         return { success: true, data: task };
       } catch (error: any) {
@@ -111,6 +127,50 @@ export class CompressionHandlers {
       }
     });
 
+    // List the video, audio and subtitle streams in a file
+    ipcMain.handle('compress:streams:list', async (
+      event: IpcMainInvokeEvent,
+      filePath: string
+    ) => {
+      try {
+        const streams = await this.ffmpeg.getStreams(filePath);
+        return { success: true, data: streams };
+      } catch (error: any) {
+        console.error('Failed to list streams:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Extract streams to files of their own
+    ipcMain.handle('compress:streams:extract', async (
+      event: IpcMainInvokeEvent,
+      inputPath: string,
+      options: StreamExtractOptions
+    ) => {
+      try {
+        const results = await this.ffmpeg.extractStreams(inputPath, options);
+        return { success: true, data: results };
+      } catch (error: any) {
+        console.error('Failed to extract streams:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Remux with tracks added, dropped, reordered or relabelled
+    ipcMain.handle('compress:remux', async (
+      event: IpcMainInvokeEvent,
+      inputPath: string,
+      options: RemuxOptions
+    ) => {
+      try {
+        const outputPath = await this.ffmpeg.remux(inputPath, options);
+        return { success: true, data: outputPath };
+      } catch (error: any) {
+        console.error('Failed to remux:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
     // Estimate compressed file size
     ipcMain.handle('compress:estimate', async (
       event: IpcMainInvokeEvent,
@@ -142,24 +202,147 @@ export class CompressionHandlers {
       files: Array<{ inputPath: string; config: CompressionConfig }>
     ) => {
       try {
-        const tasks: CompressionTask[] = [];
-
+        const resolved = [];
         for (const file of files) {
-          try {
-            const task = await this.converterService.compressVideo(file.inputPath, file.config);
-            tasks.push(task);
-          } catch (error) {
-            console.error(`Failed to compress ${file.inputPath}:`, error);
-          }
+          resolved.push({ inputPath: file.inputPath, config: await this.resolveConfig(file.config) });
         }
 
-        return { success: true, data: tasks };
+        const jobs = await this.queue.add(resolved);
+        return { success: true, data: jobs };
       } catch (error: any) {
         console.error('Failed to batch compress:', error);
         return { success: false, error: error.message };
       }
     });
 
+    // Summary of a batch's finished files and the space they saved
+    ipcMain.handle('compress:batch:summary', async (
+      event: IpcMainInvokeEvent,
+      batchId: string
+    ) => {
+      try {
+        const summary = this.queue.getBatchSummary(batchId);
+        return { success: true, data: summary };
+      } catch (error: any) {
+        console.error('Failed to get batch summary:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // List queued, running and finished compression jobs
+    ipcMain.handle('compress:queue:list', async (event: IpcMainInvokeEvent) => {
+      try {
+        return { success: true, data: { jobs: this.queue.list(), paused: this.queue.isPaused() } };
+      } catch (error: any) {
+        console.error('Failed to list compression queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Pause the whole compression queue
+    ipcMain.handle('compress:queue:pause', async (event: IpcMainInvokeEvent) => {
+      try {
+        await this.queue.pauseAll();
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to pause compression queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Resume the whole compression queue
+    ipcMain.handle('compress:queue:resume', async (event: IpcMainInvokeEvent) => {
+      try {
+        await this.queue.resumeAll();
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to resume compression queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Drop finished jobs from the queue
+    ipcMain.handle('compress:queue:clear-finished', async (event: IpcMainInvokeEvent) => {
+      try {
+        this.queue.clearFinished();
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to clear compression queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Pause a queued or running job
+    ipcMain.handle('compress:job:pause', async (
+      event: IpcMainInvokeEvent,
+      jobId: string
+    ) => {
+      try {
+        await this.queue.pause(jobId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to pause compression job:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Put a paused job back in line
+    ipcMain.handle('compress:job:resume', async (
+      event: IpcMainInvokeEvent,
+      jobId: string
+    ) => {
+      try {
+        await this.queue.resume(jobId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to resume compression job:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Move a waiting job within the queue
+    ipcMain.handle('compress:job:move', async (
+      event: IpcMainInvokeEvent,
+      jobId: string,
+      target: TaskMoveTarget
+    ) => {
+      try {
+        await this.queue.move(jobId, target);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to move compression job:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Cancel a queued, paused or running job
+    ipcMain.handle('compress:job:cancel', async (
+      event: IpcMainInvokeEvent,
+      jobId: string
+    ) => {
+      try {
+        await this.queue.cancel(jobId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to cancel compression job:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Hardware encoders that work here, cached per ffmpeg build unless refresh is set
+    ipcMain.handle('compress:hardware:probe', async (
+      event: IpcMainInvokeEvent,
+      refresh?: boolean
+    ) => {
+      try {
+        const probe = await this.hardwareEncoders.getEncoders(refresh === true);
+        return { success: true, data: probe };
+      } catch (error: any) {
+        console.error('Failed to probe hardware encoders:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
     // Get recommended settings for file size
     ipcMain.handle('compress:recommend', async (
       event: IpcMainInvokeEvent,
@@ -172,54 +355,45 @@ export class CompressionHandlers {
         const compressionRatio = targetSize / currentSize;
 
         let resolution: VideoResolution = '1080p';
-        let crf = 23;
         let preset: CompressionPreset = 'medium';
-        let videoBitrate: number | undefined;
 
         // Determine resolution based on compression ratio
         if (compressionRatio < 0.1) {
           resolution = '240p';
-          crf = 33;
           preset = 'fast';
         } else if (compressionRatio < 0.2) {
           resolution = '360p';
-          crf = 28;
           preset = 'fast';
         } else if (compressionRatio < 0.3) {
           resolution = '480p';
-          crf = 26;
           preset = 'medium';
         } else if (compressionRatio < 0.5) {
           resolution = '720p';
-          crf = 24;
           preset = 'medium';
         } else if (compressionRatio < 0.7) {
           resolution = '1080p';
-          crf = 23;
           preset = 'medium';
         } else {
           // Original resolution with slight compression
           resolution = 'original';
-          crf = 20;
           preset = 'slow';
         }
 
-        // Calculate bitrate for target size
-        const targetBitrate = (targetSize * 8) / metadata.duration / 1000; // kbps
-        videoBitrate = Math.floor(targetBitrate * 0.9); // 90% for video, 10% for audio
+        // Bitrates that fill the target; compress:start re-encodes if the output is over
+        const plan = planTargetSize({ outputFormat: 'mp4', targetFileSize: targetSize }, metadata.duration);
 
         const config: CompressionConfig = {
           id: `recommend-${Date.now()}`,
           outputFormat: 'mp4',
           resolution,
-          videoBitrate,
-          audioBitrate: 128,
+          videoBitrate: plan.videoBitrate,
+          audioBitrate: plan.audioBitrate,
           videoCodec: 'libx264',
           audioCodec: 'aac',
           preset,
-          crf,
-          twoPass: compressionRatio < 0.3,
-          targetFileSize: targetSize
+          twoPass: true,
+          targetFileSize: targetSize,
+          maxFileSize: targetSize
         };
 
         return { success: true, data: config };
@@ -472,59 +646,138 @@ export class CompressionHandlers {
     // Get compression presets
     ipcMain.handle('compress:presets:list', async (event: IpcMainInvokeEvent) => {
       try {
-        const presets = [
-          {
-            name: 'High Quality',
-            config: {
-              resolution: 'original',
-              crf: 18,
-              preset: 'slow',
-              videoBitrate: 10000,
-              audioBitrate: 320
-            },
-            description: '最高质量，文件较大'
-          },
-          {
-            name: 'Balanced',
-            config: {
-              resolution: '1080p',
-              crf: 23,
-              preset: 'medium',
-              videoBitrate: 5000,
-              audioBitrate: 192
-            },
-            description: '平衡质量与大小'
-          },
-          {
-            name: 'Small Size',
-            config: {
-              resolution: '720p',
-              crf: 28,
-              preset: 'fast',
-              videoBitrate: 2000,
-              audioBitrate: 128
-            },
-            description: '小文件，适合分享'
-          },
-          {
-            name: 'Mobile',
-            config: {
-              resolution: '480p',
-              crf: 30,
-              preset: 'fast',
-              videoBitrate: 1000,
-              audioBitrate: 96
-            },
-            description: '移动设备优化'
-          }
-        ];
-
+        const presets = await this.presets.getAll();
         return { success: true, data: presets };
       } catch (error: any) {
         console.error('Failed to list presets:', error);
         return { success: false, error: error.message };
       }
     });
+
+    // Save a compression preset
+    ipcMain.handle('compress:presets:create', async (
+      event: IpcMainInvokeEvent,
+      input: CompressionPresetInput
+    ) => {
+      try {
+        const preset = await this.presets.create(input);
+        return { success: true, data: preset };
+      } catch (error: any) {
+        console.error('Failed to create preset:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Update a compression preset
+    ipcMain.handle('compress:presets:update', async (
+      event: IpcMainInvokeEvent,
+      id: string,
+      input: Partial<CompressionPresetInput>
+    ) => {
+      try {
+        const preset = await this.presets.update(id, input);
+        return { success: true, data: preset };
+      } catch (error: any) {
+        console.error('Failed to update preset:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Delete a compression preset
+    ipcMain.handle('compress:presets:delete', async (
+      event: IpcMainInvokeEvent,
+      id: string
+    ) => {
+      try {
+        await this.presets.delete(id);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to delete preset:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Make a preset the default for its output format
+    ipcMain.handle('compress:presets:set-default', async (
+      event: IpcMainInvokeEvent,
+      id: string
+    ) => {
+      try {
+        const preset = await this.presets.setDefault(id);
+        return { success: true, data: preset };
+      } catch (error: any) {
+        console.error('Failed to set default preset:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Export presets to a JSON file, all of them when no ids are given
+    ipcMain.handle('compress:presets:export', async (
+      event: IpcMainInvokeEvent,
+      ids?: string[]
+    ) => {
+      try {
+        const result = await dialog.showSaveDialog({
+          title: '导出压缩预设',
+          defaultPath: `prevideo-presets-${Date.now()}.json`,
+          filters: [
+            { name: 'JSON Files', extensions: ['json'] },
+            { name: 'All Files', extensions: ['*'] }
+          ]
+        });
+
+        if (!result.canceled && result.filePath) {
+          const data = await this.presets.exportPresets(ids);
+          fs.writeFileSync(result.filePath, data, 'utf-8');
+          return { success: true, data: result.filePath };
+        }
+
+        return { success: false, error: 'Export cancelled' };
+      } catch (error: any) {
+        console.error('Failed to export presets:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Import presets from a JSON file
+    ipcMain.handle('compress:presets:import', async (event: IpcMainInvokeEvent) => {
+      try {
+        const result = await dialog.showOpenDialog({
+          title: '导入压缩预设',
+          filters: [
+            { name: 'JSON Files', extensions: ['json'] },
+            { name: 'All Files', extensions: ['*'] }
+          ],
+          properties: ['openFile']
+        });
+
+        if (!result.canceled && result.filePaths.length > 0) {
+          const data = fs.readFileSync(result.filePaths[0], 'utf-8');
+          const presets = await this.presets.importPresets(data);
+          return { success: true, data: presets };
+        }
+
+        return { success: false, error: 'Import cancelled' };
+      } catch (error: any) {
+        console.error('Failed to import presets:', error);
+        return { success: false, error: error.message };
+      }
+    });
+  }
+
+  /**
+   * Fill in what a request's config leaves unset from the output format's
+   * default preset, then user preferences
+   */
+  private async resolveConfig(config: CompressionConfig): Promise<CompressionConfig> {
+    const preferences = await this.storageService.getPreferences();
+    const merged = applyPresetDefaults(config, (await this.presets.getDefault(config.outputFormat))?.config);
+
+    return {
+      ...merged,
+      preset: merged.preset || preferences.compressionPreset,
+      hardwareAcceleration: merged.hardwareAcceleration ?? preferences.hardwareAcceleration
+    };
   }
 
   private setupEventForwarding(): void {
@@ -552,6 +805,16 @@ export class CompressionHandlers {
     this.converterService.on('compression-cancelled', (taskId: string) => {
       this.sendToAllWindows('compress:cancelled', { taskId });
     });
+
+    // Forward queue changes
+    this.queue.on('queue-updated', (jobs: CompressionJob[]) => {
+      this.sendToAllWindows('compress:queue:updated', { jobs, paused: this.queue.isPaused() });
+    });
+
+    // Forward batch summaries
+    this.queue.on('batch-complete', (summary: CompressionBatchSummary) => {
+      this.sendToAllWindows('compress:batch:complete', summary);
+    });
   }
 
   private sendToAllWindows(channel: string, data: any): void {
@@ -563,5 +826,6 @@ export class CompressionHandlers {
 
   destroy(): void {
     this.converterService.removeAllListeners();
+    this.queue.removeAllListeners();
   }
 }
\ No newline at end of file
@@ -7,6 +7,10 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { StorageService } from '../services/storage';
 import { UpdateService } from '../services/updater';
+import { NetworkProfileService } from '../services/network-profiles';
+import { NetworkProfileInput } from '../../shared/types/network';
+import { TranslationService } from '../services/translation';
+import { TranslationProviderInput } from '../../shared/types/translation';
 import {
   UserPreferences,
   AppSettings,
@@ -17,10 +21,19 @@ import {
 export class SettingsHandlers {
   private storageService: StorageService;
   private updateService: UpdateService;
-
-  constructor(storageService: StorageService, updateService: UpdateService) {
+  private networkProfiles: NetworkProfileService;
+  private translation: TranslationService;
+
+  constructor(
+    storageService: StorageService,
+    updateService: UpdateService,
+    networkProfiles: NetworkProfileService,
+    translation: TranslationService
+  ) {
     this.storageService = storageService;
     this.updateService = updateService;
+    this.networkProfiles = networkProfiles;
+    this.translation = translation;
     this.registerHandlers();
   }
 
@@ -254,6 +267,9 @@ export class SettingsHandlers {
         }
 
         await this.storageService.savePreferences(preferences);
+
+        // yt-dlp and update checks pick the proxy up from the default profile
+        await this.networkProfiles.setDefaultProxy(proxyUrl);
         return { success: true };
       } catch (error: any) {
         console.error('Failed to set proxy:', error);
@@ -261,6 +277,174 @@ export class SettingsHandlers {
       }
     });
 
+    // List network profiles
+    ipcMain.handle('settings:network:list', async (event: IpcMainInvokeEvent) => {
+      try {
+        return { success: true, data: this.networkProfiles.listProfiles() };
+      } catch (error: any) {
+        console.error('Failed to list network profiles:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Create network profile
+    ipcMain.handle('settings:network:create', async (
+      event: IpcMainInvokeEvent,
+      profile: NetworkProfileInput
+    ) => {
+      try {
+        const created = await this.networkProfiles.createProfile(profile);
+        return { success: true, data: created };
+      } catch (error: any) {
+        console.error('Failed to create network profile:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Update network profile
+    ipcMain.handle('settings:network:update', async (
+      event: IpcMainInvokeEvent,
+      profileId: string,
+      profile: NetworkProfileInput
+    ) => {
+      try {
+        const updated = await this.networkProfiles.updateProfile(profileId, profile);
+        return { success: true, data: updated };
+      } catch (error: any) {
+        console.error('Failed to update network profile:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Delete network profile
+    ipcMain.handle('settings:network:delete', async (
+      event: IpcMainInvokeEvent,
+      profileId: string
+    ) => {
+      try {
+        await this.networkProfiles.deleteProfile(profileId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to delete network profile:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Set default network profile (null for a direct connection)
+    ipcMain.handle('settings:network:set-default', async (
+      event: IpcMainInvokeEvent,
+      profileId: string | null
+    ) => {
+      try {
+        await this.networkProfiles.setDefaultProfile(profileId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to set default network profile:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Select a cookies.txt file for a network profile
+    ipcMain.handle('settings:network:select-cookies', async (event: IpcMainInvokeEvent) => {
+      try {
+        const result = await dialog.showOpenDialog({
+          title: '选择 Cookie 文件',
+          filters: [
+            { name: 'Cookies', extensions: ['txt'] },
+            { name: 'All Files', extensions: ['*'] }
+          ],
+          properties: ['openFile']
+        });
+
+        if (!result.canceled && result.filePaths.length > 0) {
+          return { success: true, data: result.filePaths[0] };
+        }
+
+        return { success: false, error: 'No file selected' };
+      } catch (error: any) {
+        console.error('Failed to select cookies file:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // List translation providers
+    ipcMain.handle('settings:translation:list', async (event: IpcMainInvokeEvent) => {
+      try {
+        return { success: true, data: this.translation.listProviders() };
+      } catch (error: any) {
+        console.error('Failed to list translation providers:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Create translation provider
+    ipcMain.handle('settings:translation:create', async (
+      event: IpcMainInvokeEvent,
+      provider: TranslationProviderInput
+    ) => {
+      try {
+        const created = await this.translation.createProvider(provider);
+        return { success: true, data: created };
+      } catch (error: any) {
+        console.error('Failed to create translation provider:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Update translation provider
+    ipcMain.handle('settings:translation:update', async (
+      event: IpcMainInvokeEvent,
+      providerId: string,
+      provider: TranslationProviderInput
+    ) => {
+      try {
+        const updated = await this.translation.updateProvider(providerId, provider);
+        return { success: true, data: updated };
+      } catch (error: any) {
+        console.error('Failed to update translation provider:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Delete translation provider
+    ipcMain.handle('settings:translation:delete', async (
+      event: IpcMainInvokeEvent,
+      providerId: string
+    ) => {
+      try {
+        await this.translation.deleteProvider(providerId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to delete translation provider:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Set default translation provider
+    ipcMain.handle('settings:translation:set-default', async (
+      event: IpcMainInvokeEvent,
+      providerId: string
+    ) => {
+      try {
+        await this.translation.setDefaultProvider(providerId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to set default translation provider:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Clear cached translations
+    ipcMain.handle('settings:translation:clear-cache', async (event: IpcMainInvokeEvent) => {
+      try {
+        await this.translation.clearCache();
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to clear translation cache:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
     // Get system info
     ipcMain.handle('settings:system:info', async (event: IpcMainInvokeEvent) => {
       try {
@@ -0,0 +1,112 @@
+/**
+ * Subscription-related IPC handlers
+ */
+
+import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { SubscriptionService } from '../services/subscriptions';
+import {
+  Subscription,
+  CreateSubscriptionOptions,
+  SubscriptionSyncResult
+} from '../../shared/types/subscription';
+
+export class SubscriptionHandlers {
+  private subscriptionService: SubscriptionService;
+
+  constructor(subscriptionService: SubscriptionService) {
+    this.subscriptionService = subscriptionService;
+    this.registerHandlers();
+    this.setupEventForwarding();
+  }
+
+  private registerHandlers(): void {
+    // List subscriptions
+    ipcMain.handle('subscription:list', async (event: IpcMainInvokeEvent) => {
+      try {
+        const subscriptions = await this.subscriptionService.listSubscriptions();
+        return { success: true, data: subscriptions };
+      } catch (error: any) {
+        console.error('Failed to list subscriptions:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Subscribe to a playlist or channel
+    ipcMain.handle('subscription:create', async (
+      event: IpcMainInvokeEvent,
+      url: string,
+      options?: CreateSubscriptionOptions
+    ) => {
+      try {
+        const subscription = await this.subscriptionService.createSubscription(url, options);
+        return { success: true, data: subscription };
+      } catch (error: any) {
+        console.error('Failed to create subscription:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Update subscription settings
+    ipcMain.handle('subscription:update', async (
+      event: IpcMainInvokeEvent,
+      subscriptionId: string,
+      updates: Partial<Pick<Subscription, 'title' | 'enabled' | 'checkIntervalMinutes' | 'defaults'>>
+    ) => {
+      try {
+        const subscription = await this.subscriptionService.updateSubscription(subscriptionId, updates);
+        return { success: true, data: subscription };
+      } catch (error: any) {
+        console.error('Failed to update subscription:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Unsubscribe
+    ipcMain.handle('subscription:delete', async (
+      event: IpcMainInvokeEvent,
+      subscriptionId: string
+    ) => {
+      try {
+        await this.subscriptionService.deleteSubscription(subscriptionId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to delete subscription:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Check one subscription, or all of them, for new items now
+    ipcMain.handle('subscription:sync', async (
+      event: IpcMainInvokeEvent,
+      subscriptionId?: string
+    ) => {
+      try {
+        const results = subscriptionId
+          ? [await this.subscriptionService.syncSubscription(subscriptionId)]
+          : await this.subscriptionService.syncAll();
+        return { success: true, data: results };
+      } catch (error: any) {
+        console.error('Failed to sync subscriptions:', error);
+        return { success: false, error: error.message };
+      }
+    });
+  }
+
+  private setupEventForwarding(): void {
+    // Forward sync results, including those of scheduled checks
+    this.subscriptionService.on('subscription-synced', (result: SubscriptionSyncResult) => {
+      this.sendToAllWindows('subscription:synced', result);
+    });
+  }
+
+  private sendToAllWindows(channel: string, data: any): void {
+    const { BrowserWindow } = require('electron');
+    BrowserWindow.getAllWindows().forEach(window => {
+      window.webContents.send(channel, data);
+    });
+  }
+
+  destroy(): void {
+    this.subscriptionService.removeAllListeners('subscription-synced');
+  }
+}
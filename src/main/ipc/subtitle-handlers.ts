@@ -2,26 +2,53 @@
  * Subtitle-related IPC handlers
  */
 
-import { ipcMain, IpcMainInvokeEvent } from 'electron';
+import { ipcMain, IpcMainInvokeEvent, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import { SubtitleService } from '../services/subtitles';
 import { StorageService } from '../services/storage';
+import { WhisperModelService } from '../services/whisper-models';
+import { FfmpegWrapper } from '../binaries/ffmpeg-wrapper';
 import {
   Subtitle,
   SubtitleInfo,
   SubtitleGenerationOptions,
   EmbedSubtitleOptions,
-  BilingualSubtitleConfig
+  BilingualSubtitleConfig,
+  SubtitleFormat,
+  SubtitleTimestamp,
+  SubtitleSyncOptions,
+  SubtitleAutoSyncOptions,
+  SubtitleLintOptions,
+  WhisperModelDownloadProgress
 } from '../../shared/types/subtitle';
+import { SubtitleTranslationOptions, TranslationProgress } from '../../shared/types/translation';
+import { DEFAULT_PEAKS_PER_SECOND, MAX_PEAKS_PER_SECOND, VOICE_BAND_FILTER } from '../utils/waveform';
+import {
+  detectSubtitleFormat,
+  isSubtitleFormat,
+  parseSubtitle,
+  toTimestamps
+} from '../utils/subtitle-formats';
 
 export class SubtitleHandlers {
   private subtitleService: SubtitleService;
   private storageService: StorageService;
-
-  constructor(subtitleService: SubtitleService, storageService: StorageService) {
+  private ffmpeg: FfmpegWrapper;
+  private whisperModels: WhisperModelService;
+  // Videos picked for the editor; the prevideo-media protocol serves only these
+  private editorMedia: Set<string> = new Set();
+
+  constructor(
+    subtitleService: SubtitleService,
+    storageService: StorageService,
+    ffmpeg: FfmpegWrapper,
+    whisperModels: WhisperModelService
+  ) {
     this.subtitleService = subtitleService;
     this.storageService = storageService;
+    this.ffmpeg = ffmpeg;
+    this.whisperModels = whisperModels;
     this.registerHandlers();
     this.setupEventForwarding();
   }
@@ -66,11 +93,18 @@ export class SubtitleHandlers {
 
         const mergedOptions: SubtitleGenerationOptions = {
           language: options.language || preferences.language,
-          model: options.model || 'base',
+          model: options.model,
           translate: options.translate || false,
           detectLanguage: options.detectLanguage || !options.language,
           task: options.task || 'transcribe',
-          outputFormat: options.outputFormat || 'srt'
+          outputFormat: options.outputFormat || 'srt',
+          wordTimestamps: options.wordTimestamps,
+          maxLineLength: options.maxLineLength,
+          maxLines: options.maxLines,
+          maxCueDuration: options.maxCueDuration,
+          workers: options.workers,
+          diarization: options.diarization,
+          lint: options.lint
         };
 
         const subtitle = await this.subtitleService.generateSubtitle(videoPath, mergedOptions);
@@ -81,6 +115,20 @@ export class SubtitleHandlers {
       }
     });
 
+    // Cancel subtitle generation, finished chunks are kept for the next run
+    ipcMain.handle('subtitle:generate:cancel', async (
+      event: IpcMainInvokeEvent,
+      taskId: string
+    ) => {
+      try {
+        const cancelled = this.subtitleService.cancelGeneration(taskId);
+        return { success: true, data: cancelled };
+      } catch (error: any) {
+        console.error('Failed to cancel subtitle generation:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
     // Embed subtitles into video
     ipcMain.handle('subtitle:embed', async (
       event: IpcMainInvokeEvent,
@@ -114,17 +162,19 @@ export class SubtitleHandlers {
           config.secondaryLanguage
         );
 
-        // Create embed options
+        // Create embed options; both tracks are merged into one ASS track
         const embedOptions: EmbedSubtitleOptions = {
           primarySubtitle,
           secondarySubtitle,
           layout: config.layout,
+          primaryPosition: config.primaryPosition,
+          secondaryPosition: config.secondaryPosition,
           styling: config.styling,
           outputPath: videoPath.replace(
             path.extname(videoPath),
             `-bilingual-${config.primaryLanguage}-${config.secondaryLanguage}${path.extname(videoPath)}`
           ),
-          hardSub: true
+          hardSub: config.hardSub ?? true
         };
 
         const task = await this.subtitleService.embedSubtitles(videoPath, embedOptions);
@@ -135,13 +185,33 @@ export class SubtitleHandlers {
       }
     });
 
+    // Merge two subtitles into one styled ASS subtitle
+    ipcMain.handle('subtitle:bilingual:merge', async (
+      event: IpcMainInvokeEvent,
+      primarySubtitle: Subtitle,
+      secondarySubtitle: Subtitle,
+      config: BilingualSubtitleConfig
+    ) => {
+      try {
+        const merged = this.subtitleService.mergeSubtitles(primarySubtitle, secondarySubtitle, config);
+        return { success: true, data: merged };
+      } catch (error: any) {
+        console.error('Failed to merge subtitles:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
     // Convert subtitle format
     ipcMain.handle('subtitle:convert', async (
       event: IpcMainInvokeEvent,
       subtitle: Subtitle,
-      targetFormat: 'srt' | 'vtt' | 'ass'
+      targetFormat: SubtitleFormat
     ) => {
       try {
+        if (!isSubtitleFormat(targetFormat)) {
+          throw new Error(`Unsupported subtitle format: ${String(targetFormat)}`);
+        }
+
         const converted = await this.subtitleService.convertFormat(subtitle, targetFormat);
         return { success: true, data: converted };
       } catch (error: any) {
@@ -154,10 +224,13 @@ export class SubtitleHandlers {
     ipcMain.handle('subtitle:save', async (
       event: IpcMainInvokeEvent,
       subtitle: Subtitle,
-      filePath: string
+      filePath: string,
+      timestamps?: SubtitleTimestamp[]
     ) => {
       try {
-        fs.writeFileSync(filePath, subtitle.content, 'utf-8');
+        // Edited cues replace the ones in the content
+        const saved = timestamps ? this.subtitleService.applyEdits(subtitle, timestamps) : subtitle;
+        fs.writeFileSync(filePath, saved.content, 'utf-8');
         return { success: true, data: filePath };
       } catch (error: any) {
         console.error('Failed to save subtitle:', error);
@@ -176,7 +249,10 @@ export class SubtitleHandlers {
         }
 
         const content = fs.readFileSync(filePath, 'utf-8');
-        const format = path.extname(filePath).substring(1) as 'srt' | 'vtt' | 'ass';
+        const format = detectSubtitleFormat(content, filePath);
+        if (!format) {
+          throw new Error('Unsupported subtitle format');
+        }
 
         const subtitle: Subtitle = {
           id: `loaded-${Date.now()}`,
@@ -185,7 +261,8 @@ export class SubtitleHandlers {
           languageName: '',
           format,
           content,
-          isAutoGenerated: false
+          isAutoGenerated: false,
+          timestamps: toTimestamps(parseSubtitle(content, format))
         };
 
         return { success: true, data: subtitle };
@@ -195,14 +272,73 @@ export class SubtitleHandlers {
       }
     });
 
-    // Sync subtitle timing
+    // List subtitle speakers
+    ipcMain.handle('subtitle:speakers:list', async (event: IpcMainInvokeEvent, subtitle: Subtitle) => {
+      try {
+        const speakers = this.subtitleService.listSpeakers(subtitle);
+        return { success: true, data: speakers };
+      } catch (error: any) {
+        console.error('Failed to list speakers:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Rename subtitle speakers
+    ipcMain.handle('subtitle:speakers:rename', async (
+      event: IpcMainInvokeEvent,
+      subtitle: Subtitle,
+      names: Record<string, string>
+    ) => {
+      try {
+        const renamed = this.subtitleService.renameSpeakers(subtitle, names);
+        return { success: true, data: renamed };
+      } catch (error: any) {
+        console.error('Failed to rename speakers:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Check subtitle quality against a rule set
+    ipcMain.handle('subtitle:lint', async (
+      event: IpcMainInvokeEvent,
+      subtitle: Subtitle,
+      options?: SubtitleLintOptions
+    ) => {
+      try {
+        const issues = this.subtitleService.lintSubtitle(subtitle, options);
+        return { success: true, data: issues };
+      } catch (error: any) {
+        console.error('Failed to lint subtitle:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Fix the issues a rule set can fix automatically
+    ipcMain.handle('subtitle:fix', async (
+      event: IpcMainInvokeEvent,
+      subtitle: Subtitle,
+      options?: SubtitleLintOptions
+    ) => {
+      try {
+        const result = this.subtitleService.fixSubtitle(subtitle, options);
+        return { success: true, data: result };
+      } catch (error: any) {
+        console.error('Failed to fix subtitle:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Sync subtitle timing, a number is a constant offset in ms
     ipcMain.handle('subtitle:sync', async (
       event: IpcMainInvokeEvent,
       subtitle: Subtitle,
-      offsetMs: number
+      options: number | SubtitleSyncOptions
     ) => {
       try {
-        const synced = this.syncSubtitleTiming(subtitle, offsetMs);
+        const syncOptions: SubtitleSyncOptions = typeof options === 'number'
+          ? { mode: 'offset', offsetMs: options }
+          : options;
+        const synced = this.subtitleService.syncSubtitle(subtitle, syncOptions);
         return { success: true, data: synced };
       } catch (error: any) {
         console.error('Failed to sync subtitle:', error);
@@ -210,24 +346,39 @@ export class SubtitleHandlers {
       }
     });
 
-    // Translate subtitle
-    ipcMain.handle('subtitle:translate', async (
+    // Sync subtitle timing to the speech in a video's audio track
+    ipcMain.handle('subtitle:auto-sync', async (
       event: IpcMainInvokeEvent,
+      subtitle: Subtitle,
       videoPath: string,
-      sourceLanguage: string,
-      targetLanguage: string
+      options?: SubtitleAutoSyncOptions
     ) => {
       try {
-        // Use Whisper to translate
-        const options: SubtitleGenerationOptions = {
-          language: targetLanguage,
-          model: 'base',
-          translate: true,
-          task: 'translate',
-          outputFormat: 'srt'
-        };
+        if (!fs.existsSync(videoPath)) {
+          throw new Error('Video file not found');
+        }
+
+        const audio = await this.ffmpeg.extractWaveform(videoPath, DEFAULT_PEAKS_PER_SECOND, VOICE_BAND_FILTER);
+        const result = this.subtitleService.autoSyncSubtitle(subtitle, audio, options);
+        return { success: true, data: result };
+      } catch (error: any) {
+        console.error('Failed to auto-sync subtitle:', error);
+        return { success: false, error: error.message };
+      }
+    });
 
-        const translated = await this.subtitleService.generateSubtitle(videoPath, options);
+    // Translate subtitle text with a translation provider
+    ipcMain.handle('subtitle:translate', async (
+      event: IpcMainInvokeEvent,
+      subtitle: Subtitle,
+      options: SubtitleTranslationOptions
+    ) => {
+      try {
+        if (!options?.targetLanguage) {
+          throw new Error('Target language is required');
+        }
+
+        const translated = await this.subtitleService.translateSubtitle(subtitle, options);
         return { success: true, data: translated };
       } catch (error: any) {
         console.error('Failed to translate subtitle:', error);
@@ -235,14 +386,14 @@ export class SubtitleHandlers {
       }
     });
 
-    // Extract subtitles from video
+    // Extract an embedded subtitle stream, the default one when no index is given
     ipcMain.handle('subtitle:extract', async (
       event: IpcMainInvokeEvent,
       videoPath: string,
-      streamIndex: number = 0
+      streamIndex?: number
     ) => {
       try {
-        const subtitle = await this.extractSubtitleFromVideo(videoPath, streamIndex);
+        const subtitle = await this.subtitleService.extractSubtitle(videoPath, streamIndex);
         return { success: true, data: subtitle };
       } catch (error: any) {
         console.error('Failed to extract subtitle:', error);
@@ -266,17 +417,58 @@ export class SubtitleHandlers {
       }
     });
 
-    // Get Whisper models
-    ipcMain.handle('subtitle:models:list', async (event: IpcMainInvokeEvent) => {
+    // Get audio waveform peaks for the subtitle editor timeline
+    ipcMain.handle('subtitle:waveform', async (
+      event: IpcMainInvokeEvent,
+      videoPath: string,
+      peaksPerSecond?: number
+    ) => {
       try {
-        const models = [
-          { name: 'tiny', size: '39 MB', languages: 'All', quality: 'Fastest, lower accuracy' },
-          { name: 'base', size: '74 MB', languages: 'All', quality: 'Fast, good accuracy' },
-          { name: 'small', size: '244 MB', languages: 'All', quality: 'Balanced speed and accuracy' },
-          { name: 'medium', size: '769 MB', languages: 'All', quality: 'Slower, better accuracy' },
-          { name: 'large', size: '1550 MB', languages: 'All', quality: 'Slowest, best accuracy' }
-        ];
+        if (!fs.existsSync(videoPath)) {
+          throw new Error('Video file not found');
+        }
 
+        const rate = Math.min(MAX_PEAKS_PER_SECOND, Math.max(1, Math.round(peaksPerSecond ?? DEFAULT_PEAKS_PER_SECOND)));
+        const waveform = await this.ffmpeg.extractWaveform(videoPath, rate);
+        return { success: true, data: waveform };
+      } catch (error: any) {
+        console.error('Failed to get waveform:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Select a subtitle or video file for the subtitle editor
+    ipcMain.handle('subtitle:select-file', async (
+      event: IpcMainInvokeEvent,
+      kind: 'subtitle' | 'video'
+    ) => {
+      try {
+        const result = await dialog.showOpenDialog({
+          title: kind === 'video' ? '选择视频文件' : '选择字幕文件',
+          filters: kind === 'video'
+            ? [{ name: 'Videos', extensions: ['mp4', 'mkv', 'webm', 'mov', 'avi', 'flv', 'm4v', 'mp3', 'm4a', 'wav'] }]
+            : [{ name: 'Subtitles', extensions: ['srt', 'vtt', 'ass', 'ssa', 'ttml', 'dfxp', 'xml', 'sbv', 'lrc', 'json'] }],
+          properties: ['openFile']
+        });
+
+        if (!result.canceled && result.filePaths.length > 0) {
+          if (kind === 'video') {
+            this.editorMedia.add(path.normalize(result.filePaths[0]));
+          }
+          return { success: true, data: result.filePaths[0] };
+        }
+
+        return { success: false, error: 'No file selected' };
+      } catch (error: any) {
+        console.error('Failed to select file:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // List Whisper models with install state and disk usage
+    ipcMain.handle('subtitle:models:list', async (event: IpcMainInvokeEvent) => {
+      try {
+        const models = await this.whisperModels.listModels();
         return { success: true, data: models };
       } catch (error: any) {
         console.error('Failed to list models:', error);
@@ -284,20 +476,94 @@ export class SubtitleHandlers {
       }
     });
 
-    // Download Whisper model
+    // Download Whisper model, resuming an interrupted download
     ipcMain.handle('subtitle:model:download', async (
       event: IpcMainInvokeEvent,
-      modelName: string
+      modelId: string
     ) => {
       try {
-        // Implementation would download the model
-        // For now, return success
-        return { success: true, data: { model: modelName, path: `/models/${modelName}.bin` } };
+        const modelPath = await this.whisperModels.downloadModel(modelId);
+        return { success: true, data: { model: modelId, path: modelPath } };
       } catch (error: any) {
         console.error('Failed to download model:', error);
         return { success: false, error: error.message };
       }
     });
+
+    // Cancel Whisper model download
+    ipcMain.handle('subtitle:model:download:cancel', async (event: IpcMainInvokeEvent, modelId: string) => {
+      try {
+        const cancelled = this.whisperModels.cancelDownload(modelId);
+        return { success: true, data: cancelled };
+      } catch (error: any) {
+        console.error('Failed to cancel model download:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Delete Whisper model
+    ipcMain.handle('subtitle:model:delete', async (event: IpcMainInvokeEvent, modelId: string) => {
+      try {
+        await this.whisperModels.deleteModel(modelId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to delete model:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Import Whisper model file, asking for it when no path is given
+    ipcMain.handle('subtitle:model:import', async (event: IpcMainInvokeEvent, filePath?: string) => {
+      try {
+        if (!filePath) {
+          const result = await dialog.showOpenDialog({
+            title: 'Import Whisper Model',
+            filters: [
+              { name: 'Model Files', extensions: ['bin', 'ggml'] },
+              { name: 'All Files', extensions: ['*'] }
+            ],
+            properties: ['openFile']
+          });
+
+          if (result.canceled || result.filePaths.length === 0) {
+            return { success: false, error: 'No file selected' };
+          }
+          filePath = result.filePaths[0];
+        }
+
+        const modelId = await this.whisperModels.importModel(filePath);
+        return { success: true, data: modelId };
+      } catch (error: any) {
+        console.error('Failed to import model:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Set default Whisper model for a language ('*' for all others), null to clear
+    ipcMain.handle('subtitle:model:set-default', async (
+      event: IpcMainInvokeEvent,
+      language: string,
+      modelId: string | null
+    ) => {
+      try {
+        await this.whisperModels.setDefaultModel(language, modelId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to set default model:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Set Whisper model mirror, null for the default
+    ipcMain.handle('subtitle:model:set-mirror', async (event: IpcMainInvokeEvent, mirrorUrl: string | null) => {
+      try {
+        await this.whisperModels.setMirrorUrl(mirrorUrl);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to set model mirror:', error);
+        return { success: false, error: error.message };
+      }
+    });
   }
 
   private setupEventForwarding(): void {
@@ -310,6 +576,16 @@ export class SubtitleHandlers {
     this.subtitleService.on('embed-progress', (taskId: string, task: any) => {
       this.sendToAllWindows('subtitle:embed:progress', { taskId, task });
     });
+
+    // Forward translation progress
+    this.subtitleService.on('translate-progress', (subtitleId: string, progress: TranslationProgress) => {
+      this.sendToAllWindows('subtitle:translate:progress', progress);
+    });
+
+    // Forward model download progress
+    this.whisperModels.on('download-progress', (progress: WhisperModelDownloadProgress) => {
+      this.sendToAllWindows('subtitle:model:download:progress', progress);
+    });
   }
 
   private async getOrGenerateSubtitle(
@@ -326,10 +602,9 @@ export class SubtitleHandlers {
       console.log(`Could not download subtitle for ${language}, generating instead`);
     }
 
-    // Generate if download fails
+    // Generate if download fails, with the user's default model for the language
     const options: SubtitleGenerationOptions = {
       language,
-      model: 'base',
       outputFormat: 'srt'
     };
 
@@ -357,106 +632,6 @@ export class SubtitleHandlers {
     return 'unknown';
   }
 
-  private syncSubtitleTiming(subtitle: Subtitle, offsetMs: number): Subtitle {
-    const lines = subtitle.content.split('\n');
-    const synced: string[] = [];
-
-    for (const line of lines) {
-      if (subtitle.format === 'srt') {
-        // Match SRT timestamp format
-        const match = line.match(/(\d{2}:\d{2}:\d{2},\d{3}) --> (\d{2}:\d{2}:\d{2},\d{3})/);
-        if (match) {
-          const start = this.adjustTimestamp(match[1], offsetMs);
-          const end = this.adjustTimestamp(match[2], offsetMs);
-          synced.push(`${start} --> ${end}`);
-        } else {
-          synced.push(line);
-        }
-      } else if (subtitle.format === 'vtt') {
-        // Match VTT timestamp format
-        const match = line.match(/(\d{2}:\d{2}:\d{2}\.\d{3}) --> (\d{2}:\d{2}:\d{2}\.\d{3})/);
-        if (match) {
-          const start = this.adjustTimestamp(match[1].replace('.', ','), offsetMs).replace(',', '.');
-          const end = this.adjustTimestamp(match[2].replace('.', ','), offsetMs).replace(',', '.');
-          synced.push(`${start} --> ${end}`);
-        } else {
-          synced.push(line);
-        }
-      } else {
-        synced.push(line);
-      }
-    }
-
-    return {
-      ...subtitle,
-      content: synced.join('\n')
-    };
-  }
-
-  private adjustTimestamp(timestamp: string, offsetMs: number): string {
-    const parts = timestamp.match(/(\d{2}):(\d{2}):(\d{2}),(\d{3})/);
-    if (!parts) return timestamp;
-
-    const hours = parseInt(parts[1]);
-    const minutes = parseInt(parts[2]);
-    const seconds = parseInt(parts[3]);
-    const milliseconds = parseInt(parts[4]);
-
-    let totalMs = hours * 3600000 + minutes * 60000 + seconds * 1000 + milliseconds;
-    totalMs += offsetMs;
-
-    // Ensure non-negative
-    totalMs = Math.max(0, totalMs);
-
-    const newHours = Math.floor(totalMs / 3600000);
-    totalMs %= 3600000;
-    const newMinutes = Math.floor(totalMs / 60000);
-    totalMs %= 60000;
-    const newSeconds = Math.floor(totalMs / 1000);
-    const newMs = totalMs % 1000;
-
-    return `${String(newHours).padStart(2, '0')}:${String(newMinutes).padStart(2, '0')}:${String(newSeconds).padStart(2, '0')},${String(newMs).padStart(3, '0')}`;
-  }
-
-  private async extractSubtitleFromVideo(videoPath: string, streamIndex: number): Promise<Subtitle> {
-    // This would use ffmpeg to extract embedded subtitles
-    // Simplified implementation
-    const { spawn } = require('child_process');
-    const outputPath = path.join('/tmp', `extracted-${Date.now()}.srt`);
-
-    return new Promise((resolve, reject) => {
-      const ffmpeg = spawn('ffmpeg', [
-        '-i', videoPath,
-        '-map', `0:s:${streamIndex}`,
-        '-c:s', 'srt',
-        outputPath
-      ]);
-
-      ffmpeg.on('close', (code: number) => {
-        if (code === 0) {
-          const content = fs.readFileSync(outputPath, 'utf-8');
-          fs.unlinkSync(outputPath);
-
-          const subtitle: Subtitle = {
-            id: `extracted-${Date.now()}`,
-            videoId: path.basename(videoPath),
-            language: 'unknown',
-            languageName: 'Extracted',
-            format: 'srt',
-            content,
-            isAutoGenerated: false
-          };
-
-          resolve(subtitle);
-        } else {
-          reject(new Error('Failed to extract subtitle'));
-        }
-      });
-
-      ffmpeg.on('error', reject);
-    });
-  }
-
   private getSubtitlePreview(subtitle: Subtitle, startTime: number, endTime: number): string {
     if (!subtitle.timestamps || subtitle.timestamps.length === 0) {
       return '';
@@ -476,7 +651,13 @@ export class SubtitleHandlers {
     });
   }
 
+  // Whether the editor has loaded `filePath`, so the prevideo-media protocol may serve it
+  isEditorMedia(filePath: string): boolean {
+    return this.editorMedia.has(path.normalize(filePath));
+  }
+
   destroy(): void {
     this.subtitleService.removeAllListeners();
+    this.editorMedia.clear();
   }
 }
\ No newline at end of file
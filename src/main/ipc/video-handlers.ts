@@ -5,23 +5,40 @@
 import { ipcMain, IpcMainInvokeEvent } from 'electron';
 import { DownloaderService } from '../services/downloader';
 import { StorageService } from '../services/storage';
-import { VideoInfo } from '../../shared/types/video';
-import { DownloadTask, DownloadOptions, DownloadProgress } from '../../shared/types/tasks';
+import { DownloadScheduler } from '../services/download-scheduler';
+import { VideoInfo, PlaylistInfo, PlaylistFetchOptions } from '../../shared/types/video';
+import {
+  DownloadTask,
+  DownloadOptions,
+  DownloadProgress,
+  QueuePriority,
+  TaskMoveTarget
+} from '../../shared/types/tasks';
 
 export class VideoHandlers {
   private downloaderService: DownloaderService;
   private storageService: StorageService;
+  private downloadScheduler: DownloadScheduler;
 
-  constructor(downloaderService: DownloaderService, storageService: StorageService) {
+  constructor(
+    downloaderService: DownloaderService,
+    storageService: StorageService,
+    downloadScheduler: DownloadScheduler
+  ) {
     this.downloaderService = downloaderService;
     this.storageService = storageService;
+    this.downloadScheduler = downloadScheduler;
     this.registerHandlers();
     this.setupEventForwarding();
   }
 
   private registerHandlers(): void {
     // Fetch video information
-    ipcMain.handle('video:info:fetch', async (event: IpcMainInvokeEvent, url: string) => {
+    ipcMain.handle('video:info:fetch', async (
+      event: IpcMainInvokeEvent,
+      url: string,
+      networkProfileId?: string
+    ) => {
       try {
         // Check cache first
         const videoId = this.extractVideoId(url);
@@ -32,7 +49,7 @@ export class VideoHandlers {
         }
 
         // Fetch fresh info
-        const videoInfo = await this.downloaderService.fetchVideoInfo(url);
+        const videoInfo = await this.downloaderService.fetchVideoInfo(url, networkProfileId);
 
         // Cache the result
         await this.storageService.cacheVideoInfo(videoInfo);
@@ -51,22 +68,8 @@ export class VideoHandlers {
       options: DownloadOptions
     ) => {
       try {
-        // Use user preferences if not specified
-        const preferences = await this.storageService.getPreferences();
-        const mergedOptions: DownloadOptions = {
-          quality: options.quality || preferences.defaultQuality,
-          outputPath: options.outputPath || preferences.defaultOutputPath,
-          filename: options.filename,
-          subtitleLanguages: options.subtitleLanguages || preferences.defaultSubtitleLanguages,
-          preferredFormat: options.preferredFormat || preferences.defaultFormat,
-          enableResume: options.enableResume !== false,
-          maxRetries: options.maxRetries || preferences.retryAttempts,
-          retryDelay: options.retryDelay || 5000,
-          chunkSize: options.chunkSize,
-          parallelChunks: options.parallelChunks
-        };
-
-        const task = await this.downloaderService.startDownload(url, mergedOptions);
+        const mergedOptions = await this.mergeWithPreferences(options);
+        const task = await this.downloadScheduler.enqueue(url, mergedOptions);
 
         // Save task to storage
         await this.storageService.saveDownloadTask(task);
@@ -81,7 +84,7 @@ export class VideoHandlers {
     // Pause download
     ipcMain.handle('video:download:pause', async (event: IpcMainInvokeEvent, taskId: string) => {
       try {
-        await this.downloaderService.pauseDownload(taskId);
+        await this.downloadScheduler.pause(taskId);
 
         // Update task in storage
         const task = await this.storageService.getDownloadTask(taskId);
@@ -100,12 +103,12 @@ export class VideoHandlers {
     // Resume download
     ipcMain.handle('video:download:resume', async (event: IpcMainInvokeEvent, taskId: string) => {
       try {
-        await this.downloaderService.resumeDownload(taskId);
+        await this.downloadScheduler.resume(taskId);
 
         // Update task in storage
         const task = await this.storageService.getDownloadTask(taskId);
         if (task) {
-          task.status = 'downloading';
+          task.status = 'queued';
           await this.storageService.saveDownloadTask(task);
         }
 
@@ -119,7 +122,7 @@ export class VideoHandlers {
     // Cancel download
     ipcMain.handle('video:download:cancel', async (event: IpcMainInvokeEvent, taskId: string) => {
       try {
-        await this.downloaderService.cancelDownload(taskId);
+        await this.downloadScheduler.cancel(taskId);
 
         // Update task in storage
         const task = await this.storageService.getDownloadTask(taskId);
@@ -191,11 +194,12 @@ export class VideoHandlers {
       options: DownloadOptions
     ) => {
       try {
+        const mergedOptions = await this.mergeWithPreferences(options);
         const tasks: DownloadTask[] = [];
 
         for (const url of urls) {
           try {
-            const task = await this.downloaderService.startDownload(url, options);
+            const task = await this.downloadScheduler.enqueue(url, mergedOptions);
             await this.storageService.saveDownloadTask(task);
             tasks.push(task);
           } catch (error) {
@@ -210,6 +214,177 @@ export class VideoHandlers {
       }
     });
 
+    // Expand a playlist or channel into flat entries
+    ipcMain.handle('video:playlist:fetch', async (
+      event: IpcMainInvokeEvent,
+      url: string,
+      options?: PlaylistFetchOptions
+    ) => {
+      try {
+        const playlist = await this.downloaderService.fetchPlaylist(url, options);
+        return { success: true, data: playlist };
+      } catch (error: any) {
+        console.error('Failed to fetch playlist:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Queue the chosen playlist entries, one task per video. Tasks are made
+    // from the flat entries; each video's details are fetched when it starts.
+    ipcMain.handle('video:playlist:download', async (
+      event: IpcMainInvokeEvent,
+      playlist: PlaylistInfo,
+      entryIds: string[],
+      options: DownloadOptions
+    ) => {
+      try {
+        const mergedOptions = await this.mergeWithPreferences(options);
+        const selected = playlist.entries.filter(entry => entryIds.includes(entry.id));
+        const tasks: DownloadTask[] = [];
+
+        for (const entry of selected) {
+          try {
+            const task = await this.downloadScheduler.enqueue(entry.url, {
+              ...mergedOptions,
+              playlist: {
+                id: playlist.id,
+                title: playlist.title,
+                index: entry.playlistIndex
+              }
+            }, entry);
+            await this.storageService.saveDownloadTask(task);
+            tasks.push(task);
+          } catch (error) {
+            console.error(`Failed to queue playlist item ${entry.url}:`, error);
+          }
+        }
+
+        return { success: true, data: tasks };
+      } catch (error: any) {
+        console.error('Failed to download playlist:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // List download queues
+    ipcMain.handle('video:queue:list', async (event: IpcMainInvokeEvent) => {
+      try {
+        const queues = await this.downloadScheduler.getQueues();
+        return { success: true, data: queues };
+      } catch (error: any) {
+        console.error('Failed to list queues:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Create a named queue in a priority lane
+    ipcMain.handle('video:queue:create', async (
+      event: IpcMainInvokeEvent,
+      name: string,
+      priority?: QueuePriority
+    ) => {
+      try {
+        const queue = await this.downloadScheduler.createQueue(name, priority);
+        return { success: true, data: queue };
+      } catch (error: any) {
+        console.error('Failed to create queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Rename a queue or change its lane
+    ipcMain.handle('video:queue:update', async (
+      event: IpcMainInvokeEvent,
+      queueId: string,
+      updates: { name?: string; priority?: QueuePriority }
+    ) => {
+      try {
+        const queue = await this.downloadScheduler.updateQueue(queueId, updates);
+        return { success: true, data: queue };
+      } catch (error: any) {
+        console.error('Failed to update queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Delete a queue, its tasks move to the default queue
+    ipcMain.handle('video:queue:delete', async (event: IpcMainInvokeEvent, queueId: string) => {
+      try {
+        await this.downloadScheduler.deleteQueue(queueId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to delete queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Pause a whole queue
+    ipcMain.handle('video:queue:pause', async (event: IpcMainInvokeEvent, queueId: string) => {
+      try {
+        await this.downloadScheduler.pauseQueue(queueId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to pause queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Resume a paused queue
+    ipcMain.handle('video:queue:resume', async (event: IpcMainInvokeEvent, queueId: string) => {
+      try {
+        await this.downloadScheduler.resumeQueue(queueId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to resume queue:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Move a waiting task up/down/top/bottom or to an index within its queue
+    ipcMain.handle('video:task:move', async (
+      event: IpcMainInvokeEvent,
+      taskId: string,
+      target: TaskMoveTarget
+    ) => {
+      try {
+        await this.downloadScheduler.moveTask(taskId, target);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to move task:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Move a task to another queue
+    ipcMain.handle('video:task:transfer', async (
+      event: IpcMainInvokeEvent,
+      taskId: string,
+      queueId: string
+    ) => {
+      try {
+        await this.downloadScheduler.transferTask(taskId, queueId);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to transfer task:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
+    // Override the bandwidth limit of one task (null follows the global limit)
+    ipcMain.handle('video:task:rate-limit', async (
+      event: IpcMainInvokeEvent,
+      taskId: string,
+      limit: number | null
+    ) => {
+      try {
+        await this.downloadScheduler.setTaskRateLimit(taskId, limit);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to set task rate limit:', error);
+        return { success: false, error: error.message };
+      }
+    });
+
     // Validate URL
     ipcMain.handle('video:url:validate', async (event: IpcMainInvokeEvent, url: string) => {
       try {
@@ -251,6 +426,16 @@ export class VideoHandlers {
   }
 
   private setupEventForwarding(): void {
+    // Forward queue admission events
+    this.downloaderService.on('download-queued', (taskId: string, task: DownloadTask) => {
+      this.sendToAllWindows('video:download:queued', { taskId, task });
+    });
+
+    // Forward scheduler start events
+    this.downloaderService.on('download-started', (taskId: string, task: DownloadTask) => {
+      this.sendToAllWindows('video:download:started', { taskId, task });
+    });
+
     // Forward download progress events
     this.downloaderService.on('download-progress', (taskId: string, task: DownloadTask) => {
       this.sendToAllWindows('video:download:progress:update', { taskId, task });
@@ -287,12 +472,44 @@ export class VideoHandlers {
       this.sendToAllWindows('video:download:resumed', { taskId, task });
     });
 
+    // Forward automatic retries of transient failures
+    this.downloadScheduler.on('retry-scheduled', (taskId: string, task: DownloadTask) => {
+      this.sendToAllWindows('video:download:retrying', { taskId, task });
+    });
+
+    // Forward queue changes (order, lane, paused state)
+    this.downloadScheduler.on('queue-updated', (queueId: string) => {
+      this.sendToAllWindows('video:queue:updated', { queueId });
+    });
+
     // Forward download cancelled events
     this.downloaderService.on('download-cancelled', (taskId: string) => {
       this.sendToAllWindows('video:download:cancelled', { taskId });
     });
   }
 
+  // Use user preferences for anything the caller did not specify
+  private async mergeWithPreferences(options: DownloadOptions): Promise<DownloadOptions> {
+    const preferences = await this.storageService.getPreferences();
+    return {
+      quality: options.quality || preferences.defaultQuality,
+      outputPath: options.outputPath || preferences.defaultOutputPath,
+      filename: options.filename,
+      subtitleLanguages: options.subtitleLanguages || preferences.defaultSubtitleLanguages,
+      preferredFormat: options.preferredFormat || preferences.defaultFormat,
+      enableResume: options.enableResume !== false,
+      maxRetries: options.maxRetries || preferences.retryAttempts,
+      retryDelay: options.retryDelay || 5000,
+      chunkSize: options.chunkSize,
+      parallelChunks: options.parallelChunks,
+      queueId: options.queueId,
+      rateLimit: options.rateLimit,
+      networkProfileId: options.networkProfileId,
+      formatSelection: options.formatSelection,
+      audio: options.audio
+    };
+  }
+
   private sendToAllWindows(channel: string, data: any): void {
     const { BrowserWindow } = require('electron');
     BrowserWindow.getAllWindows().forEach(window => {
@@ -323,5 +540,6 @@ export class VideoHandlers {
   destroy(): void {
     // Remove all listeners
     this.downloaderService.removeAllListeners();
+    this.downloadScheduler.removeAllListeners();
   }
 }
\ No newline at end of file
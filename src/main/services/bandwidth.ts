@@ -0,0 +1,179 @@
+/**
+ * BandwidthManager - Splits the global download rate limit across running
+ * downloads and follows the time-of-day schedule. yt-dlp can't change its
+ * --limit-rate while running, so tasks are restarted (resuming from their
+ * .part files) whenever their share changes.
+ */
+
+import { EventEmitter } from 'events';
+import { DownloaderService } from './downloader';
+import { StorageService } from './storage';
+import { DownloadTask } from '../../shared/types/tasks';
+import { UserPreferences } from '../../shared/types/preferences';
+
+const SCHEDULE_TICK = 60 * 1000; // Windows are minute-granular
+
+/**
+ * Global limit in KB/s at the given time, 0 for unlimited. The first
+ * schedule window containing the time wins; outside all windows the plain
+ * bandwidthLimit applies.
+ */
+export function getScheduledLimit(preferences: UserPreferences, date: Date): number {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  for (const window of preferences.bandwidthSchedule ?? []) {
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+    if (start === null || end === null) {
+      continue;
+    }
+
+    const inside = start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end; // Spans midnight
+    if (inside) {
+      return window.limit;
+    }
+  }
+
+  return preferences.bandwidthLimit ?? 0;
+}
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+export class BandwidthManager extends EventEmitter {
+  private downloaderService: DownloaderService;
+  private storageService: StorageService;
+  private currentLimit = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(downloaderService: DownloaderService, storageService: StorageService) {
+    super();
+    this.downloaderService = downloaderService;
+    this.storageService = storageService;
+  }
+
+  async start(): Promise<void> {
+    await this.refresh();
+
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => {
+        console.error('Failed to refresh bandwidth limit:', error);
+      });
+    }, SCHEDULE_TICK);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getCurrentLimit(): number {
+    return this.currentLimit;
+  }
+
+  /**
+   * Re-read the preferences and reapply limits if the schedule moved into
+   * another window or the settings changed. Shares freed by finished
+   * downloads are handed back here too, at most once a minute.
+   */
+  async refresh(): Promise<void> {
+    const preferences = await this.storageService.getPreferences();
+    const limit = getScheduledLimit(preferences, new Date());
+
+    if (limit !== this.currentLimit) {
+      this.currentLimit = limit;
+      this.emit('limit-changed', limit);
+      this.rebalance();
+    } else if (this.hasUnusedShare()) {
+      this.rebalance();
+    }
+  }
+
+  /**
+   * Set the rate limit of a task that is about to start. Running tasks
+   * whose share shrinks are restarted so the total stays within the limit.
+   */
+  allocate(taskId: string): void {
+    const task = this.downloaderService.getTask(taskId);
+    if (!task) {
+      return;
+    }
+
+    if (task.rateLimit !== undefined) {
+      this.downloaderService.setRateLimit(taskId, task.rateLimit);
+      return;
+    }
+
+    const others = this.getSharedTasks().filter(t => t.id !== taskId);
+    const share = this.getShare(others.length + 1);
+    this.downloaderService.setRateLimit(taskId, share);
+
+    for (const other of others) {
+      const applied = this.downloaderService.getRateLimit(other.id);
+      if (share !== undefined && (applied === undefined || applied > share)) {
+        this.apply(other.id, share);
+      }
+    }
+  }
+
+  /**
+   * Give every running task its current share, restarting those whose
+   * limit changed
+   */
+  rebalance(): void {
+    const running = this.downloaderService
+      .listTasks()
+      .filter(task => task.status === 'downloading');
+    const share = this.getShare(this.getSharedTasks().length);
+
+    for (const task of running) {
+      const limit = task.rateLimit !== undefined ? task.rateLimit : share;
+      this.apply(task.id, limit);
+    }
+  }
+
+  private apply(taskId: string, limit: number | undefined): void {
+    const normalized = limit !== undefined && limit > 0 ? limit : undefined;
+    if (this.downloaderService.getRateLimit(taskId) === normalized) {
+      return;
+    }
+
+    this.downloaderService.setRateLimit(taskId, normalized);
+    this.downloaderService.restartTask(taskId);
+  }
+
+  private hasUnusedShare(): boolean {
+    const shared = this.getSharedTasks();
+    const share = this.getShare(shared.length);
+
+    return shared.some(task => {
+      const applied = this.downloaderService.getRateLimit(task.id);
+      return applied !== undefined && (share === undefined || applied < share);
+    });
+  }
+
+  private getSharedTasks(): DownloadTask[] {
+    return this.downloaderService
+      .listTasks()
+      .filter(task => task.status === 'downloading' && task.rateLimit === undefined);
+  }
+
+  private getShare(count: number): number | undefined {
+    if (this.currentLimit <= 0) {
+      return undefined;
+    }
+    return Math.max(1, Math.floor(this.currentLimit / Math.max(count, 1)));
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * CompressionQueue - Runs compression jobs through the converter, at most
+ * maxConcurrentCompressions at a time and each on compressionThreads ffmpeg
+ * threads. Unfinished jobs are kept in the database's processingQueue so the
+ * next launch picks them up, and a batch is summarized once all its files settle.
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import { ConverterService } from './converter';
+import { StorageService } from './storage';
+import { ProcessingQueueRepository } from '../database/repositories/processing-queue-repository';
+import {
+  fromQueueRecord,
+  isSettled,
+  moveJob,
+  summarizeBatch,
+  toQueueRecord
+} from '../utils/compression-queue';
+import {
+  CompressionBatchSummary,
+  CompressionConfig,
+  CompressionJob,
+  CompressionResult,
+  CompressionTask
+} from '../../shared/types/compression';
+import { TaskMoveTarget } from '../../shared/types/tasks';
+
+export class CompressionQueue extends EventEmitter {
+  private converterService: ConverterService;
+  private repository: ProcessingQueueRepository;
+  private storageService: StorageService;
+  private jobs: CompressionJob[] = [];
+  // Encodes stopped with SIGSTOP; they continue with SIGCONT when they get a slot again
+  private stopped: Set<string> = new Set();
+  // Jobs paused by pauseAll, as opposed to one at a time
+  private heldByQueue: Set<string> = new Set();
+  private paused = false;
+  private shuttingDown = false;
+  private pumping = false;
+  private pumpRequested = false;
+
+  constructor(
+    converterService: ConverterService,
+    repository: ProcessingQueueRepository,
+    storageService: StorageService
+  ) {
+    super();
+    this.converterService = converterService;
+    this.repository = repository;
+    this.storageService = storageService;
+
+    this.converterService.on('compression-progress', (taskId: string, task: CompressionTask) => {
+      const job = this.jobs.find(j => j.id === taskId);
+      if (job?.status === 'processing') {
+        job.progress = task.progress;
+      }
+    });
+  }
+
+  /**
+   * Queue files as one batch; they start as slots free up, in order
+   */
+  async add(files: Array<{ inputPath: string; config: CompressionConfig }>): Promise<CompressionJob[]> {
+    if (files.length === 0) {
+      throw new Error('No files to compress');
+    }
+
+    const batchId = this.generateId('batch');
+    const added: CompressionJob[] = files.map(file => ({
+      id: this.generateId('compress'),
+      batchId,
+      status: 'pending',
+      inputFile: file.inputPath,
+      config: file.config,
+      progress: 0
+    }));
+    this.jobs.push(...added);
+
+    await this.changed();
+    return added;
+  }
+
+  list(): CompressionJob[] {
+    return this.jobs;
+  }
+
+  getBatchSummary(batchId: string): CompressionBatchSummary {
+    if (!this.jobs.some(job => job.batchId === batchId)) {
+      throw new Error('Batch not found');
+    }
+    return summarizeBatch(batchId, this.jobs);
+  }
+
+  /**
+   * A waiting job is held back; a running one is stopped with SIGSTOP and
+   * gives up its slot until resumed
+   */
+  async pause(jobId: string): Promise<void> {
+    const job = this.getJob(jobId);
+    if (job.status === 'pending') {
+      job.status = 'paused';
+    } else if (job.status === 'processing') {
+      await this.suspend(job);
+    } else {
+      throw new Error('Only a waiting or running job can be paused');
+    }
+
+    this.heldByQueue.delete(jobId);
+    await this.changed();
+  }
+
+  // Back into line; a stopped encode continues where it was once it has a slot
+  async resume(jobId: string): Promise<void> {
+    const job = this.getJob(jobId);
+    if (job.status !== 'paused') {
+      throw new Error('Only a paused job can be resumed');
+    }
+
+    job.status = 'pending';
+    this.heldByQueue.delete(jobId);
+    await this.changed();
+  }
+
+  /**
+   * Stop the whole queue: running encodes are stopped and nothing else starts
+   * until resumeAll. Jobs paused one at a time stay paused after it.
+   */
+  async pauseAll(): Promise<void> {
+    this.paused = true;
+
+    for (const job of this.jobs.filter(j => j.status === 'processing')) {
+      try {
+        await this.suspend(job);
+        this.heldByQueue.add(job.id);
+      } catch (error) {
+        console.error(`Failed to pause compression ${job.id}:`, error);
+      }
+    }
+
+    await this.changed();
+  }
+
+  async resumeAll(): Promise<void> {
+    this.paused = false;
+
+    for (const job of this.jobs) {
+      if (job.status === 'paused' && this.heldByQueue.has(job.id)) {
+        job.status = 'pending';
+      }
+    }
+    this.heldByQueue.clear();
+
+    await this.changed();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  async move(jobId: string, target: TaskMoveTarget): Promise<void> {
+    this.jobs = moveJob(this.jobs, jobId, target);
+    await this.changed();
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const job = this.getJob(jobId);
+    if (isSettled(job)) {
+      throw new Error('Job has already finished');
+    }
+
+    const live = job.status === 'processing' || this.stopped.has(jobId);
+    job.status = 'cancelled';
+
+    if (live) {
+      // The encode rejects once killed and run() settles the job
+      this.stopped.delete(jobId);
+      await this.converterService.cancelProcessing(jobId);
+    } else {
+      await this.settle(job);
+    }
+  }
+
+  // Forget finished jobs; their batch summaries go with them
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(job => !isSettled(job));
+    this.emit('queue-updated', this.jobs);
+  }
+
+  /**
+   * Reload the jobs left by the previous session. Encodes that were running
+   * start over; jobs the user paused stay paused.
+   */
+  async restore(): Promise<void> {
+    const records = await this.repository.getByType('video_compression');
+    this.jobs = records.map(fromQueueRecord);
+    await this.changed();
+  }
+
+  /**
+   * Kill every encode before the app quits, stopped ones included, leaving
+   * their jobs stored as they are so restore() runs them again
+   */
+  async suspendAll(): Promise<void> {
+    this.shuttingDown = true;
+    this.paused = true;
+
+    const live = this.jobs.filter(job => job.status === 'processing' || this.stopped.has(job.id));
+    for (const job of live) {
+      try {
+        await this.converterService.cancelProcessing(job.id);
+      } catch (error) {
+        console.error(`Failed to stop compression ${job.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Start waiting jobs until the concurrency limit is reached. Calls made
+   * while a pass is running schedule one more pass instead of overlapping.
+   */
+  processQueue(): void {
+    if (this.pumping) {
+      this.pumpRequested = true;
+      return;
+    }
+
+    this.pumping = true;
+    this.pump()
+      .catch(error => {
+        console.error('Failed to process compression queue:', error);
+      })
+      .finally(() => {
+        this.pumping = false;
+        if (this.pumpRequested) {
+          this.pumpRequested = false;
+          this.processQueue();
+        }
+      });
+  }
+
+  private async pump(): Promise<void> {
+    if (this.paused) {
+      return;
+    }
+
+    // Preferences saved before these settings existed don't have them
+    const preferences = await this.storageService.getPreferences();
+    const maxConcurrent = Math.max(1, preferences.maxConcurrentCompressions ?? 1);
+    const threads = preferences.compressionThreads ?? 0;
+
+    let running = this.jobs.filter(job => job.status === 'processing').length;
+    while (running < maxConcurrent) {
+      const next = this.jobs.find(job => job.status === 'pending');
+      if (!next) {
+        break;
+      }
+      await this.start(next, threads);
+      running++;
+    }
+  }
+
+  private async start(job: CompressionJob, threads: number): Promise<void> {
+    job.status = 'processing';
+
+    if (this.stopped.has(job.id)) {
+      this.stopped.delete(job.id);
+      try {
+        await this.converterService.resumeProcessing(job.id);
+      } catch (error) {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        await this.settle(job);
+        return;
+      }
+    } else {
+      job.progress = 0;
+      job.startedAt = new Date().toISOString();
+      this.run(job, threads).catch(error => {
+        console.error(`Failed to settle compression ${job.id}:`, error);
+      });
+    }
+
+    await this.persist();
+    this.emit('queue-updated', this.jobs);
+  }
+
+  private async run(job: CompressionJob, threads: number): Promise<void> {
+    const config = threads > 0 ? { ...job.config, threads } : job.config;
+    let task: CompressionTask | undefined;
+
+    try {
+      task = await this.converterService.compressVideo(job.inputFile, config, job.id);
+      job.outputFile = task.outputFile;
+      if (job.status !== 'cancelled') {
+        job.status = 'completed';
+        job.progress = 100;
+      }
+    } catch (error) {
+      if (job.status !== 'cancelled') {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    await this.settle(job, task);
+  }
+
+  private async suspend(job: CompressionJob): Promise<void> {
+    await this.converterService.pauseProcessing(job.id);
+    this.stopped.add(job.id);
+    job.status = 'paused';
+  }
+
+  private async settle(job: CompressionJob, task?: CompressionTask): Promise<void> {
+    // Encodes killed by suspendAll stay stored for the next launch
+    if (this.shuttingDown) {
+      return;
+    }
+
+    job.completedAt = new Date().toISOString();
+    job.result = await this.buildResult(job, task);
+    this.stopped.delete(job.id);
+    this.heldByQueue.delete(job.id);
+    await this.changed();
+
+    const batchId = job.batchId;
+    if (batchId !== undefined && this.jobs.every(j => j.batchId !== batchId || isSettled(j))) {
+      this.emit('batch-complete', summarizeBatch(batchId, this.jobs));
+    }
+  }
+
+  private async buildResult(job: CompressionJob, task?: CompressionTask): Promise<CompressionResult> {
+    const success = job.status === 'completed';
+    const originalSize = await this.fileSize(job.inputFile);
+    const compressedSize = success && job.outputFile !== undefined ? await this.fileSize(job.outputFile) : 0;
+    const timeTaken = job.startedAt !== undefined && job.completedAt !== undefined
+      ? (Date.parse(job.completedAt) - Date.parse(job.startedAt)) / 1000
+      : 0;
+
+    return {
+      success,
+      inputFile: job.inputFile,
+      outputFile: success ? job.outputFile : undefined,
+      originalSize,
+      compressedSize,
+      compressionRatio: success && originalSize > 0 ? ((originalSize - compressedSize) / originalSize) * 100 : 0,
+      timeTaken,
+      quality: task?.quality,
+      error: job.status === 'cancelled' ? 'Cancelled' : job.error
+    };
+  }
+
+  private async fileSize(filePath: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(filePath)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  // Persist, tell the renderer and fill any free slots
+  private async changed(): Promise<void> {
+    await this.persist();
+    this.emit('queue-updated', this.jobs);
+    this.processQueue();
+  }
+
+  private async persist(): Promise<void> {
+    const unfinished = this.jobs.filter(job => !isSettled(job));
+    await this.repository.replaceType(
+      'video_compression',
+      unfinished.map((job, position) => toQueueRecord(job, position))
+    );
+  }
+
+  private getJob(jobId: string): CompressionJob {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job) {
+      throw new Error('Compression job not found');
+    }
+    return job;
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
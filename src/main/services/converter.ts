@@ -5,16 +5,36 @@
 import { spawn, ChildProcess } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import { EventEmitter } from 'events';
 import {
   CompressionConfig,
   CompressionTask,
   CompressionResult,
   VideoResolution,
-  CompressionPreset
+  CompressionPreset,
+  QualityTarget
 } from '../../shared/types/compression';
 import { VideoMetadata } from '../../shared/types/video';
 import { ProcessingTask } from '../../shared/types/tasks';
+import {
+  MAX_SIZE_ATTEMPTS,
+  correctVideoBitrate,
+  formatMegabytes,
+  isTargetSizeMode,
+  planTargetSize
+} from '../utils/target-size';
+import {
+  crfRange,
+  parseQualityScore,
+  pickSampleWindows,
+  sampleEncodeArgs,
+  scoreArgs,
+  searchCrf,
+  validateQualityTarget
+} from '../utils/quality-target';
+import { hardwareInputArgs, hardwareRateArgs, hardwareUploadFilter, isHardwareEncoder, softwareEncoderFor, summarizeFailure } from '../utils/hardware-encoders';
+import { HardwareEncoderService } from './hardware-encoders';
 import { IConverterService } from '../../../specs/001-youtube-youtube/contracts/service-interfaces';
 
 export class ConverterService extends EventEmitter implements IConverterService {
@@ -22,6 +42,8 @@ export class ConverterService extends EventEmitter implements IConverterService
   private ffprobePath: string;
   private tasks: Map<string, CompressionTask> = new Map();
   private processes: Map<string, ChildProcess> = new Map();
+  private paused: Set<string> = new Set();
+  private hardwareEncoders?: HardwareEncoderService;
 
   constructor(ffmpegPath?: string, ffprobePath?: string) {
     super();
@@ -29,6 +51,10 @@ export class ConverterService extends EventEmitter implements IConverterService
     this.ffprobePath = ffprobePath || this.getFfprobePath();
   }
 
+  setHardwareEncoders(hardwareEncoders: HardwareEncoderService): void {
+    this.hardwareEncoders = hardwareEncoders;
+  }
+
   private getFfmpegPath(): string {
     const possiblePaths = [
       path.join(__dirname, '../../../binaries/ffmpeg'),
@@ -59,8 +85,12 @@ export class ConverterService extends EventEmitter implements IConverterService
     return 'ffprobe';
   }
 
-  async compressVideo(inputPath: string, config: CompressionConfig): Promise<CompressionTask> {
-    const taskId = this.generateTaskId();
+  // `taskId` lets a caller that tracks the task (the compression queue) choose its id
+  async compressVideo(
+    inputPath: string,
+    config: CompressionConfig,
+    taskId = this.generateTaskId()
+  ): Promise<CompressionTask> {
     const outputPath = this.generateOutputPath(inputPath, config);
 
     const task: CompressionTask = {
@@ -69,23 +99,98 @@ export class ConverterService extends EventEmitter implements IConverterService
       status: 'processing',
       progress: 0,
       currentStep: 'Initializing',
-      totalSteps: config.twoPass ? 2 : 1,
-      estimatedTime: await this.estimateCompressionTime(inputPath, config),
+      totalSteps: config.twoPass || isTargetSizeMode(config) ? 2 : 1,
       inputFile: inputPath,
       outputFile: outputPath,
       config,
       startedAt: new Date()
     };
 
+    // Registered before the estimate so the task can be paused or cancelled right away
     this.tasks.set(taskId, task);
 
-    if (config.twoPass) {
+    try {
+      task.estimatedTime = await this.estimateCompressionTime(inputPath, config);
+      await this.encodeWithFallback(inputPath, outputPath, config, taskId);
+      task.status = 'completed';
+      task.progress = 100;
+      task.completedAt = new Date();
+      this.emit('compression-complete', taskId, task);
+    } catch (error: any) {
+      if (task.status !== 'cancelled') {
+        task.status = 'failed';
+        task.error = error.message;
+        this.emit('compression-failed', taskId, task);
+      }
+      throw error;
+    } finally {
+      this.paused.delete(taskId);
+    }
+
+    return task;
+  }
+
+  /**
+   * Encode on a working hardware encoder when `hardwareAcceleration` is set,
+   * redoing the encode in software if the hardware one fails. Quality targets
+   * always encode in software, their CRF search needs the encoder's own scale.
+   */
+  private async encodeWithFallback(
+    inputPath: string,
+    outputPath: string,
+    config: CompressionConfig,
+    taskId: string
+  ): Promise<void> {
+    const hardwareEncoders = this.hardwareEncoders;
+    const encoder = config.hardwareAcceleration && config.qualityTarget === undefined && hardwareEncoders
+      ? await hardwareEncoders.selectEncoder(config.videoCodec)
+      : undefined;
+
+    if (encoder === undefined || hardwareEncoders === undefined) {
+      await this.encode(inputPath, outputPath, { ...config, videoCodec: softwareEncoderFor(config.videoCodec) }, taskId);
+      return;
+    }
+
+    try {
+      await this.encode(inputPath, outputPath, { ...config, videoCodec: encoder }, taskId);
+    } catch (error: any) {
+      const task = this.tasks.get(taskId);
+      if (!task || task.status === 'cancelled') {
+        throw error;
+      }
+
+      console.error(`Hardware encoder ${encoder} failed, encoding in software:`, error);
+      await hardwareEncoders.markFailed(encoder, summarizeFailure(error.message, null));
+      task.progress = 0;
+      task.currentStep = `${encoder} failed, encoding in software`;
+      this.emit('compression-progress', taskId, task);
+
+      const software = { ...config, videoCodec: softwareEncoderFor(encoder), hardwareAcceleration: false };
+      await this.encode(inputPath, outputPath, software, taskId);
+    }
+  }
+
+  private async encode(
+    inputPath: string,
+    outputPath: string,
+    config: CompressionConfig,
+    taskId: string
+  ): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (task) {
+      task.config = config;
+      task.videoEncoder = config.videoCodec ?? 'libx264';
+    }
+
+    if (config.qualityTarget !== undefined) {
+      await this.performQualityTargetEncoding(inputPath, outputPath, config, config.qualityTarget, taskId);
+    } else if (isTargetSizeMode(config)) {
+      await this.performTargetSizeEncoding(inputPath, outputPath, config, taskId);
+    } else if (config.twoPass && !isHardwareEncoder(config.videoCodec)) {
       await this.performTwoPassEncoding(inputPath, outputPath, config, taskId);
     } else {
       await this.performSinglePassEncoding(inputPath, outputPath, config, taskId);
     }
-
-    return task;
   }
 
   private async performSinglePassEncoding(
@@ -97,7 +202,7 @@ export class ConverterService extends EventEmitter implements IConverterService
     return new Promise((resolve, reject) => {
       const args = this.buildFfmpegArgs(inputPath, outputPath, config);
       const process = spawn(this.ffmpegPath, args);
-      this.processes.set(taskId, process);
+      this.trackProcess(taskId, process);
 
       let duration = 0;
       let errorOutput = '';
@@ -120,32 +225,16 @@ export class ConverterService extends EventEmitter implements IConverterService
 
       process.on('close', (code) => {
         this.processes.delete(taskId);
-        const task = this.tasks.get(taskId);
-
-        if (task) {
-          if (code === 0) {
-            task.status = 'completed';
-            task.progress = 100;
-            task.completedAt = new Date();
-            this.emit('compression-complete', taskId, task);
-            resolve();
-          } else {
-            task.status = 'failed';
-            task.error = `FFmpeg exited with code ${code}: ${errorOutput}`;
-            this.emit('compression-failed', taskId, task);
-            reject(new Error(task.error));
-          }
+
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`FFmpeg exited with code ${code}: ${errorOutput}`));
         }
       });
 
       process.on('error', (error) => {
         this.processes.delete(taskId);
-        const task = this.tasks.get(taskId);
-        if (task) {
-          task.status = 'failed';
-          task.error = error.message;
-          this.emit('compression-error', taskId, error);
-        }
         reject(error);
       });
     });
@@ -178,6 +267,182 @@ export class ConverterService extends EventEmitter implements IConverterService
     }
   }
 
+  /**
+   * Two-pass (one pass on hardware encoders) at the bitrate that fills the
+   * target size, checking the output and re-encoding at a lower bitrate while
+   * it's over the limit
+   */
+  private async performTargetSizeEncoding(
+    inputPath: string,
+    outputPath: string,
+    config: CompressionConfig,
+    taskId: string
+  ): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return;
+    }
+
+    const metadata = await this.getVideoMetadata(inputPath);
+    const plan = planTargetSize(config, metadata.duration);
+    const twoPass = !isHardwareEncoder(config.videoCodec);
+
+    for (let attempt = 1; ; attempt++) {
+      // CRF would override the bitrate
+      const attemptConfig: CompressionConfig = {
+        ...config,
+        crf: undefined,
+        twoPass,
+        videoBitrate: plan.videoBitrate,
+        audioBitrate: plan.audioBitrate > 0 ? plan.audioBitrate : undefined
+      };
+      task.config = attemptConfig;
+      if (twoPass) {
+        await this.performTwoPassEncoding(inputPath, outputPath, attemptConfig, taskId);
+      } else {
+        await this.performSinglePassEncoding(inputPath, outputPath, attemptConfig, taskId);
+      }
+
+      const outputBytes = fs.statSync(outputPath).size;
+      task.targetSize = {
+        targetBytes: plan.targetBytes,
+        limitBytes: plan.limitBytes,
+        videoBitrate: plan.videoBitrate,
+        audioBitrate: plan.audioBitrate,
+        attempts: attempt,
+        outputBytes
+      };
+
+      if (outputBytes <= plan.limitBytes) {
+        return;
+      }
+      if (attempt === MAX_SIZE_ATTEMPTS) {
+        throw new Error(
+          `Output is ${formatMegabytes(outputBytes)}, over the ${formatMegabytes(plan.limitBytes)} limit after ${attempt} attempts`
+        );
+      }
+
+      plan.videoBitrate = correctVideoBitrate(plan, outputBytes);
+      task.currentStep = `Over the size limit, re-encoding at ${plan.videoBitrate} kbps`;
+      this.emit('compression-progress', taskId, task);
+    }
+  }
+
+  /**
+   * Binary-search the CRF meeting `target` on samples of the input, encode
+   * the whole file with it, then score the output against the source
+   */
+  private async performQualityTargetEncoding(
+    inputPath: string,
+    outputPath: string,
+    config: CompressionConfig,
+    target: QualityTarget,
+    taskId: string
+  ): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      return;
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prevideo-quality-'));
+    const metric = target.metric.toUpperCase();
+
+    try {
+      validateQualityTarget(target);
+      const metadata = await this.getVideoMetadata(inputPath);
+      const start = config.startTime ?? 0;
+      const end = Math.min(config.endTime ?? metadata.duration, metadata.duration);
+      const windows = pickSampleWindows(start, end);
+      const videoFilter = config.resolution !== 'original'
+        ? `scale=${this.getScaleForResolution(config.resolution)}`
+        : undefined;
+
+      const search = await searchCrf(target.score, crfRange(config.videoCodec), async (crf) => {
+        task.currentStep = `Testing CRF ${crf} on ${windows.length} samples`;
+        this.emit('compression-progress', taskId, task);
+
+        let total = 0;
+        for (const [i, window] of windows.entries()) {
+          const samplePath = path.join(workDir, `sample-${i}-crf${crf}.mkv`);
+          await this.runFfmpeg(sampleEncodeArgs(inputPath, window, config, crf, videoFilter, samplePath), taskId);
+          total += parseQualityScore(await this.runFfmpeg(scoreArgs(samplePath, inputPath, window, target.metric), taskId), target.metric);
+          fs.unlinkSync(samplePath);
+        }
+        return total / windows.length;
+      });
+
+      const finalConfig: CompressionConfig = { ...config, crf: search.crf, twoPass: false };
+      task.config = finalConfig;
+      task.currentStep = `Encoding at CRF ${search.crf}`;
+      task.progress = 40;
+      this.emit('compression-progress', taskId, task);
+      await this.runFfmpeg(this.buildFfmpegArgs(inputPath, outputPath, finalConfig), taskId);
+
+      task.currentStep = `Measuring ${metric}`;
+      task.progress = 90;
+      this.emit('compression-progress', taskId, task);
+      const trimmed = config.startTime !== undefined || config.endTime !== undefined
+        ? { start, length: end - start }
+        : undefined;
+      const score = parseQualityScore(
+        await this.runFfmpeg(scoreArgs(outputPath, inputPath, trimmed, target.metric), taskId),
+        target.metric
+      );
+
+      task.quality = {
+        metric: target.metric,
+        target: target.score,
+        crf: search.crf,
+        sampleScore: search.score,
+        score,
+        met: score >= target.score,
+        probes: search.probes
+      };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // Run ffmpeg as the task's process, so cancelling stops it; resolves with its log
+  private runFfmpeg(args: string[], taskId: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(this.ffmpegPath, args);
+      this.trackProcess(taskId, ffmpeg);
+      let errorOutput = '';
+
+      ffmpeg.stderr.on('data', (data: Buffer) => {
+        errorOutput += data.toString();
+      });
+
+      ffmpeg.on('close', (code) => {
+        this.processes.delete(taskId);
+        if (code === 0) {
+          resolve(errorOutput);
+        } else {
+          reject(new Error(`FFmpeg exited with code ${code}: ${errorOutput}`));
+        }
+      });
+
+      ffmpeg.on('error', (error) => {
+        this.processes.delete(taskId);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Make `child` the task's current process. A task cancelled or paused
+   * between two ffmpeg runs has its next run killed or stopped at once.
+   */
+  private trackProcess(taskId: string, child: ChildProcess): void {
+    this.processes.set(taskId, child);
+    if (this.tasks.get(taskId)?.status === 'cancelled') {
+      child.kill('SIGKILL');
+    } else if (this.paused.has(taskId)) {
+      child.kill('SIGSTOP');
+    }
+  }
+
   private runFFmpegPass(
     inputPath: string,
     outputPath: string,
@@ -188,7 +453,7 @@ export class ConverterService extends EventEmitter implements IConverterService
     return new Promise((resolve, reject) => {
       const args = this.buildFfmpegArgs(inputPath, outputPath, config, passNumber);
       const process = spawn(this.ffmpegPath, args);
-      this.processes.set(`${taskId}-pass${passNumber}`, process);
+      this.trackProcess(taskId, process);
 
       let duration = 0;
       let errorOutput = '';
@@ -208,7 +473,7 @@ export class ConverterService extends EventEmitter implements IConverterService
       });
 
       process.on('close', (code) => {
-        this.processes.delete(`${taskId}-pass${passNumber}`);
+        this.processes.delete(taskId);
 
         if (code === 0) {
           resolve();
@@ -218,7 +483,7 @@ export class ConverterService extends EventEmitter implements IConverterService
       });
 
       process.on('error', (error) => {
-        this.processes.delete(`${taskId}-pass${passNumber}`);
+        this.processes.delete(taskId);
         reject(error);
       });
     });
@@ -230,42 +495,45 @@ export class ConverterService extends EventEmitter implements IConverterService
     config: CompressionConfig,
     passNumber?: number
   ): string[] {
-    const args = ['-i', inputPath];
-
-    // Hardware acceleration
-    if (config.hardwareAcceleration) {
-      if (process.platform === 'darwin') {
-        args.unshift('-hwaccel', 'videotoolbox');
-      } else if (process.platform === 'win32') {
-        args.unshift('-hwaccel', 'dxva2');
-      } else {
-        args.unshift('-hwaccel', 'vaapi');
-      }
-    }
+    // Hardware encoders are chosen by encodeWithFallback and come in as the video codec
+    const encoder = config.videoCodec ?? 'libx264';
+    const hardware = isHardwareEncoder(encoder);
+    const args = [...hardwareInputArgs(encoder), '-i', inputPath];
 
     // Video codec
-    if (config.videoCodec) {
-      args.push('-c:v', config.videoCodec);
-    } else {
-      args.push('-c:v', 'libx264');
-    }
+    args.push('-c:v', encoder);
 
     // Resolution
+    const filters: string[] = [];
     if (config.resolution && config.resolution !== 'original') {
-      const scale = this.getScaleForResolution(config.resolution);
-      args.push('-vf', `scale=${scale}`);
+      filters.push(`scale=${this.getScaleForResolution(config.resolution)}`);
+    }
+    const upload = hardwareUploadFilter(encoder);
+    if (upload !== undefined) {
+      filters.push(upload);
+    }
+    if (filters.length > 0) {
+      args.push('-vf', filters.join(','));
     }
 
-    // Bitrate or CRF
-    if (config.crf !== undefined) {
-      args.push('-crf', config.crf.toString());
-    } else if (config.videoBitrate) {
-      args.push('-b:v', `${config.videoBitrate}k`);
+    // Bitrate or CRF, and preset; hardware encoders have their own scales
+    if (hardware) {
+      args.push(...hardwareRateArgs(encoder, config));
+    } else {
+      if (config.crf !== undefined) {
+        args.push('-crf', config.crf.toString());
+      } else if (config.videoBitrate) {
+        args.push('-b:v', `${config.videoBitrate}k`);
+      }
+
+      if (config.preset) {
+        args.push('-preset', config.preset);
+      }
     }
 
-    // Preset
-    if (config.preset) {
-      args.push('-preset', config.preset);
+    // Threads, limited by the compression queue
+    if (config.threads !== undefined && config.threads > 0) {
+      args.push('-threads', config.threads.toString());
     }
 
     // FPS
@@ -292,6 +560,14 @@ export class ConverterService extends EventEmitter implements IConverterService
       }
     }
 
+    // Time range, before the output so ffmpeg applies it
+    if (config.startTime !== undefined) {
+      args.push('-ss', config.startTime.toString());
+    }
+    if (config.endTime !== undefined) {
+      args.push('-to', config.endTime.toString());
+    }
+
     // Two-pass encoding
     if (config.twoPass && passNumber) {
       const passLogPrefix = outputPath.replace(path.extname(outputPath), '');
@@ -308,14 +584,6 @@ export class ConverterService extends EventEmitter implements IConverterService
       args.push('-y', outputPath);
     }
 
-    // Time range
-    if (config.startTime !== undefined) {
-      args.push('-ss', config.startTime.toString());
-    }
-    if (config.endTime !== undefined) {
-      args.push('-to', config.endTime.toString());
-    }
-
     // Progress reporting
     args.push('-progress', '-', '-nostats');
 
@@ -541,6 +809,11 @@ export class ConverterService extends EventEmitter implements IConverterService
   }
 
   async estimateFileSize(videoPath: string, config: CompressionConfig): Promise<number> {
+    // Target-size encodes are checked against the limit
+    if (isTargetSizeMode(config)) {
+      return Math.min(config.targetFileSize ?? Infinity, config.maxFileSize ?? Infinity);
+    }
+
     const metadata = await this.getVideoMetadata(videoPath);
     let estimatedSize = 0;
 
@@ -596,6 +869,38 @@ export class ConverterService extends EventEmitter implements IConverterService
     return Math.round(estimatedSize);
   }
 
+  /**
+   * Stop a running encode where it is with SIGSTOP; its ffmpeg process stays
+   * in memory until resumed or cancelled. Windows has no SIGSTOP, and Node
+   * would kill the process instead.
+   */
+  async pauseProcessing(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'processing') {
+      throw new Error('Only a running task can be paused');
+    }
+    if (process.platform === 'win32') {
+      throw new Error('Pausing a running encode is not supported on Windows');
+    }
+
+    this.paused.add(taskId);
+    this.processes.get(taskId)?.kill('SIGSTOP');
+    task.status = 'paused';
+    this.emit('compression-progress', taskId, task);
+  }
+
+  async resumeProcessing(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'paused') {
+      throw new Error('Only a paused task can be resumed');
+    }
+
+    this.paused.delete(taskId);
+    this.processes.get(taskId)?.kill('SIGCONT');
+    task.status = 'processing';
+    this.emit('compression-progress', taskId, task);
+  }
+
   async cancelProcessing(taskId: string): Promise<void> {
     const process = this.processes.get(taskId);
     const task = this.tasks.get(taskId);
@@ -604,6 +909,7 @@ export class ConverterService extends EventEmitter implements IConverterService
       process.kill('SIGKILL');
       this.processes.delete(taskId);
     }
+    this.paused.delete(taskId);
 
     if (task) {
       task.status = 'cancelled';
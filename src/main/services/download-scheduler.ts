@@ -0,0 +1,615 @@
+/**
+ * DownloadScheduler - Admits download tasks into persistent named queues and
+ * starts them as slots free up, honouring maxConcurrentDownloads. Queues are
+ * served by priority lane (high, normal, low), then by position.
+ */
+
+import { EventEmitter } from 'events';
+import { DownloaderService } from './downloader';
+import { StorageService } from './storage';
+import { BandwidthManager } from './bandwidth';
+import { TaskRepository } from '../database/repositories/task-repository';
+import { isTransientError, getRetryDelay } from '../utils/download-errors';
+import {
+  DownloadTask,
+  DownloadOptions,
+  TaskQueue,
+  QueuePriority,
+  TaskMoveTarget,
+  DEFAULT_QUEUE_ID
+} from '../../shared/types/tasks';
+import { VideoInfo } from '../../shared/types/video';
+
+const LANE_ORDER: Record<QueuePriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+};
+
+const QUEUE_PAUSE_REASON = 'Queue paused';
+const INTERRUPTED_PAUSE_REASON = 'Interrupted';
+const DEFAULT_RETRY_DELAY = 5000;
+
+export class DownloadScheduler extends EventEmitter {
+  private downloaderService: DownloaderService;
+  private taskRepository: TaskRepository;
+  private storageService: StorageService;
+  private bandwidthManager?: BandwidthManager;
+  private pumping = false;
+  private pumpRequested = false;
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    downloaderService: DownloaderService,
+    taskRepository: TaskRepository,
+    storageService: StorageService,
+    bandwidthManager?: BandwidthManager
+  ) {
+    super();
+    this.downloaderService = downloaderService;
+    this.taskRepository = taskRepository;
+    this.storageService = storageService;
+    this.bandwidthManager = bandwidthManager;
+    this.attachDownloaderListeners();
+  }
+
+  /**
+   * Admit a new download. The task is persisted as 'queued' and started
+   * as soon as a slot is available.
+   */
+  async enqueue(url: string, options: DownloadOptions, entry?: VideoInfo): Promise<DownloadTask> {
+    const queue = await this.resolveQueue(options.queueId);
+    const task = await this.downloaderService.createTask(url, options, entry);
+    task.queueId = queue.id;
+    task.queuePosition = await this.getNextPosition(queue.id);
+    await this.taskRepository.saveDownloadTask(task);
+
+    this.processQueue();
+
+    return task;
+  }
+
+  async pause(taskId: string): Promise<void> {
+    await this.downloaderService.pauseDownload(taskId);
+    await this.taskRepository.updateTaskStatus(taskId, 'paused');
+
+    this.processQueue();
+  }
+
+  /**
+   * Paused tasks go back into the queue rather than spawning straight away,
+   * so resuming never exceeds the concurrency limit.
+   */
+  async resume(taskId: string): Promise<void> {
+    this.clearRetryTimer(taskId);
+    const task = this.downloaderService.requeueTask(taskId);
+
+    // A manual resume starts now and gets a fresh set of automatic retries
+    task.nextRetryAt = undefined;
+    task.retryCount = 0;
+    await this.taskRepository.saveDownloadTask(task);
+
+    this.processQueue();
+  }
+
+  /**
+   * Override the shared bandwidth limit for one task; null returns it to
+   * its share of the global limit
+   */
+  async setTaskRateLimit(taskId: string, limit: number | null): Promise<void> {
+    const rateLimit = limit ?? undefined;
+    await this.taskRepository.updateDownloadTask(taskId, { rateLimit });
+
+    const live = this.downloaderService.getTask(taskId);
+    if (live) {
+      live.rateLimit = rateLimit;
+      this.bandwidthManager?.rebalance();
+    }
+  }
+
+  async cancel(taskId: string): Promise<void> {
+    this.clearRetryTimer(taskId);
+    await this.downloaderService.cancelDownload(taskId);
+  }
+
+  async getQueues(): Promise<TaskQueue[]> {
+    await this.resolveQueue(DEFAULT_QUEUE_ID);
+    return this.storageService.getTaskQueues();
+  }
+
+  async createQueue(name: string, priority: QueuePriority = 'normal'): Promise<TaskQueue> {
+    const preferences = await this.storageService.getPreferences();
+    const queue = await this.storageService.createTaskQueue(
+      name,
+      preferences.maxConcurrentDownloads,
+      { priority }
+    );
+    this.emit('queue-updated', queue.id);
+    return queue;
+  }
+
+  async updateQueue(
+    queueId: string,
+    updates: { name?: string; priority?: QueuePriority }
+  ): Promise<TaskQueue> {
+    const queue = await this.resolveQueue(queueId, false);
+    const updated: TaskQueue = { ...queue, ...updates };
+    await this.storageService.updateTaskQueue(updated);
+
+    this.emit('queue-updated', queueId);
+    this.processQueue();
+
+    return updated;
+  }
+
+  async deleteQueue(queueId: string): Promise<void> {
+    if (queueId === DEFAULT_QUEUE_ID) {
+      throw new Error('Cannot delete the default queue');
+    }
+
+    // Waiting tasks fall back to the default queue
+    const tasks = await this.getQueueTasks(queueId);
+    for (const task of tasks) {
+      await this.transferTask(task.id, DEFAULT_QUEUE_ID);
+    }
+
+    await this.storageService.deleteTaskQueue(queueId);
+    this.emit('queue-updated', queueId);
+  }
+
+  /**
+   * Move a waiting (queued or paused) task within its queue
+   */
+  async moveTask(taskId: string, target: TaskMoveTarget): Promise<void> {
+    const task = await this.getStoredTask(taskId);
+    const queueId = task.queueId ?? DEFAULT_QUEUE_ID;
+    const waiting = (await this.getQueueTasks(queueId)).filter(
+      t => t.status === 'queued' || t.status === 'paused'
+    );
+
+    const from = waiting.findIndex(t => t.id === taskId);
+    if (from === -1) {
+      throw new Error('Only waiting tasks can be reordered');
+    }
+
+    let to: number;
+    switch (target) {
+      case 'up':
+        to = from - 1;
+        break;
+      case 'down':
+        to = from + 1;
+        break;
+      case 'top':
+        to = 0;
+        break;
+      case 'bottom':
+        to = waiting.length - 1;
+        break;
+      default:
+        to = target;
+    }
+    to = Math.min(Math.max(to, 0), waiting.length - 1);
+
+    if (to !== from) {
+      const [moved] = waiting.splice(from, 1);
+      waiting.splice(to, 0, moved);
+      await this.renumber(waiting);
+    }
+
+    this.emit('queue-updated', queueId);
+    this.processQueue();
+  }
+
+  /**
+   * Move a task to the end of another queue
+   */
+  async transferTask(taskId: string, queueId: string): Promise<void> {
+    const queue = await this.resolveQueue(queueId, false);
+    const task = await this.getStoredTask(taskId);
+    const fromQueueId = task.queueId ?? DEFAULT_QUEUE_ID;
+
+    const updates = {
+      queueId: queue.id,
+      queuePosition: await this.getNextPosition(queue.id)
+    };
+    await this.taskRepository.updateDownloadTask(taskId, updates);
+
+    const live = this.downloaderService.getTask(taskId);
+    if (live) {
+      Object.assign(live, updates);
+    }
+
+    if (queue.paused === true && task.status === 'downloading') {
+      await this.pauseForQueue(taskId);
+    }
+
+    this.emit('queue-updated', fromQueueId);
+    this.emit('queue-updated', queue.id);
+    this.processQueue();
+  }
+
+  /**
+   * Stop a whole queue: running tasks are paused and nothing else from the
+   * queue is started until it is resumed.
+   */
+  async pauseQueue(queueId: string): Promise<void> {
+    const queue = await this.resolveQueue(queueId, false);
+    await this.storageService.updateTaskQueue({ ...queue, paused: true });
+
+    const tasks = await this.getQueueTasks(queueId);
+    for (const task of tasks) {
+      if (task.status === 'downloading') {
+        await this.pauseForQueue(task.id);
+      }
+    }
+
+    this.emit('queue-updated', queueId);
+    this.processQueue();
+  }
+
+  async resumeQueue(queueId: string): Promise<void> {
+    const queue = await this.resolveQueue(queueId, false);
+    await this.storageService.updateTaskQueue({ ...queue, paused: false });
+
+    // Only tasks stopped by pauseQueue go back into line
+    const tasks = await this.getQueueTasks(queueId);
+    for (const task of tasks) {
+      if (task.status === 'paused' && task.pauseReason === QUEUE_PAUSE_REASON) {
+        await this.resume(task.id);
+      }
+    }
+
+    this.emit('queue-updated', queueId);
+    this.processQueue();
+  }
+
+  /**
+   * Reload the queue persisted by a previous session. Tasks that were
+   * downloading when the app quit or crashed are queued again and continued
+   * from their partial files; tasks the user paused stay paused, and failed
+   * tasks are loaded so they can still be retried.
+   */
+  async restore(): Promise<void> {
+    const tasks = await this.taskRepository.getDownloadTasksByStatus([
+      'queued',
+      'downloading',
+      'paused',
+      'failed'
+    ]);
+
+    for (const stored of tasks) {
+      const task = this.reviveTask(stored);
+      const interrupted =
+        task.status === 'downloading' ||
+        (task.status === 'paused' && task.pauseReason === INTERRUPTED_PAUSE_REASON);
+
+      if (interrupted) {
+        task.status = 'queued';
+        task.pauseReason = undefined;
+        await this.taskRepository.updateDownloadTask(task.id, {
+          status: 'queued',
+          pauseReason: undefined
+        });
+      }
+      this.downloaderService.restoreTask(task);
+
+      if (task.status === 'queued' && task.nextRetryAt) {
+        this.armRetryTimer(task.id, task.nextRetryAt.getTime() - Date.now());
+      }
+    }
+
+    this.processQueue();
+  }
+
+  /**
+   * Stop every running download before the app quits, checkpointing its
+   * partial file so restore() picks it up on the next launch.
+   */
+  async suspendAll(): Promise<void> {
+    const running = this.downloaderService
+      .listTasks()
+      .filter(task => task.status === 'downloading');
+
+    for (const task of running) {
+      try {
+        await this.downloaderService.pauseDownload(task.id, INTERRUPTED_PAUSE_REASON);
+        await this.taskRepository.saveDownloadTask(task);
+      } catch (error) {
+        console.error(`Failed to suspend download ${task.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Start queued tasks until the concurrency limit is reached. Calls made
+   * while a pass is running schedule one more pass instead of overlapping.
+   */
+  processQueue(): void {
+    if (this.pumping) {
+      this.pumpRequested = true;
+      return;
+    }
+
+    this.pumping = true;
+    this.pump()
+      .catch(error => {
+        console.error('Failed to process download queue:', error);
+      })
+      .finally(() => {
+        this.pumping = false;
+        if (this.pumpRequested) {
+          this.pumpRequested = false;
+          this.processQueue();
+        }
+      });
+  }
+
+  private async pump(): Promise<void> {
+    const preferences = await this.storageService.getPreferences();
+    const maxConcurrent = Math.max(1, preferences.maxConcurrentDownloads || 1);
+
+    while (await this.taskRepository.canStartNewTask(maxConcurrent)) {
+      const candidate = await this.selectNextTask();
+      if (!candidate) {
+        break;
+      }
+      const next = await this.taskRepository.startTask(candidate);
+
+      try {
+        if (!this.downloaderService.getTask(next.id)) {
+          this.downloaderService.restoreTask(this.reviveTask(next));
+        }
+        // Playlist items are queued from their flat entries; fetch the rest now
+        const resolved = await this.downloaderService.resolveVideoInfo(next.id);
+        if (resolved.videoInfo !== next.videoInfo) {
+          await this.taskRepository.updateDownloadTask(next.id, {
+            videoInfo: resolved.videoInfo,
+            metadata: resolved.metadata
+          });
+        }
+        this.bandwidthManager?.allocate(next.id);
+        this.downloaderService.launchTask(next.id);
+      } catch (error) {
+        console.error(`Failed to launch download ${next.id}:`, error);
+        await this.taskRepository.markTaskFailed(
+          next.id,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Pick the first queued task from the highest lane whose queue is not paused
+   */
+  private async selectNextTask(): Promise<DownloadTask | null> {
+    const queues = new Map(
+      (await this.storageService.getTaskQueues()).map(q => [q.id, q] as [string, TaskQueue])
+    );
+    const laneOf = (task: DownloadTask): number => {
+      const queue = queues.get(task.queueId ?? DEFAULT_QUEUE_ID);
+      return LANE_ORDER[queue?.priority ?? 'normal'];
+    };
+
+    const now = Date.now();
+    const candidates = (await this.taskRepository.getDownloadTasksByStatus(['queued']))
+      .filter(task => queues.get(task.queueId ?? DEFAULT_QUEUE_ID)?.paused !== true)
+      .filter(task => task.nextRetryAt === undefined || new Date(task.nextRetryAt).getTime() <= now)
+      .sort((a, b) =>
+        laneOf(a) - laneOf(b) ||
+        (a.queuePosition ?? Number.MAX_SAFE_INTEGER) - (b.queuePosition ?? Number.MAX_SAFE_INTEGER)
+      );
+
+    return candidates[0] ?? null;
+  }
+
+  private async pauseForQueue(taskId: string): Promise<void> {
+    await this.downloaderService.pauseDownload(taskId, QUEUE_PAUSE_REASON);
+    await this.taskRepository.updateTaskStatus(taskId, 'paused');
+  }
+
+  /**
+   * Look up a queue, creating the default queue on first use
+   */
+  private async resolveQueue(queueId = DEFAULT_QUEUE_ID, fallback = true): Promise<TaskQueue> {
+    const queue = await this.storageService.getTaskQueue(queueId);
+    if (queue) {
+      return queue;
+    }
+
+    if (queueId === DEFAULT_QUEUE_ID) {
+      const preferences = await this.storageService.getPreferences();
+      return this.storageService.createTaskQueue('默认队列', preferences.maxConcurrentDownloads, {
+        id: DEFAULT_QUEUE_ID
+      });
+    }
+
+    if (!fallback) {
+      throw new Error('Queue not found');
+    }
+    return this.resolveQueue(DEFAULT_QUEUE_ID);
+  }
+
+  private async getQueueTasks(queueId: string): Promise<DownloadTask[]> {
+    const tasks = await this.taskRepository.getDownloadTasksByStatus([
+      'queued',
+      'downloading',
+      'paused'
+    ]);
+
+    return tasks
+      .filter(task => (task.queueId ?? DEFAULT_QUEUE_ID) === queueId)
+      .sort(
+        (a, b) =>
+          (a.queuePosition ?? Number.MAX_SAFE_INTEGER) - (b.queuePosition ?? Number.MAX_SAFE_INTEGER)
+      );
+  }
+
+  private async getNextPosition(queueId: string): Promise<number> {
+    const tasks = await this.getQueueTasks(queueId);
+    return tasks.reduce((max, task) => Math.max(max, (task.queuePosition ?? -1) + 1), 0);
+  }
+
+  private async getStoredTask(taskId: string): Promise<DownloadTask> {
+    const task = (await this.taskRepository.getDownloadTasksByStatus([
+      'queued',
+      'downloading',
+      'paused'
+    ])).find(t => t.id === taskId);
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+    return task;
+  }
+
+  private async renumber(tasks: DownloadTask[]): Promise<void> {
+    for (let position = 0; position < tasks.length; position++) {
+      const task = tasks[position];
+      if (task.queuePosition === position) {
+        continue;
+      }
+
+      await this.taskRepository.updateDownloadTask(task.id, { queuePosition: position });
+      const live = this.downloaderService.getTask(task.id);
+      if (live) {
+        live.queuePosition = position;
+      }
+    }
+  }
+
+  private attachDownloaderListeners(): void {
+    this.downloaderService.on('download-complete', (taskId: string, task: DownloadTask) => {
+      void this.settleTask(taskId, task, 'completed');
+    });
+
+    this.downloaderService.on('download-failed', (taskId: string, task: DownloadTask) => {
+      void this.settleTask(taskId, task, 'failed');
+    });
+
+    this.downloaderService.on('download-error', (taskId: string) => {
+      const task = this.downloaderService.getTask(taskId);
+      if (task) {
+        void this.settleTask(taskId, task, 'failed');
+      }
+    });
+
+    // Keep the stored byte position current so a crash loses little progress
+    this.downloaderService.on('download-checkpoint', (taskId: string, task: DownloadTask) => {
+      this.taskRepository
+        .updateDownloadTask(taskId, {
+          progress: task.progress,
+          downloadedBytes: task.downloadedBytes,
+          totalBytes: task.totalBytes,
+          partialFilePath: task.partialFilePath,
+          resumePosition: task.resumePosition,
+          lastCheckpoint: task.lastCheckpoint
+        })
+        .catch(error => {
+          console.error(`Failed to checkpoint download ${taskId}:`, error);
+        });
+    });
+
+    this.downloaderService.on('download-paused', (taskId: string, task: DownloadTask) => {
+      this.taskRepository.saveDownloadTask(task).catch(error => {
+        console.error(`Failed to persist paused download ${taskId}:`, error);
+      });
+    });
+
+    this.downloaderService.on('download-cancelled', (taskId: string) => {
+      this.taskRepository
+        .removeTask(taskId)
+        .catch(error => {
+          console.error(`Failed to remove cancelled download ${taskId}:`, error);
+        })
+        .finally(() => this.processQueue());
+    });
+  }
+
+  private async settleTask(
+    taskId: string,
+    task: DownloadTask,
+    status: 'completed' | 'failed'
+  ): Promise<void> {
+    try {
+      if (status === 'failed' && this.shouldRetry(task)) {
+        this.scheduleRetry(task);
+        await this.taskRepository.saveDownloadTask(task);
+        return;
+      }
+
+      await this.taskRepository.saveDownloadTask(task);
+
+      // The downloader has already appended this attempt to failureHistory
+      await this.taskRepository.updateTaskStatus(taskId, status);
+      if (status === 'completed') {
+        await this.taskRepository.removeTask(taskId);
+      }
+    } catch (error) {
+      console.error(`Failed to persist download ${taskId}:`, error);
+    } finally {
+      this.processQueue();
+    }
+  }
+
+  private shouldRetry(task: DownloadTask): boolean {
+    return (
+      isTransientError(task.lastErrorCode) &&
+      (task.retryCount ?? 0) < (task.maxRetries ?? 0)
+    );
+  }
+
+  /**
+   * Put a transiently failed task back in line, held back until its
+   * backoff delay has passed
+   */
+  private scheduleRetry(task: DownloadTask): void {
+    const attempt = (task.retryCount ?? 0) + 1;
+    const delay = getRetryDelay(
+      attempt,
+      task.retryDelay ?? DEFAULT_RETRY_DELAY,
+      task.lastErrorCode
+    );
+
+    this.downloaderService.requeueTask(task.id);
+    task.retryCount = attempt;
+    task.nextRetryAt = new Date(Date.now() + delay);
+
+    this.armRetryTimer(task.id, delay);
+    this.emit('retry-scheduled', task.id, task);
+  }
+
+  private armRetryTimer(taskId: string, delay: number): void {
+    this.clearRetryTimer(taskId);
+    this.retryTimers.set(taskId, setTimeout(() => {
+      this.retryTimers.delete(taskId);
+      this.processQueue();
+    }, Math.max(delay, 0)));
+  }
+
+  private clearRetryTimer(taskId: string): void {
+    const timer = this.retryTimers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(taskId);
+    }
+  }
+
+  /**
+   * electron-store returns dates as strings, turn them back into Dates
+   */
+  private reviveTask(task: DownloadTask): DownloadTask {
+    const toDate = (value?: Date | string | number): Date | undefined =>
+      value !== undefined && value !== null ? new Date(value) : undefined;
+
+    return {
+      ...task,
+      startTime: toDate(task.startTime) || new Date(),
+      endTime: toDate(task.endTime),
+      lastCheckpoint: toDate(task.lastCheckpoint),
+      resumeTime: toDate(task.resumeTime),
+      nextRetryAt: toDate(task.nextRetryAt)
+    };
+  }
+}
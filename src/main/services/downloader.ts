@@ -9,7 +9,10 @@ import { EventEmitter } from 'events';
 import {
   VideoInfo,
   VideoFormat,
-  VideoQuality
+  VideoChapter,
+  VideoQuality,
+  PlaylistInfo,
+  PlaylistFetchOptions
 } from '../../shared/types/video';
 import {
   DownloadTask,
@@ -18,17 +21,36 @@ import {
   TaskStatus
 } from '../../shared/types/tasks';
 import { IDownloaderService } from '../../../specs/001-youtube-youtube/contracts/service-interfaces';
+import { classifyDownloadError } from '../utils/download-errors';
+import { buildFormatArgs, validateFormatSelection } from '../utils/format-selection';
+import { buildAudioArgs, validateAudioOptions } from '../utils/audio-extraction';
+import { NetworkProfileService } from './network-profiles';
+
+const CHECKPOINT_INTERVAL = 5000; // Persist byte positions at most every 5 seconds
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 5000;
 
 export class DownloaderService extends EventEmitter implements IDownloaderService {
   private tasks: Map<string, DownloadTask> = new Map();
   private processes: Map<string, ChildProcess> = new Map();
+  private lastErrors: Map<string, string> = new Map();
+  private rateLimits: Map<string, number> = new Map(); // Applied --limit-rate, KB/s
   private ytdlpPath: string;
+  private networkProfiles?: NetworkProfileService;
 
   constructor(ytdlpPath?: string) {
     super();
     this.ytdlpPath = ytdlpPath || this.getYtdlpPath();
   }
 
+  setNetworkProfiles(networkProfiles: NetworkProfileService): void {
+    this.networkProfiles = networkProfiles;
+  }
+
+  private getNetworkArgs(profileId?: string): string[] {
+    return this.networkProfiles?.getYtDlpArgs(profileId) ?? [];
+  }
+
   private getYtdlpPath(): string {
     // Try to find yt-dlp in common locations
     const possiblePaths = [
@@ -46,13 +68,14 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
     return 'yt-dlp'; // Fallback to system PATH
   }
 
-  async fetchVideoInfo(url: string): Promise<VideoInfo> {
+  async fetchVideoInfo(url: string, networkProfileId?: string): Promise<VideoInfo> {
     return new Promise((resolve, reject) => {
       const args = [
         url,
         '--dump-json',
         '--no-warnings',
-        '--no-playlist'
+        '--no-playlist',
+        ...this.getNetworkArgs(networkProfileId)
       ];
 
       const process = spawn(this.ytdlpPath, args);
@@ -83,14 +106,16 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
             thumbnail: info.thumbnail || '',
             author: info.uploader || info.channel || '',
             description: info.description,
-            uploadDate: info.upload_date ? new Date(info.upload_date) : undefined,
+            uploadDate: this.parseUploadDate(info),
             viewCount: info.view_count,
             likeCount: info.like_count,
             availableFormats: this.parseFormats(info.formats || []),
             availableSubtitles: Object.keys(info.subtitles || {}),
             isLive: info.is_live || false,
             isPrivate: false,
-            ageRestricted: info.age_limit > 0
+            ageRestricted: info.age_limit > 0,
+            extractor: info.extractor_key,
+            chapters: this.parseChapters(info.chapters || [])
           };
 
           resolve(videoInfo);
@@ -105,6 +130,128 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
     });
   }
 
+  /**
+   * Expand a playlist or channel URL without resolving each video
+   * (--flat-playlist). Entries carry no formats; each one is fetched in full
+   * when it is turned into a download task.
+   */
+  async fetchPlaylist(url: string, options: PlaylistFetchOptions = {}): Promise<PlaylistInfo> {
+    const args = [
+      url,
+      '--flat-playlist',
+      '--dump-single-json',
+      '--yes-playlist',
+      '--no-warnings',
+      ...this.getNetworkArgs(options.networkProfileId)
+    ];
+
+    if (options.startIndex || options.endIndex) {
+      args.push('--playlist-items', `${options.startIndex || 1}:${options.endIndex || ''}`);
+    }
+
+    const dateAfter = this.normalizeDate(options.dateAfter);
+    const dateBefore = this.normalizeDate(options.dateBefore);
+    if (dateAfter || dateBefore) {
+      // Flat YouTube tab listings omit upload dates unless asked for
+      args.push('--extractor-args', 'youtubetab:approximate_date');
+    }
+
+    const info = await new Promise<any>((resolve, reject) => {
+      const process = spawn(this.ytdlpPath, args);
+      let jsonData = '';
+      let errorData = '';
+
+      process.stdout.on('data', (data) => {
+        jsonData += data.toString();
+      });
+
+      process.stderr.on('data', (data) => {
+        errorData += data.toString();
+      });
+
+      process.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`Failed to fetch playlist: ${errorData}`));
+          return;
+        }
+
+        try {
+          resolve(JSON.parse(jsonData));
+        } catch (error) {
+          reject(new Error(`Failed to parse playlist: ${error}`));
+        }
+      });
+
+      process.on('error', (error) => {
+        reject(new Error(`Failed to spawn yt-dlp: ${error}`));
+      });
+    });
+
+    const rawEntries: any[] = (info.entries || []).filter((e: any) => e);
+    const videoEntries = rawEntries.filter(e => e._type !== 'playlist');
+    if (rawEntries.length > 0 && videoEntries.length === 0) {
+      throw new Error('This URL lists playlists, open a specific tab such as /videos');
+    }
+
+    const entries = videoEntries
+      .map((entry, i): VideoInfo => ({
+        id: entry.id,
+        url: entry.webpage_url || entry.url,
+        title: entry.title || entry.id,
+        duration: entry.duration || 0,
+        thumbnail: entry.thumbnail || entry.thumbnails?.[entry.thumbnails.length - 1]?.url || '',
+        author: entry.uploader || entry.channel || info.uploader || info.channel || '',
+        description: entry.description,
+        uploadDate: this.parseUploadDate(entry),
+        viewCount: entry.view_count,
+        availableFormats: [],
+        availableSubtitles: [],
+        isLive: entry.live_status === 'is_live',
+        extractor: entry.ie_key || info.extractor_key,
+        playlistIndex: entry.playlist_index || (options.startIndex || 1) + i
+      }))
+      .filter(entry => {
+        // Entries without a known date are kept, the user can still deselect them
+        if (!entry.uploadDate) {
+          return true;
+        }
+        const date = this.formatDateKey(entry.uploadDate);
+        return (!dateAfter || date >= dateAfter) && (!dateBefore || date <= dateBefore);
+      });
+
+    const isChannel = (Boolean(info.channel_id) && info.id === info.channel_id) ||
+      /\/(channel|c|user)\/|\/@/.test(url);
+
+    return {
+      id: info.id,
+      url: info.webpage_url || url,
+      title: info.title || info.id,
+      author: info.uploader || info.channel || '',
+      type: isChannel ? 'channel' : 'playlist',
+      totalCount: info.playlist_count || rawEntries.length,
+      entries
+    };
+  }
+
+  private parseUploadDate(info: any): Date | undefined {
+    if (typeof info.upload_date === 'string' && /^\d{8}$/.test(info.upload_date)) {
+      const d = info.upload_date;
+      return new Date(`${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}T00:00:00Z`);
+    }
+    if (typeof info.timestamp === 'number') {
+      return new Date(info.timestamp * 1000);
+    }
+    return undefined;
+  }
+
+  private normalizeDate(value?: string): string | undefined {
+    return value ? value.replace(/-/g, '') : undefined;
+  }
+
+  private formatDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+  }
+
   private parseFormats(formats: any[]): VideoFormat[] {
     return formats
       .filter(f => f.vcodec !== 'none' || f.acodec !== 'none')
@@ -116,9 +263,14 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
         vcodec: f.vcodec,
         acodec: f.acodec,
         filesize: f.filesize,
+        filesizeApprox: f.filesize_approx,
         width: f.width,
         height: f.height,
-        tbr: f.tbr
+        tbr: f.tbr,
+        vbr: f.vbr,
+        abr: f.abr,
+        dynamicRange: f.dynamic_range,
+        note: f.format_note
       }))
       .sort((a, b) => {
         const qualityOrder = ['2160p', '1440p', '1080p', '720p', '480p', '360p', '240p', '144p'];
@@ -130,6 +282,18 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
       });
   }
 
+  private parseChapters(chapters: any[]): VideoChapter[] | undefined {
+    if (chapters.length === 0) {
+      return undefined;
+    }
+
+    return chapters.map(c => ({
+      title: c.title || '',
+      startTime: c.start_time || 0,
+      endTime: c.end_time || 0
+    }));
+  }
+
   private extractQuality(format: any): string {
     if (format.height) {
       return `${format.height}p`;
@@ -141,36 +305,76 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
   }
 
   async startDownload(url: string, options: DownloadOptions): Promise<DownloadTask> {
+    const task = await this.createTask(url, options);
+    this.launchTask(task.id);
+    return task;
+  }
+
+  /**
+   * Register a download task without spawning yt-dlp. The task stays
+   * 'queued' until launchTask is called (normally by the DownloadScheduler).
+   * A flat playlist entry can be passed as `entry` to skip fetching the video
+   * info now; resolveVideoInfo fills it in when the task starts.
+   */
+  async createTask(url: string, options: DownloadOptions, entry?: VideoInfo): Promise<DownloadTask> {
     const taskId = this.generateTaskId();
-    const videoInfo = await this.fetchVideoInfo(url);
+    const videoInfo = entry ?? await this.fetchVideoInfo(url, options.networkProfileId);
+
+    // Flat entries have no formats yet, the selection is checked once they are fetched
+    if (options.formatSelection && videoInfo.availableFormats.length > 0) {
+      validateFormatSelection(options.formatSelection, videoInfo.availableFormats);
+    }
+
+    if (options.audio) {
+      validateAudioOptions(options.audio);
+    }
+
+    // Audio downloads end up in the codec's own container
+    const extension = options.audio?.codec ?? options.preferredFormat ?? 'mp4';
+
+    // Playlist items are numbered so they sort in playlist order
+    const playlistIndex = options.playlist?.index;
+    const defaultFilename = playlistIndex
+      ? `${String(playlistIndex).padStart(3, '0')} - %(title)s.%(ext)s`
+      : '%(title)s.%(ext)s';
 
     const outputTemplate = path.join(
       options.outputPath,
-      options.filename || '%(title)s.%(ext)s'
+      options.filename || defaultFilename
     );
 
-    const args = this.buildDownloadArgs(url, outputTemplate, options);
-
     const task: DownloadTask = {
       id: taskId,
       videoInfo,
-      status: 'downloading',
+      status: 'queued',
       progress: 0,
       downloadedBytes: 0,
       totalBytes: 0,
       speed: 0,
       eta: 0,
-      outputPath: outputTemplate.replace('%(title)s', videoInfo.title).replace('%(ext)s', options.preferredFormat || 'mp4'),
+      outputPath: outputTemplate.replace('%(title)s', videoInfo.title).replace('%(ext)s', extension),
       startTime: new Date(),
       resumable: options.enableResume || true,
+      retryCount: 0,
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryDelay: options.retryDelay ?? DEFAULT_RETRY_DELAY,
+      rateLimit: options.rateLimit,
       metadata: {
         videoTitle: videoInfo.title,
         videoAuthor: videoInfo.author,
         videoDuration: videoInfo.duration,
         videoQuality: options.quality || 'best',
-        selectedFormat: options.preferredFormat || 'mp4',
+        selectedFormat: extension,
         subtitleLanguages: options.subtitleLanguages,
         downloadStartTime: new Date(),
+        playlistId: options.playlist?.id,
+        playlistTitle: options.playlist?.title,
+        playlistIndex,
+        subscriptionId: options.subscriptionId,
+        downloadArchive: options.downloadArchive,
+        networkProfileId: options.networkProfileId,
+        formatSelection: options.formatSelection,
+        audio: options.audio,
         userPreferences: {
           outputPath: options.outputPath,
           autoGenerateSubtitles: false,
@@ -180,45 +384,231 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
     };
 
     this.tasks.set(taskId, task);
+    this.emit('download-queued', taskId, task);
+
+    return task;
+  }
+
+  /**
+   * Fetch the full video info of a task queued from a flat playlist entry
+   * and check its format selection against it. Tasks that already have
+   * their formats are returned unchanged.
+   */
+  async resolveVideoInfo(taskId: string): Promise<DownloadTask> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (task.videoInfo.availableFormats.length > 0) {
+      return task;
+    }
+
+    const videoInfo = await this.fetchVideoInfo(task.videoInfo.url, task.metadata?.networkProfileId);
+    if (task.metadata?.formatSelection) {
+      validateFormatSelection(task.metadata.formatSelection, videoInfo.availableFormats);
+    }
+
+    task.videoInfo = { ...videoInfo, playlistIndex: task.videoInfo.playlistIndex };
+    if (task.metadata) {
+      task.metadata.videoTitle = videoInfo.title;
+      task.metadata.videoAuthor = videoInfo.author;
+      task.metadata.videoDuration = videoInfo.duration;
+    }
+
+    return task;
+  }
+
+  /**
+   * Spawn yt-dlp for a known task. Tasks that already have partial data
+   * are continued with --continue.
+   */
+  launchTask(taskId: string): DownloadTask {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (this.processes.has(taskId)) {
+      return task;
+    }
+
+    this.spawnDownload(task);
+
+    this.emit('download-started', taskId, task);
+    return task;
+  }
+
+  private spawnDownload(task: DownloadTask): void {
+    this.verifyPartialFile(task);
+
+    const options = this.getTaskOptions(task);
+    const args = this.buildDownloadArgs(task.videoInfo.url, task.outputPath, options);
+
+    task.status = 'downloading';
+    task.nextRetryAt = undefined;
+    if ((task.resumePosition ?? 0) > 0) {
+      task.resumeTime = new Date();
+    }
 
     const process = spawn(this.ytdlpPath, args);
-    this.processes.set(taskId, process);
+    this.processes.set(task.id, process);
+    this.lastErrors.delete(task.id);
+    this.attachProcessListeners(process, task.id);
+  }
+
+  /**
+   * Check the recorded .part file before continuing. If it has gone missing
+   * or shrunk, yt-dlp will start over, so the saved progress is reset.
+   */
+  private verifyPartialFile(task: DownloadTask): void {
+    if (task.partialFilePath === undefined) {
+      return;
+    }
+
+    const size = this.getFileSize(task.partialFilePath);
+    if (size === null || size < (task.resumePosition ?? 0)) {
+      task.partialFilePath = undefined;
+      task.resumePosition = undefined;
+      task.progress = 0;
+      task.downloadedBytes = 0;
+    } else {
+      task.resumePosition = size;
+    }
+  }
+
+  private getFileSize(filePath: string): number | null {
+    try {
+      return fs.statSync(filePath).size;
+    } catch {
+      return null;
+    }
+  }
 
-    this.attachProcessListeners(process, taskId);
+  /**
+   * Set the --limit-rate used the next time the task's yt-dlp is spawned.
+   * Undefined or 0 downloads at full speed.
+   */
+  setRateLimit(taskId: string, limit?: number): void {
+    if (limit !== undefined && limit > 0) {
+      this.rateLimits.set(taskId, limit);
+    } else {
+      this.rateLimits.delete(taskId);
+    }
+  }
+
+  getRateLimit(taskId: string): number | undefined {
+    return this.rateLimits.get(taskId);
+  }
+
+  /**
+   * Stop a running yt-dlp and start it again from the .part file, so
+   * changed arguments such as the rate limit take effect
+   */
+  restartTask(taskId: string): void {
+    const process = this.processes.get(taskId);
+    const task = this.tasks.get(taskId);
+    if (!process || !task) {
+      return;
+    }
+
+    this.processes.delete(taskId);
+    this.updateCheckpoint(task);
+    process.once('close', () => {
+      if (task.status === 'downloading' && !this.processes.has(taskId)) {
+        this.spawnDownload(task);
+      }
+    });
+    process.kill('SIGTERM');
+  }
+
+  /**
+   * Adopt a task persisted by a previous session so it can be launched again.
+   */
+  restoreTask(task: DownloadTask): void {
+    if (!this.tasks.has(task.id)) {
+      this.tasks.set(task.id, task);
+    }
+  }
+
+  /**
+   * Put a paused or failed task back into the 'queued' state without
+   * spawning yt-dlp.
+   */
+  requeueTask(taskId: string): DownloadTask {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    if (this.processes.has(taskId)) {
+      throw new Error('Task is already running');
+    }
+
+    task.status = 'queued';
+    task.pauseReason = undefined;
+    task.endTime = undefined;
+    this.emit('download-queued', taskId, task);
 
     return task;
   }
 
+  private getTaskOptions(task: DownloadTask): DownloadOptions {
+    return {
+      quality: task.metadata?.videoQuality,
+      outputPath: path.dirname(task.outputPath),
+      filename: path.basename(task.outputPath),
+      subtitleLanguages: task.metadata?.subtitleLanguages,
+      preferredFormat: task.metadata?.selectedFormat,
+      downloadArchive: task.metadata?.downloadArchive,
+      rateLimit: this.rateLimits.get(task.id),
+      networkProfileId: task.metadata?.networkProfileId,
+      formatSelection: task.metadata?.formatSelection,
+      audio: task.metadata?.audio,
+      enableResume: true
+    };
+  }
+
   private buildDownloadArgs(url: string, outputPath: string, options: DownloadOptions): string[] {
+    // Audio is downloaded in its source format and converted afterwards,
+    // so yt-dlp has to pick the intermediate file's extension
+    const { dir, name } = path.parse(outputPath);
     const args = [
       url,
-      '-o', outputPath,
+      '-o', options.audio ? path.join(dir, `${name}.%(ext)s`) : outputPath,
       '--no-warnings'
     ];
 
-    if (options.quality) {
-      if (options.quality === 'best') {
-        args.push('-f', 'bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best');
-      } else if (options.quality === 'worst') {
-        args.push('-f', 'worst');
-      } else {
-        args.push('-f', `bestvideo[height<=${options.quality.replace('p', '')}]+bestaudio/best[height<=${options.quality.replace('p', '')}]`);
+    if (options.audio) {
+      args.push('-f', options.formatSelection?.audioFormatId ?? 'bestaudio/best');
+      args.push(...buildAudioArgs(options.audio, outputPath));
+    } else {
+      args.push(...buildFormatArgs(options.quality, options.formatSelection));
+
+      if (options.preferredFormat) {
+        args.push('--merge-output-format', options.preferredFormat);
+      }
+
+      if (options.subtitleLanguages && options.subtitleLanguages.length > 0) {
+        args.push('--write-sub');
+        args.push('--sub-langs', options.subtitleLanguages.join(','));
       }
     }
 
-    if (options.preferredFormat) {
-      args.push('--merge-output-format', options.preferredFormat);
+    if (options.enableResume) {
+      args.push('--continue');
     }
 
-    if (options.subtitleLanguages && options.subtitleLanguages.length > 0) {
-      args.push('--write-sub');
-      args.push('--sub-langs', options.subtitleLanguages.join(','));
+    if (options.downloadArchive) {
+      args.push('--download-archive', options.downloadArchive);
     }
 
-    if (options.enableResume) {
-      args.push('--continue');
+    if (options.rateLimit !== undefined && options.rateLimit > 0) {
+      args.push('--limit-rate', `${Math.round(options.rateLimit)}K`);
     }
 
+    args.push(...this.getNetworkArgs(options.networkProfileId));
+
     args.push('--progress');
     args.push('--newline');
 
@@ -231,42 +621,115 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
       this.parseProgress(output, taskId);
     });
 
-    process.stderr?.on('data', (data) => {
-      console.error(`yt-dlp error for task ${taskId}:`, data.toString());
+    process.stderr?.on('data', (data: Buffer) => {
+      const output = data.toString();
+      console.error(`yt-dlp error for task ${taskId}:`, output);
+
+      const errorLine = output.split('\n').find(line => line.startsWith('ERROR:'));
+      if (errorLine !== undefined) {
+        this.lastErrors.set(taskId, errorLine.replace(/^ERROR:\s*/, '').trim());
+      }
     });
 
     process.on('close', (code) => {
+      // Paused, cancelled and restarted processes were killed on purpose
+      // and already removed, their exit code is not a failure
+      if (this.processes.get(taskId) !== process) {
+        return;
+      }
+
+      const lastError = this.lastErrors.get(taskId);
+      this.processes.delete(taskId);
+      this.lastErrors.delete(taskId);
+
       const task = this.tasks.get(taskId);
-      if (task) {
+      if (task && task.status !== 'paused') {
         if (code === 0) {
           task.status = 'completed';
           task.progress = 100;
           task.endTime = new Date();
+          task.partialFilePath = undefined;
+          task.resumePosition = undefined;
+          this.rateLimits.delete(taskId);
           this.emit('download-complete', taskId, task);
         } else {
-          task.status = 'failed';
-          task.lastError = `Process exited with code ${code}`;
+          this.recordFailure(task, lastError ?? `Process exited with code ${code}`);
           this.emit('download-failed', taskId, task);
         }
       }
-      this.processes.delete(taskId);
     });
 
     process.on('error', (error) => {
+      this.processes.delete(taskId);
       const task = this.tasks.get(taskId);
       if (task) {
-        task.status = 'failed';
-        task.lastError = error.message;
+        this.recordFailure(task, error.message);
         this.emit('download-error', taskId, error);
       }
-      this.processes.delete(taskId);
     });
   }
 
+  /**
+   * Mark a task failed and append the attempt to its failure history. The
+   * partial file is kept so a retry continues where this attempt stopped.
+   */
+  private recordFailure(task: DownloadTask, reason: string): void {
+    this.updateCheckpoint(task);
+
+    const errorCode = classifyDownloadError(reason);
+
+    task.status = 'failed';
+    task.lastError = reason;
+    task.lastErrorCode = errorCode;
+    task.failureHistory = [
+      ...(task.failureHistory ?? []),
+      {
+        timestamp: new Date(),
+        progress: task.progress,
+        reason,
+        errorCode
+      }
+    ];
+  }
+
+  /**
+   * Record how much of the current .part file is on disk
+   */
+  private updateCheckpoint(task: DownloadTask): void {
+    if (task.partialFilePath) {
+      const size = this.getFileSize(task.partialFilePath);
+      if (size !== null) {
+        task.resumePosition = size;
+      }
+    }
+    task.lastCheckpoint = new Date();
+  }
+
   private parseProgress(output: string, taskId: string): void {
     const task = this.tasks.get(taskId);
     if (!task) return;
 
+    // Track the file yt-dlp is writing; its .part file is what gets resumed
+    const destinationMatch = output.match(/\[download\] Destination: (.+)$/m);
+    if (destinationMatch) {
+      task.partialFilePath = `${destinationMatch[1].trim()}.part`;
+    }
+
+    // Converted audio and chapter tracks are reported by the postprocessors
+    const extractMatch = output.match(/\[ExtractAudio\] Destination: (.+)$/m);
+    if (extractMatch) {
+      task.outputPath = extractMatch[1].trim();
+    }
+
+    for (const chapterMatch of output.matchAll(/\[SplitChapters\] Chapter \d+; Destination: (.+)$/gm)) {
+      task.outputFiles = [...(task.outputFiles ?? []), chapterMatch[1].trim()];
+    }
+
+    const resumeMatch = output.match(/\[download\] Resuming download at byte (\d+)/);
+    if (resumeMatch) {
+      task.resumePosition = parseInt(resumeMatch[1]);
+    }
+
     // Parse yt-dlp progress output
     const progressMatch = output.match(/\[download\]\s+(\d+\.?\d*)%/);
     const speedMatch = output.match(/at\s+([\d.]+)([KMG]?)iB\/s/);
@@ -295,6 +758,12 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
     }
 
     this.emit('download-progress', taskId, task);
+
+    const lastCheckpoint = task.lastCheckpoint ? new Date(task.lastCheckpoint).getTime() : 0;
+    if (Date.now() - lastCheckpoint >= CHECKPOINT_INTERVAL) {
+      this.updateCheckpoint(task);
+      this.emit('download-checkpoint', taskId, task);
+    }
   }
 
   private convertToBytes(value: number, unit: string): number {
@@ -317,17 +786,22 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
     }
   }
 
-  async pauseDownload(taskId: string): Promise<void> {
+  async pauseDownload(taskId: string, reason: string = 'User requested'): Promise<void> {
     const process = this.processes.get(taskId);
     const task = this.tasks.get(taskId);
 
     if (process && task) {
       process.kill('SIGTERM');
       task.status = 'paused';
-      task.pauseReason = 'User requested';
-      task.lastCheckpoint = new Date();
+      task.pauseReason = reason;
+      this.updateCheckpoint(task);
       this.processes.delete(taskId);
       this.emit('download-paused', taskId, task);
+    } else if (task && task.status === 'queued') {
+      // Queued tasks have no process yet, just hold them back
+      task.status = 'paused';
+      task.pauseReason = reason;
+      this.emit('download-paused', taskId, task);
     } else {
       throw new Error('Task not found');
     }
@@ -343,24 +817,10 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
       throw new Error('Task is not paused');
     }
 
-    task.status = 'downloading';
+    // Restart yt-dlp with --continue so it picks up the .part file
+    this.spawnDownload(task);
     task.resumeTime = new Date();
 
-    // Restart download with resume flag
-    const options: DownloadOptions = {
-      quality: task.metadata?.videoQuality,
-      outputPath: path.dirname(task.outputPath),
-      filename: path.basename(task.outputPath),
-      subtitleLanguages: task.metadata?.subtitleLanguages,
-      preferredFormat: task.metadata?.selectedFormat,
-      enableResume: true
-    };
-
-    const args = this.buildDownloadArgs(task.videoInfo.url, task.outputPath, options);
-    const process = spawn(this.ytdlpPath, args);
-    this.processes.set(taskId, process);
-    this.attachProcessListeners(process, taskId);
-
     this.emit('download-resumed', taskId, task);
   }
 
@@ -383,6 +843,7 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
       }
 
       this.tasks.delete(taskId);
+      this.rateLimits.delete(taskId);
       this.emit('download-cancelled', taskId);
     } else {
       throw new Error('Task not found');
@@ -406,6 +867,10 @@ export class DownloaderService extends EventEmitter implements IDownloaderServic
     };
   }
 
+  getTask(taskId: string): DownloadTask | undefined {
+    return this.tasks.get(taskId);
+  }
+
   listTasks(): DownloadTask[] {
     return Array.from(this.tasks.values());
   }
@@ -0,0 +1,68 @@
+/**
+ * HardwareEncoderService - Which GPU encoders work on this machine. The probe
+ * runs once per ffmpeg build and its result is kept in the app settings; an
+ * encoder that later fails on a real file is dropped until the next probe.
+ */
+
+import { FfmpegWrapper } from '../binaries/ffmpeg-wrapper';
+import { StorageService } from './storage';
+import { HardwareEncoderProbe } from '../../shared/types/compression';
+import { selectHardwareEncoder } from '../utils/hardware-encoders';
+
+export class HardwareEncoderService {
+  private storageService: StorageService;
+  private ffmpeg: FfmpegWrapper;
+  private probing?: Promise<HardwareEncoderProbe>;
+
+  constructor(storageService: StorageService, ffmpeg: FfmpegWrapper) {
+    this.storageService = storageService;
+    this.ffmpeg = ffmpeg;
+  }
+
+  // The cached probe, probing again when there's none, ffmpeg changed or `refresh` is set
+  async getEncoders(refresh = false): Promise<HardwareEncoderProbe> {
+    const { hardwareEncoders: cached } = await this.storageService.getAppSettings();
+    if (!refresh && cached !== undefined && cached.ffmpegVersion === await this.ffmpeg.getVersion()) {
+      this.ffmpeg.setHardwareEncoders(cached.working);
+      return cached;
+    }
+
+    // Callers arriving during a probe share it
+    if (this.probing === undefined) {
+      this.probing = this.probe().finally(() => {
+        this.probing = undefined;
+      });
+    }
+    return this.probing;
+  }
+
+  // A working hardware encoder for `videoCodec`, undefined to encode in software
+  async selectEncoder(videoCodec?: string): Promise<string | undefined> {
+    try {
+      const { working } = await this.getEncoders();
+      return selectHardwareEncoder(videoCodec, working);
+    } catch (error) {
+      console.error('Failed to probe hardware encoders:', error);
+      return undefined;
+    }
+  }
+
+  async markFailed(encoder: string, reason: string): Promise<void> {
+    const { hardwareEncoders: cached } = await this.storageService.getAppSettings();
+    if (cached === undefined) {
+      return;
+    }
+
+    const working = cached.working.filter(name => name !== encoder);
+    this.ffmpeg.setHardwareEncoders(working);
+    await this.storageService.updateAppSettings({
+      hardwareEncoders: { ...cached, working, failures: { ...cached.failures, [encoder]: reason } }
+    });
+  }
+
+  private async probe(): Promise<HardwareEncoderProbe> {
+    const result = await this.ffmpeg.probeHardwareEncoders();
+    await this.storageService.updateAppSettings({ hardwareEncoders: result });
+    return result;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * NetworkProfileService - Named proxy, cookie and request identity settings.
+ * Profiles are turned into yt-dlp arguments for downloads and subtitle
+ * fetching, and into an Electron session for the app's own HTTPS requests.
+ */
+
+import { session, Session } from 'electron';
+import * as fs from 'fs';
+import { StorageService } from './storage';
+import { NetworkProfile, NetworkProfileInput } from '../../shared/types/network';
+
+const PROXY_PATTERN = /^(https?|socks4a?|socks5h?):\/\/\S+$/i;
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const DEFAULT_PROFILE_NAME = '默认网络';
+
+export interface NetworkRequestOptions {
+  session: Session;
+  headers: Record<string, string>;
+  proxyCredentials?: { username: string; password: string };
+}
+
+/**
+ * yt-dlp arguments for a profile. The user agent is sent as a header, which
+ * is how current yt-dlp versions expect it.
+ */
+export function buildNetworkArgs(profile?: NetworkProfile): string[] {
+  if (!profile) {
+    return [];
+  }
+
+  const args: string[] = [];
+
+  if (profile.proxy) {
+    args.push('--proxy', profile.proxy);
+  }
+
+  if (profile.cookiesFile) {
+    args.push('--cookies', profile.cookiesFile);
+  } else if (profile.cookiesFromBrowser) {
+    const { browser, profile: browserProfile } = profile.cookiesFromBrowser;
+    args.push('--cookies-from-browser', browserProfile ? `${browser}:${browserProfile}` : browser);
+  }
+
+  if (profile.userAgent) {
+    args.push('--add-header', `User-Agent:${profile.userAgent}`);
+  }
+
+  for (const [name, value] of Object.entries(profile.headers ?? {})) {
+    args.push('--add-header', `${name}:${value}`);
+  }
+
+  if (profile.sourceAddress) {
+    args.push('--source-address', profile.sourceAddress);
+  }
+
+  return args;
+}
+
+export class NetworkProfileService {
+  private storageService: StorageService;
+  private profiles: NetworkProfile[] = [];
+
+  constructor(storageService: StorageService) {
+    this.storageService = storageService;
+  }
+
+  /**
+   * Load the saved profiles. A proxy configured before profiles existed
+   * becomes the default profile.
+   */
+  async load(): Promise<void> {
+    this.profiles = await this.storageService.getNetworkProfiles();
+
+    if (this.profiles.length === 0) {
+      const preferences = await this.storageService.getPreferences();
+      if (preferences.proxyEnabled && preferences.proxyUrl) {
+        await this.setDefaultProxy(preferences.proxyUrl);
+      }
+    }
+  }
+
+  listProfiles(): NetworkProfile[] {
+    return [...this.profiles];
+  }
+
+  getProfile(profileId: string): NetworkProfile {
+    const profile = this.profiles.find(p => p.id === profileId);
+    if (!profile) {
+      throw new Error('Network profile not found');
+    }
+    return profile;
+  }
+
+  async createProfile(input: NetworkProfileInput): Promise<NetworkProfile> {
+    this.validate(input);
+
+    const profile: NetworkProfile = {
+      ...input,
+      id: `network-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await this.save([...this.profiles, profile]);
+    return profile;
+  }
+
+  /**
+   * Replace a profile's settings. Settings left out are cleared, since
+   * undefined values don't survive IPC.
+   */
+  async updateProfile(profileId: string, input: NetworkProfileInput): Promise<NetworkProfile> {
+    const existing = this.getProfile(profileId);
+    const updated: NetworkProfile = {
+      ...input,
+      id: existing.id,
+      isDefault: existing.isDefault,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    this.validate(updated, profileId);
+    await this.save(this.profiles.map(p => (p.id === profileId ? updated : p)));
+    return updated;
+  }
+
+  /**
+   * Tasks and subscriptions still referring to a deleted profile fall back
+   * to the default profile
+   */
+  async deleteProfile(profileId: string): Promise<void> {
+    this.getProfile(profileId);
+    await this.save(this.profiles.filter(p => p.id !== profileId));
+  }
+
+  /**
+   * Make a profile the default, or use a direct connection when null
+   */
+  async setDefaultProfile(profileId: string | null): Promise<void> {
+    if (profileId !== null) {
+      this.getProfile(profileId);
+    }
+
+    await this.save(this.profiles.map(p => ({ ...p, isDefault: p.id === profileId })));
+  }
+
+  /**
+   * Backs the single proxy setting: sets the proxy of the default profile,
+   * creating one if needed
+   */
+  async setDefaultProxy(proxyUrl: string | null): Promise<void> {
+    const current = this.getDefaultProfile();
+
+    if (current) {
+      await this.updateProfile(current.id, { ...current, proxy: proxyUrl ?? undefined });
+    } else if (proxyUrl) {
+      const profile = await this.createProfile({ name: DEFAULT_PROFILE_NAME, proxy: proxyUrl });
+      await this.setDefaultProfile(profile.id);
+    }
+  }
+
+  getDefaultProfile(): NetworkProfile | undefined {
+    return this.profiles.find(p => p.isDefault);
+  }
+
+  /**
+   * The profile to use for a request: the selected one if it still exists,
+   * otherwise the default profile, if any
+   */
+  resolveProfile(profileId?: string): NetworkProfile | undefined {
+    const selected = profileId ? this.profiles.find(p => p.id === profileId) : undefined;
+    return selected ?? this.getDefaultProfile();
+  }
+
+  getYtDlpArgs(profileId?: string): string[] {
+    return buildNetworkArgs(this.resolveProfile(profileId));
+  }
+
+  /**
+   * Session, headers and proxy login for Electron net requests. Chromium
+   * can't bind to a source address or read cookies.txt files, so those
+   * settings only apply to yt-dlp.
+   */
+  async getRequestOptions(profileId?: string): Promise<NetworkRequestOptions> {
+    const profile = this.resolveProfile(profileId);
+    if (!profile) {
+      return { session: session.defaultSession, headers: {} };
+    }
+
+    const ses = session.fromPartition(`network-${profile.id}`);
+    const proxy = profile.proxy ? new URL(profile.proxy) : null;
+    let proxyCredentials: NetworkRequestOptions['proxyCredentials'];
+
+    if (proxy) {
+      if (proxy.username) {
+        proxyCredentials = {
+          username: decodeURIComponent(proxy.username),
+          password: decodeURIComponent(proxy.password)
+        };
+      }
+      await ses.setProxy({ proxyRules: `${proxy.protocol}//${proxy.host}` });
+    } else {
+      await ses.setProxy({ mode: 'direct' });
+    }
+
+    const headers: Record<string, string> = { ...profile.headers };
+    if (profile.userAgent) {
+      headers['User-Agent'] = profile.userAgent;
+    }
+
+    return { session: ses, headers, proxyCredentials };
+  }
+
+  private validate(profile: NetworkProfileInput, profileId?: string): void {
+    const name = profile.name?.trim();
+    if (!name) {
+      throw new Error('Profile name is required');
+    }
+
+    if (this.profiles.some(p => p.id !== profileId && p.name === name)) {
+      throw new Error('A network profile with this name already exists');
+    }
+
+    if (profile.proxy && !PROXY_PATTERN.test(profile.proxy)) {
+      throw new Error('Proxy must be an http, https, socks4 or socks5 URL');
+    }
+
+    if (profile.cookiesFile && profile.cookiesFromBrowser) {
+      throw new Error('Use either a cookies file or browser cookies, not both');
+    }
+
+    if (profile.cookiesFile && !fs.existsSync(profile.cookiesFile)) {
+      throw new Error('Cookies file not found');
+    }
+
+    for (const header of Object.keys(profile.headers ?? {})) {
+      if (!HEADER_NAME_PATTERN.test(header)) {
+        throw new Error(`Invalid header name: ${header}`);
+      }
+    }
+  }
+
+  private async save(profiles: NetworkProfile[]): Promise<void> {
+    await this.storageService.saveNetworkProfiles(profiles);
+    this.profiles = profiles;
+  }
+}
@@ -8,9 +8,14 @@ import { app } from 'electron';
 import {
   DownloadTask,
   ProcessingTask,
-  TaskQueue
+  TaskQueue,
+  QueuePriority
 } from '../../shared/types/tasks';
 import { VideoInfo } from '../../shared/types/video';
+import { Subscription } from '../../shared/types/subscription';
+import { NetworkProfile } from '../../shared/types/network';
+import { TranslationProviderConfig } from '../../shared/types/translation';
+import { WhisperModelSettings } from '../../shared/types/subtitle';
 import {
   UserPreferences,
   AppSettings,
@@ -26,6 +31,10 @@ interface StorageSchema {
   userPreferences: UserPreferences;
   appSettings: AppSettings;
   taskQueues: TaskQueue[];
+  subscriptions: Subscription[];
+  networkProfiles: NetworkProfile[];
+  translationProviders: TranslationProviderConfig[];
+  whisperModels: WhisperModelSettings;
 }
 
 export class StorageService implements IStorageService {
@@ -43,7 +52,11 @@ export class StorageService implements IStorageService {
         videoCache: {},
         userPreferences: DEFAULT_PREFERENCES,
         appSettings: this.getDefaultAppSettings(),
-        taskQueues: []
+        taskQueues: [],
+        subscriptions: [],
+        networkProfiles: [],
+        translationProviders: [],
+        whisperModels: { defaultModels: {} }
       },
       schema: this.getStorageSchema()
     });
@@ -97,6 +110,18 @@ export class StorageService implements IStorageService {
       },
       taskQueues: {
         type: 'array'
+      },
+      subscriptions: {
+        type: 'array'
+      },
+      networkProfiles: {
+        type: 'array'
+      },
+      translationProviders: {
+        type: 'array'
+      },
+      whisperModels: {
+        type: 'object'
       }
     };
   }
@@ -257,15 +282,19 @@ export class StorageService implements IStorageService {
   }
 
   // Task queue management
-  async createTaskQueue(name: string, maxConcurrent: number = 2): Promise<TaskQueue> {
+  async createTaskQueue(
+    name: string,
+    maxConcurrent: number = 2,
+    options: { id?: string; priority?: QueuePriority } = {}
+  ): Promise<TaskQueue> {
     const queue: TaskQueue = {
-      id: `queue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: options.id || `queue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name,
       tasks: [],
       maxConcurrent,
       currentlyProcessing: 0,
       autoStart: true,
-      priority: 'normal',
+      priority: options.priority || 'normal',
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -277,6 +306,10 @@ export class StorageService implements IStorageService {
     return queue;
   }
 
+  async getTaskQueues(): Promise<TaskQueue[]> {
+    return this.store.get('taskQueues', []);
+  }
+
   async getTaskQueue(queueId: string): Promise<TaskQueue | null> {
     const queues = this.store.get('taskQueues', []);
     return queues.find(q => q.id === queueId) || null;
@@ -301,6 +334,65 @@ export class StorageService implements IStorageService {
     this.store.set('taskQueues', filtered);
   }
 
+  // Subscription management
+  async getSubscriptions(): Promise<Subscription[]> {
+    return this.store.get('subscriptions', []);
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription | null> {
+    const subscriptions = this.store.get('subscriptions', []);
+    return subscriptions.find(s => s.id === subscriptionId) || null;
+  }
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    const subscriptions = this.store.get('subscriptions', []);
+    const index = subscriptions.findIndex(s => s.id === subscription.id);
+    const updated = {
+      ...subscription,
+      updatedAt: new Date()
+    };
+
+    if (index >= 0) {
+      subscriptions[index] = updated;
+    } else {
+      subscriptions.push(updated);
+    }
+
+    this.store.set('subscriptions', subscriptions);
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    const subscriptions = this.store.get('subscriptions', []);
+    this.store.set('subscriptions', subscriptions.filter(s => s.id !== subscriptionId));
+  }
+
+  // Network profile management
+  async getNetworkProfiles(): Promise<NetworkProfile[]> {
+    return this.store.get('networkProfiles', []);
+  }
+
+  async saveNetworkProfiles(profiles: NetworkProfile[]): Promise<void> {
+    this.store.set('networkProfiles', profiles);
+  }
+
+  // Translation provider management
+  async getTranslationProviders(): Promise<TranslationProviderConfig[]> {
+    return this.store.get('translationProviders', []);
+  }
+
+  async saveTranslationProviders(providers: TranslationProviderConfig[]): Promise<void> {
+    this.store.set('translationProviders', providers);
+  }
+
+  // Whisper model settings
+  async getWhisperModelSettings(): Promise<WhisperModelSettings> {
+    return this.store.get('whisperModels', { defaultModels: {} });
+  }
+
+  async saveWhisperModelSettings(settings: WhisperModelSettings): Promise<void> {
+    this.store.set('whisperModels', settings);
+  }
+
   // App settings management
   async getAppSettings(): Promise<AppSettings> {
     return this.store.get('appSettings', this.getDefaultAppSettings());
@@ -398,6 +490,9 @@ export class StorageService implements IStorageService {
       downloadHistory: this.store.get('downloadHistory', []),
       userPreferences: this.store.get('userPreferences', DEFAULT_PREFERENCES),
       appSettings: this.store.get('appSettings', this.getDefaultAppSettings()),
+      subscriptions: this.store.get('subscriptions', []),
+      networkProfiles: this.store.get('networkProfiles', []),
+      translationProviders: this.store.get('translationProviders', []),
       exportDate: new Date().toISOString(),
       version: '1.0.0'
     };
@@ -420,6 +515,18 @@ export class StorageService implements IStorageService {
       if (data.appSettings) {
         this.store.set('appSettings', data.appSettings);
       }
+
+      if (data.subscriptions) {
+        this.store.set('subscriptions', data.subscriptions);
+      }
+
+      if (data.networkProfiles) {
+        this.store.set('networkProfiles', data.networkProfiles);
+      }
+
+      if (data.translationProviders) {
+        this.store.set('translationProviders', data.translationProviders);
+      }
     } catch (error) {
       throw new Error(`Failed to import data: ${error}`);
     }
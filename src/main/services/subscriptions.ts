@@ -0,0 +1,279 @@
+/**
+ * SubscriptionService - Follows playlists and channels, queueing only new
+ * items. Every subscription keeps its own yt-dlp download archive, so a video
+ * is recorded once it has finished downloading and never queued again.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { app } from 'electron';
+import { EventEmitter } from 'events';
+import { DownloaderService } from './downloader';
+import { DownloadScheduler } from './download-scheduler';
+import { StorageService } from './storage';
+import { TaskRepository } from '../database/repositories/task-repository';
+import { VideoInfo } from '../../shared/types/video';
+import {
+  Subscription,
+  CreateSubscriptionOptions,
+  SubscriptionSyncResult
+} from '../../shared/types/subscription';
+
+const DEFAULT_CHECK_INTERVAL_MINUTES = 60;
+const SCHEDULE_TICK = 60 * 1000; // Check for due subscriptions every minute
+
+export class SubscriptionService extends EventEmitter {
+  private storageService: StorageService;
+  private downloaderService: DownloaderService;
+  private downloadScheduler: DownloadScheduler;
+  private taskRepository: TaskRepository;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncing: Set<string> = new Set();
+
+  constructor(
+    storageService: StorageService,
+    downloaderService: DownloaderService,
+    downloadScheduler: DownloadScheduler,
+    taskRepository: TaskRepository
+  ) {
+    super();
+    this.storageService = storageService;
+    this.downloaderService = downloaderService;
+    this.downloadScheduler = downloadScheduler;
+    this.taskRepository = taskRepository;
+  }
+
+  async listSubscriptions(): Promise<Subscription[]> {
+    return this.storageService.getSubscriptions();
+  }
+
+  async createSubscription(
+    url: string,
+    options: CreateSubscriptionOptions = {}
+  ): Promise<Subscription> {
+    const existing = (await this.storageService.getSubscriptions()).find(s => s.url === url);
+    if (existing) {
+      throw new Error('Already subscribed to this URL');
+    }
+
+    const playlist = await this.downloaderService.fetchPlaylist(url, {
+      networkProfileId: options.defaults?.networkProfileId
+    });
+    const id = `subscription-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const subscription: Subscription = {
+      id,
+      url,
+      title: playlist.title,
+      type: playlist.type,
+      enabled: true,
+      checkIntervalMinutes: options.checkIntervalMinutes ?? DEFAULT_CHECK_INTERVAL_MINUTES,
+      archivePath: path.join(app.getPath('userData'), 'archives', `${id}.txt`),
+      defaults: options.defaults ?? {},
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    // Mark everything already published as downloaded unless a backfill was asked for
+    await this.appendToArchive(subscription, options.backfill === true ? [] : playlist.entries);
+
+    await this.storageService.saveSubscription(subscription);
+    this.emit('subscription-updated', subscription);
+
+    return subscription;
+  }
+
+  async updateSubscription(
+    subscriptionId: string,
+    updates: Partial<Pick<Subscription, 'title' | 'enabled' | 'checkIntervalMinutes' | 'defaults'>>
+  ): Promise<Subscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+    const updated: Subscription = { ...subscription, ...updates, updatedAt: new Date() };
+
+    await this.storageService.saveSubscription(updated);
+    this.emit('subscription-updated', updated);
+
+    return updated;
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    await this.storageService.deleteSubscription(subscriptionId);
+    await fs.promises.unlink(subscription.archivePath).catch(() => undefined);
+
+    this.emit('subscription-deleted', subscriptionId);
+  }
+
+  /**
+   * Queue every item that is neither in the archive nor already in the
+   * download queue. Items whose download failed stay out until the failed
+   * task is retried or removed.
+   */
+  async syncSubscription(subscriptionId: string): Promise<SubscriptionSyncResult> {
+    if (this.syncing.has(subscriptionId)) {
+      return { subscriptionId, queuedCount: 0 };
+    }
+
+    const subscription = await this.getSubscription(subscriptionId);
+    this.syncing.add(subscriptionId);
+    const result: SubscriptionSyncResult = { subscriptionId, queuedCount: 0 };
+
+    try {
+      const playlist = await this.downloaderService.fetchPlaylist(subscription.url, {
+        networkProfileId: subscription.defaults.networkProfileId
+      });
+      const archived = await this.readArchive(subscription);
+      const pending = await this.getPendingVideoIds(subscriptionId);
+
+      // Channels list newest first, download the oldest new upload first
+      const entries = subscription.type === 'channel'
+        ? [...playlist.entries].reverse()
+        : playlist.entries;
+
+      const newEntries = entries.filter(entry =>
+        !archived.has(entry.id) && !pending.has(entry.id)
+      );
+
+      const preferences = await this.storageService.getPreferences();
+      const defaults = subscription.defaults;
+
+      for (const entry of newEntries) {
+        try {
+          const task = await this.downloadScheduler.enqueue(entry.url, {
+            quality: defaults.quality || preferences.defaultQuality,
+            outputPath: defaults.outputPath || preferences.defaultOutputPath,
+            subtitleLanguages: defaults.subtitleLanguages || preferences.defaultSubtitleLanguages,
+            preferredFormat: defaults.preferredFormat || preferences.defaultFormat,
+            enableResume: true,
+            maxRetries: preferences.retryAttempts,
+            queueId: defaults.queueId,
+            playlist: {
+              id: playlist.id,
+              title: playlist.title,
+              index: entry.playlistIndex
+            },
+            subscriptionId,
+            downloadArchive: subscription.archivePath,
+            networkProfileId: defaults.networkProfileId
+          }, entry);
+          await this.storageService.saveDownloadTask(task);
+          result.queuedCount++;
+        } catch (error) {
+          console.error(`Failed to queue subscription item ${entry.url}:`, error);
+        }
+      }
+
+      subscription.title = playlist.title || subscription.title;
+      subscription.lastError = undefined;
+    } catch (error) {
+      console.error(`Failed to sync subscription ${subscription.url}:`, error);
+      subscription.lastError = error instanceof Error ? error.message : String(error);
+      result.error = subscription.lastError;
+    } finally {
+      subscription.lastCheckedAt = new Date();
+      await this.storageService.saveSubscription(subscription);
+      this.syncing.delete(subscriptionId);
+    }
+
+    this.emit('subscription-synced', result);
+    return result;
+  }
+
+  async syncAll(): Promise<SubscriptionSyncResult[]> {
+    const subscriptions = await this.storageService.getSubscriptions();
+    const results: SubscriptionSyncResult[] = [];
+
+    for (const subscription of subscriptions.filter(s => s.enabled)) {
+      results.push(await this.syncSubscription(subscription.id));
+    }
+
+    return results;
+  }
+
+  startAutoSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+    }
+
+    void this.syncDue();
+
+    this.syncTimer = setInterval(() => {
+      void this.syncDue();
+    }, SCHEDULE_TICK);
+  }
+
+  stopAutoSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  private async syncDue(): Promise<void> {
+    const now = Date.now();
+    const subscriptions = await this.storageService.getSubscriptions();
+
+    for (const subscription of subscriptions) {
+      if (!subscription.enabled) {
+        continue;
+      }
+
+      const lastChecked = subscription.lastCheckedAt
+        ? new Date(subscription.lastCheckedAt).getTime()
+        : 0;
+      if (now - lastChecked >= subscription.checkIntervalMinutes * 60 * 1000) {
+        await this.syncSubscription(subscription.id);
+      }
+    }
+  }
+
+  private async getSubscription(subscriptionId: string): Promise<Subscription> {
+    const subscription = await this.storageService.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new Error('Subscription not found');
+    }
+    return subscription;
+  }
+
+  private async getPendingVideoIds(subscriptionId: string): Promise<Set<string>> {
+    const tasks = await this.taskRepository.getDownloadTasksByStatus([
+      'queued',
+      'downloading',
+      'paused',
+      'failed'
+    ]);
+    return new Set(
+      tasks
+        .filter(task => task.metadata?.subscriptionId === subscriptionId)
+        .map(task => task.videoInfo.id)
+    );
+  }
+
+  /**
+   * Archive lines use yt-dlp's "<extractor> <id>" format; only the id is
+   * compared here
+   */
+  private async readArchive(subscription: Subscription): Promise<Set<string>> {
+    try {
+      const content = await fs.promises.readFile(subscription.archivePath, 'utf-8');
+      return new Set(
+        content
+          .split('\n')
+          .map(line => line.trim().split(/\s+/)[1])
+          .filter(Boolean)
+      );
+    } catch {
+      return new Set();
+    }
+  }
+
+  private async appendToArchive(subscription: Subscription, entries: VideoInfo[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(subscription.archivePath), { recursive: true });
+
+    const lines = entries
+      .map(entry => `${(entry.extractor ?? 'generic').toLowerCase()} ${entry.id}\n`)
+      .join('');
+    await fs.promises.writeFile(subscription.archivePath, lines, { flag: 'a' });
+  }
+}
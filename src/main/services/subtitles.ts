@@ -5,16 +5,62 @@
 import { spawn, ChildProcess } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import { EventEmitter } from 'events';
+import { app } from 'electron';
 import {
   Subtitle,
   SubtitleInfo,
   SubtitleGenerationOptions,
   EmbedSubtitleOptions,
-  SubtitleTimestamp
+  SubtitleFormat,
+  SubtitleTimestamp,
+  SubtitleSyncOptions,
+  SubtitleAutoSyncOptions,
+  SubtitleAutoSyncResult,
+  SubtitleCue,
+  SubtitleDiarizationOptions,
+  SubtitleSpeaker,
+  SubtitleLintIssue,
+  SubtitleLintOptions,
+  SubtitleFixResult,
+  WaveformData
 } from '../../shared/types/subtitle';
+import { SubtitleTranslationOptions, TranslationProgress } from '../../shared/types/translation';
 import { ProcessingTask } from '../../shared/types/tasks';
 import { ISubtitleService } from '../../../specs/001-youtube-youtube/contracts/service-interfaces';
+import { NetworkProfileService } from './network-profiles';
+import { TranslationService } from './translation';
+import { WhisperModelService } from './whisper-models';
+import { FfmpegWrapper } from '../binaries/ffmpeg-wrapper';
+import { applyTimestamps, parseSubtitle, serializeSubtitle, toTimestamps } from '../utils/subtitle-formats';
+import { mergeSubtitleTracks, SubtitleLayout } from '../utils/subtitle-merge';
+import {
+  buildTimeMap,
+  detectSpeech,
+  findAlignment,
+  linearMap,
+  retimeDocument,
+  DEFAULT_MAX_SYNC_OFFSET
+} from '../utils/subtitle-sync';
+import {
+  planChunks,
+  offsetCues,
+  resegment,
+  DEFAULT_SEGMENTATION,
+  TranscriptionChunk
+} from '../utils/transcription';
+import { DEFAULT_PEAKS_PER_SECOND, VOICE_BAND_FILTER } from '../utils/waveform';
+import { assignSpeakers, listSpeakers, parseSpeakerTurns, renameSpeakers, SpeakerTurn } from '../utils/diarization';
+import { fixTimestamps, lintTimestamps, resolveLintRules } from '../utils/subtitle-lint';
+
+// Checkpoint of a chunked transcription, kept until the subtitle is complete
+interface TranscriptionJob {
+  videoPath: string;
+  chunks: TranscriptionChunk[];
+  language?: string; // Detected from the first chunk when not given
+}
 
 export class SubtitleService extends EventEmitter implements ISubtitleService {
   private whisperPath: string;
@@ -22,6 +68,11 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
   private ytdlpPath: string;
   private tasks: Map<string, ProcessingTask> = new Map();
   private processes: Map<string, ChildProcess> = new Map();
+  private networkProfiles?: NetworkProfileService;
+  private translation?: TranslationService;
+  private ffmpeg?: FfmpegWrapper;
+  private whisperModels?: WhisperModelService;
+  private cancelledTasks: Set<string> = new Set();
 
   constructor(whisperPath?: string, ffmpegPath?: string, ytdlpPath?: string) {
     super();
@@ -30,6 +81,25 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     this.ytdlpPath = ytdlpPath || this.getYtdlpPath();
   }
 
+  // Subtitle requests go through the default network profile
+  setNetworkProfiles(networkProfiles: NetworkProfileService): void {
+    this.networkProfiles = networkProfiles;
+  }
+
+  setTranslation(translation: TranslationService): void {
+    this.translation = translation;
+  }
+
+  // Speech detection and audio chunks for transcription
+  setFfmpeg(ffmpeg: FfmpegWrapper): void {
+    this.ffmpeg = ffmpeg;
+  }
+
+  // Models are picked per language and passed to Whisper as files
+  setWhisperModels(whisperModels: WhisperModelService): void {
+    this.whisperModels = whisperModels;
+  }
+
   private getWhisperPath(): string {
     const possiblePaths = [
       path.join(__dirname, '../../../binaries/whisper'),
@@ -80,7 +150,8 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
       const args = [
         videoUrl,
         '--list-subs',
-        '--no-warnings'
+        '--no-warnings',
+        ...(this.networkProfiles?.getYtDlpArgs() ?? [])
       ];
 
       const process = spawn(this.ytdlpPath, args);
@@ -153,7 +224,8 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
         '--sub-format', format,
         '--skip-download',
         '-o', outputPath.replace(`.${format}`, ''),
-        '--no-warnings'
+        '--no-warnings',
+        ...(this.networkProfiles?.getYtDlpArgs() ?? [])
       ];
 
       const process = spawn(this.ytdlpPath, args);
@@ -201,11 +273,21 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     });
   }
 
-  async generateSubtitle(videoPath: string, options: SubtitleGenerationOptions): Promise<Subtitle> {
+  /**
+   * Transcribe a video with Whisper. The audio is cut into chunks at pauses
+   * in speech and the chunks are transcribed by parallel whisper processes.
+   * Every finished chunk is saved, so running the same job again after a
+   * cancel or crash only transcribes what is left.
+   */
+  async generateSubtitle(videoPath: string, requested: SubtitleGenerationOptions): Promise<Subtitle> {
+    const model = this.whisperModels
+      ? await this.whisperModels.resolveModel(requested.model, requested.language)
+      : requested.model;
+    const options: SubtitleGenerationOptions = { ...requested, model };
     const taskId = this.generateTaskId();
     const subtitleId = this.generateSubtitleId();
     const outputFormat = options.outputFormat || 'srt';
-    const outputPath = path.join('/tmp', `generated-${subtitleId}.${outputFormat}`);
+    const jobDir = this.getTranscriptionJobDir(videoPath, options);
 
     const task: ProcessingTask = {
       id: taskId,
@@ -213,75 +295,372 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
       status: 'downloading',
       progress: 0,
       inputFile: videoPath,
-      outputFile: outputPath,
+      outputFile: jobDir,
       config: options,
       startTime: new Date()
     };
 
     this.tasks.set(taskId, task);
 
+    try {
+      const job = await this.loadTranscriptionJob(videoPath, jobDir);
+      let cues = await this.transcribeChunks(taskId, job, jobDir, options);
+      if (options.diarization) {
+        const turns = await this.diarize(taskId, videoPath, jobDir, options.diarization);
+        cues = assignSpeakers(cues, turns);
+      }
+
+      const segmented = {
+        cues: resegment(cues, {
+          maxLineLength: options.maxLineLength ?? DEFAULT_SEGMENTATION.maxLineLength,
+          maxLines: options.maxLines ?? DEFAULT_SEGMENTATION.maxLines,
+          maxCueDuration: options.maxCueDuration ?? DEFAULT_SEGMENTATION.maxCueDuration
+        }),
+        styles: [],
+        info: {}
+      };
+      let document = options.diarization?.speakerNames
+        ? renameSpeakers(segmented, options.diarization.speakerNames)
+        : segmented;
+      if (options.lint) {
+        document = applyTimestamps(document, fixTimestamps(toTimestamps(document), resolveLintRules(options.lint)));
+      }
+      const language = options.language || job.language || 'auto';
+
+      task.status = 'completed';
+      task.progress = 100;
+      task.endTime = new Date();
+      this.emit('subtitle-progress', taskId, task);
+      fs.rmSync(jobDir, { recursive: true, force: true });
+
+      return {
+        id: subtitleId,
+        videoId: path.basename(videoPath, path.extname(videoPath)),
+        language,
+        languageName: options.translate ? 'English (Translated)' : this.getLanguageName(language),
+        format: outputFormat,
+        content: serializeSubtitle(document, outputFormat),
+        isAutoGenerated: true,
+        timestamps: toTimestamps(document)
+      };
+    } catch (error) {
+      task.status = this.cancelledTasks.has(taskId) ? 'cancelled' : 'failed';
+      task.error = error instanceof Error ? error.message : String(error);
+      task.endTime = new Date();
+      this.emit('subtitle-progress', taskId, task);
+      throw error;
+    } finally {
+      this.cancelledTasks.delete(taskId);
+    }
+  }
+
+  // Stop a transcription; finished chunks stay saved for the next run
+  cancelGeneration(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || task.type !== 'SUBTITLE_GENERATION' || task.status !== 'downloading') {
+      return false;
+    }
+
+    this.cancelledTasks.add(taskId);
+    this.killChunkProcesses(taskId);
+    return true;
+  }
+
+  // One directory per video file and the options that change what Whisper outputs
+  private getTranscriptionJobDir(videoPath: string, options: SubtitleGenerationOptions): string {
+    const stats = fs.statSync(videoPath);
+    const key = crypto.createHash('sha1').update(JSON.stringify({
+      videoPath: path.resolve(videoPath),
+      size: stats.size,
+      modified: stats.mtimeMs,
+      model: options.model,
+      language: options.language,
+      task: options.translate ? 'translate' : options.task,
+      wordTimestamps: options.wordTimestamps !== false
+    })).digest('hex');
+
+    return path.join(app.getPath('userData'), 'transcriptions', key);
+  }
+
+  private async loadTranscriptionJob(videoPath: string, jobDir: string): Promise<TranscriptionJob> {
+    const jobPath = path.join(jobDir, 'job.json');
+    if (fs.existsSync(jobPath)) {
+      return JSON.parse(fs.readFileSync(jobPath, 'utf-8')) as TranscriptionJob;
+    }
+
+    if (!this.ffmpeg) {
+      throw new Error('FFmpeg is not available');
+    }
+
+    const audio = await this.ffmpeg.extractWaveform(videoPath, DEFAULT_PEAKS_PER_SECOND, VOICE_BAND_FILTER);
+    const chunks = planChunks(detectSpeech(audio), 1000 / audio.peaksPerSecond);
+    if (chunks.length === 0) {
+      throw new Error('No speech found in the audio track');
+    }
+
+    const job: TranscriptionJob = { videoPath, chunks };
+    fs.mkdirSync(jobDir, { recursive: true });
+    this.writeCheckpoint(jobPath, job);
+    return job;
+  }
+
+  private async transcribeChunks(
+    taskId: string,
+    job: TranscriptionJob,
+    jobDir: string,
+    options: SubtitleGenerationOptions
+  ): Promise<SubtitleCue[]> {
+    const results = new Map<number, SubtitleCue[]>();
+    const partial = new Map<number, number>(); // Progress of running chunks, 0-1
+    const totalSpeech = job.chunks.reduce((sum, chunk) => sum + chunk.speech, 0);
+
+    for (const chunk of job.chunks) {
+      const checkpoint = this.getChunkPath(jobDir, chunk);
+      if (fs.existsSync(checkpoint)) {
+        results.set(chunk.index, JSON.parse(fs.readFileSync(checkpoint, 'utf-8')) as SubtitleCue[]);
+      }
+    }
+
+    const reportProgress = (): void => {
+      const task = this.tasks.get(taskId);
+      if (!task) {
+        return;
+      }
+      const done = job.chunks.reduce((sum, chunk) => {
+        const fraction = results.has(chunk.index) ? 1 : partial.get(chunk.index) ?? 0;
+        return sum + chunk.speech * fraction;
+      }, 0);
+      task.progress = Math.min(99, Math.round(done / totalSpeech * 100));
+      this.emit('subtitle-progress', taskId, task);
+    };
+
+    const cpus = os.cpus().length || 1;
+    const workers = Math.max(1, Math.min(options.workers ?? Math.floor(cpus / 2), cpus));
+    const threads = Math.max(1, Math.floor(cpus / workers));
+    const pending = job.chunks.filter(chunk => !results.has(chunk.index));
+    reportProgress();
+
+    const runChunk = async (chunk: TranscriptionChunk): Promise<void> => {
+      const language = options.language || job.language;
+      const result = await this.transcribeChunk(taskId, job.videoPath, chunk, jobDir, options, language, threads, (fraction) => {
+        partial.set(chunk.index, fraction);
+        reportProgress();
+      });
+
+      results.set(chunk.index, result.cues);
+      partial.delete(chunk.index);
+      reportProgress();
+
+      // Later chunks use the language Whisper detected in the first one
+      if (!options.language && !job.language && result.language) {
+        job.language = result.language;
+        this.writeCheckpoint(path.join(jobDir, 'job.json'), job);
+      }
+    };
+
+    if (!options.language && !job.language && pending.length > 0) {
+      await runChunk(pending.shift() as TranscriptionChunk);
+    }
+
+    // A bounded pool of workers takes chunks in order; the first failure stops the rest
+    let failure: unknown = null;
+    const worker = async (): Promise<void> => {
+      while (pending.length > 0 && failure === null && !this.cancelledTasks.has(taskId)) {
+        const chunk = pending.shift() as TranscriptionChunk;
+        try {
+          await runChunk(chunk);
+        } catch (error) {
+          if (failure === null) {
+            failure = error;
+            this.killChunkProcesses(taskId);
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(workers, pending.length) }, () => worker()));
+
+    if (this.cancelledTasks.has(taskId)) {
+      throw new Error('Transcription cancelled');
+    }
+    if (failure !== null) {
+      throw failure;
+    }
+
+    return job.chunks.flatMap(chunk => results.get(chunk.index) ?? []);
+  }
+
+  private async transcribeChunk(
+    taskId: string,
+    videoPath: string,
+    chunk: TranscriptionChunk,
+    jobDir: string,
+    options: SubtitleGenerationOptions,
+    language: string | undefined,
+    threads: number,
+    onProgress: (fraction: number) => void
+  ): Promise<{ cues: SubtitleCue[]; language?: string }> {
+    if (!this.ffmpeg) {
+      throw new Error('FFmpeg is not available');
+    }
+
+    const name = `chunk-${String(chunk.index).padStart(4, '0')}`;
+    const audioPath = path.join(jobDir, `${name}.wav`);
+    const outputPath = path.join(jobDir, `${name}.whisper.json`);
+
+    await this.ffmpeg.extractAudio(videoPath, audioPath, chunk.startTime, chunk.endTime - chunk.startTime);
+
+    const args = this.buildWhisperArgs(audioPath, outputPath, { ...options, language, outputFormat: 'json' });
+    if (options.wordTimestamps !== false) {
+      args.push('--word-timestamps');
+    }
+    args.push('--threads', threads.toString());
+
+    await this.runWhisper(`${taskId}:${chunk.index}`, args, onProgress);
+
+    const content = fs.readFileSync(outputPath, 'utf-8');
+    const detected = (JSON.parse(content) as { language?: string }).language;
+    const cues = offsetCues(parseSubtitle(content, 'json').cues, chunk.startTime);
+
+    this.writeCheckpoint(this.getChunkPath(jobDir, chunk), cues);
+    fs.rmSync(audioPath, { force: true });
+    fs.rmSync(outputPath, { force: true });
+
+    return { cues, language: detected };
+  }
+
+  private runWhisper(processKey: string, args: string[], onProgress: (fraction: number) => void): Promise<void> {
     return new Promise((resolve, reject) => {
-      const args = this.buildWhisperArgs(videoPath, outputPath, options);
       const process = spawn(this.whisperPath, args);
-      this.processes.set(taskId, process);
+      this.processes.set(processKey, process);
 
-      let output = '';
       let errorOutput = '';
 
-      process.stdout.on('data', (data) => {
-        output += data.toString();
-        this.parseWhisperProgress(data.toString(), taskId);
-      });
+      const handleOutput = (data: Buffer): void => {
+        const progress = this.parseWhisperProgress(data.toString());
+        if (progress !== null) {
+          onProgress(progress / 100);
+        }
+      };
 
-      process.stderr.on('data', (data) => {
+      process.stdout.on('data', handleOutput);
+      process.stderr.on('data', (data: Buffer) => {
         errorOutput += data.toString();
+        handleOutput(data);
       });
 
       process.on('close', (code) => {
-        this.processes.delete(taskId);
-        task.status = code === 0 ? 'completed' : 'failed';
-        task.endTime = new Date();
-
-        if (code !== 0) {
-          task.error = errorOutput;
-          reject(new Error(`Whisper failed: ${errorOutput}`));
-          return;
+        this.processes.delete(processKey);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`Whisper failed: ${errorOutput.trim() || `exited with code ${code}`}`));
         }
+      });
 
-        if (!fs.existsSync(outputPath)) {
-          reject(new Error('Generated subtitle file not found'));
-          return;
-        }
+      process.on('error', (error) => {
+        this.processes.delete(processKey);
+        reject(new Error(`Failed to spawn whisper: ${error.message}`));
+      });
+    });
+  }
 
-        const content = fs.readFileSync(outputPath, 'utf-8');
-        const timestamps = this.parseSubtitleContent(content, outputFormat);
+  /**
+   * Speaker turns for the whole video from the diarization command. They're
+   * kept with the job, so a resumed job only runs it again if the command
+   * changed.
+   */
+  private async diarize(
+    taskId: string,
+    videoPath: string,
+    jobDir: string,
+    options: SubtitleDiarizationOptions
+  ): Promise<SpeakerTurn[]> {
+    const checkpointPath = path.join(jobDir, 'diarization.json');
+    const key = JSON.stringify([options.command, options.args, options.numSpeakers]);
+    if (fs.existsSync(checkpointPath)) {
+      const saved = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8')) as { key: string; turns: SpeakerTurn[] };
+      if (saved.key === key) {
+        return saved.turns;
+      }
+    }
 
-        const subtitle: Subtitle = {
-          id: subtitleId,
-          videoId: path.basename(videoPath, path.extname(videoPath)),
-          language: options.language || 'auto',
-          languageName: options.translate ? 'English (Translated)' : this.getLanguageName(options.language || 'auto'),
-          format: outputFormat,
-          content,
-          isAutoGenerated: true,
-          timestamps
-        };
+    if (!this.ffmpeg) {
+      throw new Error('FFmpeg is not available');
+    }
 
-        // Clean up temp file
-        fs.unlinkSync(outputPath);
+    const audioPath = path.join(jobDir, 'diarization.wav');
+    await this.ffmpeg.extractAudio(videoPath, audioPath);
 
-        resolve(subtitle);
+    const args = (options.args ?? ['{audio}']).map(arg => arg
+      .replace(/\{audio\}/g, audioPath)
+      .replace(/\{speakers\}/g, String(options.numSpeakers ?? 0)));
+
+    try {
+      const turns = parseSpeakerTurns(await this.runDiarization(`${taskId}:diarize`, options.command, args));
+      if (turns.length === 0) {
+        throw new Error('Diarization found no speakers');
+      }
+
+      this.writeCheckpoint(checkpointPath, { key, turns });
+      return turns;
+    } finally {
+      fs.rmSync(audioPath, { force: true });
+    }
+  }
+
+  // The command's stdout, RTTM or JSON
+  private runDiarization(processKey: string, command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const process = spawn(command, args);
+      this.processes.set(processKey, process);
+
+      let output = '';
+      let errorOutput = '';
+
+      process.stdout.on('data', (data: Buffer) => {
+        output += data.toString();
+      });
+      process.stderr.on('data', (data: Buffer) => {
+        errorOutput += data.toString();
+      });
+
+      process.on('close', (code) => {
+        this.processes.delete(processKey);
+        if (code === 0) {
+          resolve(output);
+        } else {
+          reject(new Error(`Diarization failed: ${errorOutput.trim() || `exited with code ${code}`}`));
+        }
       });
 
       process.on('error', (error) => {
-        this.processes.delete(taskId);
-        task.status = 'failed';
-        task.error = error.message;
-        reject(new Error(`Failed to spawn whisper: ${error}`));
+        this.processes.delete(processKey);
+        reject(new Error(`Failed to spawn ${command}: ${error.message}`));
       });
     });
   }
 
+  private killChunkProcesses(taskId: string): void {
+    for (const [key, process] of this.processes) {
+      if (key.startsWith(`${taskId}:`)) {
+        process.kill('SIGTERM');
+        this.processes.delete(key);
+      }
+    }
+  }
+
+  private getChunkPath(jobDir: string, chunk: TranscriptionChunk): string {
+    return path.join(jobDir, `chunk-${String(chunk.index).padStart(4, '0')}.json`);
+  }
+
+  // Write then rename, so a crash never leaves half a checkpoint behind
+  private writeCheckpoint(filePath: string, data: unknown): void {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data), 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  }
+
   private buildWhisperArgs(videoPath: string, outputPath: string, options: SubtitleGenerationOptions): string[] {
     const args = [
       videoPath,
@@ -289,7 +668,7 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     ];
 
     if (options.model) {
-      args.push('--model', options.model);
+      args.push('--model', this.whisperModels?.getModelPath(options.model) ?? options.model);
     }
 
     if (options.language) {
@@ -309,16 +688,10 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     return args;
   }
 
-  private parseWhisperProgress(output: string, taskId: string): void {
-    const task = this.tasks.get(taskId);
-    if (!task) return;
-
-    // Parse Whisper progress
-    const progressMatch = output.match(/(\d+)%\|/);
-    if (progressMatch) {
-      task.progress = parseInt(progressMatch[1]);
-      this.emit('subtitle-progress', taskId, task);
-    }
+  // Whisper's progress bar percentage, or null when the output has none
+  private parseWhisperProgress(output: string): number | null {
+    const matches = [...output.matchAll(/(\d+)%\|/g)];
+    return matches.length > 0 ? parseInt(matches[matches.length - 1][1]) : null;
   }
 
   async embedSubtitles(videoPath: string, options: EmbedSubtitleOptions): Promise<ProcessingTask> {
@@ -338,8 +711,18 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
 
     this.tasks.set(taskId, task);
 
+    const subtitle = this.prepareEmbedSubtitle(options);
+    const subtitlePath = path.join('/tmp', `embed-${taskId}.${subtitle.format}`);
+    fs.writeFileSync(subtitlePath, subtitle.content, 'utf-8');
+
+    const removeSubtitleFile = (): void => {
+      if (fs.existsSync(subtitlePath)) {
+        fs.unlinkSync(subtitlePath);
+      }
+    };
+
     return new Promise((resolve, reject) => {
-      const args = this.buildFfmpegEmbedArgs(videoPath, outputPath, options);
+      const args = this.buildFfmpegEmbedArgs(videoPath, outputPath, subtitlePath, options);
       const process = spawn(this.ffmpegPath, args);
       this.processes.set(taskId, process);
 
@@ -353,6 +736,7 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
 
       process.on('close', (code) => {
         this.processes.delete(taskId);
+        removeSubtitleFile();
         task.status = code === 0 ? 'completed' : 'failed';
         task.endTime = new Date();
 
@@ -367,6 +751,7 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
 
       process.on('error', (error) => {
         this.processes.delete(taskId);
+        removeSubtitleFile();
         task.status = 'failed';
         task.error = error.message;
         reject(new Error(`Failed to spawn ffmpeg: ${error}`));
@@ -374,31 +759,93 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     });
   }
 
-  private buildFfmpegEmbedArgs(videoPath: string, outputPath: string, options: EmbedSubtitleOptions): string[] {
-    const args = [
-      '-i', videoPath
-    ];
+  /**
+   * Merge two subtitle tracks into one styled ASS subtitle. Without a
+   * secondary track the primary one is restyled on its own.
+   */
+  mergeSubtitles(primary: Subtitle, secondary: Subtitle | undefined, layout: SubtitleLayout): Subtitle {
+    const document = mergeSubtitleTracks(
+      parseSubtitle(primary.content, primary.format),
+      secondary ? parseSubtitle(secondary.content, secondary.format) : undefined,
+      layout
+    );
+
+    return {
+      id: `merged-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      videoId: primary.videoId,
+      language: secondary ? `${primary.language}+${secondary.language}` : primary.language,
+      languageName: secondary ? `${primary.languageName} / ${secondary.languageName}` : primary.languageName,
+      format: 'ass',
+      content: serializeSubtitle(document, 'ass'),
+      isAutoGenerated: primary.isAutoGenerated || (secondary?.isAutoGenerated ?? false),
+      timestamps: toTimestamps(document)
+    };
+  }
+
+  /**
+   * Translate a subtitle's text with a translation provider. The result
+   * keeps the cue timing and the subtitle's format.
+   */
+  async translateSubtitle(subtitle: Subtitle, options: SubtitleTranslationOptions): Promise<Subtitle> {
+    if (!this.translation) {
+      throw new Error('Translation is not available');
+    }
+
+    const sourceLanguage = options.sourceLanguage ?? (subtitle.language !== 'auto' ? subtitle.language : undefined);
+    const document = await this.translation.translateDocument(
+      parseSubtitle(subtitle.content, subtitle.format),
+      { ...options, sourceLanguage },
+      (translated, cached, total) => {
+        const progress: TranslationProgress = { subtitleId: subtitle.id, translated, cached, total };
+        this.emit('translate-progress', subtitle.id, progress);
+      }
+    );
+
+    return {
+      ...subtitle,
+      id: this.generateSubtitleId(),
+      language: options.targetLanguage,
+      languageName: this.getLanguageName(options.targetLanguage),
+      content: serializeSubtitle(document, subtitle.format),
+      isAutoGenerated: true,
+      timestamps: toTimestamps(document)
+    };
+  }
 
-    // Create temporary subtitle files
-    const primarySubPath = path.join('/tmp', `primary-${Date.now()}.${options.primarySubtitle.format}`);
-    fs.writeFileSync(primarySubPath, options.primarySubtitle.content);
-    args.push('-i', primarySubPath);
+  // Two tracks always become one ASS file; a styled single track only when it has no ASS styles of its own
+  private prepareEmbedSubtitle(options: EmbedSubtitleOptions): Subtitle {
+    const primary = options.primarySubtitle;
+    const isAss = primary.format === 'ass' || primary.format === 'ssa';
 
-    if (options.secondarySubtitle) {
-      const secondarySubPath = path.join('/tmp', `secondary-${Date.now()}.${options.secondarySubtitle.format}`);
-      fs.writeFileSync(secondarySubPath, options.secondarySubtitle.content);
-      args.push('-i', secondarySubPath);
+    if (options.secondarySubtitle || (options.styling && !isAss)) {
+      return this.mergeSubtitles(primary, options.secondarySubtitle, options);
     }
+    return primary;
+  }
+
+  private buildFfmpegEmbedArgs(
+    videoPath: string,
+    outputPath: string,
+    subtitlePath: string,
+    options: EmbedSubtitleOptions
+  ): string[] {
+    const args = [
+      '-i', videoPath,
+      '-i', subtitlePath
+    ];
 
     if (options.hardSub) {
       // Hard subtitle (burn into video)
-      const filterComplex = this.buildSubtitleFilter(options);
-      args.push('-vf', filterComplex);
+      args.push('-vf', this.buildSubtitleFilter(subtitlePath));
+      args.push('-c:a', 'copy');
     } else {
-      // Soft subtitle (as separate stream)
+      // Soft subtitle (as separate stream); only Matroska keeps the ASS styling
+      const extension = path.extname(outputPath).toLowerCase();
+      const codec = extension === '.mkv' ? 'ass' : extension === '.webm' ? 'webvtt' : 'mov_text';
+      args.push('-map', '0:v', '-map', '0:a?', '-map', '1:0');
       args.push('-c:v', 'copy');
       args.push('-c:a', 'copy');
-      args.push('-c:s', 'mov_text');
+      args.push('-c:s', codec);
     }
 
     args.push('-y'); // Overwrite output
@@ -407,29 +854,14 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     return args;
   }
 
-  private buildSubtitleFilter(options: EmbedSubtitleOptions): string {
-    const styling = options.styling || {};
-    let filter = '';
-
-    if (options.layout === 'stacked') {
-      // Stack subtitles vertically
-      const primaryY = styling.primaryColor ? 'h-60' : 'h-50';
-      const secondaryY = styling.secondaryColor ? 'h-30' : 'h-40';
-
-      filter = `subtitles=filename='${options.primarySubtitle.content}':force_style='Fontsize=${styling.primaryFontSize || 24},PrimaryColour=${styling.primaryColor || '&HFFFFFF&'},Alignment=2,MarginV=10'`;
-
-      if (options.secondarySubtitle) {
-        filter += `,subtitles=filename='${options.secondarySubtitle.content}':force_style='Fontsize=${styling.secondaryFontSize || 20},PrimaryColour=${styling.secondaryColor || '&HFFFF00&'},Alignment=2,MarginV=40'`;
-      }
-    } else {
-      // Side by side layout
-      filter = `subtitles=filename='${options.primarySubtitle.content}'`;
-      if (options.secondarySubtitle) {
-        filter += `,subtitles=filename='${options.secondarySubtitle.content}'`;
-      }
-    }
+  private buildSubtitleFilter(subtitlePath: string): string {
+    // Filter arguments treat ':' and quotes as syntax, so escape them in the path
+    const escaped = subtitlePath
+      .replace(/\\/g, '/')
+      .replace(/:/g, '\\:')
+      .replace(/'/g, '\\\'');
 
-    return filter;
+    return `subtitles=filename=${escaped}`;
   }
 
   private parseFfmpegProgress(output: string, taskId: string, videoPath: string): void {
@@ -446,77 +878,171 @@ export class SubtitleService extends EventEmitter implements ISubtitleService {
     }
   }
 
-  async convertFormat(subtitle: Subtitle, targetFormat: 'srt' | 'vtt' | 'ass'): Promise<Subtitle> {
-    const convertedContent = this.convertSubtitleFormat(subtitle.content, subtitle.format, targetFormat);
+  /**
+   * Read an embedded subtitle stream as text: the stream with this index in
+   * the file, or the default (else first) subtitle stream
+   */
+  async extractSubtitle(videoPath: string, streamIndex?: number): Promise<Subtitle> {
+    if (!this.ffmpeg) {
+      throw new Error('FFmpeg is not available');
+    }
+
+    const subtitles = (await this.ffmpeg.getStreams(videoPath)).filter(stream => stream.type === 'subtitle');
+    const stream = streamIndex === undefined
+      ? subtitles.find(s => s.default) ?? subtitles[0]
+      : subtitles.find(s => s.index === streamIndex);
+    if (!stream) {
+      throw new Error(streamIndex === undefined ? 'The video has no subtitle streams' : `Stream ${streamIndex} is not a subtitle stream`);
+    }
+    if (stream.textBased === false) {
+      throw new Error(`Stream ${stream.index} is a bitmap subtitle (${stream.codec}) and can't be read as text`);
+    }
+
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prevideo-extract-'));
+    try {
+      // Text subtitles come out as SRT, ASS, WebVTT or TTML
+      const [result] = await this.ffmpeg.extractStreams(videoPath, { streams: [{ index: stream.index }], outputDir });
+      const format = result.format as SubtitleFormat;
+      const content = fs.readFileSync(result.outputPath, 'utf-8');
+      const language = stream.language ?? 'unknown';
+
+      return {
+        id: this.generateSubtitleId(),
+        videoId: path.basename(videoPath, path.extname(videoPath)),
+        language,
+        languageName: stream.title ?? this.getLanguageName(language),
+        format,
+        content,
+        isAutoGenerated: false,
+        timestamps: toTimestamps(parseSubtitle(content, format))
+      };
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }
+
+  async convertFormat(subtitle: Subtitle, targetFormat: SubtitleFormat): Promise<Subtitle> {
+    if (subtitle.format === targetFormat) {
+      return subtitle;
+    }
+
+    const document = parseSubtitle(subtitle.content, subtitle.format);
 
     return {
       ...subtitle,
       format: targetFormat,
-      content: convertedContent
+      content: serializeSubtitle(document, targetFormat),
+      timestamps: toTimestamps(document)
     };
   }
 
-  private convertSubtitleFormat(content: string, fromFormat: string, toFormat: string): string {
-    // Simple conversion logic - in production, use a proper library
-    if (fromFormat === toFormat) {
-      return content;
-    }
+  /**
+   * Rewrite a subtitle's content from edited cues, as made in the subtitle
+   * editor, keeping the styles and header of the original content
+   */
+  applyEdits(subtitle: Subtitle, timestamps: SubtitleTimestamp[]): Subtitle {
+    const sorted = [...timestamps].sort((a, b) => a.startTime - b.startTime);
+    const document = applyTimestamps(parseSubtitle(subtitle.content, subtitle.format), sorted);
 
-    if (fromFormat === 'vtt' && toFormat === 'srt') {
-      return this.vttToSrt(content);
-    }
-
-    if (fromFormat === 'srt' && toFormat === 'vtt') {
-      return this.srtToVtt(content);
-    }
+    return {
+      ...subtitle,
+      content: serializeSubtitle(document, subtitle.format),
+      timestamps: toTimestamps(document)
+    };
+  }
 
-    // For other conversions, return as-is (would need proper implementation)
-    return content;
+  // Speakers in the order they first speak, with their cue count and speaking time
+  listSpeakers(subtitle: Subtitle): SubtitleSpeaker[] {
+    return listSpeakers(parseSubtitle(subtitle.content, subtitle.format));
   }
 
-  private vttToSrt(vttContent: string): string {
-    let srtContent = vttContent.replace('WEBVTT\n\n', '');
-    srtContent = srtContent.replace(/(\d{2}):(\d{2}):(\d{2})\.(\d{3})/g, '$1:$2:$3,$4');
+  // `names` maps current speaker names to new ones
+  renameSpeakers(subtitle: Subtitle, names: Record<string, string>): Subtitle {
+    const renamed = renameSpeakers(parseSubtitle(subtitle.content, subtitle.format), names);
 
-    // Add subtitle numbers
-    const lines = srtContent.split('\n\n');
-    return lines.map((block, index) => `${index + 1}\n${block}`).join('\n\n');
+    return {
+      ...subtitle,
+      content: serializeSubtitle(renamed, subtitle.format),
+      timestamps: toTimestamps(renamed)
+    };
   }
 
-  private srtToVtt(srtContent: string): string {
-    let vttContent = 'WEBVTT\n\n';
-    vttContent += srtContent.replace(/(\d{2}):(\d{2}):(\d{2}),(\d{3})/g, '$1:$2:$3.$4');
+  // Check a subtitle against a rule set, issues in cue order
+  lintSubtitle(subtitle: Subtitle, options?: SubtitleLintOptions): SubtitleLintIssue[] {
+    const timestamps = subtitle.timestamps ?? toTimestamps(parseSubtitle(subtitle.content, subtitle.format));
+    return lintTimestamps(timestamps, resolveLintRules(options));
+  }
 
-    // Remove subtitle numbers
-    vttContent = vttContent.replace(/^\d+\n/gm, '');
+  /**
+   * Fix what the rule set can fix, keeping styles and speakers, and report
+   * the issues left for the editor
+   */
+  fixSubtitle(subtitle: Subtitle, options?: SubtitleLintOptions): SubtitleFixResult {
+    const rules = resolveLintRules(options);
+    const parsed = parseSubtitle(subtitle.content, subtitle.format);
+    const timestamps = subtitle.timestamps ?? toTimestamps(parsed);
+    const before = lintTimestamps(timestamps, rules).length;
+
+    const document = applyTimestamps(parsed, fixTimestamps(timestamps, rules));
+    const fixed = {
+      ...subtitle,
+      content: serializeSubtitle(document, subtitle.format),
+      timestamps: toTimestamps(document)
+    };
+    const remaining = lintTimestamps(fixed.timestamps, rules);
 
-    return vttContent;
+    return { subtitle: fixed, fixed: Math.max(0, before - remaining.length), remaining };
   }
 
-  private parseSubtitleContent(content: string, format: string): SubtitleTimestamp[] {
-    const timestamps: SubtitleTimestamp[] = [];
+  // Manual timing correction: constant offset, two-point stretch, framerate or per-range offsets
+  syncSubtitle(subtitle: Subtitle, options: SubtitleSyncOptions): Subtitle {
+    const document = parseSubtitle(subtitle.content, subtitle.format);
+    const synced = retimeDocument(document, buildTimeMap(document, options));
 
-    if (format === 'srt') {
-      const blocks = content.split('\n\n');
-      for (const block of blocks) {
-        const lines = block.split('\n');
-        if (lines.length >= 3) {
-          const timeMatch = lines[1].match(/(\d{2}):(\d{2}):(\d{2}),(\d{3}) --> (\d{2}):(\d{2}):(\d{2}),(\d{3})/);
-          if (timeMatch) {
-            const startTime = this.timeToMs(timeMatch[1], timeMatch[2], timeMatch[3], timeMatch[4]);
-            const endTime = this.timeToMs(timeMatch[5], timeMatch[6], timeMatch[7], timeMatch[8]);
-            const text = lines.slice(2).join('\n');
-            timestamps.push({ startTime, endTime, text });
-          }
-        }
-      }
-    }
+    return {
+      ...subtitle,
+      content: serializeSubtitle(synced, subtitle.format),
+      timestamps: toTimestamps(synced)
+    };
+  }
+
+  /**
+   * Line the cues up with the speech in `audio`, the voice-band peaks of the
+   * video's audio track
+   */
+  autoSyncSubtitle(
+    subtitle: Subtitle,
+    audio: WaveformData,
+    options: SubtitleAutoSyncOptions = {}
+  ): SubtitleAutoSyncResult {
+    const document = parseSubtitle(subtitle.content, subtitle.format);
+    const alignment = findAlignment(
+      document.cues,
+      detectSpeech(audio),
+      1000 / audio.peaksPerSecond,
+      options.maxOffsetMs ?? DEFAULT_MAX_SYNC_OFFSET,
+      options.framerateCorrection ?? true
+    );
+    const synced = retimeDocument(document, linearMap(alignment.scale, alignment.offsetMs));
 
-    return timestamps;
+    return {
+      ...alignment,
+      subtitle: {
+        ...subtitle,
+        content: serializeSubtitle(synced, subtitle.format),
+        timestamps: toTimestamps(synced)
+      }
+    };
   }
 
-  private timeToMs(hours: string, minutes: string, seconds: string, ms: string): number {
-    return parseInt(hours) * 3600000 + parseInt(minutes) * 60000 + parseInt(seconds) * 1000 + parseInt(ms);
+  private parseSubtitleContent(content: string, format: SubtitleFormat): SubtitleTimestamp[] {
+    // Timestamps are optional, content the parser rejects simply has none
+    try {
+      return toTimestamps(parseSubtitle(content, format));
+    } catch (error) {
+      console.error(`Failed to parse ${format} subtitle:`, error);
+      return [];
+    }
   }
 
   private extractVideoId(url: string): string {
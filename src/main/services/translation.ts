@@ -0,0 +1,478 @@
+/**
+ * TranslationService - Configured subtitle translation providers. Each
+ * provider type has an adapter: OpenAI-compatible chat completions (any base
+ * URL, so local llama.cpp and Ollama servers work), DeepL-style REST and
+ * offline command-line translators. Translations are cached per cue on disk.
+ */
+
+import { app, net } from 'electron';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageService } from './storage';
+import { NetworkProfileService } from './network-profiles';
+import { SubtitleDocument } from '../../shared/types/subtitle';
+import {
+  SubtitleTranslationOptions,
+  TranslationProviderConfig,
+  TranslationProviderInput
+} from '../../shared/types/translation';
+import {
+  TranslationProvider,
+  TranslationRequest,
+  applyTranslations,
+  buildChatMessages,
+  decodeLineBreaks,
+  encodeLineBreaks,
+  getCueTexts,
+  parseNumberedLines,
+  translateTexts,
+  DEFAULT_BATCH_SIZE
+} from '../utils/subtitle-translation';
+
+const DEFAULT_OPENAI_URL = 'https://api.openai.com/v1';
+const DEFAULT_DEEPL_URL = 'https://api-free.deepl.com';
+const DEEPL_MAX_TEXTS = 50; // Per request, as the DeepL API allows
+const COMMAND_TIMEOUT = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 100000;
+
+type PostJson = (url: string, body: unknown, headers: Record<string, string>) => Promise<unknown>;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: unknown } }>;
+}
+
+interface DeepLResponse {
+  translations?: Array<{ text?: string }>;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+class OpenAIChatTranslator implements TranslationProvider {
+  readonly name: string;
+  private config: TranslationProviderConfig;
+  private post: PostJson;
+
+  constructor(config: TranslationProviderConfig, post: PostJson) {
+    this.name = config.name;
+    this.config = config;
+    this.post = post;
+  }
+
+  async translate(texts: string[], request: TranslationRequest): Promise<string[]> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await this.post(`${trimSlash(this.config.baseUrl || DEFAULT_OPENAI_URL)}/chat/completions`, {
+      model: this.config.model,
+      messages: buildChatMessages(texts, request),
+      temperature: 0.2,
+      stream: false
+    }, headers) as ChatCompletionResponse | null;
+
+    const content = response?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Chat response has no message content');
+    }
+    return parseNumberedLines(content, texts.length);
+  }
+}
+
+class DeepLTranslator implements TranslationProvider {
+  readonly name: string;
+  private config: TranslationProviderConfig;
+  private post: PostJson;
+
+  constructor(config: TranslationProviderConfig, post: PostJson) {
+    this.name = config.name;
+    this.config = config;
+    this.post = post;
+  }
+
+  // DeepL wants upper-case codes and a regional variant for some targets
+  private toLanguageCode(code: string, target: boolean): string {
+    const [language, region] = code.toUpperCase().split(/[-_]/);
+
+    if (!target) {
+      return language;
+    }
+    if (language === 'ZH') {
+      return region === 'TW' || region === 'HK' || region === 'HANT' ? 'ZH-HANT' : 'ZH-HANS';
+    }
+    if (language === 'EN') {
+      return region === 'GB' ? 'EN-GB' : 'EN-US';
+    }
+    if (language === 'PT') {
+      return region === 'PT' ? 'PT-PT' : 'PT-BR';
+    }
+    return language;
+  }
+
+  async translate(texts: string[], request: TranslationRequest): Promise<string[]> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `DeepL-Auth-Key ${this.config.apiKey}`;
+    }
+
+    const context = [...request.context.before, ...request.context.after].join('\n');
+    const response = await this.post(`${trimSlash(this.config.baseUrl || DEFAULT_DEEPL_URL)}/v2/translate`, {
+      text: texts,
+      target_lang: this.toLanguageCode(request.targetLanguage, true),
+      source_lang: request.sourceLanguage ? this.toLanguageCode(request.sourceLanguage, false) : undefined,
+      context: context || undefined,
+      preserve_formatting: true
+    }, headers) as DeepLResponse | null;
+
+    const translations = response?.translations;
+    if (!Array.isArray(translations)) {
+      throw new Error('Translation response has no translations');
+    }
+    return translations.map(translation => translation.text ?? '');
+  }
+}
+
+/**
+ * Runs an offline translator, e.g. argos-translate or translate-shell. The
+ * texts go to stdin one per line, line breaks inside a cue written as <br>,
+ * and stdout must have one translated line for each.
+ */
+class CommandTranslator implements TranslationProvider {
+  readonly name: string;
+  private config: TranslationProviderConfig;
+
+  constructor(config: TranslationProviderConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async translate(texts: string[], request: TranslationRequest): Promise<string[]> {
+    const args = (this.config.args ?? []).map(arg => arg
+      .replace(/\{source\}/g, request.sourceLanguage ?? 'auto')
+      .replace(/\{target\}/g, request.targetLanguage));
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command ?? '', args);
+      const timer = setTimeout(() => child.kill(), COMMAND_TIMEOUT);
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout.setEncoding('utf8');
+      child.stdout.on('data', (data: string) => {
+        stdout += data;
+      });
+      child.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`${this.config.command} exited with code ${code}: ${stderr.trim()}`));
+          return;
+        }
+
+        const lines = stdout.replace(/\r?\n$/, '').split(/\r?\n/);
+        if (lines.length !== texts.length) {
+          reject(new Error(`Expected ${texts.length} translated lines, got ${lines.length}`));
+          return;
+        }
+        resolve(lines.map(decodeLineBreaks));
+      });
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to spawn ${this.config.command}: ${error.message}`));
+      });
+
+      child.stdin.on('error', () => {
+        // The close handler reports why the translator stopped
+      });
+      child.stdin.end(`${texts.map(encodeLineBreaks).join('\n')}\n`);
+    });
+  }
+}
+
+export class TranslationService {
+  private storageService: StorageService;
+  private networkProfiles?: NetworkProfileService;
+  private providers: TranslationProviderConfig[] = [];
+  private cache: Map<string, string> | null = null;
+  private cachePath: string;
+
+  constructor(storageService: StorageService) {
+    this.storageService = storageService;
+    this.cachePath = path.join(app.getPath('userData'), 'translation-cache.json');
+  }
+
+  // Requests to translation APIs go through the provider's network profile
+  setNetworkProfiles(networkProfiles: NetworkProfileService): void {
+    this.networkProfiles = networkProfiles;
+  }
+
+  async load(): Promise<void> {
+    this.providers = await this.storageService.getTranslationProviders();
+  }
+
+  listProviders(): TranslationProviderConfig[] {
+    return [...this.providers];
+  }
+
+  getProvider(providerId: string): TranslationProviderConfig {
+    const provider = this.providers.find(p => p.id === providerId);
+    if (!provider) {
+      throw new Error('Translation provider not found');
+    }
+    return provider;
+  }
+
+  async createProvider(input: TranslationProviderInput): Promise<TranslationProviderConfig> {
+    this.validate(input);
+
+    const provider: TranslationProviderConfig = {
+      ...input,
+      id: `translation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      // The first provider is the one translations use until told otherwise
+      isDefault: this.providers.length === 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await this.save([...this.providers, provider]);
+    return provider;
+  }
+
+  /**
+   * Replace a provider's settings. Settings left out are cleared, since
+   * undefined values don't survive IPC.
+   */
+  async updateProvider(providerId: string, input: TranslationProviderInput): Promise<TranslationProviderConfig> {
+    const existing = this.getProvider(providerId);
+    const updated: TranslationProviderConfig = {
+      ...input,
+      id: existing.id,
+      isDefault: existing.isDefault,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    this.validate(updated, providerId);
+    await this.save(this.providers.map(p => (p.id === providerId ? updated : p)));
+    return updated;
+  }
+
+  async deleteProvider(providerId: string): Promise<void> {
+    this.getProvider(providerId);
+    await this.save(this.providers.filter(p => p.id !== providerId));
+  }
+
+  async setDefaultProvider(providerId: string): Promise<void> {
+    this.getProvider(providerId);
+    await this.save(this.providers.map(p => ({ ...p, isDefault: p.id === providerId })));
+  }
+
+  /**
+   * The provider to translate with: the selected one, otherwise the default
+   * one, otherwise the only one
+   */
+  resolveProvider(providerId?: string): TranslationProviderConfig {
+    if (providerId) {
+      return this.getProvider(providerId);
+    }
+
+    const provider = this.providers.find(p => p.isDefault) ?? (this.providers.length === 1 ? this.providers[0] : undefined);
+    if (!provider) {
+      throw new Error('No translation provider configured');
+    }
+    return provider;
+  }
+
+  createAdapter(config: TranslationProviderConfig): TranslationProvider {
+    const post: PostJson = (url, body, headers) => this.postJson(url, body, headers, config.networkProfileId);
+
+    switch (config.type) {
+      case 'openai': return new OpenAIChatTranslator(config, post);
+      case 'deepl': return new DeepLTranslator(config, post);
+      case 'command': return new CommandTranslator(config);
+    }
+  }
+
+  /**
+   * Translate every cue of a document, keeping its timing and layout.
+   * Progress reports cues done, cached ones included.
+   */
+  async translateDocument(
+    document: SubtitleDocument,
+    options: SubtitleTranslationOptions,
+    onProgress?: (translated: number, cached: number, total: number) => void
+  ): Promise<SubtitleDocument> {
+    const config = this.resolveProvider(options.providerId);
+    const texts = getCueTexts(document);
+    const cache = options.useCache === false ? undefined : await this.getCache();
+
+    try {
+      const translations = await translateTexts(texts, this.createAdapter(config), {
+        sourceLanguage: options.sourceLanguage,
+        targetLanguage: options.targetLanguage,
+        cacheKey: [
+          config.type,
+          config.baseUrl ?? '',
+          config.model ?? '',
+          config.command ?? '',
+          options.sourceLanguage ?? '',
+          options.targetLanguage
+        ].join('|'),
+        cache,
+        batchSize: config.batchSize ?? (config.type === 'deepl' ? DEEPL_MAX_TEXTS : DEFAULT_BATCH_SIZE),
+        contextSize: config.contextSize,
+        maxRetries: config.maxRetries,
+        onProgress: (translated, cached) => onProgress?.(translated, cached, texts.length)
+      });
+
+      return applyTranslations(document, translations);
+    } finally {
+      // Keep what was translated even when a later batch failed
+      if (cache) {
+        await this.saveCache(cache);
+      }
+    }
+  }
+
+  async clearCache(): Promise<void> {
+    this.cache = new Map();
+    await fs.promises.rm(this.cachePath, { force: true });
+  }
+
+  private async getCache(): Promise<Map<string, string>> {
+    if (!this.cache) {
+      try {
+        const data = JSON.parse(await fs.promises.readFile(this.cachePath, 'utf8')) as Record<string, string>;
+        this.cache = new Map(Object.entries(data));
+      } catch {
+        this.cache = new Map();
+      }
+    }
+    return this.cache;
+  }
+
+  private async saveCache(cache: Map<string, string>): Promise<void> {
+    // Maps keep insertion order, so the oldest translations go first
+    for (const hash of cache.keys()) {
+      if (cache.size <= MAX_CACHE_ENTRIES) {
+        break;
+      }
+      cache.delete(hash);
+    }
+
+    try {
+      await fs.promises.writeFile(this.cachePath, JSON.stringify(Object.fromEntries(cache)));
+    } catch (error) {
+      console.error('Failed to save translation cache:', error);
+    }
+  }
+
+  /**
+   * POST JSON with Electron's net module, so the network profile's proxy
+   * and headers apply, and parse the JSON reply
+   */
+  private async postJson(
+    url: string,
+    body: unknown,
+    headers: Record<string, string>,
+    networkProfileId?: string
+  ): Promise<unknown> {
+    const options = await this.networkProfiles?.getRequestOptions(networkProfileId);
+
+    return new Promise((resolve, reject) => {
+      const request = net.request({ method: 'POST', url, session: options?.session, redirect: 'follow' });
+
+      for (const [name, value] of Object.entries({ ...options?.headers, ...headers, 'Content-Type': 'application/json' })) {
+        request.setHeader(name, value);
+      }
+
+      request.on('login', (authInfo, callback) => {
+        const credentials = options?.proxyCredentials;
+        if (authInfo.isProxy && credentials) {
+          callback(credentials.username, credentials.password);
+        } else {
+          callback();
+        }
+      });
+
+      request.on('response', (response) => {
+        let data = '';
+
+        response.on('data', (chunk) => {
+          data += chunk.toString();
+        });
+
+        response.on('end', () => {
+          if (response.statusCode >= 400) {
+            reject(new Error(`HTTP ${response.statusCode}: ${data.slice(0, 200)}`));
+            return;
+          }
+          try {
+            resolve(JSON.parse(data) as unknown);
+          } catch {
+            reject(new Error('Invalid JSON in translation response'));
+          }
+        });
+
+        response.on('error', reject);
+      });
+
+      request.on('error', reject);
+      request.write(JSON.stringify(body));
+      request.end();
+    });
+  }
+
+  private validate(provider: TranslationProviderInput, providerId?: string): void {
+    const name = provider.name?.trim();
+    if (!name) {
+      throw new Error('Provider name is required');
+    }
+
+    if (this.providers.some(p => p.id !== providerId && p.name === name)) {
+      throw new Error('A translation provider with this name already exists');
+    }
+
+    if (provider.type === 'openai' && !provider.model) {
+      throw new Error('A chat model is required');
+    }
+
+    if (provider.type === 'deepl' && !provider.apiKey && !provider.baseUrl) {
+      throw new Error('An API key is required for the DeepL API');
+    }
+
+    if (provider.type === 'command' && !provider.command) {
+      throw new Error('A translator command is required');
+    }
+
+    if (provider.type !== 'command' && provider.baseUrl && !/^https?:\/\/\S+$/i.test(provider.baseUrl)) {
+      throw new Error('Base URL must be an http or https URL');
+    }
+
+    if (provider.type === 'deepl' && provider.batchSize !== undefined && provider.batchSize > DEEPL_MAX_TEXTS) {
+      throw new Error(`DeepL accepts at most ${DEEPL_MAX_TEXTS} texts per request`);
+    }
+
+    for (const value of [provider.batchSize, provider.contextSize, provider.maxRetries]) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error('Batch size, context size and retries must be whole numbers');
+      }
+    }
+
+    if (provider.batchSize === 0) {
+      throw new Error('Batch size must be at least 1');
+    }
+  }
+
+  private async save(providers: TranslationProviderConfig[]): Promise<void> {
+    await this.storageService.saveTranslationProviders(providers);
+    this.providers = providers;
+  }
+}
@@ -2,13 +2,13 @@
  * UpdateService - Handles application auto-updates
  */
 
-import { app, autoUpdater, dialog } from 'electron';
+import { app, autoUpdater, dialog, net, IncomingMessage } from 'electron';
 import { EventEmitter } from 'events';
-import * as https from 'https';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { StorageService } from './storage';
+import { NetworkProfileService } from './network-profiles';
 
 interface UpdateInfo {
   version: string;
@@ -37,6 +37,7 @@ export class UpdateService extends EventEmitter {
   private currentVersion: string;
   private platform: string;
   private arch: string;
+  private networkProfiles?: NetworkProfileService;
 
   constructor(storageService: StorageService, updateServerUrl?: string) {
     super();
@@ -52,6 +53,41 @@ export class UpdateService extends EventEmitter {
     this.initializeAutoUpdater();
   }
 
+  // Update checks and downloads go through the default network profile
+  setNetworkProfiles(networkProfiles: NetworkProfileService): void {
+    this.networkProfiles = networkProfiles;
+  }
+
+  /**
+   * GET a URL with Electron's net module, so the profile's proxy (including
+   * SOCKS) and headers apply. Redirects, such as GitHub's asset downloads,
+   * are followed.
+   */
+  private async request(url: string, headers: Record<string, string> = {}): Promise<IncomingMessage> {
+    const options = await this.networkProfiles?.getRequestOptions();
+
+    return new Promise((resolve, reject) => {
+      const request = net.request({ url, session: options?.session, redirect: 'follow' });
+
+      for (const [name, value] of Object.entries({ ...headers, ...options?.headers })) {
+        request.setHeader(name, value);
+      }
+
+      request.on('login', (authInfo, callback) => {
+        const credentials = options?.proxyCredentials;
+        if (authInfo.isProxy && credentials) {
+          callback(credentials.username, credentials.password);
+        } else {
+          callback();
+        }
+      });
+
+      request.on('response', resolve);
+      request.on('error', reject);
+      request.end();
+    });
+  }
+
   private initializeAutoUpdater(): void {
     if (process.platform === 'darwin' || process.platform === 'win32') {
       // Use built-in autoUpdater for macOS and Windows
@@ -142,46 +178,47 @@ export class UpdateService extends EventEmitter {
   }
 
   private async fetchLatestRelease(channel: string): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const url = this.updateServerUrl + (channel === 'beta' ? '?prerelease=true' : '/latest');
+    const url = this.updateServerUrl + (channel === 'beta' ? '?prerelease=true' : '/latest');
+    const response = await this.request(url, {
+      'User-Agent': `PreVideo/${this.currentVersion}`,
+      'Accept': 'application/vnd.github.v3+json'
+    }).catch(error => {
+      throw new Error(`Failed to fetch release: ${error}`);
+    });
 
-      https.get(url, {
-        headers: {
-          'User-Agent': `PreVideo/${this.currentVersion}`,
-          'Accept': 'application/vnd.github.v3+json'
-        }
-      }, (response) => {
-        let data = '';
+    return new Promise((resolve, reject) => {
+      let data = '';
 
-        response.on('data', (chunk) => {
-          data += chunk;
-        });
+      response.on('data', (chunk) => {
+        data += chunk;
+      });
 
-        response.on('end', () => {
-          try {
-            const releases = JSON.parse(data);
-
-            // If fetching all releases, filter based on channel
-            if (Array.isArray(releases)) {
-              const filtered = releases.filter(r => {
-                if (channel === 'stable') {
-                  return !r.prerelease && !r.draft;
-                } else if (channel === 'beta') {
-                  return r.prerelease && !r.draft;
-                } else {
-                  return !r.draft;
-                }
-              });
-
-              resolve(filtered[0] || null);
-            } else {
-              resolve(releases);
-            }
-          } catch (error) {
-            reject(new Error(`Failed to parse release data: ${error}`));
+      response.on('end', () => {
+        try {
+          const releases = JSON.parse(data);
+
+          // If fetching all releases, filter based on channel
+          if (Array.isArray(releases)) {
+            const filtered = releases.filter(r => {
+              if (channel === 'stable') {
+                return !r.prerelease && !r.draft;
+              } else if (channel === 'beta') {
+                return r.prerelease && !r.draft;
+              } else {
+                return !r.draft;
+              }
+            });
+
+            resolve(filtered[0] || null);
+          } else {
+            resolve(releases);
           }
-        });
-      }).on('error', (error) => {
+        } catch (error) {
+          reject(new Error(`Failed to parse release data: ${error}`));
+        }
+      });
+
+      response.on('error', (error: Error) => {
         reject(new Error(`Failed to fetch release: ${error}`));
       });
     });
@@ -246,60 +283,63 @@ export class UpdateService extends EventEmitter {
 
     this.emit('download-progress', { percent: 0, transferred: 0, total: updateInfo.fileSize });
 
+    const tempPath = path.join(app.getPath('temp'), `prevideo-update-${updateInfo.version}.tmp`);
+    const response = await this.request(updateInfo.downloadUrl).catch(error => {
+      throw new Error(`Failed to download update: ${error}`);
+    });
+
     return new Promise((resolve, reject) => {
-      const tempPath = path.join(app.getPath('temp'), `prevideo-update-${updateInfo.version}.tmp`);
       const file = fs.createWriteStream(tempPath);
       let downloadedBytes = 0;
       const startTime = Date.now();
+      const totalBytes = parseInt(String(response.headers['content-length'] || '0'));
 
-      https.get(updateInfo.downloadUrl, (response) => {
-        const totalBytes = parseInt(response.headers['content-length'] || '0');
+      response.on('data', (chunk) => {
+        downloadedBytes += chunk.length;
+        file.write(chunk);
 
-        response.on('data', (chunk) => {
-          downloadedBytes += chunk.length;
-          file.write(chunk);
+        const progress: UpdateProgress = {
+          bytesPerSecond: downloadedBytes / ((Date.now() - startTime) / 1000),
+          percent: (downloadedBytes / totalBytes) * 100,
+          transferred: downloadedBytes,
+          total: totalBytes
+        };
 
-          const progress: UpdateProgress = {
-            bytesPerSecond: downloadedBytes / ((Date.now() - startTime) / 1000),
-            percent: (downloadedBytes / totalBytes) * 100,
-            transferred: downloadedBytes,
-            total: totalBytes
-          };
+        this.emit('download-progress', progress);
+      });
 
-          this.emit('download-progress', progress);
-        });
+      response.on('end', () => {
+        file.end();
+
+        // Verify checksum if available
+        if (updateInfo.sha256) {
+          const fileBuffer = fs.readFileSync(tempPath);
+          const hashSum = crypto.createHash('sha256');
+          hashSum.update(fileBuffer);
+          const hex = hashSum.digest('hex');
 
-        response.on('end', () => {
-          file.end();
-
-          // Verify checksum if available
-          if (updateInfo.sha256) {
-            const fileBuffer = fs.readFileSync(tempPath);
-            const hashSum = crypto.createHash('sha256');
-            hashSum.update(fileBuffer);
-            const hex = hashSum.digest('hex');
-
-            if (hex !== updateInfo.sha256) {
-              fs.unlinkSync(tempPath);
-              reject(new Error('Checksum verification failed'));
-              return;
-            }
+          if (hex !== updateInfo.sha256) {
+            fs.unlinkSync(tempPath);
+            reject(new Error('Checksum verification failed'));
+            return;
           }
+        }
 
-          // Move to final location
-          const finalPath = path.join(app.getPath('userData'), 'updates', `prevideo-${updateInfo.version}.exe`);
-          const updateDir = path.dirname(finalPath);
+        // Move to final location
+        const finalPath = path.join(app.getPath('userData'), 'updates', `prevideo-${updateInfo.version}.exe`);
+        const updateDir = path.dirname(finalPath);
 
-          if (!fs.existsSync(updateDir)) {
-            fs.mkdirSync(updateDir, { recursive: true });
-          }
+        if (!fs.existsSync(updateDir)) {
+          fs.mkdirSync(updateDir, { recursive: true });
+        }
 
-          fs.renameSync(tempPath, finalPath);
+        fs.renameSync(tempPath, finalPath);
 
-          this.emit('update-downloaded', updateInfo);
-          resolve();
-        });
-      }).on('error', (error) => {
+        this.emit('update-downloaded', updateInfo);
+        resolve();
+      });
+
+      response.on('error', (error: Error) => {
         file.close();
         fs.unlinkSync(tempPath);
         reject(new Error(`Failed to download update: ${error}`));
@@ -404,30 +444,31 @@ export class UpdateService extends EventEmitter {
   }
 
   private async fetchReleases(limit: number = 10): Promise<any[]> {
+    const url = `${this.updateServerUrl}?per_page=${limit}`;
+    const response = await this.request(url, {
+      'User-Agent': `PreVideo/${this.currentVersion}`,
+      'Accept': 'application/vnd.github.v3+json'
+    }).catch(error => {
+      throw new Error(`Failed to fetch releases: ${error}`);
+    });
+
     return new Promise((resolve, reject) => {
-      const url = `${this.updateServerUrl}?per_page=${limit}`;
+      let data = '';
 
-      https.get(url, {
-        headers: {
-          'User-Agent': `PreVideo/${this.currentVersion}`,
-          'Accept': 'application/vnd.github.v3+json'
-        }
-      }, (response) => {
-        let data = '';
+      response.on('data', (chunk) => {
+        data += chunk;
+      });
 
-        response.on('data', (chunk) => {
-          data += chunk;
-        });
+      response.on('end', () => {
+        try {
+          const releases = JSON.parse(data);
+          resolve(Array.isArray(releases) ? releases : []);
+        } catch (error) {
+          reject(new Error(`Failed to parse releases: ${error}`));
+        }
+      });
 
-        response.on('end', () => {
-          try {
-            const releases = JSON.parse(data);
-            resolve(Array.isArray(releases) ? releases : []);
-          } catch (error) {
-            reject(new Error(`Failed to parse releases: ${error}`));
-          }
-        });
-      }).on('error', (error) => {
+      response.on('error', (error: Error) => {
         reject(new Error(`Failed to fetch releases: ${error}`));
       });
     });
@@ -0,0 +1,402 @@
+/**
+ * WhisperModelService - Whisper model downloads, imports and per-language defaults
+ */
+
+import { net, ClientRequest, IncomingMessage } from 'electron';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { StorageService } from './storage';
+import { NetworkProfileService } from './network-profiles';
+import { WhisperWrapper } from '../binaries/whisper-wrapper';
+import {
+  WhisperModelDownloadProgress,
+  WhisperModelInfo,
+  WhisperModelList,
+  WhisperModelSettings
+} from '../../shared/types/subtitle';
+import {
+  ANY_LANGUAGE,
+  DEFAULT_MODEL_MIRROR,
+  WHISPER_MODEL_CATALOG,
+  WhisperModelDefinition,
+  findModelDefinition,
+  getModelFileName,
+  getModelUrl,
+  parseChecksum,
+  pickDefaultModel,
+  resolveModelId
+} from '../utils/whisper-models';
+
+interface ModelDownload {
+  request?: ClientRequest;
+  cancelled: boolean;
+}
+
+// A model download has thousands of chunks, progress is sent at most this often
+const PROGRESS_INTERVAL = 250;
+
+const headerValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+export class WhisperModelService extends EventEmitter {
+  private storageService: StorageService;
+  private whisper: WhisperWrapper;
+  private networkProfiles?: NetworkProfileService;
+  private settings: WhisperModelSettings = { defaultModels: {} };
+  private downloads: Map<string, ModelDownload> = new Map();
+
+  constructor(storageService: StorageService, whisper: WhisperWrapper) {
+    super();
+    this.storageService = storageService;
+    this.whisper = whisper;
+  }
+
+  // Model downloads go through the default network profile
+  setNetworkProfiles(networkProfiles: NetworkProfileService): void {
+    this.networkProfiles = networkProfiles;
+  }
+
+  async load(): Promise<void> {
+    this.settings = await this.storageService.getWhisperModelSettings();
+  }
+
+  getMirrorUrl(): string {
+    return this.settings.mirrorUrl ?? DEFAULT_MODEL_MIRROR;
+  }
+
+  getModelPath(modelId: string): string {
+    return this.whisper.getModelPath(modelId);
+  }
+
+  /**
+   * Every catalog model and any other model file in the models directory,
+   * with the space each one takes up on disk
+   */
+  async listModels(): Promise<WhisperModelList> {
+    const files = await this.whisper.listModelFiles();
+    const entries: Array<Partial<WhisperModelDefinition> & { id: string; englishOnly: boolean }> = [
+      ...WHISPER_MODEL_CATALOG,
+      ...files
+        .filter(id => !findModelDefinition(id))
+        .map(id => ({ id, englishOnly: /\.en\b/.test(id) }))
+    ];
+    const defaults = this.settings.defaultModels;
+
+    const models = await Promise.all(entries.map(async (entry): Promise<WhisperModelInfo> => {
+      const installed = await this.whisper.checkModelExists(entry.id);
+      return {
+        id: entry.id,
+        size: entry.size,
+        englishOnly: entry.englishOnly,
+        quantization: entry.quantization,
+        downloadSize: entry.downloadSize,
+        installed,
+        diskSize: installed ? await this.whisper.getModelSize(entry.id) : 0,
+        partialSize: await this.whisper.getPartialSize(entry.id),
+        imported: entry.size === undefined,
+        defaultFor: Object.keys(defaults).filter(language => resolveModelId(defaults[language]) === entry.id)
+      };
+    }));
+
+    return {
+      models,
+      diskUsage: models.reduce((sum, model) => sum + model.diskSize + model.partialSize, 0),
+      modelsPath: this.whisper.getModelsPath(),
+      mirrorUrl: this.getMirrorUrl()
+    };
+  }
+
+  /**
+   * The installed model to transcribe with: the requested one, otherwise
+   * the default for the language
+   */
+  async resolveModel(modelId?: string, language?: string): Promise<string> {
+    const id = resolveModelId(modelId ?? pickDefaultModel(this.settings.defaultModels, language));
+
+    if (!(await this.whisper.checkModelExists(id))) {
+      throw new Error(`Whisper model ${id} is not installed, download it first`);
+    }
+    this.checkLanguage(id, language);
+
+    return id;
+  }
+
+  // Base URL of a server with the ggml-<id>.bin files, null for Hugging Face
+  async setMirrorUrl(mirrorUrl: string | null): Promise<void> {
+    const url = mirrorUrl?.trim();
+    if (url && !/^https?:\/\/\S+$/i.test(url)) {
+      throw new Error('Mirror must be an http or https URL');
+    }
+
+    await this.save({ ...this.settings, mirrorUrl: url || undefined });
+  }
+
+  // `language` is a language code or '*' for every language without its own
+  async setDefaultModel(language: string, modelId: string | null): Promise<void> {
+    const code = language.trim().toLowerCase();
+    if (!code) {
+      throw new Error('Language is required');
+    }
+
+    const defaultModels = { ...this.settings.defaultModels };
+    if (modelId) {
+      const id = resolveModelId(modelId);
+      if (!findModelDefinition(id) && !(await this.whisper.checkModelExists(id))) {
+        throw new Error(`Unknown Whisper model: ${modelId}`);
+      }
+      if (code !== ANY_LANGUAGE) {
+        this.checkLanguage(id, code);
+      }
+      defaultModels[code] = id;
+    } else {
+      delete defaultModels[code];
+    }
+
+    await this.save({ ...this.settings, defaultModels });
+  }
+
+  /**
+   * Download a catalog model from the mirror. An interrupted download resumes
+   * from its partial file; the finished file is checked against the SHA-256
+   * the mirror publishes before it's used.
+   */
+  async downloadModel(modelId: string): Promise<string> {
+    const definition = findModelDefinition(modelId);
+    if (!definition) {
+      throw new Error(`Unknown Whisper model: ${modelId}`);
+    }
+
+    const id = definition.id;
+    const modelPath = this.whisper.getModelPath(id);
+    if (await this.whisper.checkModelExists(id)) {
+      return modelPath;
+    }
+    if (this.downloads.has(id)) {
+      throw new Error(`Model ${id} is already downloading`);
+    }
+
+    const download: ModelDownload = { cancelled: false };
+    this.downloads.set(id, download);
+
+    const partialPath = this.whisper.getPartialPath(id);
+    const url = getModelUrl(this.getMirrorUrl(), id);
+    let progress: WhisperModelDownloadProgress = {
+      modelId: id,
+      status: 'downloading',
+      downloaded: 0,
+      total: definition.downloadSize,
+      percent: 0
+    };
+    let lastEmit = 0;
+
+    const report = (update: Partial<WhisperModelDownloadProgress>, force = true): void => {
+      progress = { ...progress, ...update };
+      if (force || Date.now() - lastEmit >= PROGRESS_INTERVAL) {
+        lastEmit = Date.now();
+        this.emit('download-progress', progress);
+      }
+    };
+
+    try {
+      report({});
+      const checksum = await this.downloadToFile(url, partialPath, download, (downloaded, total) => {
+        const size = total > 0 ? total : progress.total;
+        report({ downloaded, total: size, percent: size > 0 ? Math.min(100, downloaded / size * 100) : 0 }, false);
+      });
+
+      report({ status: 'verifying', percent: 100 });
+      const expected = checksum ?? await this.fetchChecksum(`${url}.sha256`);
+      if (!expected) {
+        throw new Error(`The mirror publishes no SHA-256 checksum for ${getModelFileName(id)}`);
+      }
+
+      if (await this.hashFile(partialPath) !== expected) {
+        fs.unlinkSync(partialPath);
+        throw new Error(`Checksum mismatch for model ${id}, the download was discarded`);
+      }
+
+      fs.renameSync(partialPath, modelPath);
+      report({ status: 'completed' });
+      return modelPath;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report({ status: download.cancelled ? 'cancelled' : 'failed', error: message });
+      throw error;
+    } finally {
+      this.downloads.delete(id);
+    }
+  }
+
+  // The partial file stays, so downloading again picks up where this stopped
+  cancelDownload(modelId: string): boolean {
+    const download = this.downloads.get(resolveModelId(modelId));
+    if (!download) {
+      return false;
+    }
+
+    download.cancelled = true;
+    download.request?.abort();
+    return true;
+  }
+
+  async deleteModel(modelId: string): Promise<void> {
+    const id = resolveModelId(modelId);
+    if (this.downloads.has(id)) {
+      throw new Error('Cancel the download before deleting the model');
+    }
+
+    await this.whisper.deleteModel(id);
+
+    const defaultModels = Object.fromEntries(
+      Object.entries(this.settings.defaultModels).filter(([, model]) => resolveModelId(model) !== id)
+    );
+    await this.save({ ...this.settings, defaultModels });
+  }
+
+  importModel(filePath: string): Promise<string> {
+    return this.whisper.importModel(filePath);
+  }
+
+  // English-only models can't transcribe other languages
+  private checkLanguage(modelId: string, language?: string): void {
+    const definition = findModelDefinition(modelId);
+    if (definition?.englishOnly && language && language !== 'auto' && !/^en\b/i.test(language)) {
+      throw new Error(`Model ${modelId} only transcribes English`);
+    }
+  }
+
+  /**
+   * GET a URL with Electron's net module through the default network profile.
+   * Redirects are followed by hand, since Hugging Face names the file's
+   * SHA-256 (X-Linked-Etag) on the redirect to its CDN.
+   */
+  private async request(
+    url: string,
+    headers: Record<string, string> = {},
+    download?: ModelDownload
+  ): Promise<{ response: IncomingMessage; checksum: string | null }> {
+    const options = await this.networkProfiles?.getRequestOptions();
+
+    return new Promise((resolve, reject) => {
+      const request = net.request({ url, session: options?.session, redirect: 'manual' });
+      let checksum: string | null = null;
+
+      if (download) {
+        download.request = request;
+      }
+
+      for (const [name, value] of Object.entries({ ...headers, ...options?.headers })) {
+        request.setHeader(name, value);
+      }
+
+      request.on('login', (authInfo, callback) => {
+        const credentials = options?.proxyCredentials;
+        if (authInfo.isProxy && credentials) {
+          callback(credentials.username, credentials.password);
+        } else {
+          callback();
+        }
+      });
+
+      request.on('redirect', (_statusCode, _method, _redirectUrl, responseHeaders) => {
+        checksum = checksum ?? parseChecksum(headerValue(responseHeaders['x-linked-etag']));
+        request.followRedirect();
+      });
+
+      request.on('response', (response) => {
+        resolve({ response, checksum: checksum ?? parseChecksum(headerValue(response.headers['x-linked-etag'])) });
+      });
+
+      request.on('abort', () => reject(new Error('Model download cancelled')));
+      request.on('error', reject);
+      request.end();
+    });
+  }
+
+  // Append to the partial file from where it ends, returns the checksum the server sent
+  private async downloadToFile(
+    url: string,
+    filePath: string,
+    download: ModelDownload,
+    onProgress: (downloaded: number, total: number) => void
+  ): Promise<string | null> {
+    const offset = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    const { response, checksum } = await this.request(url, offset > 0 ? { Range: `bytes=${offset}-` } : {}, download);
+
+    // The partial file already has every byte
+    if (response.statusCode === 416) {
+      download.request?.abort();
+      return checksum;
+    }
+
+    if (response.statusCode !== 200 && response.statusCode !== 206) {
+      download.request?.abort();
+      throw new Error(`Model download failed with HTTP ${response.statusCode}`);
+    }
+
+    // Servers without range support send the whole file again
+    const resumed = response.statusCode === 206;
+    const length = parseInt(headerValue(response.headers['content-length']) ?? '0') || 0;
+    let downloaded = resumed ? offset : 0;
+    const total = length > 0 ? downloaded + length : 0;
+    const file = fs.createWriteStream(filePath, { flags: resumed ? 'a' : 'w' });
+
+    return new Promise((resolve, reject) => {
+      const fail = (error: Error): void => {
+        file.end(() => reject(error));
+      };
+
+      response.on('data', (chunk: Buffer) => {
+        downloaded += chunk.length;
+        file.write(chunk);
+        onProgress(downloaded, total);
+      });
+
+      response.on('end', () => {
+        if (download.cancelled) {
+          fail(new Error('Model download cancelled'));
+          return;
+        }
+        file.end(() => resolve(checksum));
+      });
+
+      response.on('aborted', () => fail(new Error('Model download cancelled')));
+      response.on('error', fail);
+    });
+  }
+
+  // A `sha256sum` style file next to the model, for mirrors without X-Linked-Etag
+  private async fetchChecksum(url: string): Promise<string | null> {
+    try {
+      const { response } = await this.request(url);
+      const chunks: Buffer[] = [];
+
+      const body = await new Promise<string>((resolve, reject) => {
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        response.on('error', reject);
+      });
+
+      return response.statusCode === 200 ? parseChecksum(body) : null;
+    } catch (error) {
+      console.warn('Failed to fetch model checksum:', error);
+      return null;
+    }
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  private async save(settings: WhisperModelSettings): Promise<void> {
+    await this.storageService.saveWhisperModelSettings(settings);
+    this.settings = settings;
+  }
+}
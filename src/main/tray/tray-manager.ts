@@ -109,6 +109,10 @@ export class TrayManager {
           }
         ]
       },
+      {
+        label: '立即同步订阅',
+        click: () => this.syncSubscriptions()
+      },
       {
         type: 'separator'
       },
@@ -297,6 +301,19 @@ export class TrayManager {
     window?.webContents.send('tray:cancel-all-downloads');
   }
 
+  private async syncSubscriptions(): Promise<void> {
+    try {
+      const queuedCount = await application.syncSubscriptions();
+      this.showNotification(
+        '订阅同步完成',
+        queuedCount > 0 ? `已添加 ${queuedCount} 个新视频` : '没有新视频'
+      );
+    } catch (error) {
+      console.error('Failed to sync subscriptions:', error);
+      this.showNotification('订阅同步失败', '请稍后重试');
+    }
+  }
+
   private openPreferences(): void {
     this.showMainWindow();
     application.openPreferences();
@@ -0,0 +1,58 @@
+/**
+ * yt-dlp arguments for audio-only downloads: extraction, cover art,
+ * tags and chapter tracks
+ */
+
+import * as path from 'path';
+import { AudioCodec, AudioExtractOptions } from '../../shared/types/tasks';
+
+export const AUDIO_CODECS: AudioCodec[] = ['mp3', 'm4a', 'opus', 'flac'];
+
+const MIN_BITRATE = 32;
+const MAX_BITRATE = 320;
+
+/**
+ * Chapter tracks go into a folder named after the full track
+ */
+export function getChapterDirectory(outputPath: string): string {
+  const { dir, name } = path.parse(outputPath);
+  return path.join(dir, name);
+}
+
+export function buildAudioArgs(audio: AudioExtractOptions, outputPath: string): string[] {
+  const args = ['-x', '--audio-format', audio.codec];
+
+  if (audio.codec !== 'flac' && audio.bitrate !== undefined) {
+    args.push('--audio-quality', `${audio.bitrate}K`);
+  }
+
+  if (audio.embedCover) {
+    // Most players can't show webp covers, which is what YouTube serves
+    args.push('--embed-thumbnail', '--convert-thumbnails', 'jpg');
+  }
+
+  if (audio.embedMetadata) {
+    // Title, artist (uploader), date (upload date) and description
+    args.push('--embed-metadata');
+  }
+
+  if (audio.splitChapters) {
+    const template = path.join(
+      getChapterDirectory(outputPath),
+      '%(section_number)03d - %(section_title)s.%(ext)s'
+    );
+    args.push('--split-chapters', '-o', `chapter:${template}`);
+  }
+
+  return args;
+}
+
+export function validateAudioOptions(audio: AudioExtractOptions): void {
+  if (!AUDIO_CODECS.includes(audio.codec)) {
+    throw new Error(`Unsupported audio codec: ${audio.codec}`);
+  }
+
+  if (audio.bitrate !== undefined && (audio.bitrate < MIN_BITRATE || audio.bitrate > MAX_BITRATE)) {
+    throw new Error(`Audio bitrate must be between ${MIN_BITRATE} and ${MAX_BITRATE} kbps`);
+  }
+}
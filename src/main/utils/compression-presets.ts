@@ -0,0 +1,163 @@
+/**
+ * Saved compression presets: checking a preset's config before it's stored,
+ * keeping one default per output format, and the JSON file presets are
+ * exported to and imported from
+ */
+
+import {
+  CompressionConfig,
+  CompressionPreset,
+  CompressionPresetConfig,
+  CompressionPresetInput,
+  CompressionPresetRecord,
+  VideoResolution
+} from '../../shared/types/compression';
+import { validateQualityTarget } from './quality-target';
+
+export const PRESET_FILE_VERSION = 1;
+
+const OUTPUT_FORMATS: Array<CompressionConfig['outputFormat']> = ['mp4', 'webm', 'mkv', 'mov', 'avi'];
+const RESOLUTIONS: VideoResolution[] = ['4K', '2K', '1080p', '720p', '480p', '360p', '240p', 'original'];
+const ENCODER_PRESETS: CompressionPreset[] = [
+  'ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'
+];
+
+// The settings a preset keeps, anything else in an imported file is dropped
+const CONFIG_KEYS: Array<keyof CompressionPresetConfig> = [
+  'outputFormat', 'resolution', 'videoBitrate', 'audioBitrate', 'videoCodec', 'audioCodec', 'preset', 'crf',
+  'twoPass', 'hardwareAcceleration', 'targetFileSize', 'maxFileSize', 'fps', 'startTime', 'endTime',
+  'removeAudio', 'normalizeAudio', 'qualityTarget'
+];
+
+// How the video rate is chosen; taken wholly from the request or wholly from the preset
+const RATE_KEYS: Array<keyof CompressionPresetConfig> = ['crf', 'videoBitrate', 'qualityTarget'];
+// Size targets switch to target-size mode, only a request may do that
+const SIZE_KEYS: Array<keyof CompressionPresetConfig> = ['targetFileSize', 'maxFileSize'];
+
+const isPositive = (value: number | undefined): boolean => value === undefined || (Number.isFinite(value) && value > 0);
+
+/**
+ * A preset config with only the keys a CompressionConfig has. Throws on
+ * values ffmpeg would reject.
+ */
+export function validatePresetConfig(config: CompressionPresetConfig): CompressionPresetConfig {
+  const checked: Record<string, unknown> = {};
+  for (const key of CONFIG_KEYS) {
+    if (config[key] !== undefined) {
+      checked[key] = config[key];
+    }
+  }
+
+  if (!OUTPUT_FORMATS.includes(config.outputFormat)) {
+    throw new Error(`Unsupported output format: ${String(config.outputFormat)}`);
+  }
+  if (!RESOLUTIONS.includes(config.resolution)) {
+    throw new Error(`Unsupported resolution: ${String(config.resolution)}`);
+  }
+  if (config.preset !== undefined && !ENCODER_PRESETS.includes(config.preset)) {
+    throw new Error(`Unknown encoder preset: ${String(config.preset)}`);
+  }
+  // 51 is the x264/x265 limit, VP9 and AV1 go to 63
+  if (config.crf !== undefined && !(Number.isInteger(config.crf) && config.crf >= 0 && config.crf <= 63)) {
+    throw new Error('CRF must be a whole number from 0 to 63');
+  }
+  if (![config.videoBitrate, config.audioBitrate, config.fps, config.targetFileSize, config.maxFileSize].every(isPositive)) {
+    throw new Error('Bitrates, frame rate and file sizes must be greater than 0');
+  }
+  if (config.startTime !== undefined && !(config.startTime >= 0)) {
+    throw new Error('Start time must not be negative');
+  }
+  if (config.endTime !== undefined && !(config.endTime > (config.startTime ?? 0))) {
+    throw new Error('End time must be after the start time');
+  }
+  if (config.qualityTarget !== undefined) {
+    validateQualityTarget(config.qualityTarget);
+  }
+
+  return checked as unknown as CompressionPresetConfig;
+}
+
+/**
+ * `config` with the settings it leaves undefined taken from the output
+ * format's default preset. A request that sets its own rate (CRF, bitrate,
+ * quality or size target) gets none of the preset's rate settings, so a
+ * preset CRF can't override the bitrate asked for.
+ */
+export function applyPresetDefaults(
+  config: CompressionConfig,
+  defaults: CompressionPresetConfig | undefined
+): CompressionConfig {
+  if (defaults === undefined) {
+    return config;
+  }
+
+  const setsRate = [...RATE_KEYS, ...SIZE_KEYS].some(key => config[key] !== undefined);
+  const merged: Record<string, unknown> = { ...config };
+  for (const key of CONFIG_KEYS) {
+    if (merged[key] !== undefined || SIZE_KEYS.includes(key) || (setsRate && RATE_KEYS.includes(key))) {
+      continue;
+    }
+    if (defaults[key] !== undefined) {
+      merged[key] = defaults[key];
+    }
+  }
+
+  return merged as unknown as CompressionConfig;
+}
+
+// Make one preset the default for its output format and clear the others for that format
+export function setDefaultPreset(presets: CompressionPresetRecord[], id: string): CompressionPresetRecord[] {
+  const chosen = presets.find(preset => preset.id === id);
+  if (!chosen) {
+    throw new Error(`Compression preset not found: ${id}`);
+  }
+
+  return presets.map(preset => {
+    if (preset.config.outputFormat !== chosen.config.outputFormat) {
+      return preset;
+    }
+    return { ...preset, isDefault: preset.id === id };
+  });
+}
+
+// "Name", else "Name (2)", "Name (3)"... compared without case
+export function uniquePresetName(name: string, taken: string[]): string {
+  const names = new Set(taken.map(n => n.toLowerCase()));
+  let candidate = name;
+  for (let n = 2; names.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
+
+export function serializePresets(presets: CompressionPresetRecord[]): string {
+  return JSON.stringify({
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, description, config }) => ({ name, description, config }))
+  }, null, 2);
+}
+
+/**
+ * Presets from an exported file, `{ version, presets }`; a bare array of
+ * presets or a single preset is read too
+ */
+export function parsePresetFile(text: string): CompressionPresetInput[] {
+  const data = JSON.parse(text) as unknown;
+  const items: unknown = Array.isArray(data) ? data : (data as { presets?: unknown }).presets ?? [data];
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error('The file has no compression presets');
+  }
+
+  return items.map((item: unknown, index) => {
+    const { name, description, config } = (item ?? {}) as Partial<CompressionPresetInput>;
+    if (typeof name !== 'string' || name.trim() === '' || typeof config !== 'object' || config === null) {
+      throw new Error(`Preset ${index + 1} in the file needs a name and a config`);
+    }
+
+    return {
+      name: name.trim(),
+      description: typeof description === 'string' ? description : undefined,
+      config: validatePresetConfig(config)
+    };
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Compression queue bookkeeping: reordering waiting jobs, the records kept in
+ * the database's processingQueue, and the summary of a finished batch
+ */
+
+import { ProcessingQueueItem } from '../database/schema';
+import {
+  CompressionBatchSummary,
+  CompressionConfig,
+  CompressionJob,
+  CompressionJobStatus,
+  CompressionResult
+} from '../../shared/types/compression';
+import { TaskMoveTarget } from '../../shared/types/tasks';
+
+const SETTLED: CompressionJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export const isSettled = (job: CompressionJob): boolean => SETTLED.includes(job.status);
+
+// Jobs that can be reordered: not started yet, or paused
+export const isWaiting = (job: CompressionJob): boolean => job.status === 'pending' || job.status === 'paused';
+
+/**
+ * Move a waiting job among the other waiting jobs. Running and finished jobs
+ * keep their places, so only the waiting slots are shuffled.
+ */
+export function moveJob(jobs: CompressionJob[], jobId: string, target: TaskMoveTarget): CompressionJob[] {
+  const waiting = jobs.filter(isWaiting);
+  const from = waiting.findIndex(job => job.id === jobId);
+  if (from === -1) {
+    throw new Error('Only waiting jobs can be reordered');
+  }
+
+  let to: number;
+  switch (target) {
+    case 'up':
+      to = from - 1;
+      break;
+    case 'down':
+      to = from + 1;
+      break;
+    case 'top':
+      to = 0;
+      break;
+    case 'bottom':
+      to = waiting.length - 1;
+      break;
+    default:
+      to = target;
+  }
+  to = Math.min(Math.max(to, 0), waiting.length - 1);
+
+  const [moved] = waiting.splice(from, 1);
+  waiting.splice(to, 0, moved);
+
+  let next = 0;
+  return jobs.map(job => (isWaiting(job) ? waiting[next++] : job));
+}
+
+// The stored form of an unfinished job; `position` keeps the queue order
+export function toQueueRecord(job: CompressionJob, position: number): ProcessingQueueItem {
+  return {
+    id: job.id,
+    type: 'video_compression',
+    status: job.status === 'paused' ? 'paused' : job.status === 'processing' ? 'processing' : 'pending',
+    priority: position,
+    batchId: job.batchId,
+    inputFile: job.inputFile,
+    outputFile: job.outputFile,
+    config: { ...job.config },
+    progress: job.progress,
+    startedAt: job.startedAt
+  };
+}
+
+/**
+ * A job stored by a previous session. Encodes that were running when the app
+ * quit start over; jobs the user paused stay paused.
+ */
+export function fromQueueRecord(record: ProcessingQueueItem): CompressionJob {
+  return {
+    id: record.id,
+    batchId: record.batchId,
+    status: record.status === 'paused' ? 'paused' : 'pending',
+    inputFile: record.inputFile,
+    outputFile: record.outputFile,
+    config: record.config as unknown as CompressionConfig,
+    progress: 0
+  };
+}
+
+export function summarizeBatch(batchId: string, jobs: CompressionJob[]): CompressionBatchSummary {
+  const batch = jobs.filter(job => job.batchId === batchId);
+  const results = batch
+    .map(job => job.result)
+    .filter((result): result is CompressionResult => result !== undefined);
+  const succeeded = results.filter(result => result.success);
+
+  const originalSize = succeeded.reduce((sum, result) => sum + result.originalSize, 0);
+  const compressedSize = succeeded.reduce((sum, result) => sum + result.compressedSize, 0);
+
+  return {
+    batchId,
+    results,
+    completed: batch.filter(job => job.status === 'completed').length,
+    failed: batch.filter(job => job.status === 'failed').length,
+    cancelled: batch.filter(job => job.status === 'cancelled').length,
+    remaining: batch.filter(job => !isSettled(job)).length,
+    originalSize,
+    compressedSize,
+    spaceSaved: originalSize - compressedSize
+  };
+}
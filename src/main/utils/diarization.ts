@@ -0,0 +1,158 @@
+/**
+ * Speaker diarization: reading the speaker turns an offline diarization tool
+ * reports, labelling transcribed cues with them, and listing or renaming the
+ * speakers of a subtitle.
+ */
+
+import { SubtitleCue, SubtitleDocument, SubtitleSpeaker, SubtitleWord } from '../../shared/types/subtitle';
+
+export interface SpeakerTurn {
+  startTime: number; // milliseconds
+  endTime: number; // milliseconds
+  speaker: string;
+}
+
+interface RawTurn {
+  start: number; // seconds
+  end: number; // seconds
+  speaker: string;
+}
+
+/**
+ * Turns from a diarization tool's output, either RTTM (`SPEAKER <file>
+ * <channel> <start> <duration> <NA> <NA> <speaker> ...`) or JSON: an array
+ * of `{ start, end, speaker }` in seconds, bare or under `segments`. The
+ * tool's labels become Speaker 1, Speaker 2... in the order they first speak.
+ */
+export function parseSpeakerTurns(output: string): SpeakerTurn[] {
+  const text = output.trim();
+  const raw: RawTurn[] = [];
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const data = JSON.parse(text) as unknown;
+    const segments = Array.isArray(data) ? data : (data as { segments?: unknown }).segments;
+    if (!Array.isArray(segments)) {
+      throw new Error('Diarization output has no segments');
+    }
+
+    for (const segment of segments as Array<{ start: number; end: number; speaker: string | number }>) {
+      raw.push({ start: Number(segment.start), end: Number(segment.end), speaker: String(segment.speaker) });
+    }
+  } else {
+    for (const line of text.split(/\r?\n/)) {
+      const fields = line.trim().split(/\s+/);
+      if (fields[0] === 'SPEAKER' && fields.length >= 8) {
+        const start = parseFloat(fields[3]);
+        raw.push({ start, end: start + parseFloat(fields[4]), speaker: fields[7] });
+      }
+    }
+  }
+
+  const names = new Map<string, string>();
+  return raw
+    .filter(turn => Number.isFinite(turn.start) && Number.isFinite(turn.end) && turn.end > turn.start)
+    .sort((a, b) => a.start - b.start)
+    .map(turn => {
+      if (!names.has(turn.speaker)) {
+        names.set(turn.speaker, `Speaker ${names.size + 1}`);
+      }
+      return {
+        startTime: Math.round(turn.start * 1000),
+        endTime: Math.round(turn.end * 1000),
+        speaker: names.get(turn.speaker) as string
+      };
+    });
+}
+
+/**
+ * Label cues, and their words, with the speaker who talks most during them.
+ * Anything no turn overlaps keeps the speaker before it. `cues` must be in
+ * time order.
+ */
+export function assignSpeakers(cues: SubtitleCue[], turns: SpeakerTurn[]): SubtitleCue[] {
+  const sorted = [...turns].sort((a, b) => a.startTime - b.startTime);
+  let first = 0;
+  let previous: string | undefined;
+
+  const speakerAt = (startTime: number, endTime: number): string | undefined => {
+    // Turns that ended before this point can't overlap anything later
+    while (first < sorted.length && sorted[first].endTime <= startTime) {
+      first++;
+    }
+
+    const overlap = new Map<string, number>();
+    for (let i = first; i < sorted.length && sorted[i].startTime < endTime; i++) {
+      const amount = Math.min(endTime, sorted[i].endTime) - Math.max(startTime, sorted[i].startTime);
+      if (amount > 0) {
+        overlap.set(sorted[i].speaker, (overlap.get(sorted[i].speaker) ?? 0) + amount);
+      }
+    }
+
+    previous = longest(overlap) ?? previous;
+    return previous;
+  };
+
+  return cues.map(cue => {
+    if (!cue.words || cue.words.length === 0) {
+      return { ...cue, speaker: speakerAt(cue.startTime, cue.endTime) };
+    }
+
+    const words: SubtitleWord[] = cue.words.map(word => ({ ...word, speaker: speakerAt(word.startTime, word.endTime) }));
+    const talk = new Map<string, number>();
+    for (const word of words) {
+      if (word.speaker !== undefined) {
+        talk.set(word.speaker, (talk.get(word.speaker) ?? 0) + word.endTime - word.startTime);
+      }
+    }
+
+    return { ...cue, words, speaker: longest(talk) };
+  });
+}
+
+// Speakers in the order they first speak, with how much each one says
+export function listSpeakers(document: SubtitleDocument): SubtitleSpeaker[] {
+  const speakers = new Map<string, SubtitleSpeaker>();
+
+  for (const cue of document.cues) {
+    if (cue.comment || !cue.speaker) {
+      continue;
+    }
+    const speaker = speakers.get(cue.speaker) ?? { name: cue.speaker, cues: 0, duration: 0 };
+    speaker.cues++;
+    speaker.duration += cue.endTime - cue.startTime;
+    speakers.set(cue.speaker, speaker);
+  }
+
+  return [...speakers.values()];
+}
+
+// Rename speakers by their current name; an empty name removes the label
+export function renameSpeakers(document: SubtitleDocument, names: Record<string, string>): SubtitleDocument {
+  const rename = (speaker: string | undefined): string | undefined => {
+    if (speaker === undefined || !(speaker in names)) {
+      return speaker;
+    }
+    return names[speaker].trim() || undefined;
+  };
+
+  return {
+    ...document,
+    cues: document.cues.map(cue => ({
+      ...cue,
+      speaker: rename(cue.speaker),
+      words: cue.words?.map(word => ({ ...word, speaker: rename(word.speaker) }))
+    }))
+  };
+}
+
+function longest(amounts: Map<string, number>): string | undefined {
+  let best: string | undefined;
+  let bestAmount = 0;
+  for (const [key, amount] of amounts) {
+    if (amount > bestAmount) {
+      best = key;
+      bestAmount = amount;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,60 @@
+/**
+ * yt-dlp error classification and retry timing
+ */
+
+import { DownloadErrorCode } from '../../shared/types/tasks';
+
+const ERROR_PATTERNS: Array<{ code: DownloadErrorCode; pattern: RegExp }> = [
+  // Checked in order, the more specific messages first
+  { code: 'DISK_FULL', pattern: /no space left on device|errno 28|disk (is )?full/i },
+  { code: 'HTTP_429', pattern: /http error 429|too many requests/i },
+  { code: 'HTTP_403', pattern: /http error 403|403: forbidden/i },
+  { code: 'PRIVATE', pattern: /private video|video is private|members[- ]only/i },
+  {
+    code: 'AGE_RESTRICTED',
+    pattern: /confirm your age|age[- ]restricted|inappropriate for some users/i
+  },
+  {
+    code: 'GEO_BLOCKED',
+    pattern: /available in your country|geo[- ]?restrict|blocked it in your country/i
+  },
+  {
+    code: 'UNAVAILABLE',
+    pattern: /video unavailable|has been removed|does not exist|http error 404|this video is not available|account .* terminated/i
+  },
+  {
+    code: 'NETWORK',
+    pattern: /timed? ?out|connection (reset|refused|aborted)|network is unreachable|temporary failure in name resolution|getaddrinfo|unable to connect|incompleteread|http error 5\d\d|econnreset|etimedout|enotfound|urlopen error/i
+  }
+];
+
+// Failures worth another attempt; the rest fail the same way every time
+const TRANSIENT_ERRORS: DownloadErrorCode[] = ['NETWORK', 'HTTP_403', 'HTTP_429'];
+
+const MAX_RETRY_DELAY = 10 * 60 * 1000;
+const RATE_LIMIT_MIN_DELAY = 30 * 1000;
+
+export function classifyDownloadError(message: string): DownloadErrorCode {
+  const match = ERROR_PATTERNS.find(({ pattern }) => pattern.test(message));
+  return match ? match.code : 'UNKNOWN';
+}
+
+export function isTransientError(code: DownloadErrorCode | undefined): boolean {
+  return code !== undefined && TRANSIENT_ERRORS.includes(code);
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles with every attempt,
+ * and half of it is randomised so failed tasks don't retry in lockstep.
+ */
+export function getRetryDelay(
+  attempt: number,
+  baseDelay: number,
+  code?: DownloadErrorCode
+): number {
+  // Rate limits need a longer pause than a dropped connection
+  const base = code === 'HTTP_429' ? Math.max(baseDelay, RATE_LIMIT_MIN_DELAY) : baseDelay;
+  const delay = Math.min(base * Math.pow(2, Math.max(attempt - 1, 0)), MAX_RETRY_DELAY);
+
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
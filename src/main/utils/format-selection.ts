@@ -0,0 +1,121 @@
+/**
+ * Turns a quality label or a detailed FormatSelection into yt-dlp
+ * -f / -S arguments
+ */
+
+import { FormatSelection, VideoCodecPreference } from '../../shared/types/tasks';
+import { VideoFormat } from '../../shared/types/video';
+
+const CODEC_SORT_KEYS: Record<VideoCodecPreference, string> = {
+  av1: 'av01',
+  vp9: 'vp9',
+  h264: 'h264'
+};
+
+// Comma-separated sort fields such as "+size", "res:1080" or "filesize~50M"
+const SORT_EXPRESSION_PATTERN = /^[+]?[\w.]+([:~][\w.]+)?(,[+]?[\w.]+([:~][\w.]+)?)*$/;
+
+function getHeightFilter(quality?: string): string {
+  const height = quality ? parseInt(quality.replace('p', '')) : NaN;
+  return isNaN(height) ? '' : `[height<=${height}]`;
+}
+
+/**
+ * The -f selector for a plain quality label (best, worst or e.g. 1080p)
+ */
+function buildQualityArgs(quality?: string): string[] {
+  if (!quality) {
+    return [];
+  }
+
+  if (quality === 'best') {
+    return ['-f', 'bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best'];
+  }
+
+  if (quality === 'worst') {
+    return ['-f', 'worst'];
+  }
+
+  const height = getHeightFilter(quality);
+  return ['-f', `bestvideo${height}+bestaudio/best${height}`];
+}
+
+export function buildFormatArgs(quality?: string, selection?: FormatSelection): string[] {
+  if (!selection) {
+    return buildQualityArgs(quality);
+  }
+
+  if (selection.videoFormatId && selection.audioFormatId) {
+    return ['-f', `${selection.videoFormatId}+${selection.audioFormatId}`];
+  }
+
+  if (selection.videoFormatId) {
+    // Video-only formats get the best audio; muxed ones are used as they are
+    return ['-f', `${selection.videoFormatId}+bestaudio/${selection.videoFormatId}`];
+  }
+
+  if (selection.audioFormatId) {
+    return ['-f', selection.audioFormatId];
+  }
+
+  // The quality stays a hard limit, the preferences only rank what's left
+  const height = quality === 'best' || quality === 'worst' ? '' : getHeightFilter(quality);
+  const args = ['-f', `bv*${height}+ba/b${height}`];
+
+  if (selection.sort) {
+    return [...args, '-S', selection.sort];
+  }
+
+  const fields: string[] = [];
+
+  if (selection.maxFilesize !== undefined && selection.maxFilesize > 0) {
+    fields.push(`size:${Math.floor(selection.maxFilesize / 1024 / 1024)}MiB`);
+  }
+
+  if (selection.dynamicRange === 'sdr') {
+    fields.push('hdr:sdr');
+  } else if (selection.dynamicRange === 'hdr') {
+    fields.push('hdr');
+  }
+
+  if (selection.codec) {
+    fields.push(`vcodec:${CODEC_SORT_KEYS[selection.codec]}`);
+  }
+
+  if (fields.length > 0) {
+    args.push('-S', fields.join(','));
+  }
+
+  return args;
+}
+
+/**
+ * Check a selection against the formats yt-dlp reported for the video
+ */
+export function validateFormatSelection(
+  selection: FormatSelection,
+  formats: VideoFormat[]
+): void {
+  const ids = new Set(formats.map(f => f.formatId));
+
+  // Formats are only known when the info was fetched in full
+  if (ids.size > 0) {
+    for (const id of [selection.videoFormatId, selection.audioFormatId]) {
+      if (id && !ids.has(id)) {
+        throw new Error(`Format ${id} is not available for this video`);
+      }
+    }
+  }
+
+  if (selection.sort && !SORT_EXPRESSION_PATTERN.test(selection.sort)) {
+    throw new Error(`Invalid format sort expression: ${selection.sort}`);
+  }
+
+  if (selection.maxFilesize !== undefined && selection.maxFilesize < 0) {
+    throw new Error('Maximum filesize must be positive');
+  }
+
+  if (selection.codec && !(selection.codec in CODEC_SORT_KEYS)) {
+    throw new Error(`Unsupported codec preference: ${selection.codec}`);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Hardware video encoders: which ones to look for on each platform, reading
+ * `ffmpeg -encoders` and `-hwaccels`, the test encode that proves one works,
+ * and the arguments each family takes in place of the software encoder's
+ */
+
+import { CompressionConfig, HardwareEncoderFamily } from '../../shared/types/compression';
+
+export type HardwareCodec = 'h264' | 'hevc' | 'av1';
+
+interface HardwareEncoder {
+  name: string;
+  codec: HardwareCodec;
+  family: HardwareEncoderFamily;
+}
+
+const HARDWARE_ENCODERS: HardwareEncoder[] = [
+  { name: 'h264_nvenc', codec: 'h264', family: 'nvenc' },
+  { name: 'hevc_nvenc', codec: 'hevc', family: 'nvenc' },
+  { name: 'av1_nvenc', codec: 'av1', family: 'nvenc' },
+  { name: 'h264_qsv', codec: 'h264', family: 'qsv' },
+  { name: 'hevc_qsv', codec: 'hevc', family: 'qsv' },
+  { name: 'av1_qsv', codec: 'av1', family: 'qsv' },
+  { name: 'h264_amf', codec: 'h264', family: 'amf' },
+  { name: 'hevc_amf', codec: 'hevc', family: 'amf' },
+  { name: 'av1_amf', codec: 'av1', family: 'amf' },
+  { name: 'h264_vaapi', codec: 'h264', family: 'vaapi' },
+  { name: 'hevc_vaapi', codec: 'hevc', family: 'vaapi' },
+  { name: 'av1_vaapi', codec: 'av1', family: 'vaapi' },
+  { name: 'h264_videotoolbox', codec: 'h264', family: 'videotoolbox' },
+  { name: 'hevc_videotoolbox', codec: 'hevc', family: 'videotoolbox' }
+];
+
+// Families each platform has drivers for, the one to prefer first
+const PLATFORM_FAMILIES: Record<string, HardwareEncoderFamily[]> = {
+  darwin: ['videotoolbox'],
+  win32: ['nvenc', 'qsv', 'amf'],
+  linux: ['nvenc', 'qsv', 'vaapi']
+};
+
+const SOFTWARE_CODECS: Record<string, HardwareCodec> = {
+  libx264: 'h264',
+  h264: 'h264',
+  libx265: 'hevc',
+  hevc: 'hevc',
+  h265: 'hevc',
+  'libaom-av1': 'av1',
+  libsvtav1: 'av1',
+  librav1e: 'av1',
+  av1: 'av1'
+};
+
+// What a hardware encode falls back to
+const SOFTWARE_ENCODERS: Record<HardwareCodec, string> = {
+  h264: 'libx264',
+  hevc: 'libx265',
+  av1: 'libaom-av1'
+};
+
+// x264 speed presets on the families that have their own scale
+const NVENC_PRESETS: Record<string, string> = {
+  ultrafast: 'p1', superfast: 'p2', veryfast: 'p3', faster: 'p3', fast: 'p4',
+  medium: 'p5', slow: 'p6', slower: 'p7', veryslow: 'p7'
+};
+const AMF_QUALITY: Record<string, string> = {
+  ultrafast: 'speed', superfast: 'speed', veryfast: 'speed', faster: 'speed', fast: 'balanced',
+  medium: 'balanced', slow: 'quality', slower: 'quality', veryslow: 'quality'
+};
+
+const VAAPI_DEVICE = '/dev/dri/renderD128';
+const VAAPI_UPLOAD = 'format=nv12,hwupload';
+
+const find = (name: string | undefined): HardwareEncoder | undefined =>
+  HARDWARE_ENCODERS.find(encoder => encoder.name === name);
+
+export const isHardwareEncoder = (name: string | undefined): boolean => find(name) !== undefined;
+
+// Hardware encoders worth probing on `platform`, preferred family first
+export function candidateEncoders(platform: string): string[] {
+  const families = PLATFORM_FAMILIES[platform] ?? [];
+  return families.flatMap(family => HARDWARE_ENCODERS.filter(e => e.family === family).map(e => e.name));
+}
+
+// Video encoder names in `ffmpeg -encoders`, lines like " V....D h264_nvenc  NVIDIA NVENC H.264 encoder"
+export function parseEncoderList(output: string): Set<string> {
+  const names = new Set<string>();
+  for (const line of output.split('\n')) {
+    const match = /^\s*V[.A-Z]{5}\s+([\w-]+)\s/.exec(line);
+    if (match) {
+      names.add(match[1]);
+    }
+  }
+  return names;
+}
+
+// Methods listed under "Hardware acceleration methods:" in `ffmpeg -hwaccels`
+export function parseHwaccels(output: string): string[] {
+  const lines = output.split('\n').map(line => line.trim());
+  const start = lines.findIndex(line => line.startsWith('Hardware acceleration methods'));
+  return start < 0 ? [] : lines.slice(start + 1).filter(line => /^[\w-]+$/.test(line));
+}
+
+// Input-side options: VAAPI needs its device opened before the input
+export function hardwareInputArgs(encoder: string): string[] {
+  return find(encoder)?.family === 'vaapi' ? ['-vaapi_device', VAAPI_DEVICE] : [];
+}
+
+// Appended to the video filters, VAAPI encodes frames already on the GPU
+export function hardwareUploadFilter(encoder: string): string | undefined {
+  return find(encoder)?.family === 'vaapi' ? VAAPI_UPLOAD : undefined;
+}
+
+// Ten frames of a blank clip; an encoder that's built in but has no device or driver fails here
+export function testEncodeArgs(encoder: string): string[] {
+  const upload = hardwareUploadFilter(encoder);
+  return [
+    '-hide_banner', '-v', 'error',
+    ...hardwareInputArgs(encoder),
+    '-f', 'lavfi', '-i', 'color=c=black:s=320x240:r=25:d=1',
+    ...(upload !== undefined ? ['-vf', upload] : ['-pix_fmt', 'yuv420p']),
+    '-frames:v', '10', '-c:v', encoder,
+    '-f', 'null', '-'
+  ];
+}
+
+// The last thing ffmpeg said before failing, which names the missing device or driver
+export function summarizeFailure(output: string, code: number | null): string {
+  const lines = output.split('\n').map(line => line.trim()).filter(line => line !== '');
+  return lines.length > 0 ? lines[lines.length - 1] : `ffmpeg exited with code ${String(code)}`;
+}
+
+/**
+ * The first working hardware encoder for the codec `videoCodec` encodes
+ * (libx264 by default), `working` being in order of preference. A hardware
+ * encoder asked for by name is used if it works.
+ */
+export function selectHardwareEncoder(videoCodec: string | undefined, working: string[]): string | undefined {
+  const requested = videoCodec ?? 'libx264';
+  const codec = find(requested)?.codec ?? SOFTWARE_CODECS[requested.toLowerCase()];
+  if (codec === undefined) {
+    return undefined;
+  }
+  if (working.includes(requested)) {
+    return requested;
+  }
+  return working.find(name => find(name)?.codec === codec);
+}
+
+// The software encoder to redo a failed hardware encode with
+export function softwareEncoderFor(videoCodec: string | undefined): string | undefined {
+  const hardware = find(videoCodec);
+  return hardware !== undefined ? SOFTWARE_ENCODERS[hardware.codec] : videoCodec;
+}
+
+/**
+ * Rate control and speed for a hardware encoder. Each family has its own
+ * constant-quality option; CRF values are passed as they are except on
+ * VideoToolbox, whose quality runs 1-100 the other way.
+ */
+export function hardwareRateArgs(encoder: string, config: CompressionConfig): string[] {
+  const family = find(encoder)?.family;
+  const args: string[] = [];
+
+  if (config.crf !== undefined) {
+    const crf = String(config.crf);
+    if (family === 'nvenc') {
+      args.push('-rc', 'vbr', '-cq', crf, '-b:v', '0');
+    } else if (family === 'qsv') {
+      args.push('-global_quality', crf);
+    } else if (family === 'vaapi') {
+      args.push('-rc_mode', 'CQP', '-qp', crf);
+    } else if (family === 'amf') {
+      args.push('-rc', 'cqp', '-qp_i', crf, '-qp_p', crf);
+    } else if (family === 'videotoolbox') {
+      args.push('-q:v', String(Math.min(100, Math.max(1, Math.round((51 - config.crf) * 2)))));
+    }
+  } else if (config.videoBitrate !== undefined) {
+    args.push('-b:v', `${config.videoBitrate}k`);
+  }
+
+  if (config.preset !== undefined) {
+    if (family === 'nvenc') {
+      args.push('-preset', NVENC_PRESETS[config.preset]);
+    } else if (family === 'qsv') {
+      args.push('-preset', ['ultrafast', 'superfast'].includes(config.preset) ? 'veryfast' : config.preset);
+    } else if (family === 'amf') {
+      args.push('-quality', AMF_QUALITY[config.preset]);
+    }
+  }
+
+  return args;
+}
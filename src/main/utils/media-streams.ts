@@ -0,0 +1,323 @@
+/**
+ * Embedded streams: listing them from ffprobe's output, and the ffmpeg
+ * arguments to save them to their own files or remux them into a new file
+ * without re-encoding
+ */
+
+import * as path from 'path';
+import { MediaStream, MediaStreamType, RemuxTrack, StreamExtractRequest, StreamExtractResult } from '../../shared/types/video';
+
+// Subtitle codecs stored as images, which can be copied but not turned into text
+const BITMAP_SUBTITLES = ['hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle', 'xsub'];
+
+// The file each codec is copied to on its own
+const NATIVE_FORMATS: Record<string, string> = {
+  subrip: 'srt',
+  ass: 'ass',
+  ssa: 'ass',
+  webvtt: 'vtt',
+  ttml: 'ttml',
+  hdmv_pgs_subtitle: 'sup',
+  aac: 'm4a',
+  alac: 'm4a',
+  mp3: 'mp3',
+  opus: 'opus',
+  vorbis: 'ogg',
+  flac: 'flac',
+  ac3: 'ac3',
+  eac3: 'eac3',
+  dts: 'dts',
+  h264: 'mp4',
+  hevc: 'mp4',
+  vp8: 'webm',
+  vp9: 'webm',
+  av1: 'webm'
+};
+
+// Containers that can hold a copy of any stream of these types
+const CONTAINERS: Record<string, MediaStreamType[]> = {
+  mkv: ['video', 'audio', 'subtitle'],
+  mka: ['audio'],
+  mks: ['subtitle']
+};
+
+// What each format is encoded with when the stream can't be copied into it
+const ENCODERS: Record<string, { type: MediaStreamType; codec: string }> = {
+  srt: { type: 'subtitle', codec: 'srt' },
+  ass: { type: 'subtitle', codec: 'ass' },
+  vtt: { type: 'subtitle', codec: 'webvtt' },
+  mp3: { type: 'audio', codec: 'libmp3lame' },
+  m4a: { type: 'audio', codec: 'aac' },
+  wav: { type: 'audio', codec: 'pcm_s16le' },
+  flac: { type: 'audio', codec: 'flac' },
+  opus: { type: 'audio', codec: 'libopus' },
+  ogg: { type: 'audio', codec: 'libvorbis' }
+};
+
+interface ProbeStream {
+  index: number;
+  codec_type?: string;
+  codec_name?: string;
+  codec_long_name?: string;
+  tags?: Record<string, string>;
+  disposition?: Record<string, number>;
+  duration?: string;
+  bit_rate?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  channels?: number;
+  channel_layout?: string;
+  sample_rate?: string;
+}
+
+export interface StreamOutput extends StreamExtractResult {
+  codec: string; // 'copy' or the encoder
+}
+
+// A file the remux takes streams from; the first one is the input
+export interface RemuxSource {
+  path: string;
+  streams: MediaStream[];
+}
+
+// Tags are upper case in Matroska (DURATION, BPS) and lower case elsewhere
+const tag = (stream: ProbeStream, name: string): string | undefined => {
+  const key = Object.keys(stream.tags ?? {}).find(k => k.toLowerCase() === name);
+  return key !== undefined ? stream.tags?.[key] : undefined;
+};
+
+const positive = (value: number): number | undefined => (Number.isFinite(value) && value > 0 ? value : undefined);
+
+// "01:23:45.678000000" as Matroska writes stream durations
+function parseClock(value: string | undefined): number {
+  const match = /^(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(value ?? '');
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : NaN;
+}
+
+function parseRate(value: string | undefined): number | undefined {
+  const [numerator, denominator] = (value ?? '').split('/').map(Number);
+  const rate = positive(numerator / (denominator ?? 1));
+  return rate !== undefined ? Math.round(rate * 1000) / 1000 : undefined;
+}
+
+/**
+ * The video, audio and subtitle streams in ffprobe's `-show_streams` JSON.
+ * Data streams and attachments (fonts, cover images in Matroska) are left out.
+ */
+export function parseStreams(probe: unknown): MediaStream[] {
+  const counts: Record<MediaStreamType, number> = { video: 0, audio: 0, subtitle: 0 };
+  const streams: MediaStream[] = [];
+
+  for (const raw of (probe as { streams?: ProbeStream[] }).streams ?? []) {
+    const type = raw.codec_type as MediaStreamType;
+    if (!(type in counts)) {
+      continue;
+    }
+
+    const codec = raw.codec_name ?? 'unknown';
+    const language = tag(raw, 'language') ?? 'und';
+    const title = tag(raw, 'title') ?? '';
+    const stream: MediaStream = {
+      index: raw.index,
+      type,
+      typeIndex: counts[type]++,
+      codec,
+      codecName: raw.codec_long_name,
+      language: language !== 'und' && language !== '' ? language : undefined,
+      title: title !== '' ? title : undefined,
+      default: raw.disposition?.default === 1,
+      forced: raw.disposition?.forced === 1,
+      hearingImpaired: raw.disposition?.hearing_impaired === 1,
+      duration: positive(parseFloat(raw.duration ?? '')) ?? positive(parseClock(tag(raw, 'duration'))),
+      bitrate: positive(parseInt(raw.bit_rate ?? tag(raw, 'bps') ?? '', 10))
+    };
+
+    if (type === 'video') {
+      stream.width = raw.width;
+      stream.height = raw.height;
+      stream.fps = parseRate(raw.avg_frame_rate);
+    } else if (type === 'audio') {
+      stream.channels = raw.channels;
+      stream.channelLayout = raw.channel_layout;
+      stream.sampleRate = positive(parseInt(raw.sample_rate ?? '', 10));
+    } else {
+      stream.textBased = !BITMAP_SUBTITLES.includes(codec);
+    }
+
+    streams.push(stream);
+  }
+
+  return streams;
+}
+
+// Where a stream goes when no format is asked for
+function defaultFormat(stream: MediaStream): string {
+  if (stream.codec in NATIVE_FORMATS) {
+    return NATIVE_FORMATS[stream.codec];
+  }
+  if (stream.type === 'subtitle') {
+    return stream.textBased === true ? 'srt' : 'mks';
+  }
+  return stream.type === 'audio' ? 'mka' : 'mkv';
+}
+
+/**
+ * How to save a stream as `format`: copied if the format holds its codec,
+ * re-encoded if it's a format of the same kind, otherwise an error
+ */
+export function planStreamFormat(stream: MediaStream, format?: string): { format: string; codec: string } {
+  const requested = format?.toLowerCase().replace(/^\./, '') ?? '';
+  const target = requested !== '' ? requested : defaultFormat(stream);
+
+  if (target === NATIVE_FORMATS[stream.codec] || CONTAINERS[target]?.includes(stream.type)) {
+    return { format: target, codec: 'copy' };
+  }
+
+  const encoder = ENCODERS[target];
+  if (encoder?.type !== stream.type) {
+    throw new Error(`Stream ${stream.index} (${stream.type}, ${stream.codec}) can't be saved as ${target}`);
+  }
+  if (stream.textBased === false) {
+    throw new Error(`Stream ${stream.index} is a bitmap subtitle (${stream.codec}) and can't be converted to ${target}`);
+  }
+
+  return { format: target, codec: encoder.codec };
+}
+
+// Output files are named <name>.<stream index>[.<language>].<format>
+export function planExtraction(
+  inputPath: string,
+  streams: MediaStream[],
+  requests: StreamExtractRequest[],
+  outputDir: string
+): StreamOutput[] {
+  const name = path.parse(inputPath).name;
+
+  return requests.map(request => {
+    const stream = streams.find(s => s.index === request.index);
+    if (!stream) {
+      throw new Error(`No video, audio or subtitle stream ${request.index} in ${path.basename(inputPath)}`);
+    }
+
+    const { format, codec } = planStreamFormat(stream, request.format);
+    const language = stream.language !== undefined ? `.${stream.language}` : '';
+
+    return {
+      index: stream.index,
+      type: stream.type,
+      format,
+      outputPath: path.join(outputDir, `${name}.${stream.index}${language}.${format}`),
+      converted: codec !== 'copy',
+      codec
+    };
+  });
+}
+
+// One ffmpeg run writing every output
+export function buildExtractArgs(inputPath: string, outputs: StreamOutput[]): string[] {
+  const args = ['-v', 'error', '-y', '-i', inputPath];
+
+  for (const output of outputs) {
+    args.push('-map', `0:${output.index}`, '-c', output.codec);
+    if (output.format === 'mks') {
+      args.push('-f', 'matroska');
+    }
+    args.push(output.outputPath);
+  }
+
+  return args;
+}
+
+export function getRemuxPath(inputPath: string): string {
+  const { dir, name, ext } = path.parse(inputPath);
+  return path.join(dir, `${name}.remux${ext}`);
+}
+
+// Subtitles are the one kind of stream containers disagree on, and they're cheap to convert
+function subtitleCodecFor(container: string, stream: MediaStream): string | undefined {
+  if (stream.type !== 'subtitle') {
+    return undefined;
+  }
+
+  const text = stream.textBased !== false;
+  if (['mp4', 'm4v', 'mov'].includes(container)) {
+    if (!text) {
+      throw new Error(`${container.toUpperCase()} can't hold bitmap subtitles (stream ${stream.index}, ${stream.codec})`);
+    }
+    return stream.codec === 'mov_text' ? undefined : 'mov_text';
+  }
+  if (container === 'webm') {
+    if (!text) {
+      throw new Error(`WebM can't hold bitmap subtitles (stream ${stream.index}, ${stream.codec})`);
+    }
+    return stream.codec === 'webvtt' ? undefined : 'webvtt';
+  }
+  if (['mkv', 'mka', 'mks'].includes(container) && stream.codec === 'mov_text') {
+    return 'srt';
+  }
+  return undefined;
+}
+
+/**
+ * ffmpeg arguments writing `tracks` in order to `outputPath`, copying every
+ * stream (subtitles are converted where the container needs it). Language,
+ * title and flags not given are kept; making a track default clears the flag
+ * on the other tracks of its type unless they set it too.
+ */
+export function buildRemuxArgs(sources: RemuxSource[], tracks: RemuxTrack[], outputPath: string): string[] {
+  if (tracks.length === 0) {
+    throw new Error('A remux needs at least one track');
+  }
+
+  const container = path.extname(outputPath).slice(1).toLowerCase();
+  const resolved = tracks.map(track => {
+    const sourceIndex = track.file !== undefined ? sources.findIndex(source => source.path === track.file) : 0;
+    if (sourceIndex < 0) {
+      throw new Error(`${track.file} is not one of the remux sources`);
+    }
+
+    const { streams } = sources[sourceIndex];
+    const stream = track.file !== undefined && track.index === undefined
+      ? streams[0]
+      : streams.find(s => s.index === track.index);
+    if (!stream) {
+      throw new Error(`No video, audio or subtitle stream ${track.index ?? 0} in ${path.basename(sources[sourceIndex].path)}`);
+    }
+
+    return { track, sourceIndex, stream };
+  });
+
+  const args = ['-v', 'error', '-y'];
+  for (const source of sources) {
+    args.push('-i', source.path);
+  }
+  for (const { sourceIndex, stream } of resolved) {
+    args.push('-map', `${sourceIndex}:${stream.index}`);
+  }
+  args.push('-map_metadata', '0', '-map_chapters', '0', '-c', 'copy');
+
+  resolved.forEach(({ track, stream }, output) => {
+    const codec = subtitleCodecFor(container, stream);
+    if (codec !== undefined) {
+      args.push(`-c:${output}`, codec);
+    }
+    if (track.language !== undefined) {
+      args.push(`-metadata:s:${output}`, `language=${track.language}`);
+    }
+    if (track.title !== undefined) {
+      args.push(`-metadata:s:${output}`, `title=${track.title}`);
+    }
+
+    const defaultChosen = resolved.some(other => other.track.default === true && other.stream.type === stream.type);
+    const flags = [
+      (track.default ?? (defaultChosen ? false : stream.default)) ? 'default' : '',
+      (track.forced ?? stream.forced) ? 'forced' : '',
+      stream.hearingImpaired ? 'hearing_impaired' : ''
+    ].filter(flag => flag !== '');
+    args.push(`-disposition:${output}`, flags.length > 0 ? flags.join('+') : '0');
+  });
+
+  args.push(outputPath);
+  return args;
+}
@@ -0,0 +1,176 @@
+/**
+ * Quality-target encoding: short samples of the input encoded at candidate
+ * CRFs and scored against the source with ffmpeg's libvmaf or ssim filter,
+ * binary-searching the highest CRF (smallest file) that still meets the target
+ */
+
+import { CompressionConfig, QualityMetric, QualityProbe, QualityTarget } from '../../shared/types/compression';
+
+export const SAMPLE_COUNT = 4;
+export const SAMPLE_LENGTH = 5; // seconds
+
+// CRFs searched: below 15 files balloon for no visible gain, VP9 and AV1 run to 63
+const CRF_RANGE = { min: 15, max: 40 };
+const WIDE_CRF_RANGE = { min: 15, max: 55 };
+const WIDE_CRF_CODECS = ['libvpx-vp9', 'libaom-av1', 'libsvtav1'];
+
+export interface SampleWindow {
+  start: number; // seconds into the source
+  length: number;
+}
+
+export interface CrfSearchResult {
+  crf: number;
+  score: number;
+  met: boolean; // false when even the lowest CRF misses the target
+  probes: QualityProbe[];
+}
+
+export function validateQualityTarget(target: QualityTarget): void {
+  if (target.metric === 'vmaf') {
+    if (!(target.score > 0 && target.score <= 100)) {
+      throw new Error('A VMAF target must be between 0 and 100');
+    }
+  } else if (target.metric === 'ssim') {
+    if (!(target.score > 0 && target.score <= 1)) {
+      throw new Error('An SSIM target must be between 0 and 1');
+    }
+  } else {
+    throw new Error(`Unknown quality metric: ${String(target.metric)}`);
+  }
+}
+
+export function crfRange(videoCodec?: string): { min: number; max: number } {
+  return videoCodec !== undefined && WIDE_CRF_CODECS.includes(videoCodec) ? WIDE_CRF_RANGE : CRF_RANGE;
+}
+
+/**
+ * Evenly spread windows of `length` seconds inside [start, end), skipping
+ * the first and last 5% where intros and credits sit. A range too short for
+ * separate windows is sampled whole.
+ */
+export function pickSampleWindows(
+  start: number,
+  end: number,
+  count = SAMPLE_COUNT,
+  length = SAMPLE_LENGTH
+): SampleWindow[] {
+  const duration = end - start;
+  if (!(duration > 0)) {
+    throw new Error('Quality targeting needs the video duration');
+  }
+  if (duration <= count * length * 2) {
+    return [{ start, length: duration }];
+  }
+
+  const margin = duration * 0.05;
+  const span = duration - 2 * margin - length;
+  return Array.from({ length: count }, (_, i) => ({
+    start: Math.round((start + margin + (span * i) / (count - 1)) * 1000) / 1000,
+    length
+  }));
+}
+
+// The video settings of `config` at `crf`; samples are video only
+export function sampleEncodeArgs(
+  inputPath: string,
+  window: SampleWindow,
+  config: CompressionConfig,
+  crf: number,
+  videoFilter: string | undefined,
+  outputPath: string
+): string[] {
+  const args = ['-v', 'error', '-y', '-ss', String(window.start), '-t', String(window.length), '-i', inputPath];
+  args.push('-c:v', config.videoCodec ?? 'libx264', '-crf', String(crf));
+  if (config.preset !== undefined) {
+    args.push('-preset', config.preset);
+  }
+  if (videoFilter !== undefined) {
+    args.push('-vf', videoFilter);
+  }
+  if (config.fps !== undefined) {
+    args.push('-r', String(config.fps));
+  }
+  if (config.threads !== undefined && config.threads > 0) {
+    args.push('-threads', String(config.threads));
+  }
+  args.push('-an', outputPath);
+  return args;
+}
+
+/**
+ * Compare `distortedPath` with the same stretch of the source. The encode is
+ * scaled back up to the source's size first, as VMAF expects; timestamps are
+ * reset on both sides so the frames line up.
+ */
+export function scoreArgs(
+  distortedPath: string,
+  referencePath: string,
+  window: SampleWindow | undefined,
+  metric: QualityMetric
+): string[] {
+  const reference = window !== undefined
+    ? ['-ss', String(window.start), '-t', String(window.length), '-i', referencePath]
+    : ['-i', referencePath];
+  const compare = metric === 'vmaf' ? 'libvmaf' : 'ssim';
+
+  return [
+    '-hide_banner', '-nostats',
+    '-i', distortedPath,
+    ...reference,
+    '-lavfi',
+    '[0:v][1:v]scale2ref=flags=bicubic[scaled][ref];' +
+      '[scaled]setpts=PTS-STARTPTS[d];[ref]setpts=PTS-STARTPTS[r];' +
+      `[d][r]${compare}`,
+    '-f', 'null', '-'
+  ];
+}
+
+// "VMAF score: 93.412" from libvmaf, "SSIM Y:... All:0.981234 (17.2)" from ssim
+export function parseQualityScore(output: string, metric: QualityMetric): number {
+  const match = metric === 'vmaf'
+    ? /VMAF score\s*[:=]\s*([\d.]+)/.exec(output)
+    : /SSIM .*All:([\d.]+)/.exec(output);
+  if (!match) {
+    throw new Error(metric === 'vmaf'
+      ? 'No VMAF score in ffmpeg output, is ffmpeg built with libvmaf?'
+      : 'No SSIM score in ffmpeg output');
+  }
+  return parseFloat(match[1]);
+}
+
+/**
+ * The highest CRF in `range` whose score meets `target`, assuming the score
+ * falls as the CRF rises. `scoreAt` is called once per CRF tried.
+ */
+export async function searchCrf(
+  target: number,
+  range: { min: number; max: number },
+  scoreAt: (crf: number) => Promise<number>
+): Promise<CrfSearchResult> {
+  const probes: QualityProbe[] = [];
+  let low = range.min;
+  let high = range.max;
+  let best: QualityProbe | undefined;
+
+  while (low <= high) {
+    const crf = Math.floor((low + high) / 2);
+    const score = await scoreAt(crf);
+    probes.push({ crf, score });
+
+    if (score >= target) {
+      best = { crf, score };
+      low = crf + 1;
+    } else {
+      high = crf - 1;
+    }
+  }
+
+  if (best !== undefined) {
+    return { ...best, met: true, probes };
+  }
+
+  // Nothing met the target; the lowest CRF was the last one tried
+  const closest = probes[probes.length - 1];
+  return { ...closest, met: false, probes };
+}
@@ -0,0 +1,589 @@
+/**
+ * Advanced SubStation Alpha (.ass) and SubStation Alpha (.ssa). Styles,
+ * per-event layout and the portable override tags are mapped onto the
+ * model; every other override tag is kept verbatim for ASS output.
+ */
+
+import {
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitlePosition,
+  SubtitleRawSection,
+  SubtitleSpan,
+  SubtitleStyle
+} from '../../../shared/types/subtitle';
+import { formatClockTime, parseClockTime } from './time';
+import { getSpans, normalizeLineEndings, resolveAlignment, withSpans } from './markup';
+
+export type AssDialect = 'ass' | 'ssa';
+
+// Resolution \pos coordinates refer to when the script doesn't say
+const DEFAULT_PLAY_RES_X = 384;
+const DEFAULT_PLAY_RES_Y = 288;
+
+const ASS_STYLE_FIELDS = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour',
+  'BackColour', 'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing',
+  'Angle', 'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV',
+  'Encoding'
+];
+
+const SSA_STYLE_FIELDS = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'TertiaryColour',
+  'BackColour', 'Bold', 'Italic', 'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL',
+  'MarginR', 'MarginV', 'AlphaLevel', 'Encoding'
+];
+
+const EVENT_FIELDS = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+const DEFAULT_STYLE: SubtitleStyle = {
+  name: 'Default',
+  fontName: 'Arial',
+  fontSize: 20,
+  primaryColor: '#FFFFFF',
+  secondaryColor: '#FF0000',
+  outlineColor: '#000000',
+  backColor: '#000000',
+  bold: false,
+  italic: false,
+  underline: false,
+  strikeout: false,
+  scaleX: 100,
+  scaleY: 100,
+  spacing: 0,
+  angle: 0,
+  borderStyle: 1,
+  outline: 2,
+  shadow: 2,
+  alignment: 2,
+  marginL: 10,
+  marginR: 10,
+  marginV: 10,
+  encoding: 1
+};
+
+/**
+ * "&HAABBGGRR", "&HBBGGRR&" or a decimal BGR value (SSA) to #RRGGBB[AA].
+ * ASS alpha counts transparency, CSS alpha opacity.
+ */
+export function parseAssColor(value: string): string | undefined {
+  const trimmed = value.trim().replace(/&$/, '');
+  const number = /^&H/i.test(trimmed) ? parseInt(trimmed.slice(2), 16) : parseInt(trimmed);
+  if (isNaN(number)) {
+    return undefined;
+  }
+
+  const hex = (n: number): string => n.toString(16).padStart(2, '0').toUpperCase();
+  const red = number & 0xff;
+  const green = (number >>> 8) & 0xff;
+  const blue = (number >>> 16) & 0xff;
+  const alpha = (number >>> 24) & 0xff;
+
+  return `#${hex(red)}${hex(green)}${hex(blue)}${alpha > 0 ? hex(255 - alpha) : ''}`;
+}
+
+export function formatAssColor(color: string, form: 'style' | 'override' | 'decimal'): string {
+  const match = color.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})?$/i);
+  if (!match) {
+    return form === 'override' ? '&HFFFFFF&' : '&H00FFFFFF';
+  }
+
+  const [, red, green, blue, opacity] = match;
+  const alpha = (255 - parseInt(opacity ?? 'FF', 16)).toString(16).padStart(2, '0');
+  const bgr = `${blue}${green}${red}`.toUpperCase();
+
+  if (form === 'decimal') {
+    return String(parseInt(bgr, 16));
+  }
+  return form === 'override' ? `&H${bgr}&` : `&H${alpha.toUpperCase()}${bgr}`;
+}
+
+// SSA counts 1-3 bottom, +4 top and +8 middle
+function fromLegacyAlignment(value: number): number {
+  const column = value & 3 || 2;
+  if (value & 4) {
+    return column + 6;
+  }
+  if (value & 8) {
+    return column + 3;
+  }
+  return column;
+}
+
+function toLegacyAlignment(value: number): number {
+  const column = ((value - 1) % 3) + 1;
+  const row = Math.ceil(value / 3);
+  return column + (row === 3 ? 4 : row === 2 ? 8 : 0);
+}
+
+function splitFields(line: string, count: number): string[] {
+  const fields = line.split(',');
+  return [...fields.slice(0, count - 1), fields.slice(count - 1).join(',')].map(f => f.trim());
+}
+
+function parseStyle(fields: string[], values: string[]): SubtitleStyle {
+  const get = (name: string): string | undefined => {
+    const index = fields.indexOf(name);
+    return index === -1 ? undefined : values[index];
+  };
+  const number = (name: string): number | undefined => {
+    const value = parseFloat(get(name) ?? '');
+    return isNaN(value) ? undefined : value;
+  };
+  const flag = (name: string): boolean | undefined => {
+    const value = get(name);
+    return value === undefined ? undefined : value.trim() !== '0';
+  };
+  const color = (name: string): string | undefined => {
+    const value = get(name);
+    return value === undefined ? undefined : parseAssColor(value);
+  };
+
+  const alignment = number('Alignment');
+  const isLegacy = !fields.includes('OutlineColour');
+
+  return {
+    name: get('Name') ?? 'Default',
+    fontName: get('Fontname'),
+    fontSize: number('Fontsize'),
+    primaryColor: color('PrimaryColour'),
+    secondaryColor: color('SecondaryColour'),
+    outlineColor: color('OutlineColour') ?? color('TertiaryColour'),
+    backColor: color('BackColour'),
+    bold: flag('Bold'),
+    italic: flag('Italic'),
+    underline: flag('Underline'),
+    strikeout: flag('StrikeOut'),
+    scaleX: number('ScaleX'),
+    scaleY: number('ScaleY'),
+    spacing: number('Spacing'),
+    angle: number('Angle'),
+    borderStyle: number('BorderStyle'),
+    outline: number('Outline'),
+    shadow: number('Shadow'),
+    alignment: alignment !== undefined && isLegacy ? fromLegacyAlignment(alignment) : alignment,
+    marginL: number('MarginL'),
+    marginR: number('MarginR'),
+    marginV: number('MarginV'),
+    encoding: number('Encoding')
+  };
+}
+
+function serializeStyle(style: SubtitleStyle, dialect: AssDialect): string {
+  const merged = { ...DEFAULT_STYLE, ...withoutUndefined(style) };
+  const colorForm = dialect === 'ssa' ? 'decimal' : 'style';
+  const flag = (value?: boolean): string => (value ? '-1' : '0');
+  const color = (value?: string): string => formatAssColor(value ?? '#FFFFFF', colorForm);
+
+  const values: Record<string, string> = {
+    Name: merged.name,
+    Fontname: merged.fontName ?? '',
+    Fontsize: String(merged.fontSize),
+    PrimaryColour: color(merged.primaryColor),
+    SecondaryColour: color(merged.secondaryColor),
+    OutlineColour: color(merged.outlineColor),
+    TertiaryColour: color(merged.outlineColor),
+    BackColour: color(merged.backColor),
+    Bold: flag(merged.bold),
+    Italic: flag(merged.italic),
+    Underline: flag(merged.underline),
+    StrikeOut: flag(merged.strikeout),
+    ScaleX: String(merged.scaleX),
+    ScaleY: String(merged.scaleY),
+    Spacing: String(merged.spacing),
+    Angle: String(merged.angle),
+    BorderStyle: String(merged.borderStyle),
+    Outline: String(merged.outline),
+    Shadow: String(merged.shadow),
+    Alignment: String(dialect === 'ssa' ? toLegacyAlignment(merged.alignment ?? 2) : merged.alignment),
+    MarginL: String(merged.marginL),
+    MarginR: String(merged.marginR),
+    MarginV: String(merged.marginV),
+    AlphaLevel: '0',
+    Encoding: String(merged.encoding)
+  };
+
+  const fields = dialect === 'ssa' ? SSA_STYLE_FIELDS : ASS_STYLE_FIELDS;
+  return `Style: ${fields.map(field => values[field]).join(',')}`;
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+interface OverrideState {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikeout?: boolean;
+  color?: string;
+  fontName?: string;
+  fontSize?: number;
+}
+
+// Split "\b1\t(0,500,\fs20)\fnArial" into tags, keeping parenthesised arguments whole
+function splitOverrideTags(block: string): string[] {
+  const tags: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of block) {
+    if (char === '\\' && depth === 0) {
+      if (current) {
+        tags.push(current);
+      }
+      current = '';
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    }
+    if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    }
+    current += char;
+  }
+
+  if (current) {
+    tags.push(current);
+  }
+  return tags;
+}
+
+interface ParsedEventText {
+  spans: SubtitleSpan[];
+  position?: SubtitlePosition;
+}
+
+function parseEventText(
+  text: string,
+  startTime: number,
+  playResX: number,
+  playResY: number
+): ParsedEventText {
+  const spans: SubtitleSpan[] = [];
+  const position: SubtitlePosition = {};
+  let state: OverrideState = {};
+  let pendingTags: string | undefined;
+  let karaokeTime: number | undefined;
+  let karaokeOffset = 0;
+  let lastIndex = 0;
+
+  const pushText = (literal: string): void => {
+    const unescaped = literal.replace(/\\[Nn]/g, '\n').replace(/\\h/g, '\u00A0');
+    if (unescaped || pendingTags) {
+      spans.push({ ...state, text: unescaped, tags: pendingTags, startTime: karaokeTime });
+      pendingTags = undefined;
+      karaokeTime = undefined;
+    }
+  };
+
+  for (const match of text.matchAll(/\{([^}]*)\}/g)) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    const block = match[1];
+    const unknown: string[] = [];
+
+    // Braces without tags are comments
+    if (!block.includes('\\')) {
+      pendingTags = (pendingTags ?? '') + block;
+      continue;
+    }
+
+    for (const tag of splitOverrideTags(block)) {
+      let m: RegExpMatchArray | null;
+
+      if ((m = tag.match(/^b(\d+)$/))) {
+        const weight = parseInt(m[1]);
+        state = { ...state, bold: weight === 1 || weight >= 600 };
+      } else if ((m = tag.match(/^([ius])([01])$/))) {
+        const key = ({ i: 'italic', u: 'underline', s: 'strikeout' } as const)[m[1] as 'i' | 'u' | 's'];
+        state = { ...state, [key]: m[2] === '1' };
+      } else if ((m = tag.match(/^1?c(&H[0-9a-f]+&?)?$/i))) {
+        state = { ...state, color: m[1] ? parseAssColor(m[1]) : undefined };
+      } else if ((m = tag.match(/^fn(.*)$/))) {
+        state = { ...state, fontName: m[1].trim() || undefined };
+      } else if ((m = tag.match(/^fs(\d+(?:\.\d+)?)$/))) {
+        state = { ...state, fontSize: parseFloat(m[1]) };
+      } else if ((m = tag.match(/^an([1-9])$/))) {
+        position.alignment ??= parseInt(m[1]);
+      } else if ((m = tag.match(/^a(\d+)$/))) {
+        position.alignment ??= fromLegacyAlignment(parseInt(m[1]));
+      } else if ((m = tag.match(/^pos\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)$/))) {
+        position.x = round((parseFloat(m[1]) / playResX) * 100);
+        position.y = round((parseFloat(m[2]) / playResY) * 100);
+      } else if (tag === 'r') {
+        state = {};
+      } else {
+        if ((m = tag.match(/^(?:k[fo]?|K)(\d+)$/))) {
+          // Karaoke durations are in centiseconds from the start of the line
+          karaokeTime = startTime + karaokeOffset;
+          karaokeOffset += parseInt(m[1]) * 10;
+        }
+        if (tag.startsWith('r')) {
+          state = {};
+        }
+        unknown.push(`\\${tag}`);
+      }
+    }
+
+    if (unknown.length > 0) {
+      pendingTags = (pendingTags ?? '') + unknown.join('');
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+
+  return {
+    spans,
+    position: Object.keys(position).length > 0 ? position : undefined
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function getPlayRes(info: Record<string, string>): { x: number; y: number } {
+  const x = parseInt(info.PlayResX);
+  const y = parseInt(info.PlayResY);
+  return {
+    x: isNaN(x) ? DEFAULT_PLAY_RES_X : x,
+    y: isNaN(y) ? DEFAULT_PLAY_RES_Y : y
+  };
+}
+
+export function parseAss(content: string): SubtitleDocument {
+  const document: SubtitleDocument = { cues: [], styles: [], info: {} };
+  let section = '';
+  let styleFields: string[] = ASS_STYLE_FIELDS;
+  let eventFields: string[] = EVENT_FIELDS;
+  let rawSection: SubtitleRawSection | null = null;
+
+  for (const line of normalizeLineEndings(content).split('\n')) {
+    const header = line.trim().match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      rawSection = null;
+      if (!['script info', 'v4+ styles', 'v4 styles', 'v4 styles+', 'events'].includes(section)) {
+        rawSection = { name: header[1], lines: [] };
+        (document.sections ??= []).push(rawSection);
+      }
+      continue;
+    }
+
+    if (rawSection) {
+      rawSection.lines.push(line);
+      continue;
+    }
+
+    const index = line.indexOf(':');
+    if (index === -1 || line.startsWith(';')) {
+      continue;
+    }
+    const key = line.slice(0, index).trim();
+    const value = line.slice(index + 1).trim();
+
+    if (section === 'script info') {
+      document.info[key] = value;
+    } else if (section.includes('styles')) {
+      if (key === 'Format') {
+        styleFields = value.split(',').map(f => f.trim());
+      } else if (key === 'Style') {
+        document.styles.push(parseStyle(styleFields, splitFields(value, styleFields.length)));
+      }
+    } else if (section === 'events') {
+      if (key === 'Format') {
+        eventFields = value.split(',').map(f => f.trim());
+      } else if (key === 'Dialogue' || key === 'Comment') {
+        document.cues.push(parseEvent(eventFields, splitFields(value, eventFields.length), key === 'Comment', document.info));
+      }
+    }
+  }
+
+  for (const raw of document.sections ?? []) {
+    while (raw.lines.length > 0 && raw.lines[raw.lines.length - 1].trim() === '') {
+      raw.lines.pop();
+    }
+  }
+
+  if (document.cues.length === 0 && document.styles.length === 0 && Object.keys(document.info).length === 0) {
+    throw new Error('Not a SubStation Alpha file');
+  }
+
+  return document;
+}
+
+function parseEvent(
+  fields: string[],
+  values: string[],
+  comment: boolean,
+  info: Record<string, string>
+): SubtitleCue {
+  const get = (name: string): string => values[fields.indexOf(name)] ?? '';
+  const startTime = parseClockTime(get('Start')) ?? 0;
+  const endTime = parseClockTime(get('End')) ?? startTime;
+  const playRes = getPlayRes(info);
+  const { spans, position } = parseEventText(get('Text'), startTime, playRes.x, playRes.y);
+
+  const margins = {
+    left: parseInt(get('MarginL')) || 0,
+    right: parseInt(get('MarginR')) || 0,
+    vertical: parseInt(get('MarginV')) || 0
+  };
+  const layer = parseInt(get('Layer'));
+
+  return withSpans({
+    startTime,
+    endTime,
+    style: get('Style') || undefined,
+    speaker: get('Name') || undefined,
+    position,
+    margins: margins.left || margins.right || margins.vertical ? margins : undefined,
+    layer: isNaN(layer) || layer === 0 ? undefined : layer,
+    effect: get('Effect') || undefined,
+    comment: comment || undefined
+  }, spans);
+}
+
+function serializeEventText(
+  cue: SubtitleCue,
+  styleAlignment: number,
+  playResX: number,
+  playResY: number,
+  dialect: AssDialect
+): string {
+  const spans = getSpans(cue);
+  let output = '';
+  let previous: OverrideState = {};
+
+  const layout: string[] = [];
+  const alignment = resolveAlignment(cue.position);
+  if (alignment !== undefined && alignment !== styleAlignment) {
+    layout.push(dialect === 'ssa' ? `\\a${toLegacyAlignment(alignment)}` : `\\an${alignment}`);
+  }
+  if (cue.position?.y !== undefined) {
+    const x = round(((cue.position.x ?? 50) / 100) * playResX);
+    const y = round((cue.position.y / 100) * playResY);
+    layout.push(`\\pos(${x},${y})`);
+  }
+
+  spans.forEach((span, index) => {
+    const tags: string[] = index === 0 ? [...layout] : [];
+
+    // Going back to the style's value needs a reset
+    const cleared = (['color', 'fontName', 'fontSize'] as const).some(
+      key => previous[key] !== undefined && span[key] === undefined
+    );
+    if (cleared) {
+      tags.push('\\r');
+      previous = {};
+    }
+
+    if ((span.bold ?? false) !== (previous.bold ?? false)) {
+      tags.push(`\\b${span.bold ? 1 : 0}`);
+    }
+    if ((span.italic ?? false) !== (previous.italic ?? false)) {
+      tags.push(`\\i${span.italic ? 1 : 0}`);
+    }
+    if ((span.underline ?? false) !== (previous.underline ?? false)) {
+      tags.push(`\\u${span.underline ? 1 : 0}`);
+    }
+    if ((span.strikeout ?? false) !== (previous.strikeout ?? false)) {
+      tags.push(`\\s${span.strikeout ? 1 : 0}`);
+    }
+    if (span.color && span.color !== previous.color) {
+      tags.push(`\\c${formatAssColor(span.color, 'override')}`);
+    }
+    if (span.fontName && span.fontName !== previous.fontName) {
+      tags.push(`\\fn${span.fontName}`);
+    }
+    if (span.fontSize && span.fontSize !== previous.fontSize) {
+      tags.push(`\\fs${span.fontSize}`);
+    }
+
+    const hasKaraokeTag = /\\(k[fo]?|K)\d/.test(span.tags ?? '');
+    if (span.startTime !== undefined && !hasKaraokeTag) {
+      const next = spans.slice(index + 1).find(s => s.startTime !== undefined);
+      const end = next?.startTime ?? cue.endTime;
+      tags.push(`\\k${Math.max(0, Math.round((end - span.startTime) / 10))}`);
+    }
+
+    if (span.tags && dialect === 'ass') {
+      tags.push(span.tags);
+    }
+
+    if (tags.length > 0) {
+      output += `{${tags.join('')}}`;
+    }
+    output += span.text.replace(/\n/g, '\\N').replace(/\u00A0/g, '\\h');
+
+    previous = {
+      bold: span.bold,
+      italic: span.italic,
+      underline: span.underline,
+      strikeout: span.strikeout,
+      color: span.color,
+      fontName: span.fontName,
+      fontSize: span.fontSize
+    };
+  });
+
+  if (spans.length === 0 && layout.length > 0) {
+    output = `{${layout.join('')}}`;
+  }
+
+  return output;
+}
+
+export function serializeAss(document: SubtitleDocument, dialect: AssDialect = 'ass'): string {
+  const info: Record<string, string> = {
+    ...document.info,
+    ScriptType: dialect === 'ssa' ? 'v4.00' : 'v4.00+'
+  };
+  const playRes = getPlayRes(info);
+  const styles = document.styles.length > 0 ? document.styles : [DEFAULT_STYLE];
+  const defaultStyle = styles.find(s => s.name === 'Default') ?? styles[0];
+  const timeStyle = { fractionSeparator: '.' as const, fractionDigits: 2 as const, hourDigits: 1 as const };
+
+  const lines = ['[Script Info]'];
+  for (const [key, value] of Object.entries(info)) {
+    lines.push(`${key}: ${value}`);
+  }
+
+  lines.push('', dialect === 'ssa' ? '[V4 Styles]' : '[V4+ Styles]');
+  lines.push(`Format: ${(dialect === 'ssa' ? SSA_STYLE_FIELDS : ASS_STYLE_FIELDS).join(', ')}`);
+  for (const style of styles) {
+    lines.push(serializeStyle(style, dialect));
+  }
+
+  lines.push('', '[Events]');
+  lines.push(`Format: ${(dialect === 'ssa' ? ['Marked', ...EVENT_FIELDS.slice(1)] : EVENT_FIELDS).join(', ')}`);
+
+  for (const cue of document.cues) {
+    const style = styles.find(s => s.name === cue.style) ?? defaultStyle;
+    const text = serializeEventText(cue, style.alignment ?? 2, playRes.x, playRes.y, dialect);
+    const values = [
+      dialect === 'ssa' ? 'Marked=0' : String(cue.layer ?? 0),
+      formatClockTime(cue.startTime, timeStyle),
+      formatClockTime(cue.endTime, timeStyle),
+      style.name,
+      (cue.speaker ?? '').replace(/,/g, ' '),
+      String(cue.margins?.left ?? 0),
+      String(cue.margins?.right ?? 0),
+      String(cue.margins?.vertical ?? 0),
+      (cue.effect ?? '').replace(/,/g, ' '),
+      text
+    ];
+    lines.push(`${cue.comment ? 'Comment' : 'Dialogue'}: ${values.join(',')}`);
+  }
+
+  if (dialect === 'ass') {
+    for (const section of document.sections ?? []) {
+      lines.push('', `[${section.name}]`, ...section.lines);
+    }
+  }
+
+  return `${lines.join('\n').replace(/\n+$/, '')}\n`;
+}
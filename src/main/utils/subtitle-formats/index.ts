@@ -0,0 +1,173 @@
+/**
+ * Subtitle format engine. Every format parses into a SubtitleDocument and
+ * serializes from one, so conversion goes through the shared model.
+ */
+
+import * as path from 'path';
+import {
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitleFormat,
+  SubtitleTimestamp
+} from '../../../shared/types/subtitle';
+import { parseSrt, serializeSrt } from './srt';
+import { parseVtt, serializeVtt } from './vtt';
+import { parseAss, serializeAss } from './ass';
+import { parseTtml, serializeTtml } from './ttml';
+import { parseSbv, serializeSbv } from './sbv';
+import { parseLrc, serializeLrc } from './lrc';
+import { parseJson, serializeJson } from './json';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass', 'ssa', 'ttml', 'dfxp', 'sbv', 'lrc', 'json'];
+
+const EXTENSION_FORMATS: Record<string, SubtitleFormat> = {
+  '.srt': 'srt',
+  '.vtt': 'vtt',
+  '.webvtt': 'vtt',
+  '.ass': 'ass',
+  '.ssa': 'ssa',
+  '.ttml': 'ttml',
+  '.xml': 'ttml',
+  '.dfxp': 'dfxp',
+  '.sbv': 'sbv',
+  '.lrc': 'lrc',
+  '.json': 'json',
+  '.json3': 'json'
+};
+
+export function isSubtitleFormat(value: string): value is SubtitleFormat {
+  return (SUBTITLE_FORMATS as string[]).includes(value);
+}
+
+export function parseSubtitle(content: string, format: SubtitleFormat): SubtitleDocument {
+  switch (format) {
+    case 'srt': return parseSrt(content);
+    case 'vtt': return parseVtt(content);
+    case 'ass':
+    case 'ssa': return parseAss(content);
+    case 'ttml':
+    case 'dfxp': return parseTtml(content);
+    case 'sbv': return parseSbv(content);
+    case 'lrc': return parseLrc(content);
+    case 'json': return parseJson(content);
+  }
+}
+
+export function serializeSubtitle(document: SubtitleDocument, format: SubtitleFormat): string {
+  switch (format) {
+    case 'srt': return serializeSrt(document);
+    case 'vtt': return serializeVtt(document);
+    case 'ass': return serializeAss(document, 'ass');
+    case 'ssa': return serializeAss(document, 'ssa');
+    case 'ttml': return serializeTtml(document, 'ttml');
+    case 'dfxp': return serializeTtml(document, 'dfxp');
+    case 'sbv': return serializeSbv(document);
+    case 'lrc': return serializeLrc(document);
+    case 'json': return serializeJson(document);
+  }
+}
+
+/**
+ * Detect a format from the file extension, falling back to the content.
+ * Returns null when neither gives a supported format.
+ */
+export function detectSubtitleFormat(content: string, filename?: string): SubtitleFormat | null {
+  const byExtension = filename ? EXTENSION_FORMATS[path.extname(filename).toLowerCase()] : undefined;
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const head = content.replace(/^\uFEFF/, '').trimStart().slice(0, 2000);
+
+  if (head.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (/^\[Script Info\]/im.test(head)) {
+    return /^ScriptType:\s*v4\.00\s*$/im.test(head) ? 'ssa' : 'ass';
+  }
+  if (/<tt[\s>]/.test(head)) {
+    return head.includes('2006/10/ttaf1') ? 'dfxp' : 'ttml';
+  }
+  if (head.startsWith('{') || head.startsWith('[{')) {
+    return 'json';
+  }
+  if (/^\s*[\d:.,]+\s*-->\s*[\d:.,]+/m.test(head)) {
+    return 'srt';
+  }
+  if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}\s*$/m.test(head)) {
+    return 'sbv';
+  }
+  if (/^\[(\d+:\d{2}|ti:|ar:|al:)/m.test(head)) {
+    return 'lrc';
+  }
+
+  return null;
+}
+
+export function convertSubtitle(content: string, from: SubtitleFormat, to: SubtitleFormat): string {
+  return serializeSubtitle(parseSubtitle(content, from), to);
+}
+
+// Plain timing and text for Subtitle.timestamps, ASS comments left out
+export function toTimestamps(document: SubtitleDocument): SubtitleTimestamp[] {
+  return document.cues
+    .filter(cue => !cue.comment)
+    .map(cue => ({
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      text: cue.text,
+      ...(cue.words ? { words: cue.words } : {})
+    }));
+}
+
+function overlap(cue: SubtitleCue, timestamp: SubtitleTimestamp): number {
+  return Math.min(cue.endTime, timestamp.endTime) - Math.max(cue.startTime, timestamp.startTime);
+}
+
+/**
+ * Write edited timing and text back into a document, the reverse of
+ * toTimestamps. Each edited cue keeps the style, position and speaker of the
+ * original cue it overlaps most, so splitting a cue styles both halves;
+ * inline formatting only survives where the text is unchanged.
+ */
+export function applyTimestamps(document: SubtitleDocument, timestamps: SubtitleTimestamp[]): SubtitleDocument {
+  const originals = document.cues.filter(cue => !cue.comment);
+  const used = new Set<SubtitleCue>();
+
+  const cues = timestamps.map((timestamp): SubtitleCue => {
+    let best: SubtitleCue | undefined;
+    for (const cue of originals) {
+      if (overlap(cue, timestamp) > 0 && (!best || overlap(cue, timestamp) > overlap(best, timestamp))) {
+        best = cue;
+      }
+    }
+
+    const edited = { startTime: timestamp.startTime, endTime: timestamp.endTime, text: timestamp.text };
+    if (!best) {
+      return edited;
+    }
+
+    // Only the first cue made from an original keeps its identifier
+    const id = used.has(best) ? undefined : best.id;
+    used.add(best);
+
+    return {
+      ...best,
+      ...edited,
+      id,
+      spans: best.text === timestamp.text ? best.spans : undefined,
+      // Word timing only still fits a cue that wasn't touched
+      words: best.text === timestamp.text && best.startTime === timestamp.startTime && best.endTime === timestamp.endTime
+        ? best.words
+        : undefined
+    };
+  });
+
+  // ASS comments stay where they were in time
+  const comments = document.cues.filter(cue => cue.comment);
+
+  return {
+    ...document,
+    cues: [...cues, ...comments].sort((a, b) => a.startTime - b.startTime)
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * JSON subtitles. Writes the whole subtitle model so nothing is lost, and
+ * also reads Whisper output ({ segments }) and YouTube json3 ({ events }).
+ */
+
+import { SubtitleCue, SubtitleDocument, SubtitleWord } from '../../../shared/types/subtitle';
+import { normalizeLineEndings } from './markup';
+
+const JSON_FORMAT = 'prevideo-subtitle';
+const JSON_VERSION = 1;
+
+interface WhisperSegment {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  speaker?: string;
+  words?: WhisperWord[]; // With word timestamps turned on
+}
+
+interface WhisperWord {
+  word: string;
+  start: number; // seconds
+  end: number; // seconds
+  probability?: number;
+}
+
+interface Json3Event {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: Array<{ utf8?: string }>;
+}
+
+// Any of the JSON layouts parseJson accepts
+type JsonSubtitle =
+  | (Partial<SubtitleDocument> & { cues: SubtitleCue[] })
+  | { segments: WhisperSegment[] }
+  | { events: Json3Event[] }
+  | SubtitleCue[];
+
+function fromWhisper(segments: WhisperSegment[]): SubtitleCue[] {
+  return segments.map(segment => ({
+    startTime: Math.round(segment.start * 1000),
+    endTime: Math.round(segment.end * 1000),
+    text: segment.text.trim(),
+    speaker: segment.speaker,
+    words: segment.words?.map((word): SubtitleWord => ({
+      text: word.word.trim(),
+      startTime: Math.round(word.start * 1000),
+      endTime: Math.round(word.end * 1000),
+      probability: word.probability
+    }))
+  }));
+}
+
+function fromJson3(events: Json3Event[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const event of events) {
+    const text = (event.segs ?? []).map(seg => seg.utf8 ?? '').join('').trim();
+    // Events without text only carry window and position changes
+    if (!text || event.tStartMs === undefined) {
+      continue;
+    }
+    cues.push({
+      startTime: event.tStartMs,
+      endTime: event.tStartMs + (event.dDurationMs ?? 0),
+      text
+    });
+  }
+
+  return cues;
+}
+
+export function parseJson(content: string): SubtitleDocument {
+  const data = JSON.parse(normalizeLineEndings(content)) as JsonSubtitle | null;
+
+  // A bare array of { startTime, endTime, text }, like Subtitle.timestamps
+  if (Array.isArray(data)) {
+    return { cues: data, styles: [], info: {} };
+  }
+  if (data && 'cues' in data && Array.isArray(data.cues)) {
+    return {
+      cues: data.cues,
+      styles: data.styles ?? [],
+      info: data.info ?? {},
+      notes: data.notes,
+      css: data.css,
+      regions: data.regions,
+      sections: data.sections
+    };
+  }
+  if (data && 'segments' in data && Array.isArray(data.segments)) {
+    return { cues: fromWhisper(data.segments), styles: [], info: {} };
+  }
+  if (data && 'events' in data && Array.isArray(data.events)) {
+    return { cues: fromJson3(data.events), styles: [], info: {} };
+  }
+
+  throw new Error('Unrecognized JSON subtitle structure');
+}
+
+export function serializeJson(document: SubtitleDocument): string {
+  return `${JSON.stringify({ format: JSON_FORMAT, version: JSON_VERSION, ...document }, null, 2)}\n`;
+}
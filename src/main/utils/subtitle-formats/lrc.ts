@@ -0,0 +1,130 @@
+/**
+ * LRC lyrics (.lrc), including repeated line timestamps, [offset:] and the
+ * enhanced <mm:ss.xx> word timing
+ */
+
+import { SubtitleCue, SubtitleDocument, SubtitleSpan } from '../../../shared/types/subtitle';
+import { getSpans, normalizeLineEndings, withSpans } from './markup';
+
+// How long the last line stays up when nothing ends it
+const LAST_LINE_DURATION = 5000;
+
+// ID tags LRC players understand; "ti" maps to the shared "title" key
+const ID_TAGS = ['ar', 'al', 'au', 'by', 'length', 're', 've'];
+
+const TIME_TAG = /^\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+const WORD_TAG = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+
+function toMs(minutes: string, seconds: string, fraction?: string): number {
+  const ms = fraction ? Math.round(parseInt(fraction) * Math.pow(10, 3 - fraction.length)) : 0;
+  return (parseInt(minutes) * 60 + parseInt(seconds)) * 1000 + ms;
+}
+
+function formatLrcTime(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 10));
+  const minutes = Math.floor(total / 6000);
+  const seconds = Math.floor((total % 6000) / 100);
+  const centiseconds = total % 100;
+
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+}
+
+function parseWords(text: string, offset: number): SubtitleSpan[] {
+  const spans: SubtitleSpan[] = [];
+  let startTime: number | undefined;
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(WORD_TAG)) {
+    spans.push({ text: text.slice(lastIndex, match.index), startTime });
+    startTime = Math.max(0, toMs(match[1], match[2], match[3]) - offset);
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  spans.push({ text: text.slice(lastIndex), startTime });
+
+  return spans;
+}
+
+export function parseLrc(content: string): SubtitleDocument {
+  const lines = normalizeLineEndings(content).split('\n');
+  const info: Record<string, string> = {};
+  const entries: Array<{ time: number; text: string }> = [];
+
+  // [offset:+500] shows every line 500ms earlier
+  const offsetTag = content.match(/^\s*\[offset:\s*([+-]?\d+)\s*\]/m);
+  const offset = offsetTag ? parseInt(offsetTag[1]) : 0;
+
+  for (const line of lines) {
+    const tag = line.trim().match(/^\[([a-z#]+):(.*)\]$/i);
+    if (tag) {
+      const key = tag[1].toLowerCase();
+      if (key !== 'offset') {
+        info[key === 'ti' ? 'title' : key] = tag[2].trim();
+      }
+      continue;
+    }
+
+    const times: number[] = [];
+    let rest = line.trim();
+    let match = rest.match(TIME_TAG);
+    while (match) {
+      times.push(Math.max(0, toMs(match[1], match[2], match[3]) - offset));
+      rest = rest.slice(match[0].length);
+      match = rest.match(TIME_TAG);
+    }
+
+    for (const time of times) {
+      entries.push({ time, text: rest.trim() });
+    }
+  }
+
+  entries.sort((a, b) => a.time - b.time);
+
+  const cues: SubtitleCue[] = [];
+  entries.forEach((entry, index) => {
+    // Lines without text only mark where the previous line ends
+    if (!entry.text) {
+      return;
+    }
+    const next = entries[index + 1];
+    cues.push(withSpans({
+      startTime: entry.time,
+      endTime: next ? next.time : entry.time + LAST_LINE_DURATION
+    }, parseWords(entry.text, offset)));
+  });
+
+  return { cues, styles: [], info };
+}
+
+export function serializeLrc(document: SubtitleDocument): string {
+  const lines: string[] = [];
+
+  if (document.info.title) {
+    lines.push(`[ti:${document.info.title}]`);
+  }
+  for (const key of ID_TAGS) {
+    if (document.info[key]) {
+      lines.push(`[${key}:${document.info[key]}]`);
+    }
+  }
+
+  const cues = document.cues
+    .filter(cue => !cue.comment)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  cues.forEach((cue, index) => {
+    // One line per cue, so line breaks become spaces
+    const text = getSpans(cue)
+      .map(span => `${span.startTime !== undefined ? `<${formatLrcTime(span.startTime)}>` : ''}${span.text}`)
+      .join('')
+      .replace(/\s*\n\s*/g, ' ');
+    lines.push(`[${formatLrcTime(cue.startTime)}]${text}`);
+
+    // An empty line ends the cue when there is a gap before the next one
+    const next = cues[index + 1];
+    if (!next || next.startTime > cue.endTime) {
+      lines.push(`[${formatLrcTime(cue.endTime)}]`);
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,317 @@
+/**
+ * Inline formatting helpers: span bookkeeping and the HTML-like tags that
+ * SRT and WebVTT share
+ */
+
+import { SubtitleCue, SubtitlePosition, SubtitleSpan } from '../../../shared/types/subtitle';
+import { formatClockTime, parseClockTime } from './time';
+
+type SpanFormatting = Omit<SubtitleSpan, 'text'>;
+
+const FORMATTING_KEYS: Array<keyof SpanFormatting> = [
+  'bold',
+  'italic',
+  'underline',
+  'strikeout',
+  'color',
+  'fontName',
+  'fontSize',
+  'classes',
+  'startTime',
+  'tags'
+];
+
+// Drop a byte order mark and use \n line endings
+export function normalizeLineEndings(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+export function getSpans(cue: SubtitleCue): SubtitleSpan[] {
+  return cue.spans ?? [{ text: cue.text }];
+}
+
+function isPlain(span: SubtitleSpan): boolean {
+  return FORMATTING_KEYS.every(key => span[key] === undefined);
+}
+
+function sameFormatting(a: SubtitleSpan, b: SubtitleSpan): boolean {
+  return FORMATTING_KEYS.every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
+
+/**
+ * Set a cue's text and spans. Neighbouring spans with the same formatting
+ * are merged and fully plain cues keep no spans at all.
+ */
+export function withSpans<T extends Omit<SubtitleCue, 'text' | 'spans'>>(
+  cue: T,
+  spans: SubtitleSpan[]
+): T & Pick<SubtitleCue, 'text' | 'spans'> {
+  const merged: SubtitleSpan[] = [];
+
+  for (const span of spans) {
+    const previous = merged[merged.length - 1];
+    // Override tags matter even without text, e.g. a trailing {\fad(200,0)}
+    if (span.text === '' && span.tags === undefined) {
+      continue;
+    }
+    // Karaoke syllables stay separate so each keeps its start time
+    if (previous && span.startTime === undefined && sameFormatting(previous, span)) {
+      previous.text += span.text;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  const text = merged.map(s => s.text).join('');
+  const plain = merged.every(isPlain);
+
+  return { ...cue, text, spans: plain ? undefined : merged };
+}
+
+/**
+ * Numpad alignment for formats that position by alignment (ASS, TTML).
+ * WebVTT line numbers only say top or bottom, and its align setting only
+ * sets the column.
+ */
+export function resolveAlignment(position?: SubtitlePosition): number | undefined {
+  if (!position || (position.alignment === undefined && position.line === undefined)) {
+    return undefined;
+  }
+
+  const alignment = position.alignment ?? 2;
+  const column = ((alignment - 1) % 3) + 1;
+  let row = Math.ceil(alignment / 3);
+
+  if (position.line !== undefined && row === 1) {
+    row = position.line >= 0 ? 3 : 1;
+  }
+
+  return (row - 1) * 3 + column;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: '\u00A0',
+  lrm: '\u200E',
+  rlm: '\u200F'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1)));
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export type TagDialect = 'srt' | 'vtt';
+
+interface TagFrame {
+  name: string;
+  formatting: SpanFormatting;
+}
+
+const TAG_PATTERN = /<(\/?)([a-z]+|\d[\d:.]*)((?:\.[^\s.>]+)*)(?:\s+([^>]*))?>/gi;
+
+function parseAttributes(value: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of value.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+}
+
+function frameFormatting(name: string, classes: string, annotation: string): SpanFormatting | null {
+  switch (name) {
+    case 'b': return { bold: true };
+    case 'i': return { italic: true };
+    case 'u': return { underline: true };
+    case 's': return { strikeout: true };
+    case 'c': return { classes: classes.split('.').filter(Boolean) };
+    case 'font': {
+      const attributes = parseAttributes(annotation);
+      const size = parseFloat(attributes.size);
+      return {
+        color: attributes.color,
+        fontName: attributes.face,
+        fontSize: isNaN(size) ? undefined : size
+      };
+    }
+    case 'v':
+    case 'lang':
+    case 'ruby':
+    case 'rt':
+      return {};
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse SRT or WebVTT cue text. WebVTT voice tags become the speaker.
+ */
+export function parseTagMarkup(
+  markup: string,
+  dialect: TagDialect
+): { spans: SubtitleSpan[]; speaker?: string } {
+  const spans: SubtitleSpan[] = [];
+  const stack: TagFrame[] = [];
+  let speaker: string | undefined;
+  let startTime: number | undefined;
+  let lastIndex = 0;
+
+  const current = (): SpanFormatting => {
+    const formatting: SpanFormatting = {};
+    for (const frame of stack) {
+      const { classes, ...rest } = frame.formatting;
+      Object.assign(formatting, rest);
+      if (classes) {
+        formatting.classes = [...(formatting.classes ?? []), ...classes];
+      }
+    }
+    return formatting;
+  };
+
+  const pushText = (text: string): void => {
+    if (text) {
+      spans.push({
+        ...current(),
+        text: dialect === 'vtt' ? decodeEntities(text) : text,
+        startTime
+      });
+      startTime = undefined;
+    }
+  };
+
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    const [tag, closing, rawName, classes, annotation] = match;
+    const name = rawName.toLowerCase();
+
+    // Karaoke timestamps only exist in WebVTT
+    const timestamp = /^\d/.test(name) ? parseClockTime(rawName) : null;
+    const formatting = timestamp === null ? frameFormatting(name, classes, annotation ?? '') : {};
+
+    if (formatting === null || (timestamp !== null && dialect !== 'vtt')) {
+      continue;
+    }
+
+    pushText(markup.slice(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + tag.length;
+
+    // The timestamp applies to the text that follows it
+    if (timestamp !== null) {
+      startTime = timestamp;
+      continue;
+    }
+
+    if (closing) {
+      const index = stack.map(f => f.name).lastIndexOf(name);
+      if (index !== -1) {
+        stack.splice(index);
+      }
+      continue;
+    }
+
+    if (name === 'v' && speaker === undefined) {
+      speaker = annotation?.trim();
+    }
+
+    stack.push({ name, formatting });
+  }
+
+  pushText(markup.slice(lastIndex));
+
+  return { spans, speaker };
+}
+
+interface OpenTag {
+  key: string;
+  open: string;
+  close: string;
+}
+
+function tagsFor(span: SubtitleSpan, dialect: TagDialect): OpenTag[] {
+  const tags: OpenTag[] = [];
+  const simple = (name: string): OpenTag => ({ key: name, open: `<${name}>`, close: `</${name}>` });
+
+  if (span.bold) {
+    tags.push(simple('b'));
+  }
+  if (span.italic) {
+    tags.push(simple('i'));
+  }
+  if (span.underline) {
+    tags.push(simple('u'));
+  }
+
+  if (dialect === 'srt') {
+    if (span.strikeout) {
+      tags.push(simple('s'));
+    }
+
+    const attributes = [
+      span.color ? `color="${span.color}"` : '',
+      span.fontName ? `face="${span.fontName}"` : '',
+      span.fontSize ? `size="${span.fontSize}"` : ''
+    ].filter(Boolean).join(' ');
+
+    if (attributes) {
+      tags.push({ key: `font ${attributes}`, open: `<font ${attributes}>`, close: '</font>' });
+    }
+  } else if (span.classes && span.classes.length > 0) {
+    const name = `c.${span.classes.join('.')}`;
+    tags.push({ key: name, open: `<${name}>`, close: '</c>' });
+  }
+
+  return tags;
+}
+
+/**
+ * Write spans as properly nested SRT or WebVTT tags
+ */
+export function serializeTagMarkup(spans: SubtitleSpan[], dialect: TagDialect, speaker?: string): string {
+  let output = speaker && dialect === 'vtt' ? `<v ${speaker}>` : '';
+  let stack: OpenTag[] = [];
+
+  for (const span of spans) {
+    const wanted = tagsFor(span, dialect);
+
+    let common = 0;
+    while (common < stack.length && common < wanted.length && stack[common].key === wanted[common].key) {
+      common++;
+    }
+
+    for (let i = stack.length - 1; i >= common; i--) {
+      output += stack[i].close;
+    }
+
+    if (dialect === 'vtt' && span.startTime !== undefined) {
+      output += `<${formatClockTime(span.startTime, { fractionSeparator: '.', fractionDigits: 3, hourDigits: 2 })}>`;
+    }
+
+    for (let i = common; i < wanted.length; i++) {
+      output += wanted[i].open;
+    }
+
+    stack = wanted;
+    output += dialect === 'vtt' ? escapeHtml(span.text) : span.text;
+  }
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    output += stack[i].close;
+  }
+
+  return output;
+}
@@ -0,0 +1,41 @@
+/**
+ * YouTube SubViewer (.sbv): "0:00:01.000,0:00:03.000" followed by plain
+ * text lines
+ */
+
+import { SubtitleCue, SubtitleDocument } from '../../../shared/types/subtitle';
+import { formatClockTime, parseClockTime } from './time';
+import { normalizeLineEndings } from './markup';
+
+const TIMING_PATTERN = /^\s*([\d:.]+)\s*,\s*([\d:.]+)\s*$/;
+
+export function parseSbv(content: string): SubtitleDocument {
+  const cues: SubtitleCue[] = [];
+
+  for (const block of normalizeLineEndings(content).split(/\n\s*\n/)) {
+    const [timingLine, ...textLines] = block.trim().split('\n');
+    const timing = timingLine?.match(TIMING_PATTERN);
+    const startTime = timing ? parseClockTime(timing[1]) : null;
+    const endTime = timing ? parseClockTime(timing[2]) : null;
+    if (startTime === null || endTime === null) {
+      continue;
+    }
+
+    cues.push({ startTime, endTime, text: textLines.join('\n') });
+  }
+
+  return { cues, styles: [], info: {} };
+}
+
+export function serializeSbv(document: SubtitleDocument): string {
+  const style = { fractionSeparator: '.' as const, fractionDigits: 3 as const, hourDigits: 1 as const };
+
+  return document.cues
+    .filter(cue => !cue.comment)
+    .map(cue => {
+      const timing = `${formatClockTime(cue.startTime, style)},${formatClockTime(cue.endTime, style)}`;
+      const text = cue.text.replace(/\n{2,}/g, '\n');
+      return `${timing}\n${text}\n`;
+    })
+    .join('\n');
+}
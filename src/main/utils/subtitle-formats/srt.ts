@@ -0,0 +1,74 @@
+/**
+ * SubRip (.srt). Supports the common <b>/<i>/<u>/<s>/<font> tags and the
+ * {\anN} alignment prefix many players understand. Speakers are written as
+ * a [Name] prefix but not read back, brackets also mark sounds like [Music].
+ */
+
+import { SubtitleCue, SubtitleDocument } from '../../../shared/types/subtitle';
+import { formatClockTime, parseClockTime } from './time';
+import {
+  getSpans,
+  normalizeLineEndings,
+  parseTagMarkup,
+  serializeTagMarkup,
+  withSpans
+} from './markup';
+
+const TIMING_PATTERN = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+const ALIGNMENT_PREFIX = /^\{\\an([1-9])\}/;
+
+export function parseSrt(content: string): SubtitleDocument {
+  const lines = normalizeLineEndings(content).split('\n');
+  const cues: SubtitleCue[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(TIMING_PATTERN);
+    const startTime = timing ? parseClockTime(timing[1]) : null;
+    const endTime = timing ? parseClockTime(timing[2]) : null;
+    if (startTime === null || endTime === null) {
+      continue;
+    }
+
+    const id = i > 0 && /^\d+$/.test(lines[i - 1].trim()) ? lines[i - 1].trim() : undefined;
+    const textLines: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
+      textLines.push(lines[++i]);
+    }
+
+    let markup = textLines.join('\n');
+    let alignment: number | undefined;
+    const prefix = markup.match(ALIGNMENT_PREFIX);
+    if (prefix) {
+      alignment = parseInt(prefix[1]);
+      markup = markup.slice(prefix[0].length);
+    }
+
+    const { spans } = parseTagMarkup(markup, 'srt');
+    cues.push(withSpans({
+      id,
+      startTime,
+      endTime,
+      position: alignment !== undefined ? { alignment } : undefined
+    }, spans));
+  }
+
+  return { cues, styles: [], info: {} };
+}
+
+export function serializeSrt(document: SubtitleDocument): string {
+  const style = { fractionSeparator: ',' as const, fractionDigits: 3 as const, hourDigits: 2 as const };
+
+  return document.cues
+    .filter(cue => !cue.comment)
+    .map((cue, index) => {
+      const alignment = cue.position?.alignment;
+      const prefix = alignment !== undefined && alignment !== 2 ? `{\\an${alignment}}` : '';
+      // SRT has no speaker field, the usual convention is a [Name] prefix
+      const speaker = cue.speaker ? `[${cue.speaker}] ` : '';
+      // A blank line would end the cue early
+      const text = serializeTagMarkup(getSpans(cue), 'srt').replace(/\n{2,}/g, '\n');
+
+      return `${index + 1}\n${formatClockTime(cue.startTime, style)} --> ${formatClockTime(cue.endTime, style)}\n${prefix}${speaker}${text}\n`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,45 @@
+/**
+ * Timestamp parsing and formatting shared by the subtitle formats
+ */
+
+export interface TimestampStyle {
+  fractionSeparator: '.' | ',';
+  fractionDigits: 2 | 3;
+  hourDigits: 1 | 2;
+  optionalHours?: boolean; // Leave out the hours below one hour (WebVTT allows it)
+}
+
+/**
+ * Parse "[h:]mm:ss[.,]fff" into milliseconds. Fractions of any length are
+ * accepted, so "0.5", "0.50" and "0.500" are all half a second.
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, fraction] = match;
+  const ms = fraction ? Math.round(parseInt(fraction) * Math.pow(10, 3 - fraction.length)) : 0;
+
+  return (parseInt(hours || '0') * 3600 + parseInt(minutes) * 60 + parseInt(seconds)) * 1000 + ms;
+}
+
+export function formatClockTime(ms: number, style: TimestampStyle): string {
+  const unit = style.fractionDigits === 3 ? 1 : 10;
+  const total = Math.max(0, Math.round(ms / unit)) * unit;
+
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const fraction = Math.floor((total % 1000) / unit);
+
+  const clock = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+    + `${style.fractionSeparator}${String(fraction).padStart(style.fractionDigits, '0')}`;
+
+  if (style.optionalHours && hours === 0) {
+    return clock;
+  }
+
+  return `${String(hours).padStart(style.hourDigits, '0')}:${clock}`;
+}
@@ -0,0 +1,511 @@
+/**
+ * Timed Text Markup Language (.ttml) and its predecessor DFXP (.dfxp).
+ * Styles, regions, agents (speakers) and inline span styling are mapped
+ * onto the model.
+ */
+
+import {
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitlePosition,
+  SubtitleSpan,
+  SubtitleStyle
+} from '../../../shared/types/subtitle';
+import { formatClockTime } from './time';
+import { getSpans, normalizeLineEndings, resolveAlignment, withSpans } from './markup';
+import {
+  XmlElement,
+  childElements,
+  escapeXml,
+  findElement,
+  getAttribute,
+  isElement,
+  localName,
+  parseXml,
+  serializeAttributes
+} from './xml';
+
+export type TtmlDialect = 'ttml' | 'dfxp';
+
+const NAMESPACES: Record<TtmlDialect, string> = {
+  ttml: 'http://www.w3.org/ns/ttml',
+  dfxp: 'http://www.w3.org/2006/10/ttaf1'
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#FFFFFF',
+  black: '#000000',
+  silver: '#C0C0C0',
+  gray: '#808080',
+  red: '#FF0000',
+  lime: '#00FF00',
+  green: '#008000',
+  blue: '#0000FF',
+  yellow: '#FFFF00',
+  cyan: '#00FFFF',
+  aqua: '#00FFFF',
+  magenta: '#FF00FF',
+  fuchsia: '#FF00FF'
+};
+
+const TEXT_ALIGN_TO_COLUMN: Record<string, number> = { left: 1, start: 1, center: 2, right: 3, end: 3 };
+const DISPLAY_ALIGN_TO_ROW: Record<string, number> = { after: 1, center: 2, before: 3 };
+const COLUMN_TO_TEXT_ALIGN = ['', 'left', 'center', 'right'];
+const ROW_TO_DISPLAY_ALIGN = ['', 'after', 'center', 'before'];
+
+interface TimeBase {
+  frameRate: number;
+  tickRate: number;
+}
+
+/**
+ * Clock times ("00:00:01.500", "00:00:01:12" with frames) and offset
+ * times ("1.5s", "1500ms", "36f", "10000000t") in milliseconds
+ */
+function parseTimeExpression(value: string | undefined, base: TimeBase): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const clock = value.trim().match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+)(?:\.(\d+))?)?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames, subFrames] = clock;
+    let ms = (parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds)) * 1000;
+    if (fraction) {
+      ms += parseFloat(`0.${fraction}`) * 1000;
+    }
+    if (frames) {
+      ms += (parseFloat(`${frames}.${subFrames ?? '0'}`) / base.frameRate) * 1000;
+    }
+    return Math.round(ms);
+  }
+
+  const offset = value.trim().match(/^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/);
+  if (!offset) {
+    return null;
+  }
+
+  const amount = parseFloat(offset[1]);
+  switch (offset[2]) {
+    case 'h': return Math.round(amount * 3600000);
+    case 'm': return Math.round(amount * 60000);
+    case 's': return Math.round(amount * 1000);
+    case 'ms': return Math.round(amount);
+    case 'f': return Math.round((amount / base.frameRate) * 1000);
+    default: return Math.round((amount / base.tickRate) * 1000);
+  }
+}
+
+function parseColor(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}([0-9a-f]{2})?$/.test(trimmed)) {
+    return trimmed.toUpperCase();
+  }
+
+  const rgb = trimmed.match(/^rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*(\d+))?\)$/);
+  if (rgb) {
+    const hex = rgb.slice(1).filter(Boolean).map(n => parseInt(n).toString(16).padStart(2, '0'));
+    return `#${hex.join('')}`.toUpperCase();
+  }
+
+  return NAMED_COLORS[trimmed];
+}
+
+// Pixel sizes only; cell and percentage sizes depend on the renderer
+function parseFontSize(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?(\s|$)/);
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+function parseSpanFormatting(element: XmlElement): Omit<SubtitleSpan, 'text'> {
+  const formatting: Omit<SubtitleSpan, 'text'> = {};
+  const weight = getAttribute(element, 'fontWeight');
+  const fontStyle = getAttribute(element, 'fontStyle');
+  const decoration = getAttribute(element, 'textDecoration');
+  const styleRefs = getAttribute(element, 'style');
+
+  if (weight) {
+    formatting.bold = weight === 'bold';
+  }
+  if (fontStyle) {
+    formatting.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+  }
+  if (decoration?.includes('underline')) {
+    formatting.underline = true;
+  }
+  if (decoration?.includes('lineThrough')) {
+    formatting.strikeout = true;
+  }
+
+  const color = parseColor(getAttribute(element, 'color'));
+  if (color) {
+    formatting.color = color.slice(0, 7);
+  }
+
+  const fontName = getAttribute(element, 'fontFamily');
+  if (fontName) {
+    formatting.fontName = fontName;
+  }
+
+  const fontSize = parseFontSize(getAttribute(element, 'fontSize'));
+  if (fontSize !== undefined) {
+    formatting.fontSize = fontSize;
+  }
+
+  // Style references on spans are the closest thing to WebVTT classes
+  if (styleRefs && localName(element.name) === 'span') {
+    formatting.classes = styleRefs.trim().split(/\s+/);
+  }
+
+  return formatting;
+}
+
+function parseStyle(element: XmlElement): SubtitleStyle {
+  const formatting = parseSpanFormatting(element);
+  const textAlign = getAttribute(element, 'textAlign');
+
+  return {
+    name: getAttribute(element, 'id') ?? 'Default',
+    fontName: formatting.fontName,
+    fontSize: formatting.fontSize,
+    primaryColor: parseColor(getAttribute(element, 'color')),
+    backColor: parseColor(getAttribute(element, 'backgroundColor')),
+    bold: formatting.bold,
+    italic: formatting.italic,
+    underline: formatting.underline,
+    strikeout: formatting.strikeout,
+    alignment: textAlign && TEXT_ALIGN_TO_COLUMN[textAlign] ? TEXT_ALIGN_TO_COLUMN[textAlign] : undefined
+  };
+}
+
+function parseRegion(element: XmlElement): SubtitlePosition {
+  const position: SubtitlePosition = {};
+  const origin = getAttribute(element, 'origin')?.match(/^([\d.]+)%\s+([\d.]+)%$/);
+  const extent = getAttribute(element, 'extent')?.match(/^([\d.]+)%\s+([\d.]+)%$/);
+  const textAlign = getAttribute(element, 'textAlign');
+  const displayAlign = getAttribute(element, 'displayAlign');
+
+  if (origin) {
+    position.x = parseFloat(origin[1]);
+    position.y = parseFloat(origin[2]);
+  }
+  if (extent) {
+    position.size = parseFloat(extent[1]);
+  }
+  if (textAlign || displayAlign) {
+    const column = TEXT_ALIGN_TO_COLUMN[textAlign ?? ''] ?? 2;
+    const row = DISPLAY_ALIGN_TO_ROW[displayAlign ?? ''] ?? 1;
+    position.alignment = (row - 1) * 3 + column;
+  }
+
+  return position;
+}
+
+/**
+ * Collect the text of a <p>, carrying formatting down nested <span>s. XML
+ * whitespace collapses to single spaces and <br/> becomes a line break.
+ */
+function collectSpans(
+  element: XmlElement,
+  inherited: Omit<SubtitleSpan, 'text'>,
+  cueStart: number,
+  base: TimeBase,
+  spans: SubtitleSpan[]
+): void {
+  let formatting = inherited;
+
+  for (const child of element.children) {
+    if (!isElement(child)) {
+      spans.push({ ...formatting, text: child.replace(/\s+/g, ' ') });
+      // Only the first piece of a timed span starts the karaoke syllable
+      formatting = { ...formatting, startTime: undefined };
+      continue;
+    }
+
+    const name = localName(child.name);
+    if (name === 'br') {
+      spans.push({ ...formatting, startTime: undefined, text: '\n' });
+    } else if (name === 'span') {
+      const offset = parseTimeExpression(getAttribute(child, 'begin'), base);
+      const nested = { ...formatting, ...parseSpanFormatting(child) };
+      if (offset !== null) {
+        nested.startTime = cueStart + offset;
+      }
+      collectSpans(child, nested, cueStart, base, spans);
+    }
+  }
+}
+
+function trimSpans(spans: SubtitleSpan[]): SubtitleSpan[] {
+  const text = spans.map(s => s.text).join('');
+  const trimmed = text.replace(/ *\n */g, '\n').trim();
+  if (trimmed === text) {
+    return spans;
+  }
+
+  // Walk both strings and keep the characters that survived trimming
+  let index = 0;
+  return spans.map(span => {
+    let kept = '';
+    for (const char of span.text) {
+      if (index < trimmed.length && char === trimmed[index]) {
+        kept += char;
+        index++;
+      }
+    }
+    return { ...span, text: kept };
+  });
+}
+
+export function parseTtml(content: string): SubtitleDocument {
+  const root = parseXml(normalizeLineEndings(content));
+  if (localName(root.name) !== 'tt') {
+    throw new Error('Not a TTML document');
+  }
+
+  const document: SubtitleDocument = { cues: [], styles: [], info: {} };
+  const base: TimeBase = {
+    frameRate: parseFloat(getAttribute(root, 'frameRate') ?? '') || 30,
+    tickRate: parseFloat(getAttribute(root, 'tickRate') ?? '') || 1
+  };
+
+  const language = getAttribute(root, 'lang');
+  if (language) {
+    document.info.language = language;
+  }
+
+  const head = findElement(root, 'head');
+  const agents = new Map<string, string>();
+  const regions = new Map<string, SubtitlePosition>();
+
+  if (head) {
+    const title = findElement(head, 'title');
+    if (title) {
+      document.info.title = title.children.filter(c => !isElement(c)).join('').trim();
+    }
+
+    for (const agent of head.children.filter(isElement).flatMap(c => [c, ...childElements(c)])) {
+      if (localName(agent.name) !== 'agent') {
+        continue;
+      }
+      const id = getAttribute(agent, 'id');
+      const name = findElement(agent, 'name');
+      if (id) {
+        agents.set(id, name ? name.children.filter(c => !isElement(c)).join('').trim() : id);
+      }
+    }
+
+    const styling = findElement(head, 'styling');
+    for (const style of styling ? childElements(styling, 'style') : []) {
+      document.styles.push(parseStyle(style));
+    }
+
+    const layout = findElement(head, 'layout');
+    for (const region of layout ? childElements(layout, 'region') : []) {
+      const id = getAttribute(region, 'id');
+      if (id) {
+        regions.set(id, parseRegion(region));
+      }
+    }
+  }
+
+  // <body> and <div> may shift the timing of everything inside them
+  const walk = (element: XmlElement, offset: number): void => {
+    for (const child of childElements(element)) {
+      const name = localName(child.name);
+      const begin = parseTimeExpression(getAttribute(child, 'begin'), base);
+
+      if (name === 'div') {
+        walk(child, offset + (begin ?? 0));
+        continue;
+      }
+      if (name !== 'p') {
+        continue;
+      }
+
+      const duration = parseTimeExpression(getAttribute(child, 'dur'), base);
+      const end = parseTimeExpression(getAttribute(child, 'end'), base);
+      if (begin === null || (end === null && duration === null)) {
+        continue;
+      }
+
+      const startTime = offset + begin;
+      const endTime = end !== null ? offset + end : startTime + (duration as number);
+      const spans: SubtitleSpan[] = [];
+      collectSpans(child, parseSpanFormatting(child), startTime, base, spans);
+
+      const regionId = getAttribute(child, 'region');
+      const region = regionId ? regions.get(regionId) : undefined;
+      const agent = getAttribute(child, 'agent');
+      const style = getAttribute(child, 'style')?.trim().split(/\s+/)[0];
+
+      document.cues.push(withSpans({
+        id: getAttribute(child, 'id'),
+        startTime,
+        endTime,
+        speaker: agent ? agents.get(agent) ?? agent : undefined,
+        style,
+        position: region && Object.keys(region).length > 0 ? { ...region } : undefined
+      }, trimSpans(spans)));
+    }
+  };
+
+  const body = findElement(root, 'body');
+  if (body) {
+    walk(body, parseTimeExpression(getAttribute(body, 'begin'), base) ?? 0);
+  }
+
+  return document;
+}
+
+function formatTime(ms: number): string {
+  return formatClockTime(ms, { fractionSeparator: '.', fractionDigits: 3, hourDigits: 2 });
+}
+
+function spanAttributes(span: SubtitleSpan, cue: SubtitleCue): Record<string, string | undefined> {
+  const decorations = [span.underline ? 'underline' : '', span.strikeout ? 'lineThrough' : ''].filter(Boolean);
+
+  return {
+    begin: span.startTime !== undefined ? formatTime(Math.max(0, span.startTime - cue.startTime)) : undefined,
+    style: span.classes?.join(' '),
+    'tts:fontWeight': span.bold ? 'bold' : undefined,
+    'tts:fontStyle': span.italic ? 'italic' : undefined,
+    'tts:textDecoration': decorations.length > 0 ? decorations.join(' ') : undefined,
+    'tts:color': span.color,
+    'tts:fontFamily': span.fontName,
+    'tts:fontSize': span.fontSize !== undefined ? `${span.fontSize}px` : undefined
+  };
+}
+
+function serializeText(text: string): string {
+  return text.split('\n').map(escapeXml).join('<br/>');
+}
+
+function serializeCueContent(cue: SubtitleCue): string {
+  return getSpans(cue)
+    .map(span => {
+      const attributes = serializeAttributes(spanAttributes(span, cue));
+      return attributes ? `<span${attributes}>${serializeText(span.text)}</span>` : serializeText(span.text);
+    })
+    .join('');
+}
+
+function regionAttributes(position: SubtitlePosition): Record<string, string | undefined> {
+  const alignment = resolveAlignment(position) ?? 2;
+  const column = ((alignment - 1) % 3) + 1;
+  const row = Math.ceil(alignment / 3);
+  const hasOrigin = position.x !== undefined || position.y !== undefined;
+
+  return {
+    'tts:origin': hasOrigin ? `${position.x ?? 0}% ${position.y ?? 0}%` : undefined,
+    'tts:extent': position.size !== undefined
+      ? `${position.size}% ${hasOrigin ? 100 - (position.y ?? 0) : 100}%`
+      : undefined,
+    'tts:textAlign': COLUMN_TO_TEXT_ALIGN[column],
+    'tts:displayAlign': ROW_TO_DISPLAY_ALIGN[row]
+  };
+}
+
+function styleAttributes(style: SubtitleStyle): Record<string, string | undefined> {
+  const decorations = [style.underline ? 'underline' : '', style.strikeout ? 'lineThrough' : ''].filter(Boolean);
+  const column = style.alignment !== undefined ? ((style.alignment - 1) % 3) + 1 : undefined;
+
+  return {
+    'xml:id': style.name,
+    'tts:fontFamily': style.fontName,
+    'tts:fontSize': style.fontSize !== undefined ? `${style.fontSize}px` : undefined,
+    'tts:color': style.primaryColor,
+    'tts:backgroundColor': style.backColor,
+    'tts:fontWeight': style.bold !== undefined ? (style.bold ? 'bold' : 'normal') : undefined,
+    'tts:fontStyle': style.italic !== undefined ? (style.italic ? 'italic' : 'normal') : undefined,
+    'tts:textDecoration': decorations.length > 0 ? decorations.join(' ') : undefined,
+    'tts:textAlign': column !== undefined ? COLUMN_TO_TEXT_ALIGN[column] : undefined
+  };
+}
+
+export function serializeTtml(document: SubtitleDocument, dialect: TtmlDialect = 'ttml'): string {
+  const namespace = NAMESPACES[dialect];
+  const cues = document.cues.filter(cue => !cue.comment);
+
+  const agents = new Map<string, string>();
+  for (const cue of cues) {
+    if (cue.speaker && !agents.has(cue.speaker)) {
+      agents.set(cue.speaker, `speaker${agents.size + 1}`);
+    }
+  }
+
+  // One region per distinct position
+  const regions = new Map<string, { id: string; attributes: string }>();
+  const regionFor = (position?: SubtitlePosition): string | undefined => {
+    if (!position) {
+      return undefined;
+    }
+    const attributes = serializeAttributes(regionAttributes(position));
+    if (!regions.has(attributes)) {
+      regions.set(attributes, { id: `region${regions.size + 1}`, attributes });
+    }
+    return regions.get(attributes)?.id;
+  };
+
+  const paragraphs = cues.map(cue => {
+    const attributes = serializeAttributes({
+      'xml:id': cue.id && /^[A-Za-z_][\w.-]*$/.test(cue.id) ? cue.id : undefined,
+      begin: formatTime(cue.startTime),
+      end: formatTime(cue.endTime),
+      style: cue.style,
+      region: regionFor(cue.position),
+      'ttm:agent': cue.speaker ? agents.get(cue.speaker) : undefined
+    });
+    return `      <p${attributes}>${serializeCueContent(cue)}</p>`;
+  });
+
+  const head: string[] = [];
+  if (document.info.title || agents.size > 0) {
+    head.push('    <metadata>');
+    if (document.info.title) {
+      head.push(`      <ttm:title>${escapeXml(document.info.title)}</ttm:title>`);
+    }
+    for (const [name, id] of agents) {
+      head.push(`      <ttm:agent xml:id="${id}" type="person"><ttm:name type="full">${escapeXml(name)}</ttm:name></ttm:agent>`);
+    }
+    head.push('    </metadata>');
+  }
+  if (document.styles.length > 0) {
+    head.push('    <styling>');
+    for (const style of document.styles) {
+      head.push(`      <style${serializeAttributes(styleAttributes(style))}/>`);
+    }
+    head.push('    </styling>');
+  }
+  if (regions.size > 0) {
+    head.push('    <layout>');
+    for (const region of regions.values()) {
+      head.push(`      <region xml:id="${region.id}"${region.attributes}/>`);
+    }
+    head.push('    </layout>');
+  }
+
+  const rootAttributes = serializeAttributes({
+    xmlns: namespace,
+    'xmlns:tts': `${namespace}#styling`,
+    'xmlns:ttm': `${namespace}#metadata`,
+    'xml:lang': document.info.language
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt${rootAttributes}>`,
+    ...(head.length > 0 ? ['  <head>', ...head, '  </head>'] : []),
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,215 @@
+/**
+ * WebVTT (.vtt) with cue settings, voice tags, karaoke timestamps and
+ * NOTE, STYLE and REGION blocks
+ */
+
+import {
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitlePosition
+} from '../../../shared/types/subtitle';
+import { formatClockTime, parseClockTime } from './time';
+import {
+  getSpans,
+  normalizeLineEndings,
+  parseTagMarkup,
+  serializeTagMarkup,
+  withSpans
+} from './markup';
+
+const TIMING_PATTERN = /^\s*([\d:.]+)\s+-->\s+([\d:.]+)(.*)$/;
+
+const ALIGN_TO_COLUMN: Record<string, number> = {
+  start: 1,
+  left: 1,
+  center: 2,
+  middle: 2,
+  end: 3,
+  right: 3
+};
+
+const COLUMN_TO_ALIGN = ['', 'start', 'center', 'end'];
+
+function parseSettings(settings: string): SubtitlePosition | undefined {
+  const position: SubtitlePosition = {};
+
+  for (const setting of settings.trim().split(/\s+/)) {
+    const [key, value] = setting.split(':');
+    if (!value) {
+      continue;
+    }
+    const [main, sub] = value.split(',');
+
+    switch (key) {
+      case 'vertical':
+        if (main === 'rl' || main === 'lr') {
+          position.vertical = main;
+        }
+        break;
+      case 'line':
+        if (main.endsWith('%')) {
+          position.y = parseFloat(main);
+        } else if (!isNaN(parseInt(main))) {
+          position.line = parseInt(main);
+        }
+        if (sub === 'start' || sub === 'center' || sub === 'end') {
+          position.lineAlign = sub;
+        }
+        break;
+      case 'position':
+        if (main.endsWith('%')) {
+          position.x = parseFloat(main);
+        }
+        if (sub === 'line-left' || sub === 'center' || sub === 'line-right' || sub === 'auto') {
+          position.positionAlign = sub;
+        }
+        break;
+      case 'size':
+        if (main.endsWith('%')) {
+          position.size = parseFloat(main);
+        }
+        break;
+      case 'align':
+        if (ALIGN_TO_COLUMN[main]) {
+          position.alignment = ALIGN_TO_COLUMN[main];
+        }
+        break;
+      case 'region':
+        position.region = main;
+        break;
+    }
+  }
+
+  return Object.keys(position).length > 0 ? position : undefined;
+}
+
+function serializeSettings(position?: SubtitlePosition): string {
+  if (!position) {
+    return '';
+  }
+
+  const settings: string[] = [];
+  const row = position.alignment !== undefined ? Math.ceil(position.alignment / 3) : 1;
+  const column = position.alignment !== undefined ? ((position.alignment - 1) % 3) + 1 : undefined;
+
+  if (position.region) {
+    settings.push(`region:${position.region}`);
+  }
+  if (position.vertical) {
+    settings.push(`vertical:${position.vertical}`);
+  }
+
+  const lineAlign = position.lineAlign ? `,${position.lineAlign}` : '';
+  if (position.y !== undefined) {
+    settings.push(`line:${position.y}%${lineAlign}`);
+  } else if (position.line !== undefined) {
+    settings.push(`line:${position.line}${lineAlign}`);
+  } else if (row === 3) {
+    // Top and middle rows from ASS style alignments
+    settings.push('line:0');
+  } else if (row === 2) {
+    settings.push('line:50%,center');
+  }
+
+  if (position.x !== undefined) {
+    settings.push(`position:${position.x}%${position.positionAlign ? `,${position.positionAlign}` : ''}`);
+  }
+  if (position.size !== undefined) {
+    settings.push(`size:${position.size}%`);
+  }
+  if (column !== undefined) {
+    settings.push(`align:${COLUMN_TO_ALIGN[column]}`);
+  }
+
+  return settings.length > 0 ? ` ${settings.join(' ')}` : '';
+}
+
+export function parseVtt(content: string): SubtitleDocument {
+  const blocks = normalizeLineEndings(content).trimEnd().split(/\n\s*\n/);
+  const document: SubtitleDocument = { cues: [], styles: [], info: {} };
+
+  const header = blocks.shift()?.split('\n') ?? [];
+  if (!header[0]?.startsWith('WEBVTT')) {
+    throw new Error('Not a WebVTT file');
+  }
+
+  const title = header[0].slice('WEBVTT'.length).replace(/^\s*-?\s*/, '');
+  if (title) {
+    document.info.title = title;
+  }
+  for (const line of header.slice(1)) {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      document.info[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const first = lines[0];
+
+    if (/^NOTE($|\s)/.test(first)) {
+      (document.notes ??= []).push(block.replace(/^NOTE[ \n]?/, ''));
+      continue;
+    }
+    if (first === 'STYLE') {
+      (document.css ??= []).push(lines.slice(1).join('\n'));
+      continue;
+    }
+    if (first === 'REGION') {
+      (document.regions ??= []).push(lines.slice(1).join('\n'));
+      continue;
+    }
+
+    const timingIndex = first.includes('-->') ? 0 : 1;
+    const timing = lines[timingIndex]?.match(TIMING_PATTERN);
+    const startTime = timing ? parseClockTime(timing[1]) : null;
+    const endTime = timing ? parseClockTime(timing[2]) : null;
+    if (!timing || startTime === null || endTime === null) {
+      continue;
+    }
+
+    const { spans, speaker } = parseTagMarkup(lines.slice(timingIndex + 1).join('\n'), 'vtt');
+    document.cues.push(withSpans({
+      id: timingIndex === 1 ? first : undefined,
+      startTime,
+      endTime,
+      speaker,
+      position: parseSettings(timing[3])
+    }, spans));
+  }
+
+  return document;
+}
+
+export function serializeVtt(document: SubtitleDocument): string {
+  const style = { fractionSeparator: '.' as const, fractionDigits: 3 as const, hourDigits: 2 as const };
+  const { title, ...info } = document.info;
+
+  const header = [title ? `WEBVTT - ${title}` : 'WEBVTT'];
+  for (const [key, value] of Object.entries(info)) {
+    header.push(`${key}: ${value}`);
+  }
+
+  const blocks = [header.join('\n')];
+
+  for (const region of document.regions ?? []) {
+    blocks.push(`REGION\n${region}`);
+  }
+  for (const css of document.css ?? []) {
+    blocks.push(`STYLE\n${css}`);
+  }
+  for (const note of document.notes ?? []) {
+    blocks.push(note.includes('\n') ? `NOTE\n${note}` : `NOTE ${note}`);
+  }
+
+  for (const cue of document.cues.filter((c: SubtitleCue) => !c.comment)) {
+    const timing = `${formatClockTime(cue.startTime, style)} --> ${formatClockTime(cue.endTime, style)}`;
+    const text = serializeTagMarkup(getSpans(cue), 'vtt', cue.speaker).replace(/\n{2,}/g, '\n');
+    const id = cue.id && !cue.id.includes('-->') ? `${cue.id}\n` : '';
+
+    blocks.push(`${id}${timing}${serializeSettings(cue.position)}\n${text}`);
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Minimal XML reader and writer for TTML. Handles elements, attributes,
+ * text, entities, comments, CDATA and processing instructions, which is
+ * all subtitle files use.
+ */
+
+import { decodeEntities } from './markup';
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export function isElement(node: XmlNode): node is XmlElement {
+  return typeof node !== 'string';
+}
+
+// Element name without its namespace prefix, e.g. "tt:p" -> "p"
+export function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => isElement(child) && (name === undefined || localName(child.name) === name)
+  );
+}
+
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) {
+      return child;
+    }
+    const found = findElement(child, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+// Attribute lookup ignoring the namespace prefix, e.g. "tts:color" as "color"
+export function getAttribute(element: XmlElement, name: string): string | undefined {
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (key === name || localName(key) === name) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let lastIndex = 0;
+
+  const appendText = (text: string): void => {
+    if (text) {
+      stack[stack.length - 1].children.push(text);
+    }
+  };
+
+  for (const match of content.matchAll(pattern)) {
+    appendText(decodeEntities(content.slice(lastIndex, match.index)));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    const [, cdata, closing, name, attributeText, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      appendText(cdata);
+      continue;
+    }
+    if (name === undefined) {
+      continue;
+    }
+
+    if (closing) {
+      const index = stack.map(e => e.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.splice(index);
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+    }
+
+    const element: XmlElement = { name, attributes, children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  appendText(decodeEntities(content.slice(lastIndex)));
+
+  const documentElement = childElements(root)[0];
+  if (!documentElement) {
+    throw new Error('Invalid XML document');
+  }
+  return documentElement;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function serializeAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value as string)}"`)
+    .join('');
+}
@@ -0,0 +1,219 @@
+/**
+ * Subtitle quality checks over Subtitle.timestamps: timing, line layout,
+ * reading speed and the lines Whisper tends to make up. Presets follow
+ * common style guides, and the fix pass repairs what it can without
+ * moving any cue's start.
+ */
+
+import {
+  SubtitleLintIssue,
+  SubtitleLintOptions,
+  SubtitleLintPreset,
+  SubtitleLintRule,
+  SubtitleLintRules,
+  SubtitleTimestamp
+} from '../../shared/types/subtitle';
+import { resegment } from './transcription';
+
+// Lines Whisper is known to produce from silence, music or credits it was trained on
+export const WHISPER_HALLUCINATIONS = [
+  'Thank you for watching',
+  'Thanks for watching',
+  'Please subscribe',
+  'Please like and subscribe',
+  'Subtitles by the Amara.org community',
+  '字幕由Amara.org社区提供',
+  '请不吝点赞 订阅 转发 打赏支持明镜与点点栏目',
+  '谢谢观看',
+  'ご視聴ありがとうございました'
+];
+
+export const LINT_PRESETS: Record<SubtitleLintPreset, SubtitleLintRules> = {
+  // Netflix timed text style guide for adult programs: 5/6 s minimum, 2 frames apart at 24 fps
+  netflix: {
+    minDuration: 833,
+    maxDuration: 7000,
+    minGap: 83,
+    maxLines: 2,
+    maxLineLength: 42,
+    maxReadingSpeed: 20,
+    maxRepeats: 1,
+    hallucinations: WHISPER_HALLUCINATIONS
+  },
+  // Broadcast (EBU/BBC) practice: teletext line length, slower reading, 3 frames apart at 25 fps
+  broadcast: {
+    minDuration: 1000,
+    maxDuration: 6000,
+    minGap: 120,
+    maxLines: 2,
+    maxLineLength: 37,
+    maxReadingSpeed: 17,
+    maxRepeats: 1,
+    hallucinations: WHISPER_HALLUCINATIONS
+  },
+  custom: {}
+};
+
+export function resolveLintRules(options: SubtitleLintOptions = {}): SubtitleLintRules {
+  return { ...LINT_PRESETS[options.preset ?? 'netflix'], ...options.rules };
+}
+
+// Compare lines without case, spacing or punctuation
+const normalize = (text: string): string => text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const isHallucination = (text: string, rules: SubtitleLintRules): boolean =>
+  (rules.hallucinations ?? []).some(line => normalize(line) === normalize(text));
+
+// Characters per second, line breaks not counted
+export function readingSpeed(cue: SubtitleTimestamp): number {
+  const duration = cue.endTime - cue.startTime;
+  const characters = cue.text.replace(/\n/g, '').length;
+  return duration > 0 ? characters / (duration / 1000) : Infinity;
+}
+
+// The end a cue needs to be on screen long enough and slow enough to read
+function wantedEnd(cue: SubtitleTimestamp, rules: SubtitleLintRules): number {
+  const characters = cue.text.replace(/\n/g, '').length;
+  return cue.startTime + Math.max(
+    rules.minDuration ?? 0,
+    rules.maxReadingSpeed !== undefined && rules.maxReadingSpeed > 0 ? Math.ceil(characters / rules.maxReadingSpeed * 1000) : 0
+  );
+}
+
+// The latest a cue can end: the next cue's start less the gap, and the longest duration
+function latestEnd(cue: SubtitleTimestamp, next: SubtitleTimestamp | undefined, rules: SubtitleLintRules): number {
+  return Math.min(
+    next ? next.startTime - (rules.minGap ?? 0) : Infinity,
+    rules.maxDuration !== undefined ? cue.startTime + rules.maxDuration : Infinity
+  );
+}
+
+function violatesLayout(cue: SubtitleTimestamp, rules: SubtitleLintRules): boolean {
+  const lines = cue.text.split('\n');
+  const { maxLines, maxLineLength } = rules;
+  return (maxLines !== undefined && lines.length > maxLines)
+    || (maxLineLength !== undefined && lines.some(line => line.length > maxLineLength));
+}
+
+export function lintTimestamps(timestamps: SubtitleTimestamp[], rules: SubtitleLintRules): SubtitleLintIssue[] {
+  const issues: SubtitleLintIssue[] = [];
+  let repeats = 0;
+
+  const add = (cueIndex: number, rule: SubtitleLintRule, severity: 'error' | 'warning', message: string, fixable = true): void => {
+    issues.push({ cueIndex, rule, severity, message, fixable });
+  };
+
+  timestamps.forEach((cue, index) => {
+    const previous = index > 0 ? timestamps[index - 1] : undefined;
+    const next = timestamps[index + 1];
+    const text = cue.text.trim();
+    const duration = cue.endTime - cue.startTime;
+
+    if (text === '') {
+      add(index, 'empty', 'error', 'Cue has no text');
+      return;
+    }
+
+    if (isHallucination(text, rules)) {
+      add(index, 'hallucination', 'warning', `"${text}" is a line Whisper often makes up`);
+    }
+
+    repeats = previous && normalize(previous.text) === normalize(text) ? repeats + 1 : 0;
+    if (rules.maxRepeats !== undefined && repeats >= rules.maxRepeats) {
+      add(index, 'repeated_line', 'warning', `Same text as the ${repeats} cue(s) before`);
+    }
+
+    if (previous && cue.startTime < previous.endTime) {
+      add(index, 'overlap', 'error', `Starts ${previous.endTime - cue.startTime} ms before the previous cue ends`);
+    } else if (previous && rules.minGap !== undefined && cue.startTime - previous.endTime < rules.minGap) {
+      add(index, 'min_gap', 'warning', `${cue.startTime - previous.endTime} ms after the previous cue, under ${rules.minGap} ms`);
+    }
+
+    const room = latestEnd(cue, next, rules);
+    if (rules.minDuration !== undefined && duration < rules.minDuration) {
+      add(index, 'min_duration', 'warning', `Shown for ${duration} ms, under ${rules.minDuration} ms`,
+        room >= cue.startTime + rules.minDuration);
+    }
+
+    if (rules.maxDuration !== undefined && duration > rules.maxDuration) {
+      add(index, 'max_duration', 'warning', `Shown for ${duration} ms, over ${rules.maxDuration} ms`,
+        wantedEnd(cue, rules) <= cue.startTime + rules.maxDuration);
+    }
+
+    const lines = text.split('\n');
+    if (rules.maxLines !== undefined && lines.length > rules.maxLines) {
+      add(index, 'max_lines', 'error', `${lines.length} lines, over ${rules.maxLines}`);
+    }
+
+    const longest = Math.max(...lines.map(line => line.length));
+    if (rules.maxLineLength !== undefined && longest > rules.maxLineLength) {
+      add(index, 'max_line_length', 'error', `Line of ${longest} characters, over ${rules.maxLineLength}`);
+    }
+
+    const speed = readingSpeed(cue);
+    if (rules.maxReadingSpeed !== undefined && speed > rules.maxReadingSpeed) {
+      add(index, 'reading_speed', 'warning', `${speed.toFixed(1)} characters per second, over ${rules.maxReadingSpeed}`,
+        room >= wantedEnd(cue, rules));
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Fix what the rules flag: drop empty, made-up and repeated cues, rewrap
+ * or split cues that don't fit the line limits, and move cue ends to clear
+ * overlaps and give short or fast cues more time where the next cue allows.
+ */
+export function fixTimestamps(timestamps: SubtitleTimestamp[], rules: SubtitleLintRules): SubtitleTimestamp[] {
+  const sorted = [...timestamps].sort((a, b) => a.startTime - b.startTime);
+  const kept: SubtitleTimestamp[] = [];
+  let repeats = 0;
+
+  for (const cue of sorted) {
+    if (cue.text.trim() === '' || isHallucination(cue.text, rules)) {
+      continue;
+    }
+
+    const previous: SubtitleTimestamp | undefined = kept[kept.length - 1];
+    repeats = previous !== undefined && normalize(previous.text) === normalize(cue.text) ? repeats + 1 : 0;
+    if (rules.maxRepeats !== undefined && repeats >= rules.maxRepeats) {
+      continue;
+    }
+    kept.push(cue);
+  }
+
+  const cues: SubtitleTimestamp[] = kept.flatMap(cue => {
+    if (!violatesLayout(cue, rules)) {
+      return [{ ...cue }];
+    }
+
+    return resegment([cue], {
+      maxLineLength: rules.maxLineLength ?? Infinity,
+      maxLines: rules.maxLines ?? Infinity,
+      maxCueDuration: rules.maxDuration ?? Infinity
+    }).map(({ startTime, endTime, text, words }) => ({ startTime, endTime, text, words }));
+  });
+
+  // Only ends move, so each cue can look at the next one's start
+  cues.forEach((cue, index) => {
+    const next: SubtitleTimestamp | undefined = cues[index + 1];
+    const nextStart = next !== undefined ? next.startTime - (rules.minGap ?? 0) : Infinity;
+
+    if (cue.endTime > nextStart && nextStart > cue.startTime) {
+      cue.endTime = nextStart;
+    }
+
+    const wanted = wantedEnd(cue, rules);
+    if (cue.endTime < wanted) {
+      cue.endTime = Math.max(cue.endTime, Math.min(wanted, latestEnd(cue, next, rules)));
+    }
+
+    // Long cues end once they've been up long enough to read
+    if (rules.maxDuration !== undefined && cue.endTime - cue.startTime > rules.maxDuration) {
+      cue.endTime = Math.max(cue.startTime + rules.maxDuration, Math.min(wanted, cue.endTime));
+    }
+  });
+
+  return cues;
+}
@@ -0,0 +1,242 @@
+/**
+ * Merges two subtitle tracks into one styled ASS document. Cues are paired
+ * by time overlap; cues that only partly overlap are split so every piece
+ * shows the text of both languages that is on screen at that time.
+ */
+
+import {
+  BilingualSubtitleConfig,
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitleSpan,
+  SubtitleStyle,
+  SubtitleStyling
+} from '../../shared/types/subtitle';
+import { getSpans, withSpans } from './subtitle-formats/markup';
+import { parseAssColor } from './subtitle-formats/ass';
+
+export type SubtitleLayout = Pick<BilingualSubtitleConfig, 'layout' | 'primaryPosition' | 'secondaryPosition' | 'styling'>;
+
+export interface AlignedCue {
+  startTime: number;
+  endTime: number;
+  primary: SubtitleCue[];
+  secondary: SubtitleCue[];
+}
+
+// Secondary cue boundaries this close to a primary boundary are moved onto it
+export const DEFAULT_SNAP_TOLERANCE = 300;
+
+// SubtitleStyling font sizes are on the 288-line scale ffmpeg uses for SRT
+const PLAY_RES_X = 384;
+const PLAY_RES_Y = 288;
+const MARGIN = 10;
+
+export const PRIMARY_STYLE = 'Primary';
+export const SECONDARY_STYLE = 'Secondary';
+
+interface TimedCue {
+  cue: SubtitleCue;
+  primary: boolean;
+  startTime: number;
+  endTime: number;
+}
+
+function findNearest(sorted: number[], time: number): number | undefined {
+  let low = 0;
+  let high = sorted.length - 1;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (sorted[middle] < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const candidates = [sorted[low - 1], sorted[low]].filter(t => t !== undefined);
+  return candidates.sort((a, b) => Math.abs(a - time) - Math.abs(b - time))[0];
+}
+
+/**
+ * Pair the cues of two tracks. The primary track keeps its timing; secondary
+ * boundaries within `snapTolerance` of a primary one are moved onto it, so
+ * small timing differences don't leave slivers with only one language.
+ */
+export function alignCues(
+  primary: SubtitleCue[],
+  secondary: SubtitleCue[],
+  snapTolerance: number = DEFAULT_SNAP_TOLERANCE
+): AlignedCue[] {
+  const primaryTimes = [...new Set(primary.flatMap(c => [c.startTime, c.endTime]))].sort((a, b) => a - b);
+  const snap = (time: number): number => {
+    const nearest = findNearest(primaryTimes, time);
+    return nearest !== undefined && Math.abs(nearest - time) <= snapTolerance ? nearest : time;
+  };
+
+  const timed: TimedCue[] = [
+    ...primary.map(cue => ({ cue, primary: true, startTime: cue.startTime, endTime: cue.endTime })),
+    ...secondary.map(cue => {
+      const startTime = snap(cue.startTime);
+      const endTime = snap(cue.endTime);
+      // Snapping must not swallow a short cue
+      return endTime > startTime
+        ? { cue, primary: false, startTime, endTime }
+        : { cue, primary: false, startTime: cue.startTime, endTime: cue.endTime };
+    })
+  ]
+    .filter(item => !item.cue.comment && item.endTime > item.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const boundaries = [...new Set(timed.flatMap(item => [item.startTime, item.endTime]))].sort((a, b) => a - b);
+  const aligned: AlignedCue[] = [];
+  let active: TimedCue[] = [];
+  let next = 0;
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const startTime = boundaries[i];
+    const endTime = boundaries[i + 1];
+
+    while (next < timed.length && timed[next].startTime <= startTime) {
+      active.push(timed[next++]);
+    }
+    active = active.filter(item => item.endTime > startTime);
+    if (active.length === 0) {
+      continue;
+    }
+
+    const primaryCues = active.filter(item => item.primary).map(item => item.cue);
+    const secondaryCues = active.filter(item => !item.primary).map(item => item.cue);
+    const previous = aligned[aligned.length - 1];
+    const same = (a: SubtitleCue[], b: SubtitleCue[]): boolean => a.length === b.length && a.every((cue, index) => cue === b[index]);
+
+    // Neighbouring pieces showing the same cues are one merged cue
+    if (previous && previous.endTime === startTime && same(previous.primary, primaryCues) && same(previous.secondary, secondaryCues)) {
+      previous.endTime = endTime;
+    } else {
+      aligned.push({ startTime, endTime, primary: primaryCues, secondary: secondaryCues });
+    }
+  }
+
+  return aligned;
+}
+
+function toColor(value: string | undefined, fallback: string): string {
+  if (!value) {
+    return fallback;
+  }
+  // Older settings stored ASS colors such as &HFFFFFF&
+  return /^&H/i.test(value) ? parseAssColor(value) ?? fallback : value.toUpperCase();
+}
+
+function buildStyle(
+  name: string,
+  fontSize: number,
+  color: string,
+  alignment: number,
+  margins: { left: number; right: number },
+  styling: SubtitleStyling
+): SubtitleStyle {
+  const opacity = Math.min(1, Math.max(0, styling.backgroundOpacity ?? 0));
+  const hasBox = opacity > 0;
+  const box = `${toColor(styling.backgroundColor, '#000000').slice(0, 7)}${Math.round(opacity * 255).toString(16).padStart(2, '0').toUpperCase()}`;
+
+  return {
+    name,
+    fontName: styling.fontFamily ?? 'Arial',
+    fontSize,
+    primaryColor: color,
+    // BorderStyle 3 draws the box in the outline color
+    outlineColor: hasBox ? box : '#000000',
+    backColor: hasBox ? box : '#00000080',
+    borderStyle: hasBox ? 3 : 1,
+    outline: hasBox ? 2 : styling.outline === false ? 0 : 1,
+    shadow: hasBox || styling.shadow === false ? 0 : 1,
+    alignment,
+    marginL: margins.left,
+    marginR: margins.right,
+    marginV: MARGIN
+  };
+}
+
+// Inline formatting survives; ASS-only tags and karaoke timing don't fit a merged line
+function cueSpans(cues: SubtitleCue[]): SubtitleSpan[] {
+  return cues.flatMap((cue, index) => [
+    ...(index > 0 ? [{ text: '\n' }] : []),
+    ...getSpans(cue).map(span => ({ ...span, tags: undefined, startTime: undefined }))
+  ]);
+}
+
+/**
+ * Build the merged ASS document. Without a secondary track this just
+ * applies the primary style to a single track.
+ */
+export function mergeSubtitleTracks(
+  primary: SubtitleDocument,
+  secondary: SubtitleDocument | undefined,
+  options: SubtitleLayout,
+  snapTolerance: number = DEFAULT_SNAP_TOLERANCE
+): SubtitleDocument {
+  const styling = options.styling ?? {};
+  const primaryColor = toColor(styling.primaryColor, '#FFFFFF');
+  const secondaryColor = toColor(styling.secondaryColor, '#FFFF00');
+  const primarySize = styling.primaryFontSize ?? 24;
+  const secondarySize = styling.secondaryFontSize ?? 20;
+  const sideBySide = options.layout === 'side_by_side';
+
+  const alignmentFor = (position?: 'top' | 'bottom'): number => (sideBySide && position === 'top' ? 8 : 2);
+  const half = PLAY_RES_X / 2 + MARGIN / 2;
+
+  const styles = [
+    buildStyle(
+      PRIMARY_STYLE, primarySize, primaryColor, alignmentFor(options.primaryPosition),
+      sideBySide ? { left: MARGIN, right: half } : { left: MARGIN, right: MARGIN },
+      styling
+    ),
+    buildStyle(
+      SECONDARY_STYLE, secondarySize, secondaryColor, alignmentFor(options.secondaryPosition),
+      sideBySide ? { left: half, right: MARGIN } : { left: MARGIN, right: MARGIN },
+      styling
+    )
+  ];
+
+  // Stacked lines share one event so the order can't change; the secondary
+  // line goes on top unless the positions say otherwise
+  const primaryFirst = options.primaryPosition === 'top' || options.secondaryPosition === 'bottom';
+
+  const cues: SubtitleCue[] = [];
+  for (const piece of alignCues(primary.cues, secondary?.cues ?? [], snapTolerance)) {
+    const timing = { startTime: piece.startTime, endTime: piece.endTime };
+    const lines = [
+      { style: PRIMARY_STYLE, spans: piece.primary.length > 0 ? cueSpans(piece.primary) : undefined },
+      { style: SECONDARY_STYLE, spans: piece.secondary.length > 0 ? cueSpans(piece.secondary) : undefined }
+    ].filter((line): line is { style: string; spans: SubtitleSpan[] } => line.spans !== undefined);
+
+    if (sideBySide || lines.length === 1) {
+      for (const line of lines) {
+        cues.push(withSpans({ ...timing, style: line.style }, line.spans));
+      }
+      continue;
+    }
+
+    const [first, second] = primaryFirst ? lines : [lines[1], lines[0]];
+    cues.push(withSpans({ ...timing, style: first.style }, [
+      ...first.spans,
+      { text: '\n' },
+      { text: '', tags: `\\r${second.style}` },
+      ...second.spans
+    ]));
+  }
+
+  return {
+    cues,
+    styles,
+    info: {
+      PlayResX: String(PLAY_RES_X),
+      PlayResY: String(PLAY_RES_Y),
+      WrapStyle: '0',
+      ScaledBorderAndShadow: 'yes'
+    }
+  };
+}
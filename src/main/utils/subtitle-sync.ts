@@ -0,0 +1,369 @@
+/**
+ * Subtitle timing correction. The manual modes map every cue time through a
+ * function of the original timing; auto-sync finds the shift (and, for
+ * releases with another framerate, the stretch) that best lines the cues up
+ * with the speech detected in the video's audio track.
+ */
+
+import {
+  SubtitleCue,
+  SubtitleDocument,
+  SubtitleSyncOptions,
+  WaveformData
+} from '../../shared/types/subtitle';
+import { toTimestamps } from './subtitle-formats';
+
+export type TimeMap = (time: number, cue: SubtitleCue) => number;
+
+export interface SubtitleAlignment {
+  offsetMs: number;
+  scale: number;
+  confidence: number;
+  speechOverlap: number;
+}
+
+export const DEFAULT_MAX_SYNC_OFFSET = 60000;
+
+// Ratios between the common film, NTSC and PAL rates
+const FRAMERATE_SCALES = [25 / 23.976, 23.976 / 25, 24 / 23.976, 23.976 / 24, 25 / 24, 24 / 25];
+
+// Speech is anything this much louder than the quietest part of the track
+const SPEECH_THRESHOLD_DB = 12;
+const MIN_SPEECH_DB = -50;
+const MAX_SPEECH_GAP = 300; // ms, pauses inside a sentence
+const MIN_SPEECH_LENGTH = 100; // ms, clicks and bangs
+
+// Shifts closer than this to the best one count as the same alignment
+const PEAK_WIDTH = 1000;
+
+// Rounded NTSC rates stand for their exact value, 23.976 is 24000/1001
+export function normalizeFramerate(fps: number): number {
+  for (const base of [24, 30, 60]) {
+    const ntsc = base * 1000 / 1001;
+    if (Math.abs(fps - ntsc) < 0.01) {
+      return ntsc;
+    }
+  }
+  return fps;
+}
+
+/**
+ * Move every cue (and its karaoke and word timing) through `map`, keeping each cue at
+ * least as long as before it was mapped to a negative time
+ */
+export function retimeDocument(document: SubtitleDocument, map: TimeMap): SubtitleDocument {
+  const cues = document.cues.map((cue): SubtitleCue => {
+    const startTime = Math.max(0, Math.round(map(cue.startTime, cue)));
+    const endTime = Math.max(startTime, Math.round(map(cue.endTime, cue)));
+
+    return {
+      ...cue,
+      startTime,
+      endTime,
+      spans: cue.spans?.map(span => (span.startTime === undefined
+        ? span
+        : { ...span, startTime: Math.max(0, Math.round(map(span.startTime, cue))) })),
+      words: cue.words?.map(word => ({
+        ...word,
+        startTime: Math.max(0, Math.round(map(word.startTime, cue))),
+        endTime: Math.max(0, Math.round(map(word.endTime, cue)))
+      }))
+    };
+  });
+
+  return {
+    ...document,
+    cues: cues.sort((a, b) => a.startTime - b.startTime)
+  };
+}
+
+export function linearMap(scale: number, offsetMs: number): TimeMap {
+  return time => time * scale + offsetMs;
+}
+
+/**
+ * Time map for the manual sync modes. Two-point cue indices count the cues of
+ * `Subtitle.timestamps`, so ASS comments are left out.
+ */
+export function buildTimeMap(document: SubtitleDocument, options: SubtitleSyncOptions): TimeMap {
+  switch (options.mode) {
+    case 'offset':
+      return linearMap(1, options.offsetMs ?? 0);
+
+    case 'two_point': {
+      const points = options.points ?? [];
+      if (points.length !== 2) {
+        throw new Error('Two-point sync needs exactly two points');
+      }
+
+      const cues = toTimestamps(document);
+      const [a, b] = points.map(point => {
+        const cue = cues[point.cueIndex];
+        if (!cue) {
+          throw new Error(`Sync point cue ${point.cueIndex + 1} does not exist`);
+        }
+        return { from: cue.startTime, to: point.time };
+      });
+
+      if (a.from === b.from) {
+        throw new Error('The two sync points must be on cues with different start times');
+      }
+
+      const scale = (b.to - a.to) / (b.from - a.from);
+      if (scale <= 0) {
+        throw new Error('The sync points would reverse the order of the cues');
+      }
+      return linearMap(scale, a.to - a.from * scale);
+    }
+
+    case 'framerate': {
+      if ((options.sourceFps ?? 0) <= 0 || (options.targetFps ?? 0) <= 0) {
+        throw new Error('Framerate conversion needs a source and target framerate');
+      }
+      return linearMap(normalizeFramerate(options.sourceFps as number) / normalizeFramerate(options.targetFps as number), 0);
+    }
+
+    case 'ranges': {
+      const ranges = options.ranges ?? [];
+      if (ranges.length === 0) {
+        throw new Error('Range sync needs at least one range');
+      }
+
+      // A cue moves as a whole with the range its original start is in, the first one listed wins
+      return (time, cue) => {
+        const range = ranges.find(r => cue.startTime >= r.startTime && (r.endTime === undefined || cue.startTime < r.endTime));
+        return time + (range?.offsetMs ?? 0);
+      };
+    }
+
+    default:
+      throw new Error(`Unknown sync mode: ${String(options.mode)}`);
+  }
+}
+
+/**
+ * One flag per waveform slice: 1 where someone is probably talking. The audio
+ * should be band-passed to the voice range before the peaks are taken.
+ */
+export function detectSpeech(waveform: WaveformData): Uint8Array {
+  const db = waveform.peaks.map(peak => 20 * Math.log10(Math.max(peak, 1e-5)));
+  const sorted = [...db].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.15)] ?? MIN_SPEECH_DB;
+  const threshold = Math.max(MIN_SPEECH_DB, noiseFloor + SPEECH_THRESHOLD_DB);
+
+  const speech = Uint8Array.from(db, value => (value >= threshold ? 1 : 0));
+  const sliceMs = 1000 / waveform.peaksPerSecond;
+
+  fillRuns(speech, 0, Math.round(MAX_SPEECH_GAP / sliceMs), 1);
+  fillRuns(speech, 1, Math.round(MIN_SPEECH_LENGTH / sliceMs), 0);
+  return speech;
+}
+
+// Overwrite inner runs of `value` no longer than `maxLength` with `fill`
+function fillRuns(flags: Uint8Array, value: number, maxLength: number, fill: number): void {
+  let start = -1;
+  for (let i = 0; i <= flags.length; i++) {
+    if (i < flags.length && flags[i] === value) {
+      if (start < 0) {
+        start = i;
+      }
+      continue;
+    }
+
+    if (start > 0 && i < flags.length && i - start <= maxLength) {
+      flags.fill(fill, start, i);
+    }
+    start = -1;
+  }
+}
+
+/**
+ * Find the stretch and shift that line the cues up best with `speech`
+ * (flags of `sliceMs` each). Both tracks become +1/-1 signals and are cross
+ * correlated with an FFT; the cue signal is 0 before the first and after the
+ * last cue so intros and end credits don't count against any shift.
+ *
+ * Confidence is how far the best alignment stands out: its lead over the
+ * best alignment more than a second away, relative to its lead over the
+ * average shift. 1 means nothing else comes close, 0 that another shift
+ * fits just as well.
+ */
+export function findAlignment(
+  cues: SubtitleCue[],
+  speech: Uint8Array,
+  sliceMs: number,
+  maxOffsetMs: number = DEFAULT_MAX_SYNC_OFFSET,
+  framerateCorrection = true
+): SubtitleAlignment {
+  const dialogue = cues.filter(cue => !cue.comment && cue.endTime > cue.startTime);
+  if (dialogue.length === 0) {
+    throw new Error('The subtitle has no cues to sync');
+  }
+  if (!speech.includes(1)) {
+    throw new Error('No speech found in the audio track');
+  }
+
+  const scales = framerateCorrection ? [1, ...FRAMERATE_SCALES] : [1];
+  const maxShift = Math.round(maxOffsetMs / sliceMs);
+  const lastEnd = Math.max(...dialogue.map(cue => cue.endTime));
+  const cueLength = Math.ceil(lastEnd * Math.max(...scales) / sliceMs) + 1;
+  const size = nextPowerOfTwo(Math.max(cueLength, speech.length) + maxShift + 1);
+
+  const speechRe = new Float64Array(size);
+  const speechIm = new Float64Array(size);
+  speech.forEach((flag, i) => {
+    speechRe[i] = flag ? 1 : -1;
+  });
+  fft(speechRe, speechIm, false);
+
+  let best: { scale: number; shift: number; score: number; confidence: number } | null = null;
+
+  for (const scale of scales) {
+    const signal = cueSignal(dialogue, scale, sliceMs, size);
+    const active = signal.reduce((count, value) => count + (value === 0 ? 0 : 1), 0);
+    const correlation = crossCorrelate(signal, speechRe, speechIm);
+    const at = (shift: number): number => correlation[(shift + size) % size];
+
+    let peakShift = 0;
+    let sum = 0;
+    for (let shift = -maxShift; shift <= maxShift; shift++) {
+      sum += at(shift);
+      if (at(shift) > at(peakShift)) {
+        peakShift = shift;
+      }
+    }
+
+    // Best alternative that isn't just the slope of the peak itself
+    const lobe = Math.round(PEAK_WIDTH / sliceMs);
+    let runnerUp = -Infinity;
+    for (let shift = -maxShift; shift <= maxShift; shift++) {
+      if (Math.abs(shift - peakShift) > lobe) {
+        runnerUp = Math.max(runnerUp, at(shift));
+      }
+    }
+
+    const peak = at(peakShift);
+    const mean = sum / (maxShift * 2 + 1);
+    const prominence = peak > mean && runnerUp > -Infinity ? (peak - runnerUp) / (peak - mean) : 0;
+    // Stretches are compared on agreement per cue frame, not on raw sums
+    const score = peak / active;
+
+    if (!best || score > best.score) {
+      best = { scale, shift: peakShift, score, confidence: Math.min(1, Math.max(0, prominence)) };
+    }
+  }
+
+  const { scale, shift, confidence } = best as { scale: number; shift: number; confidence: number };
+  const offsetMs = Math.round(shift * sliceMs);
+
+  return {
+    offsetMs,
+    scale,
+    confidence: Math.round(confidence * 1000) / 1000,
+    speechOverlap: speechOverlap(dialogue, speech, sliceMs, linearMap(scale, offsetMs))
+  };
+}
+
+// Share of cue time that has speech under it once mapped
+function speechOverlap(cues: SubtitleCue[], speech: Uint8Array, sliceMs: number, map: TimeMap): number {
+  let total = 0;
+  let voiced = 0;
+
+  for (const cue of cues) {
+    const from = Math.max(0, Math.round(map(cue.startTime, cue) / sliceMs));
+    const to = Math.round(map(cue.endTime, cue) / sliceMs);
+    for (let i = from; i < to; i++) {
+      total++;
+      voiced += speech[i] ?? 0;
+    }
+  }
+
+  return total > 0 ? Math.round(voiced / total * 1000) / 1000 : 0;
+}
+
+function cueSignal(cues: SubtitleCue[], scale: number, sliceMs: number, size: number): Float64Array {
+  const signal = new Float64Array(size);
+  const first = Math.round(Math.min(...cues.map(cue => cue.startTime)) * scale / sliceMs);
+  const last = Math.round(Math.max(...cues.map(cue => cue.endTime)) * scale / sliceMs);
+  signal.fill(-1, first, last);
+
+  for (const cue of cues) {
+    signal.fill(1, Math.round(cue.startTime * scale / sliceMs), Math.round(cue.endTime * scale / sliceMs));
+  }
+  return signal;
+}
+
+// correlation[k] = sum of signal[i] * other[i + k], negative k wrap around to the end
+function crossCorrelate(signal: Float64Array, otherRe: Float64Array, otherIm: Float64Array): Float64Array {
+  const re = signal;
+  const im = new Float64Array(signal.length);
+  fft(re, im, false);
+
+  for (let i = 0; i < re.length; i++) {
+    const r = re[i] * otherRe[i] + im[i] * otherIm[i];
+    im[i] = re[i] * otherIm[i] - im[i] * otherRe[i];
+    re[i] = r;
+  }
+
+  fft(re, im, true);
+  return re;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) {
+    size *= 2;
+  }
+  return size;
+}
+
+// In-place iterative radix-2 FFT, the length must be a power of two
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; (j & bit) !== 0; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= n; length *= 2) {
+    const half = length / 2;
+    const angle = (inverse ? 2 : -2) * Math.PI / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Provider-independent subtitle translation. Cue texts are sent in batches
+ * with a few neighbouring cues as context, failed batches are retried and
+ * every translated cue is cached under a hash of its text, so re-running a
+ * translation only sends what changed or failed before.
+ */
+
+import * as crypto from 'crypto';
+import { SubtitleDocument } from '../../shared/types/subtitle';
+
+// Stands in for line breaks inside a cue, so one cue is always one line
+export const LINE_BREAK_MARKER = '<br>';
+
+export interface TranslationContext {
+  before: string[];
+  after: string[];
+}
+
+export interface TranslationRequest {
+  sourceLanguage?: string;
+  targetLanguage: string;
+  context: TranslationContext; // For reference only, not translated
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  /**
+   * Translate the texts, returning one translation per text in the same
+   * order. Rejects when the service fails or answers with a different count.
+   */
+  translate(texts: string[], request: TranslationRequest): Promise<string[]>;
+}
+
+export interface TranslationCache {
+  get(hash: string): string | undefined;
+  set(hash: string, translation: string): void;
+}
+
+export interface TranslationBatch {
+  indexes: number[]; // Positions in the full list of texts
+  context: TranslationContext;
+}
+
+export interface TranslateTextsOptions {
+  sourceLanguage?: string;
+  targetLanguage: string;
+  cacheKey: string; // Provider, model and languages, so their translations don't mix
+  cache?: TranslationCache;
+  batchSize?: number;
+  contextSize?: number;
+  maxRetries?: number;
+  retryDelay?: number; // milliseconds, doubled after every failed attempt
+  onProgress?: (translated: number, cached: number) => void;
+}
+
+export const DEFAULT_BATCH_SIZE = 30;
+export const DEFAULT_CONTEXT_SIZE = 3;
+export const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 1000;
+
+export function hashCue(text: string, cacheKey: string): string {
+  return crypto.createHash('sha1').update(`${cacheKey}\u0000${text}`).digest('hex');
+}
+
+export function encodeLineBreaks(text: string): string {
+  return text.replace(/\n/g, LINE_BREAK_MARKER);
+}
+
+export function decodeLineBreaks(text: string): string {
+  return text.replace(/\s*<br\s*\/?>\s*/gi, '\n').trim();
+}
+
+/**
+ * Split the pending texts into batches. Context comes from the cues around
+ * each batch in the full list, whether or not they need translating.
+ */
+export function buildBatches(
+  texts: string[],
+  pending: number[],
+  batchSize: number = DEFAULT_BATCH_SIZE,
+  contextSize: number = DEFAULT_CONTEXT_SIZE
+): TranslationBatch[] {
+  const batches: TranslationBatch[] = [];
+  const size = Math.max(1, batchSize);
+
+  for (let i = 0; i < pending.length; i += size) {
+    const indexes = pending.slice(i, i + size);
+    const first = indexes[0];
+    const last = indexes[indexes.length - 1];
+
+    batches.push({
+      indexes,
+      context: {
+        before: contextSize > 0 ? texts.slice(Math.max(0, first - contextSize), first) : [],
+        after: contextSize > 0 ? texts.slice(last + 1, last + 1 + contextSize) : []
+      }
+    });
+  }
+
+  return batches;
+}
+
+/**
+ * Chat messages asking for a numbered translation of the texts, the
+ * format parseNumberedLines reads back
+ */
+export function buildChatMessages(
+  texts: string[],
+  request: TranslationRequest
+): Array<{ role: 'system' | 'user'; content: string }> {
+  const from = request.sourceLanguage ? `from ${request.sourceLanguage} ` : '';
+  const system = [
+    `You translate video subtitles ${from}into ${request.targetLanguage}.`,
+    'The numbered lines are consecutive subtitles of one video; translate them in context so they read naturally.',
+    'Reply with exactly one line per numbered line, as "[n] translation", and nothing else.',
+    `Keep ${LINE_BREAK_MARKER} where a subtitle breaks its line. Context lines are for reference only; do not translate them.`
+  ].join('\n');
+
+  const parts: string[] = [];
+  if (request.context.before.length > 0) {
+    parts.push(`Context before:\n${request.context.before.map(encodeLineBreaks).join('\n')}`);
+  }
+  parts.push(`Lines:\n${texts.map((text, index) => `[${index + 1}] ${encodeLineBreaks(text)}`).join('\n')}`);
+  if (request.context.after.length > 0) {
+    parts.push(`Context after:\n${request.context.after.map(encodeLineBreaks).join('\n')}`);
+  }
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: parts.join('\n\n') }
+  ];
+}
+
+/**
+ * Read "[n] translation" lines from a chat reply. Throws unless every line
+ * from 1 to count is there, so the batch gets retried.
+ */
+export function parseNumberedLines(content: string, count: number): string[] {
+  // Reasoning models may think out loud before answering
+  const answer = content.replace(/<think>[\s\S]*?<\/think>/g, '');
+  const lines = new Map<number, string>();
+
+  for (const line of answer.split(/\r?\n/)) {
+    const match = line.match(/^\s*\[(\d+)\]\s?(.*)$/);
+    if (match && !lines.has(Number(match[1]))) {
+      lines.set(Number(match[1]), decodeLineBreaks(match[2]));
+    }
+  }
+
+  const result: string[] = [];
+  for (let n = 1; n <= count; n++) {
+    const line = lines.get(n);
+    if (line === undefined) {
+      throw new Error(`Expected ${count} translated lines, line ${n} is missing`);
+    }
+    result.push(line);
+  }
+
+  return result;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function translateBatch(
+  provider: TranslationProvider,
+  texts: string[],
+  request: TranslationRequest,
+  maxRetries: number,
+  retryDelay: number
+): Promise<string[]> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      await delay(retryDelay * 2 ** (attempt - 1));
+    }
+
+    try {
+      const translations = await provider.translate(texts, request);
+      if (translations.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} translations, got ${translations.length}`);
+      }
+      return translations;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Translate texts one batch at a time. Empty texts stay empty and cached
+ * texts aren't sent; each batch is cached as soon as it succeeds, so an
+ * error still keeps the batches done before it.
+ */
+export async function translateTexts(
+  texts: string[],
+  provider: TranslationProvider,
+  options: TranslateTextsOptions
+): Promise<string[]> {
+  const result: string[] = texts.map(() => '');
+  const pending: number[] = [];
+  let cached = 0;
+
+  texts.forEach((text, index) => {
+    if (!text.trim()) {
+      return;
+    }
+    const hit = options.cache?.get(hashCue(text, options.cacheKey));
+    if (hit !== undefined) {
+      result[index] = hit;
+      cached++;
+    } else {
+      pending.push(index);
+    }
+  });
+
+  let translated = texts.length - pending.length;
+  options.onProgress?.(translated, cached);
+
+  const batches = buildBatches(texts, pending, options.batchSize, options.contextSize ?? DEFAULT_CONTEXT_SIZE);
+  for (const batch of batches) {
+    const batchTexts = batch.indexes.map(index => texts[index]);
+    const request: TranslationRequest = {
+      sourceLanguage: options.sourceLanguage,
+      targetLanguage: options.targetLanguage,
+      context: batch.context
+    };
+
+    let translations: string[];
+    try {
+      translations = await translateBatch(
+        provider,
+        batchTexts,
+        request,
+        options.maxRetries ?? DEFAULT_MAX_RETRIES,
+        options.retryDelay ?? DEFAULT_RETRY_DELAY
+      );
+    } catch (error) {
+      const first = batch.indexes[0] + 1;
+      const last = batch.indexes[batch.indexes.length - 1] + 1;
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`${provider.name} failed to translate cues ${first}-${last}: ${reason}`);
+    }
+
+    batch.indexes.forEach((index, i) => {
+      result[index] = translations[i];
+      options.cache?.set(hashCue(texts[index], options.cacheKey), translations[i]);
+    });
+
+    translated += batch.indexes.length;
+    options.onProgress?.(translated, cached);
+  }
+
+  return result;
+}
+
+// Texts to translate, one per cue; ASS comments aren't shown, so they're left empty
+export function getCueTexts(document: SubtitleDocument): string[] {
+  return document.cues.map(cue => (cue.comment ? '' : cue.text));
+}
+
+/**
+ * Put translations into the cues. Timing, styles, positions and speakers
+ * stay; inline formatting doesn't map onto translated words and is dropped.
+ */
+export function applyTranslations(document: SubtitleDocument, translations: string[]): SubtitleDocument {
+  return {
+    ...document,
+    cues: document.cues.map((cue, index) => (
+      cue.comment ? cue : { ...cue, text: translations[index] ?? cue.text, spans: undefined }
+    ))
+  };
+}
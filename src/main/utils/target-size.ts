@@ -0,0 +1,113 @@
+/**
+ * Target-size encoding: the bitrates that fill a file size over the encoded
+ * duration, and the lower video bitrate to retry with when an encode comes
+ * out over the limit
+ */
+
+import { CompressionConfig } from '../../shared/types/compression';
+
+export const MIN_VIDEO_BITRATE = 100; // kbps, below this the picture is unwatchable
+export const MIN_AUDIO_BITRATE = 32; // kbps
+export const MAX_SIZE_ATTEMPTS = 3;
+
+// Rate control overshoots by a percent or two, so aim a little under
+const SIZE_MARGIN = 0.98;
+
+// Headers and indexes: a fixed part plus a share of the file that grows with the packet count
+const FIXED_OVERHEAD = 64 * 1024;
+const CONTAINER_OVERHEAD: Record<CompressionConfig['outputFormat'], number> = {
+  mp4: 0.01,
+  mov: 0.01,
+  mkv: 0.005,
+  webm: 0.005,
+  avi: 0.02
+};
+
+export type TargetSizeConfig = Pick<
+  CompressionConfig,
+  'outputFormat' | 'targetFileSize' | 'maxFileSize' | 'audioBitrate' | 'removeAudio' | 'startTime' | 'endTime'
+>;
+
+export interface TargetSizePlan {
+  targetBytes: number; // Size the bitrates aim for
+  limitBytes: number; // Size the output must not exceed
+  duration: number; // Seconds encoded
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps, 0 without audio
+}
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const toKbps = (bytes: number, seconds: number): number => (bytes * 8) / seconds / 1000;
+const toBytes = (kbps: number, seconds: number): number => (kbps * 1000 * seconds) / 8;
+
+export function isTargetSizeMode(config: TargetSizeConfig): boolean {
+  return config.targetFileSize !== undefined || config.maxFileSize !== undefined;
+}
+
+// Seconds of the source that end up in the output once trimmed
+export function encodedDuration(config: TargetSizeConfig, sourceDuration: number): number {
+  const start = config.startTime ?? 0;
+  const end = Math.min(config.endTime ?? sourceDuration, sourceDuration);
+  return Math.max(end - start, 0);
+}
+
+/**
+ * Bitrates filling `targetFileSize` (or `maxFileSize` alone) after container
+ * overhead. Audio keeps its bitrate unless that takes more than a quarter of
+ * the budget; the video gets the rest.
+ */
+export function planTargetSize(config: TargetSizeConfig, sourceDuration: number): TargetSizePlan {
+  const limitBytes = config.maxFileSize ?? config.targetFileSize;
+  if (limitBytes === undefined) {
+    throw new Error('Target-size encoding needs targetFileSize or maxFileSize');
+  }
+
+  const targetBytes = Math.min(config.targetFileSize ?? limitBytes, limitBytes);
+  const duration = encodedDuration(config, sourceDuration);
+  if (!(duration > 0)) {
+    throw new Error('Target-size encoding needs the video duration');
+  }
+
+  const overhead = FIXED_OVERHEAD + targetBytes * CONTAINER_OVERHEAD[config.outputFormat];
+  const totalBitrate = toKbps((targetBytes - overhead) * SIZE_MARGIN, duration);
+  const audioBitrate = config.removeAudio === true
+    ? 0
+    : Math.max(MIN_AUDIO_BITRATE, Math.min(config.audioBitrate ?? 128, Math.floor(totalBitrate / 4)));
+  const videoBitrate = Math.floor(totalBitrate - audioBitrate);
+
+  if (videoBitrate < MIN_VIDEO_BITRATE) {
+    throw new Error(
+      `${formatMegabytes(targetBytes)} is too small for ${Math.round(duration)}s of video: ` +
+      `it leaves ${Math.max(videoBitrate, 0)} kbps for the picture, at least ${MIN_VIDEO_BITRATE} kbps is needed`
+    );
+  }
+
+  return { targetBytes, limitBytes, duration, videoBitrate, audioBitrate };
+}
+
+/**
+ * The video bitrate to retry with after an encode at `plan.videoBitrate`
+ * came out at `outputBytes`, over the limit. Audio and overhead barely move
+ * between attempts, so only the video's share of the file is scaled.
+ */
+export function correctVideoBitrate(plan: TargetSizePlan, outputBytes: number): number {
+  const audioBytes = toBytes(plan.audioBitrate, plan.duration);
+  const videoBytes = Math.max(outputBytes - audioBytes, 1);
+  const allowedBytes = plan.limitBytes * SIZE_MARGIN - audioBytes;
+
+  // At least 1% lower, so an overshoot of a few bytes still changes something
+  const corrected = Math.min(
+    Math.floor((plan.videoBitrate * allowedBytes) / videoBytes),
+    Math.floor(plan.videoBitrate * 0.99)
+  );
+
+  if (corrected < MIN_VIDEO_BITRATE) {
+    throw new Error(
+      `Can't fit the video under ${formatMegabytes(plan.limitBytes)}: ` +
+      `${formatMegabytes(outputBytes)} at ${plan.videoBitrate} kbps, and ${MIN_VIDEO_BITRATE} kbps is the lowest bitrate`
+    );
+  }
+
+  return corrected;
+}
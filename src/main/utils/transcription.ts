@@ -0,0 +1,258 @@
+/**
+ * Long-file transcription helpers: splitting the audio into chunks at pauses
+ * in speech so Whisper can work on them in parallel (and a cancelled job can
+ * pick up where it stopped), and re-segmenting the recognized words into
+ * cues that fit a line length and duration.
+ */
+
+import { SubtitleCue, SubtitleWord } from '../../shared/types/subtitle';
+
+export interface TranscriptionChunk {
+  index: number;
+  startTime: number; // milliseconds
+  endTime: number; // milliseconds
+  speech: number; // milliseconds of detected speech, for progress
+}
+
+export interface SegmentationOptions {
+  maxLineLength: number;
+  maxLines: number;
+  maxCueDuration: number; // milliseconds
+}
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 7000
+};
+
+// Chunks are cut in the longest pause between these lengths
+export const MIN_CHUNK_LENGTH = 120000;
+export const MAX_CHUNK_LENGTH = 300000;
+
+// A pause this long ends a cue even if it isn't full
+const CUE_BREAK_PAUSE = 700;
+
+const SENTENCE_END = /[.!?。！？…]["'”’)）]*$/;
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+/**
+ * Split a track of `speech` flags (`sliceMs` each) into chunks. Each cut is
+ * made in the middle of the longest pause between MIN_CHUNK_LENGTH and
+ * MAX_CHUNK_LENGTH after the previous one, so no word is cut in half; chunks
+ * without any speech are left out.
+ */
+export function planChunks(
+  speech: Uint8Array,
+  sliceMs: number,
+  minLength: number = MIN_CHUNK_LENGTH,
+  maxLength: number = MAX_CHUNK_LENGTH
+): TranscriptionChunk[] {
+  const minSlices = Math.max(1, Math.round(minLength / sliceMs));
+  const maxSlices = Math.max(minSlices, Math.round(maxLength / sliceMs));
+  const cuts: number[] = [0];
+
+  let start = 0;
+  while (speech.length - start > maxSlices) {
+    let bestStart = -1;
+    let bestLength = 0;
+    let runStart = -1;
+
+    for (let i = start + minSlices; i <= start + maxSlices; i++) {
+      if (speech[i] === 0) {
+        if (runStart < 0) {
+          runStart = i;
+        }
+        if (i - runStart + 1 > bestLength) {
+          bestStart = runStart;
+          bestLength = i - runStart + 1;
+        }
+      } else {
+        runStart = -1;
+      }
+    }
+
+    start = bestLength > 0 ? bestStart + Math.floor(bestLength / 2) : start + maxSlices;
+    cuts.push(start);
+  }
+  cuts.push(speech.length);
+
+  const chunks: TranscriptionChunk[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    let voiced = 0;
+    for (let slice = cuts[i]; slice < cuts[i + 1]; slice++) {
+      voiced += speech[slice];
+    }
+    if (voiced > 0) {
+      chunks.push({
+        index: chunks.length,
+        startTime: Math.round(cuts[i] * sliceMs),
+        endTime: Math.round(cuts[i + 1] * sliceMs),
+        speech: Math.round(voiced * sliceMs)
+      });
+    }
+  }
+
+  return chunks;
+}
+
+// Move a chunk's cues from chunk time to video time
+export function offsetCues(cues: SubtitleCue[], offset: number): SubtitleCue[] {
+  return cues.map(cue => ({
+    ...cue,
+    startTime: cue.startTime + offset,
+    endTime: cue.endTime + offset,
+    words: cue.words?.map(word => ({ ...word, startTime: word.startTime + offset, endTime: word.endTime + offset }))
+  }));
+}
+
+// Words are separated by spaces except between CJK characters
+export function joinWords(words: string[]): string {
+  let text = '';
+  for (const word of words.map(w => w.trim()).filter(Boolean)) {
+    const attach = text === '' || (CJK.test(text[text.length - 1]) && CJK.test(word[0])) || /^[,.!?;:%)\]}、，。！？；：]/.test(word);
+    text += attach ? word : ` ${word}`;
+  }
+  return text;
+}
+
+/**
+ * Break `text` into as few lines of at most `maxLength` characters as
+ * possible, with the lines about the same length. Text without spaces (CJK)
+ * can break between any two characters.
+ */
+export function wrapLines(text: string, maxLength: number): string {
+  const flat = text.replace(/\s*\n\s*/g, ' ').trim();
+  if (flat.length <= maxLength) {
+    return flat;
+  }
+
+  const spaced = /\s/.test(flat);
+  const tokens = spaced ? flat.split(/\s+/) : [...flat];
+  const separator = spaced ? ' ' : '';
+
+  const wrap = (width: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const token of tokens) {
+      if (line !== '' && line.length + separator.length + token.length > width) {
+        lines.push(line);
+        line = token;
+      } else {
+        line = line === '' ? token : `${line}${separator}${token}`;
+      }
+    }
+    lines.push(line);
+    return lines;
+  };
+
+  // Start from even lines and widen until the text fits in as few lines as full ones
+  const lineCount = wrap(maxLength).length;
+  for (let width = Math.ceil(flat.length / lineCount); width < maxLength; width++) {
+    const lines = wrap(width);
+    if (lines.length <= lineCount) {
+      return lines.join('\n');
+    }
+  }
+  return wrap(maxLength).join('\n');
+}
+
+/**
+ * Turn Whisper segments into cues that fit `options`. With word timing the
+ * words are regrouped: a cue ends at the end of a sentence, at a pause, when
+ * the speaker changes, or before it would get too long. Without it, long segments are split with
+ * the time shared out by text length.
+ */
+export function resegment(cues: SubtitleCue[], options: SegmentationOptions = DEFAULT_SEGMENTATION): SubtitleCue[] {
+  const result: SubtitleCue[] = [];
+  const maxChars = options.maxLineLength * options.maxLines;
+  let words: SubtitleWord[] = [];
+
+  const flushWords = (): void => {
+    if (words.length > 0) {
+      result.push({
+        startTime: words[0].startTime,
+        endTime: words[words.length - 1].endTime,
+        text: wrapLines(joinWords(words.map(word => word.text)), options.maxLineLength),
+        speaker: words[0].speaker,
+        words
+      });
+      words = [];
+    }
+  };
+
+  for (const cue of cues) {
+    if (!cue.words || cue.words.length === 0) {
+      flushWords();
+      result.push(...splitCue(cue, options));
+      continue;
+    }
+
+    for (const word of cue.words) {
+      const previous = words[words.length - 1];
+      if (previous !== undefined && (
+        word.startTime - previous.endTime > CUE_BREAK_PAUSE
+        || word.speaker !== previous.speaker
+        || joinWords([...words, word].map(w => w.text)).length > maxChars
+        || word.endTime - words[0].startTime > options.maxCueDuration
+      )) {
+        flushWords();
+      }
+
+      words.push(word);
+      if (SENTENCE_END.test(word.text)) {
+        flushWords();
+      }
+    }
+  }
+  flushWords();
+
+  return result.filter(cue => cue.text !== '');
+}
+
+// Split a cue without word timing into pieces that fit, timed by text length
+function splitCue(cue: SubtitleCue, options: SegmentationOptions): SubtitleCue[] {
+  const lines = wrapLines(cue.text, options.maxLineLength).split('\n');
+  const duration = cue.endTime - cue.startTime;
+  const pieces = Math.max(
+    Math.ceil(lines.length / options.maxLines),
+    Math.ceil(duration / options.maxCueDuration)
+  );
+  if (pieces <= 1) {
+    return [{ ...cue, text: lines.join('\n') }];
+  }
+
+  // Share the text out by length, cutting only between words (or CJK characters)
+  const flat = cue.text.replace(/\s*\n\s*/g, ' ').trim();
+  const spaced = /\s/.test(flat);
+  const tokens = spaced ? flat.split(/\s+/) : [...flat];
+  const groups: string[][] = [];
+  const target = flat.length / pieces;
+  let group: string[] = [];
+  let length = 0;
+
+  for (const token of tokens) {
+    if (group.length > 0 && length + token.length / 2 > target * (groups.length + 1) && groups.length < pieces - 1) {
+      groups.push(group);
+      group = [];
+    }
+    group.push(token);
+    length += token.length + (spaced ? 1 : 0);
+  }
+  groups.push(group);
+
+  const total = groups.reduce((sum, g) => sum + g.join(spaced ? ' ' : '').length, 0);
+  const result: SubtitleCue[] = [];
+  let time = cue.startTime;
+
+  groups.forEach((g, index) => {
+    const text = g.join(spaced ? ' ' : '');
+    const endTime = index === groups.length - 1
+      ? cue.endTime
+      : Math.round(time + duration * text.length / total);
+    result.push({ ...cue, startTime: time, endTime, text: wrapLines(text, options.maxLineLength) });
+    time = endTime;
+  });
+
+  return result;
+}
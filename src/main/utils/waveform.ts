@@ -0,0 +1,72 @@
+/**
+ * Waveform peaks for the subtitle editor timeline. ffmpeg decodes the audio
+ * to mono 16-bit PCM and the samples are reduced to one peak per slice as
+ * they stream in, so long videos never have to fit in memory.
+ */
+
+import { WaveformData } from '../../shared/types/subtitle';
+
+// Plenty for a display waveform and cheap to decode
+export const WAVEFORM_SAMPLE_RATE = 8000;
+export const DEFAULT_PEAKS_PER_SECOND = 100;
+export const MAX_PEAKS_PER_SECOND = 400;
+
+// Voice band only, for speech detection; music and effects carry less weight
+export const VOICE_BAND_FILTER = 'highpass=f=200,lowpass=f=3000';
+
+export class PeakAccumulator {
+  private sampleRate: number;
+  private peaksPerSecond: number;
+  private samplesPerPeak: number;
+  private peaks: number[] = [];
+  private peak = 0;
+  private count = 0;
+  private sampleCount = 0;
+  private leftover: Buffer | null = null;
+
+  constructor(sampleRate: number, peaksPerSecond: number) {
+    this.sampleRate = sampleRate;
+    this.peaksPerSecond = peaksPerSecond;
+    this.samplesPerPeak = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+  }
+
+  // Chunks can end in the middle of a sample, the odd byte waits for the next one
+  push(chunk: Buffer): void {
+    const data = this.leftover ? Buffer.concat([this.leftover, chunk]) : chunk;
+    const usable = data.length - (data.length % 2);
+    this.leftover = usable < data.length ? data.subarray(usable) : null;
+
+    for (let offset = 0; offset < usable; offset += 2) {
+      const sample = Math.abs(data.readInt16LE(offset));
+      if (sample > this.peak) {
+        this.peak = sample;
+      }
+
+      this.count++;
+      if (this.count === this.samplesPerPeak) {
+        this.flushPeak();
+      }
+    }
+
+    this.sampleCount += usable / 2;
+  }
+
+  finish(): WaveformData {
+    if (this.count > 0) {
+      this.flushPeak();
+    }
+
+    return {
+      peaksPerSecond: this.peaksPerSecond,
+      duration: Math.round(this.sampleCount * 1000 / this.sampleRate),
+      peaks: this.peaks
+    };
+  }
+
+  private flushPeak(): void {
+    // Three decimals keep the IPC payload small
+    this.peaks.push(Math.round(Math.min(1, this.peak / 32768) * 1000) / 1000);
+    this.peak = 0;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Whisper.cpp model catalog: the ggml files published upstream, including
+ * English-only (.en) and quantized variants, and the helpers to name, locate
+ * and check them.
+ */
+
+import { WhisperModelSize, WhisperQuantization } from '../../shared/types/subtitle';
+
+export interface WhisperModelDefinition {
+  id: string;
+  size: WhisperModelSize;
+  englishOnly: boolean;
+  quantization?: WhisperQuantization;
+  downloadSize: number; // bytes, approximate
+}
+
+export const DEFAULT_MODEL_MIRROR = 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main';
+export const DEFAULT_WHISPER_MODEL = 'base';
+
+// Key for the model used by languages without their own default
+export const ANY_LANGUAGE = '*';
+
+// "ggml" as read by whisper.cpp, a little-endian uint32 at the start of the file
+const GGML_MAGIC = 0x67676d6c;
+
+const MB = 1024 * 1024;
+
+// [id, size, approximate download size in MB]; variants follow from the id
+const CATALOG: Array<[string, WhisperModelSize, number]> = [
+  ['tiny', 'tiny', 75],
+  ['tiny.en', 'tiny', 75],
+  ['tiny-q5_1', 'tiny', 31],
+  ['tiny.en-q5_1', 'tiny', 31],
+  ['tiny-q8_0', 'tiny', 42],
+  ['base', 'base', 142],
+  ['base.en', 'base', 142],
+  ['base-q5_1', 'base', 57],
+  ['base.en-q5_1', 'base', 57],
+  ['base-q8_0', 'base', 78],
+  ['small', 'small', 466],
+  ['small.en', 'small', 466],
+  ['small-q5_1', 'small', 181],
+  ['small.en-q5_1', 'small', 181],
+  ['small-q8_0', 'small', 252],
+  ['medium', 'medium', 1463],
+  ['medium.en', 'medium', 1463],
+  ['medium-q5_0', 'medium', 514],
+  ['medium.en-q5_0', 'medium', 514],
+  ['medium-q8_0', 'medium', 785],
+  ['large-v2', 'large-v2', 2952],
+  ['large-v2-q5_0', 'large-v2', 1030],
+  ['large-v2-q8_0', 'large-v2', 1500],
+  ['large-v3', 'large-v3', 2952],
+  ['large-v3-q5_0', 'large-v3', 1031],
+  ['large-v3-turbo', 'large-v3-turbo', 1549],
+  ['large-v3-turbo-q5_0', 'large-v3-turbo', 547],
+  ['large-v3-turbo-q8_0', 'large-v3-turbo', 834]
+];
+
+export const WHISPER_MODEL_CATALOG: WhisperModelDefinition[] = CATALOG.map(([id, size, megabytes]) => {
+  const quantization = /-(q\d_\d)$/.exec(id)?.[1] as WhisperQuantization | undefined;
+  return {
+    id,
+    size,
+    englishOnly: id.includes('.en'),
+    quantization,
+    downloadSize: megabytes * MB
+  };
+});
+
+// Older settings and the generation options used the bare size names
+const MODEL_ALIASES: Record<string, string> = {
+  large: 'large-v3'
+};
+
+export function resolveModelId(modelId: string): string {
+  return MODEL_ALIASES[modelId] ?? modelId;
+}
+
+export function findModelDefinition(modelId: string): WhisperModelDefinition | undefined {
+  const id = resolveModelId(modelId);
+  return WHISPER_MODEL_CATALOG.find(model => model.id === id);
+}
+
+export function getModelFileName(modelId: string): string {
+  return `ggml-${resolveModelId(modelId)}.bin`;
+}
+
+// The id a model file is listed under: ggml-<id>.bin, or the bare file name
+export function modelIdFromFileName(fileName: string): string {
+  const match = /^ggml-(.+)\.bin$/i.exec(fileName);
+  return match ? match[1] : fileName.replace(/\.(bin|ggml)$/i, '');
+}
+
+export function getModelUrl(mirrorUrl: string, modelId: string): string {
+  return `${mirrorUrl.replace(/\/+$/, '')}/${getModelFileName(modelId)}`;
+}
+
+/**
+ * A SHA-256 digest from a checksum source: Hugging Face's X-Linked-Etag
+ * header (the quoted digest of the LFS file) or a `.sha256` file in
+ * `sha256sum` format.
+ */
+export function parseChecksum(text: string | undefined): string | null {
+  const match = /\b([a-f0-9]{64})\b/i.exec(text ?? '');
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function isGgmlModel(header: Buffer): boolean {
+  return header.length >= 4 && header.readUInt32LE(0) === GGML_MAGIC;
+}
+
+/**
+ * The default model for a language: its own default, then the one for its
+ * base language (zh for zh-CN), then the one for any language.
+ */
+export function pickDefaultModel(defaults: Record<string, string>, language?: string): string {
+  if (language && language !== 'auto') {
+    const code = language.toLowerCase();
+    const model = defaults[code] ?? defaults[code.split('-')[0]];
+    if (model) {
+      return model;
+    }
+  }
+  return defaults[ANY_LANGUAGE] ?? DEFAULT_WHISPER_MODEL;
+}
@@ -3,24 +3,53 @@
  */
 
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
-import { VideoInfo } from '../shared/types/video';
-import { DownloadTask, DownloadOptions, DownloadProgress } from '../shared/types/tasks';
+import { VideoInfo, PlaylistInfo, PlaylistFetchOptions, RemuxOptions, StreamExtractOptions } from '../shared/types/video';
+import {
+  DownloadTask,
+  DownloadOptions,
+  DownloadProgress,
+  QueuePriority,
+  TaskMoveTarget
+} from '../shared/types/tasks';
 import {
   Subtitle,
   SubtitleInfo,
   SubtitleGenerationOptions,
   EmbedSubtitleOptions,
-  BilingualSubtitleConfig
+  BilingualSubtitleConfig,
+  SubtitleFormat,
+  SubtitleTimestamp,
+  SubtitleSyncOptions,
+  SubtitleAutoSyncOptions,
+  SubtitleLintOptions,
+  WhisperModelDownloadProgress
 } from '../shared/types/subtitle';
-import { CompressionConfig, CompressionTask } from '../shared/types/compression';
+import {
+  CompressionBatchSummary,
+  CompressionConfig,
+  CompressionJob,
+  CompressionPresetInput,
+  CompressionTask
+} from '../shared/types/compression';
 import { UserPreferences, AppSettings, StorageStats } from '../shared/types/preferences';
+import {
+  Subscription,
+  CreateSubscriptionOptions,
+  SubscriptionSyncResult
+} from '../shared/types/subscription';
+import { NetworkProfileInput } from '../shared/types/network';
+import {
+  SubtitleTranslationOptions,
+  TranslationProgress,
+  TranslationProviderInput
+} from '../shared/types/translation';
 
 // API exposed to renderer
 const prevideoAPI = {
   // Video API
   video: {
-    fetchInfo: (url: string) =>
-      ipcRenderer.invoke('video:info:fetch', url),
+    fetchInfo: (url: string, networkProfileId?: string) =>
+      ipcRenderer.invoke('video:info:fetch', url, networkProfileId),
 
     startDownload: (url: string, options: DownloadOptions) =>
       ipcRenderer.invoke('video:download:start', url, options),
@@ -49,6 +78,39 @@ const prevideoAPI = {
     batchDownload: (urls: string[], options: DownloadOptions) =>
       ipcRenderer.invoke('video:download:batch', urls, options),
 
+    fetchPlaylist: (url: string, options?: PlaylistFetchOptions) =>
+      ipcRenderer.invoke('video:playlist:fetch', url, options),
+
+    downloadPlaylist: (playlist: PlaylistInfo, entryIds: string[], options: DownloadOptions) =>
+      ipcRenderer.invoke('video:playlist:download', playlist, entryIds, options),
+
+    listQueues: () =>
+      ipcRenderer.invoke('video:queue:list'),
+
+    createQueue: (name: string, priority?: QueuePriority) =>
+      ipcRenderer.invoke('video:queue:create', name, priority),
+
+    updateQueue: (queueId: string, updates: { name?: string; priority?: QueuePriority }) =>
+      ipcRenderer.invoke('video:queue:update', queueId, updates),
+
+    deleteQueue: (queueId: string) =>
+      ipcRenderer.invoke('video:queue:delete', queueId),
+
+    pauseQueue: (queueId: string) =>
+      ipcRenderer.invoke('video:queue:pause', queueId),
+
+    resumeQueue: (queueId: string) =>
+      ipcRenderer.invoke('video:queue:resume', queueId),
+
+    moveTask: (taskId: string, target: TaskMoveTarget) =>
+      ipcRenderer.invoke('video:task:move', taskId, target),
+
+    setTaskRateLimit: (taskId: string, limit: number | null) =>
+      ipcRenderer.invoke('video:task:rate-limit', taskId, limit),
+
+    transferTask: (taskId: string, queueId: string) =>
+      ipcRenderer.invoke('video:task:transfer', taskId, queueId),
+
     validateUrl: (url: string) =>
       ipcRenderer.invoke('video:url:validate', url),
 
@@ -72,6 +134,57 @@ const prevideoAPI = {
       const listener = (event: IpcRendererEvent, data: any) => callback(data);
       ipcRenderer.on('video:download:error', listener);
       return () => ipcRenderer.removeListener('video:download:error', listener);
+    },
+
+    onQueued: (callback: (data: { taskId: string; task: DownloadTask }) => void) => {
+      const listener = (event: IpcRendererEvent, data: any) => callback(data);
+      ipcRenderer.on('video:download:queued', listener);
+      return () => ipcRenderer.removeListener('video:download:queued', listener);
+    },
+
+    onStarted: (callback: (data: { taskId: string; task: DownloadTask }) => void) => {
+      const listener = (event: IpcRendererEvent, data: any) => callback(data);
+      ipcRenderer.on('video:download:started', listener);
+      return () => ipcRenderer.removeListener('video:download:started', listener);
+    },
+
+    onRetrying: (callback: (data: { taskId: string; task: DownloadTask }) => void) => {
+      const listener = (event: IpcRendererEvent, data: any) => callback(data);
+      ipcRenderer.on('video:download:retrying', listener);
+      return () => ipcRenderer.removeListener('video:download:retrying', listener);
+    },
+
+    onQueueUpdated: (callback: (data: { queueId: string }) => void) => {
+      const listener = (event: IpcRendererEvent, data: any) => callback(data);
+      ipcRenderer.on('video:queue:updated', listener);
+      return () => ipcRenderer.removeListener('video:queue:updated', listener);
+    }
+  },
+
+  // Subscription API
+  subscription: {
+    list: () =>
+      ipcRenderer.invoke('subscription:list'),
+
+    create: (url: string, options?: CreateSubscriptionOptions) =>
+      ipcRenderer.invoke('subscription:create', url, options),
+
+    update: (
+      subscriptionId: string,
+      updates: Partial<Pick<Subscription, 'title' | 'enabled' | 'checkIntervalMinutes' | 'defaults'>>
+    ) =>
+      ipcRenderer.invoke('subscription:update', subscriptionId, updates),
+
+    delete: (subscriptionId: string) =>
+      ipcRenderer.invoke('subscription:delete', subscriptionId),
+
+    sync: (subscriptionId?: string) =>
+      ipcRenderer.invoke('subscription:sync', subscriptionId),
+
+    onSynced: (callback: (result: SubscriptionSyncResult) => void) => {
+      const listener = (event: IpcRendererEvent, result: any) => callback(result);
+      ipcRenderer.on('subscription:synced', listener);
+      return () => ipcRenderer.removeListener('subscription:synced', listener);
     }
   },
 
@@ -86,26 +199,47 @@ const prevideoAPI = {
     generate: (videoPath: string, options: SubtitleGenerationOptions) =>
       ipcRenderer.invoke('subtitle:generate', videoPath, options),
 
+    cancelGeneration: (taskId: string) =>
+      ipcRenderer.invoke('subtitle:generate:cancel', taskId),
+
     embed: (videoPath: string, options: EmbedSubtitleOptions) =>
       ipcRenderer.invoke('subtitle:embed', videoPath, options),
 
     createBilingual: (videoPath: string, config: BilingualSubtitleConfig) =>
       ipcRenderer.invoke('subtitle:bilingual:create', videoPath, config),
 
-    convert: (subtitle: Subtitle, targetFormat: 'srt' | 'vtt' | 'ass') =>
+    mergeBilingual: (primarySubtitle: Subtitle, secondarySubtitle: Subtitle, config: BilingualSubtitleConfig) =>
+      ipcRenderer.invoke('subtitle:bilingual:merge', primarySubtitle, secondarySubtitle, config),
+
+    convert: (subtitle: Subtitle, targetFormat: SubtitleFormat) =>
       ipcRenderer.invoke('subtitle:convert', subtitle, targetFormat),
 
-    save: (subtitle: Subtitle, filePath: string) =>
-      ipcRenderer.invoke('subtitle:save', subtitle, filePath),
+    save: (subtitle: Subtitle, filePath: string, timestamps?: SubtitleTimestamp[]) =>
+      ipcRenderer.invoke('subtitle:save', subtitle, filePath, timestamps),
 
     load: (filePath: string) =>
       ipcRenderer.invoke('subtitle:load', filePath),
 
-    sync: (subtitle: Subtitle, offsetMs: number) =>
-      ipcRenderer.invoke('subtitle:sync', subtitle, offsetMs),
+    listSpeakers: (subtitle: Subtitle) =>
+      ipcRenderer.invoke('subtitle:speakers:list', subtitle),
+
+    renameSpeakers: (subtitle: Subtitle, names: Record<string, string>) =>
+      ipcRenderer.invoke('subtitle:speakers:rename', subtitle, names),
+
+    lint: (subtitle: Subtitle, options?: SubtitleLintOptions) =>
+      ipcRenderer.invoke('subtitle:lint', subtitle, options),
+
+    fix: (subtitle: Subtitle, options?: SubtitleLintOptions) =>
+      ipcRenderer.invoke('subtitle:fix', subtitle, options),
 
-    translate: (videoPath: string, sourceLanguage: string, targetLanguage: string) =>
-      ipcRenderer.invoke('subtitle:translate', videoPath, sourceLanguage, targetLanguage),
+    sync: (subtitle: Subtitle, options: number | SubtitleSyncOptions) =>
+      ipcRenderer.invoke('subtitle:sync', subtitle, options),
+
+    autoSync: (subtitle: Subtitle, videoPath: string, options?: SubtitleAutoSyncOptions) =>
+      ipcRenderer.invoke('subtitle:auto-sync', subtitle, videoPath, options),
+
+    translate: (subtitle: Subtitle, options: SubtitleTranslationOptions) =>
+      ipcRenderer.invoke('subtitle:translate', subtitle, options),
 
     extract: (videoPath: string, streamIndex?: number) =>
       ipcRenderer.invoke('subtitle:extract', videoPath, streamIndex),
@@ -113,11 +247,32 @@ const prevideoAPI = {
     preview: (subtitle: Subtitle, startTime: number, endTime: number) =>
       ipcRenderer.invoke('subtitle:preview', subtitle, startTime, endTime),
 
+    getWaveform: (videoPath: string, peaksPerSecond?: number) =>
+      ipcRenderer.invoke('subtitle:waveform', videoPath, peaksPerSecond),
+
+    selectFile: (kind: 'subtitle' | 'video') =>
+      ipcRenderer.invoke('subtitle:select-file', kind),
+
     listModels: () =>
       ipcRenderer.invoke('subtitle:models:list'),
 
-    downloadModel: (modelName: string) =>
-      ipcRenderer.invoke('subtitle:model:download', modelName),
+    downloadModel: (modelId: string) =>
+      ipcRenderer.invoke('subtitle:model:download', modelId),
+
+    cancelModelDownload: (modelId: string) =>
+      ipcRenderer.invoke('subtitle:model:download:cancel', modelId),
+
+    deleteModel: (modelId: string) =>
+      ipcRenderer.invoke('subtitle:model:delete', modelId),
+
+    importModel: (filePath?: string) =>
+      ipcRenderer.invoke('subtitle:model:import', filePath),
+
+    setDefaultModel: (language: string, modelId: string | null) =>
+      ipcRenderer.invoke('subtitle:model:set-default', language, modelId),
+
+    setModelMirror: (mirrorUrl: string | null) =>
+      ipcRenderer.invoke('subtitle:model:set-mirror', mirrorUrl),
 
     // Event listeners
     onGenerationProgress: (callback: (data: { taskId: string; task: any }) => void) => {
@@ -130,6 +285,18 @@ const prevideoAPI = {
       const listener = (event: IpcRendererEvent, data: any) => callback(data);
       ipcRenderer.on('subtitle:embed:progress', listener);
       return () => ipcRenderer.removeListener('subtitle:embed:progress', listener);
+    },
+
+    onTranslateProgress: (callback: (progress: TranslationProgress) => void) => {
+      const listener = (event: IpcRendererEvent, progress: TranslationProgress) => callback(progress);
+      ipcRenderer.on('subtitle:translate:progress', listener);
+      return () => ipcRenderer.removeListener('subtitle:translate:progress', listener);
+    },
+
+    onModelDownloadProgress: (callback: (progress: WhisperModelDownloadProgress) => void) => {
+      const listener = (event: IpcRendererEvent, progress: WhisperModelDownloadProgress) => callback(progress);
+      ipcRenderer.on('subtitle:model:download:progress', listener);
+      return () => ipcRenderer.removeListener('subtitle:model:download:progress', listener);
     }
   },
 
@@ -150,12 +317,51 @@ const prevideoAPI = {
     getMetadata: (videoPath: string) =>
       ipcRenderer.invoke('compress:metadata', videoPath),
 
+    listStreams: (filePath: string) =>
+      ipcRenderer.invoke('compress:streams:list', filePath),
+
+    extractStreams: (inputPath: string, options: StreamExtractOptions) =>
+      ipcRenderer.invoke('compress:streams:extract', inputPath, options),
+
+    remux: (inputPath: string, options: RemuxOptions) =>
+      ipcRenderer.invoke('compress:remux', inputPath, options),
+
     estimate: (videoPath: string, config: CompressionConfig) =>
       ipcRenderer.invoke('compress:estimate', videoPath, config),
 
     batch: (files: Array<{ inputPath: string; config: CompressionConfig }>) =>
       ipcRenderer.invoke('compress:batch', files),
 
+    getBatchSummary: (batchId: string) =>
+      ipcRenderer.invoke('compress:batch:summary', batchId),
+
+    listQueue: () =>
+      ipcRenderer.invoke('compress:queue:list'),
+
+    pauseQueue: () =>
+      ipcRenderer.invoke('compress:queue:pause'),
+
+    resumeQueue: () =>
+      ipcRenderer.invoke('compress:queue:resume'),
+
+    clearFinishedJobs: () =>
+      ipcRenderer.invoke('compress:queue:clear-finished'),
+
+    pauseJob: (jobId: string) =>
+      ipcRenderer.invoke('compress:job:pause', jobId),
+
+    resumeJob: (jobId: string) =>
+      ipcRenderer.invoke('compress:job:resume', jobId),
+
+    moveJob: (jobId: string, target: TaskMoveTarget) =>
+      ipcRenderer.invoke('compress:job:move', jobId, target),
+
+    cancelJob: (jobId: string) =>
+      ipcRenderer.invoke('compress:job:cancel', jobId),
+
+    probeHardware: (refresh?: boolean) =>
+      ipcRenderer.invoke('compress:hardware:probe', refresh),
+
     recommend: (videoPath: string, targetSize: number) =>
       ipcRenderer.invoke('compress:recommend', videoPath, targetSize),
 
@@ -174,6 +380,24 @@ const prevideoAPI = {
     listPresets: () =>
       ipcRenderer.invoke('compress:presets:list'),
 
+    createPreset: (input: CompressionPresetInput) =>
+      ipcRenderer.invoke('compress:presets:create', input),
+
+    updatePreset: (id: string, input: Partial<CompressionPresetInput>) =>
+      ipcRenderer.invoke('compress:presets:update', id, input),
+
+    deletePreset: (id: string) =>
+      ipcRenderer.invoke('compress:presets:delete', id),
+
+    setDefaultPreset: (id: string) =>
+      ipcRenderer.invoke('compress:presets:set-default', id),
+
+    exportPresets: (ids?: string[]) =>
+      ipcRenderer.invoke('compress:presets:export', ids),
+
+    importPresets: () =>
+      ipcRenderer.invoke('compress:presets:import'),
+
     // Event listeners
     onProgress: (callback: (data: { taskId: string; task: CompressionTask }) => void) => {
       const listener = (event: IpcRendererEvent, data: any) => callback(data);
@@ -191,6 +415,18 @@ const prevideoAPI = {
       const listener = (event: IpcRendererEvent, data: any) => callback(data);
       ipcRenderer.on('compress:error', listener);
       return () => ipcRenderer.removeListener('compress:error', listener);
+    },
+
+    onQueueUpdated: (callback: (data: { jobs: CompressionJob[]; paused: boolean }) => void) => {
+      const listener = (event: IpcRendererEvent, data: any) => callback(data);
+      ipcRenderer.on('compress:queue:updated', listener);
+      return () => ipcRenderer.removeListener('compress:queue:updated', listener);
+    },
+
+    onBatchComplete: (callback: (summary: CompressionBatchSummary) => void) => {
+      const listener = (event: IpcRendererEvent, summary: CompressionBatchSummary) => callback(summary);
+      ipcRenderer.on('compress:batch:complete', listener);
+      return () => ipcRenderer.removeListener('compress:batch:complete', listener);
     }
   },
 
@@ -232,6 +468,42 @@ const prevideoAPI = {
     setProxy: (proxyUrl: string | null) =>
       ipcRenderer.invoke('settings:proxy:set', proxyUrl),
 
+    listNetworkProfiles: () =>
+      ipcRenderer.invoke('settings:network:list'),
+
+    createNetworkProfile: (profile: NetworkProfileInput) =>
+      ipcRenderer.invoke('settings:network:create', profile),
+
+    updateNetworkProfile: (profileId: string, profile: NetworkProfileInput) =>
+      ipcRenderer.invoke('settings:network:update', profileId, profile),
+
+    deleteNetworkProfile: (profileId: string) =>
+      ipcRenderer.invoke('settings:network:delete', profileId),
+
+    setDefaultNetworkProfile: (profileId: string | null) =>
+      ipcRenderer.invoke('settings:network:set-default', profileId),
+
+    selectCookiesFile: () =>
+      ipcRenderer.invoke('settings:network:select-cookies'),
+
+    listTranslationProviders: () =>
+      ipcRenderer.invoke('settings:translation:list'),
+
+    createTranslationProvider: (provider: TranslationProviderInput) =>
+      ipcRenderer.invoke('settings:translation:create', provider),
+
+    updateTranslationProvider: (providerId: string, provider: TranslationProviderInput) =>
+      ipcRenderer.invoke('settings:translation:update', providerId, provider),
+
+    deleteTranslationProvider: (providerId: string) =>
+      ipcRenderer.invoke('settings:translation:delete', providerId),
+
+    setDefaultTranslationProvider: (providerId: string) =>
+      ipcRenderer.invoke('settings:translation:set-default', providerId),
+
+    clearTranslationCache: () =>
+      ipcRenderer.invoke('settings:translation:clear-cache'),
+
     getSystemInfo: () =>
       ipcRenderer.invoke('settings:system:info'),
 
@@ -19,11 +19,13 @@ import {
   Settings as SettingsIcon,
   Folder as FolderIcon,
   History as HistoryIcon,
-  Queue as QueueIcon
+  Queue as QueueIcon,
+  Subtitles as SubtitlesIcon
 } from '@mui/icons-material';
 import { useAppDispatch, useAppSelector } from './hooks/redux';
 import HomePage from './pages/HomePage';
 import HistoryPage from './pages/HistoryPage';
+import SubtitleEditorPage from './pages/SubtitleEditorPage';
 import SettingsPage from './pages/SettingsPage';
 import SettingsDialog from './components/SettingsDialog';
 
@@ -145,6 +147,7 @@ const App: React.FC = () => {
             <Tab label="下载" {...a11yProps(0)} />
             <Tab label="历史" {...a11yProps(1)} icon={<HistoryIcon />} iconPosition="start" />
             <Tab label="队列" {...a11yProps(2)} icon={<QueueIcon />} iconPosition="start" />
+            <Tab label="字幕编辑" {...a11yProps(3)} icon={<SubtitlesIcon />} iconPosition="start" />
           </Tabs>
 
           <IconButton
@@ -174,6 +177,9 @@ const App: React.FC = () => {
         <TabPanel value={currentTab} index={2}>
           <Box>队列管理页面</Box>
         </TabPanel>
+        <TabPanel value={currentTab} index={3}>
+          <SubtitleEditorPage />
+        </TabPanel>
       </Box>
 
       <SettingsDialog
@@ -0,0 +1,101 @@
+/**
+ * Audio-only download options - codec, bitrate, cover art, tags and chapters
+ */
+
+import React from 'react';
+import {
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormGroup,
+  FormControlLabel,
+  Checkbox
+} from '@mui/material';
+import { AudioCodec, AudioExtractOptions } from '../../shared/types/tasks';
+
+interface AudioOptionsProps {
+  value: AudioExtractOptions;
+  onChange: (options: AudioExtractOptions) => void;
+  chapterCount: number;
+}
+
+const BITRATES = [128, 192, 256, 320];
+
+const AudioOptions: React.FC<AudioOptionsProps> = ({ value, onChange, chapterCount }) => {
+  const update = (changes: Partial<AudioExtractOptions>): void => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <Grid container spacing={2}>
+      <Grid item xs={12} md={6}>
+        <FormControl fullWidth size="small">
+          <InputLabel>音频格式</InputLabel>
+          <Select
+            value={value.codec}
+            onChange={(e) => update({ codec: e.target.value as AudioCodec })}
+            label="音频格式"
+          >
+            <MenuItem value="mp3">MP3</MenuItem>
+            <MenuItem value="m4a">M4A (AAC)</MenuItem>
+            <MenuItem value="opus">Opus</MenuItem>
+            <MenuItem value="flac">FLAC (无损)</MenuItem>
+          </Select>
+        </FormControl>
+      </Grid>
+
+      <Grid item xs={12} md={6}>
+        <FormControl fullWidth size="small" disabled={value.codec === 'flac'}>
+          <InputLabel>码率</InputLabel>
+          <Select
+            value={value.bitrate ?? ''}
+            onChange={(e) => update({ bitrate: e.target.value === '' ? undefined : Number(e.target.value) })}
+            label="码率"
+          >
+            <MenuItem value="">自动 (可变码率)</MenuItem>
+            {BITRATES.map(bitrate => (
+              <MenuItem key={bitrate} value={bitrate}>{bitrate} kbps</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+
+      <Grid item xs={12}>
+        <FormGroup row>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={value.embedCover ?? false}
+                onChange={(e) => update({ embedCover: e.target.checked })}
+              />
+            }
+            label="嵌入封面"
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={value.embedMetadata ?? false}
+                onChange={(e) => update({ embedMetadata: e.target.checked })}
+              />
+            }
+            label="写入标签 (标题、作者、日期、简介)"
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={value.splitChapters ?? false}
+                onChange={(e) => update({ splitChapters: e.target.checked })}
+                disabled={chapterCount === 0}
+              />
+            }
+            label={chapterCount > 0 ? `按章节分割 (${chapterCount} 个章节)` : '按章节分割 (无章节)'}
+          />
+        </FormGroup>
+      </Grid>
+    </Grid>
+  );
+};
+
+export default AudioOptions;
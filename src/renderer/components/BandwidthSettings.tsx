@@ -0,0 +1,117 @@
+/**
+ * Bandwidth settings component - global download limit and time-of-day windows
+ */
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Stack,
+  Alert,
+  InputAdornment,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { BandwidthWindow } from '../../shared/types/preferences';
+
+interface BandwidthSettingsProps {
+  bandwidthLimit?: number;
+  schedule: BandwidthWindow[];
+  onChange: (bandwidthLimit: number | undefined, schedule: BandwidthWindow[]) => void;
+}
+
+const BandwidthSettings: React.FC<BandwidthSettingsProps> = ({
+  bandwidthLimit,
+  schedule,
+  onChange
+}) => {
+  const parseLimit = (value: string): number => Math.max(0, parseInt(value) || 0);
+
+  const updateWindow = (index: number, updates: Partial<BandwidthWindow>): void => {
+    const next = schedule.map((window, i) => (i === index ? { ...window, ...updates } : window));
+    onChange(bandwidthLimit, next);
+  };
+
+  const addWindow = (): void => {
+    onChange(bandwidthLimit, [...schedule, { start: '09:00', end: '18:00', limit: 500 }]);
+  };
+
+  const removeWindow = (index: number): void => {
+    onChange(bandwidthLimit, schedule.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" gutterBottom>
+        下载限速
+      </Typography>
+      <TextField
+        size="small"
+        type="number"
+        label="全局限速"
+        value={bandwidthLimit ?? 0}
+        onChange={(e) => onChange(parseLimit(e.target.value) || undefined, schedule)}
+        helperText="由所有正在下载的任务平分，0 表示不限速"
+        InputProps={{ endAdornment: <InputAdornment position="end">KB/s</InputAdornment> }}
+        sx={{ width: 240 }}
+      />
+
+      <Typography variant="subtitle1" sx={{ mt: 3 }} gutterBottom>
+        分时段限速
+      </Typography>
+      <Alert severity="info" sx={{ mb: 2 }}>
+        时段内使用该时段的限速，时段外使用全局限速。结束时间早于开始时间表示跨越午夜。
+        时段切换时，正在下载的任务会以新的速度从断点继续。
+      </Alert>
+
+      <Stack spacing={1}>
+        {schedule.map((window, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              type="time"
+              label="开始"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              type="time"
+              label="结束"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="限速"
+              value={window.limit}
+              onChange={(e) => updateWindow(index, { limit: parseLimit(e.target.value) })}
+              InputProps={{ endAdornment: <InputAdornment position="end">KB/s</InputAdornment> }}
+              sx={{ width: 160 }}
+            />
+            <Tooltip title="删除时段">
+              <IconButton onClick={() => removeWindow(index)}>
+                <DeleteIcon />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        ))}
+      </Stack>
+
+      <Button startIcon={<AddIcon />} onClick={addWindow} sx={{ mt: 1 }}>
+        添加时段
+      </Button>
+    </Box>
+  );
+};
+
+export default BandwidthSettings;
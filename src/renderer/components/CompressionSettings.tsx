@@ -23,7 +23,12 @@ import {
   Stack,
   Tooltip,
   IconButton,
-  Collapse
+  Collapse,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Checkbox
 } from '@mui/material';
 import {
   Settings as SettingsIcon,
@@ -33,9 +38,18 @@ import {
   ExpandLess as ExpandLessIcon,
   HighQuality as QualityIcon,
   Speed as SpeedIcon,
-  Storage as StorageIcon
+  Storage as StorageIcon,
+  BookmarkAdd as SavePresetIcon
 } from '@mui/icons-material';
-import { CompressionConfig, CompressionPreset, VideoCodec, AudioCodec } from '../../shared/types/compression';
+import {
+  CompressionConfig,
+  CompressionPreset,
+  CompressionPresetConfig,
+  CompressionPresetRecord,
+  VideoCodec,
+  AudioCodec,
+  VideoResolution
+} from '../../shared/types/compression';
 
 interface CompressionSettingsProps {
   onSave?: (config: CompressionConfig) => void;
@@ -91,6 +105,18 @@ const CompressionSettings: React.FC<CompressionSettingsProps> = ({
   const [estimatedSize, setEstimatedSize] = useState<string>('');
   const [compressionRatio, setCompressionRatio] = useState<number>(0);
 
+  // Saved presets
+  const [savedPresets, setSavedPresets] = useState<CompressionPresetRecord[]>([]);
+  const [savePresetOpen, setSavePresetOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [presetDescription, setPresetDescription] = useState('');
+  const [presetIsDefault, setPresetIsDefault] = useState(false);
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadSavedPresets();
+  }, []);
+
   useEffect(() => {
     updateEstimation();
   }, [preset, customBitrate, resolution, fps, videoCodec, audioBitrate]);
@@ -169,6 +195,73 @@ const CompressionSettings: React.FC<CompressionSettingsProps> = ({
     onSave?.(config);
   };
 
+  const loadSavedPresets = async (): Promise<void> => {
+    try {
+      const result = await window.prevideo.compression.listPresets();
+      if (result.success) {
+        setSavedPresets(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load presets:', error);
+    }
+  };
+
+  // The form as a preset config; 0 fps means keep the source frame rate
+  const buildPresetConfig = (): CompressionPresetConfig => ({
+    outputFormat: 'mp4',
+    resolution: resolution as VideoResolution,
+    videoBitrate: customBitrate,
+    audioBitrate,
+    videoCodec,
+    audioCodec,
+    crf,
+    twoPass,
+    hardwareAcceleration: hardwareAccel,
+    fps: fps > 0 ? fps : undefined
+  });
+
+  const applySavedPreset = (saved: CompressionPresetRecord): void => {
+    const { config } = saved;
+    setPreset(CompressionPreset.CUSTOM);
+    setResolution(config.resolution);
+    setFps(config.fps ?? 0);
+    setCustomBitrate(config.videoBitrate ?? 2000);
+    setAudioBitrate(config.audioBitrate ?? 128);
+    setCrf(config.crf ?? 23);
+    setTwoPass(config.twoPass ?? false);
+    setHardwareAccel(config.hardwareAcceleration ?? false);
+    if (config.videoCodec !== undefined) {
+      setVideoCodec(config.videoCodec as VideoCodec);
+    }
+    if (config.audioCodec !== undefined) {
+      setAudioCodec(config.audioCodec as AudioCodec);
+    }
+  };
+
+  const openSavePreset = (): void => {
+    setPresetName('');
+    setPresetDescription('');
+    setPresetIsDefault(false);
+    setPresetError(null);
+    setSavePresetOpen(true);
+  };
+
+  const handleSavePreset = async (): Promise<void> => {
+    const result = await window.prevideo.compression.createPreset({
+      name: presetName,
+      description: presetDescription.trim() !== '' ? presetDescription : undefined,
+      config: buildPresetConfig(),
+      isDefault: presetIsDefault
+    });
+
+    if (result.success) {
+      setSavePresetOpen(false);
+      void loadSavedPresets();
+    } else {
+      setPresetError(result.error);
+    }
+  };
+
   const handleReset = () => {
     setPreset(CompressionPreset.BALANCED);
     setCustomBitrate(2000);
@@ -276,6 +369,27 @@ const CompressionSettings: React.FC<CompressionSettingsProps> = ({
         </Grid>
       </Box>
 
+      {/* Saved Presets */}
+      {savedPresets.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            已保存的预设
+          </Typography>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {savedPresets.map((saved) => (
+              <Tooltip key={saved.id} title={saved.description || `${saved.config.outputFormat.toUpperCase()} · ${saved.config.resolution}`}>
+                <Chip
+                  label={saved.isDefault ? `${saved.name}（${saved.config.outputFormat} 默认）` : saved.name}
+                  color={saved.isDefault ? 'primary' : 'default'}
+                  variant="outlined"
+                  onClick={() => applySavedPreset(saved)}
+                />
+              </Tooltip>
+            ))}
+          </Stack>
+        </Box>
+      )}
+
       <Divider sx={{ my: 2 }} />
 
       {/* Basic Settings */}
@@ -289,8 +403,8 @@ const CompressionSettings: React.FC<CompressionSettingsProps> = ({
               label="分辨率"
             >
               <MenuItem value="original">原始分辨率</MenuItem>
-              <MenuItem value="2160p">4K (2160p)</MenuItem>
-              <MenuItem value="1440p">2K (1440p)</MenuItem>
+              <MenuItem value="4K">4K (2160p)</MenuItem>
+              <MenuItem value="2K">2K (1440p)</MenuItem>
               <MenuItem value="1080p">全高清 (1080p)</MenuItem>
               <MenuItem value="720p">高清 (720p)</MenuItem>
               <MenuItem value="480p">标清 (480p)</MenuItem>
@@ -534,9 +648,16 @@ const CompressionSettings: React.FC<CompressionSettingsProps> = ({
         </>
       )}
 
-      {/* Save Button */}
-      {onSave && (
-        <Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end' }}>
+      {/* Save Buttons */}
+      <Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button
+          variant="outlined"
+          onClick={openSavePreset}
+          startIcon={<SavePresetIcon />}
+        >
+          保存为预设
+        </Button>
+        {onSave && (
           <Button
             variant="contained"
             onClick={handleSave}
@@ -544,8 +665,48 @@ const CompressionSettings: React.FC<CompressionSettingsProps> = ({
           >
             保存设置
           </Button>
-        </Box>
-      )}
+        )}
+      </Box>
+
+      <Dialog open={savePresetOpen} onClose={() => setSavePresetOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>保存为预设</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {presetError && <Alert severity="error">{presetError}</Alert>}
+            <TextField
+              label="名称"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              size="small"
+              autoFocus
+              required
+            />
+            <TextField
+              label="描述"
+              value={presetDescription}
+              onChange={(e) => setPresetDescription(e.target.value)}
+              size="small"
+              multiline
+              minRows={2}
+            />
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={presetIsDefault}
+                  onChange={(e) => setPresetIsDefault(e.target.checked)}
+                />
+              }
+              label="设为 MP4 的默认预设"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSavePresetOpen(false)}>取消</Button>
+          <Button variant="contained" onClick={handleSavePreset} disabled={presetName.trim() === ''}>
+            保存
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Paper>
   );
 };
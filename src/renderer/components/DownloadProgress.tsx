@@ -31,6 +31,7 @@ import {
 } from '@mui/icons-material';
 import { DownloadTask, DownloadProgress as Progress } from '../../shared/types/tasks';
 import { VideoInfo } from '../../shared/types/video';
+import { formatDownloadError } from '../utils/format';
 
 interface DownloadProgressProps {
   task: DownloadTask;
@@ -201,7 +202,7 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
                 </Typography>
                 {task.resumable && isPaused && (
                   <Typography variant="caption" color="warning.main">
-                    支持断点续传
+                    支持断点续传{task.resumePosition ? `（已保存 ${formatBytes(task.resumePosition)}）` : ''}
                   </Typography>
                 )}
               </Box>
@@ -332,7 +333,7 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
                   )}
                   {task.lastError && (
                     <Typography variant="body2" color="error">
-                      错误: {task.lastError}
+                      错误: {task.lastErrorCode && `[${formatDownloadError(task.lastErrorCode)}] `}{task.lastError}
                     </Typography>
                   )}
                 </Stack>
@@ -364,7 +365,7 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
                   <Stack spacing={0.5} sx={{ mt: 1 }}>
                     {task.failureHistory.map((failure, index) => (
                       <Typography key={index} variant="body2" color="error">
-                        {new Date(failure.timestamp).toLocaleTimeString()}: {failure.reason} (进度: {failure.progress}%)
+                        {new Date(failure.timestamp).toLocaleTimeString()}: {failure.errorCode && `[${formatDownloadError(failure.errorCode)}] `}{failure.reason} (进度: {failure.progress}%)
                       </Typography>
                     ))}
                   </Stack>
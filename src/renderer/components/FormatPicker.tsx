@@ -0,0 +1,220 @@
+/**
+ * Format picker component - explicit formats, codec preferences or a sort expression
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Radio,
+  Grid
+} from '@mui/material';
+import { VideoFormat } from '../../shared/types/video';
+import { FormatSelection, VideoCodecPreference } from '../../shared/types/tasks';
+
+type PickerMode = 'auto' | 'preference' | 'manual' | 'sort';
+
+interface FormatPickerProps {
+  formats: VideoFormat[];
+  value?: FormatSelection;
+  onChange: (selection: FormatSelection | undefined) => void;
+}
+
+const isVideoFormat = (format: VideoFormat): boolean =>
+  !!format.vcodec && format.vcodec !== 'none';
+
+const describeCodec = (codec?: string): string =>
+  !codec || codec === 'none' ? '-' : codec.split('.')[0];
+
+const formatSize = (format: VideoFormat): string => {
+  const bytes = format.filesize || format.filesizeApprox;
+  if (!bytes) return '-';
+  const size = bytes / 1024 / 1024;
+  const text = size >= 1024 ? `${(size / 1024).toFixed(2)} GB` : `${size.toFixed(1)} MB`;
+  return format.filesize ? text : `≈${text}`;
+};
+
+const getInitialMode = (value?: FormatSelection): PickerMode => {
+  if (!value) return 'auto';
+  if (value.videoFormatId || value.audioFormatId) return 'manual';
+  if (value.sort) return 'sort';
+  return 'preference';
+};
+
+const FormatPicker: React.FC<FormatPickerProps> = ({ formats, value, onChange }) => {
+  const [mode, setMode] = useState<PickerMode>(getInitialMode(value));
+  const selection = value ?? {};
+
+  const videoFormats = formats.filter(isVideoFormat);
+  const audioFormats = formats.filter(f => !isVideoFormat(f));
+
+  const handleModeChange = (newMode: PickerMode | null): void => {
+    if (!newMode) return;
+    setMode(newMode);
+    // Each mode starts from a clean selection; auto falls back to the quality setting
+    onChange(newMode === 'auto' ? undefined : {});
+  };
+
+  const update = (changes: Partial<FormatSelection>): void => {
+    onChange({ ...selection, ...changes });
+  };
+
+  const renderTable = (
+    rows: VideoFormat[],
+    selectedId: string | undefined,
+    onSelect: (formatId: string | undefined) => void,
+    showVideoColumns: boolean
+  ): JSX.Element => (
+    <TableContainer sx={{ maxHeight: 240, mb: 2 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox" />
+            <TableCell>ID</TableCell>
+            {showVideoColumns && <TableCell>分辨率</TableCell>}
+            {showVideoColumns && <TableCell>帧率</TableCell>}
+            <TableCell>容器</TableCell>
+            {showVideoColumns && <TableCell>视频编码</TableCell>}
+            <TableCell>音频编码</TableCell>
+            {showVideoColumns && <TableCell>动态范围</TableCell>}
+            <TableCell align="right">码率</TableCell>
+            <TableCell align="right">大小</TableCell>
+            <TableCell>备注</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(format => (
+            <TableRow
+              key={format.formatId}
+              hover
+              selected={format.formatId === selectedId}
+              onClick={() => onSelect(format.formatId === selectedId ? undefined : format.formatId)}
+              sx={{ cursor: 'pointer' }}
+            >
+              <TableCell padding="checkbox">
+                <Radio size="small" checked={format.formatId === selectedId} />
+              </TableCell>
+              <TableCell>{format.formatId}</TableCell>
+              {showVideoColumns && (
+                <TableCell>{format.width && format.height ? `${format.width}x${format.height}` : format.quality}</TableCell>
+              )}
+              {showVideoColumns && <TableCell>{format.fps || '-'}</TableCell>}
+              <TableCell>{format.ext}</TableCell>
+              {showVideoColumns && <TableCell>{describeCodec(format.vcodec)}</TableCell>}
+              <TableCell>{describeCodec(format.acodec)}</TableCell>
+              {showVideoColumns && <TableCell>{format.dynamicRange || '-'}</TableCell>}
+              <TableCell align="right">{format.tbr ? `${Math.round(format.tbr)}k` : '-'}</TableCell>
+              <TableCell align="right">{formatSize(format)}</TableCell>
+              <TableCell>{format.note || ''}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  return (
+    <Box>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={mode}
+        onChange={(_, newMode: PickerMode | null) => handleModeChange(newMode)}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="auto">按质量</ToggleButton>
+        <ToggleButton value="preference">编码偏好</ToggleButton>
+        <ToggleButton value="manual">指定格式</ToggleButton>
+        <ToggleButton value="sort">排序表达式</ToggleButton>
+      </ToggleButtonGroup>
+
+      {mode === 'preference' && (
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>视频编码</InputLabel>
+              <Select
+                value={selection.codec ?? ''}
+                onChange={(e) => update({ codec: (e.target.value || undefined) as VideoCodecPreference | undefined })}
+                label="视频编码"
+              >
+                <MenuItem value="">不限</MenuItem>
+                <MenuItem value="av1">AV1</MenuItem>
+                <MenuItem value="vp9">VP9</MenuItem>
+                <MenuItem value="h264">H.264</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>动态范围</InputLabel>
+              <Select
+                value={selection.dynamicRange ?? ''}
+                onChange={(e) => update({ dynamicRange: (e.target.value || undefined) as 'hdr' | 'sdr' | undefined })}
+                label="动态范围"
+              >
+                <MenuItem value="">不限</MenuItem>
+                <MenuItem value="hdr">优先 HDR</MenuItem>
+                <MenuItem value="sdr">优先 SDR</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="最大文件大小 (MB)"
+              value={selection.maxFilesize ? Math.round(selection.maxFilesize / 1024 / 1024) : ''}
+              onChange={(e) => {
+                const size = parseInt(e.target.value);
+                update({ maxFilesize: size > 0 ? size * 1024 * 1024 : undefined });
+              }}
+              inputProps={{ min: 1 }}
+            />
+          </Grid>
+        </Grid>
+      )}
+
+      {mode === 'manual' && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            视频格式 (不含音频的格式会自动搭配最佳音频)
+          </Typography>
+          {renderTable(videoFormats, selection.videoFormatId, id => update({ videoFormatId: id }), true)}
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            音频格式 (只选音频时仅下载音频)
+          </Typography>
+          {renderTable(audioFormats, selection.audioFormatId, id => update({ audioFormatId: id }), false)}
+        </Box>
+      )}
+
+      {mode === 'sort' && (
+        <TextField
+          fullWidth
+          size="small"
+          label="格式排序"
+          placeholder="res:1080,vcodec:av01,+size"
+          value={selection.sort ?? ''}
+          onChange={(e) => update({ sort: e.target.value || undefined })}
+          helperText="yt-dlp --format-sort 表达式，逗号分隔，靠前的字段优先"
+        />
+      )}
+    </Box>
+  );
+};
+
+export default FormatPicker;
@@ -0,0 +1,67 @@
+/**
+ * Network profile selector for downloads and playlists
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import { NetworkProfile } from '../../shared/types/network';
+
+interface NetworkProfileSelectProps {
+  value?: string;
+  onChange: (profileId: string | undefined) => void;
+  size?: 'small' | 'medium';
+  sx?: object;
+}
+
+const NetworkProfileSelect: React.FC<NetworkProfileSelectProps> = ({
+  value,
+  onChange,
+  size = 'small',
+  sx
+}) => {
+  const [profiles, setProfiles] = useState<NetworkProfile[]>([]);
+
+  useEffect(() => {
+    const loadProfiles = async (): Promise<void> => {
+      try {
+        const result = await window.prevideo.settings.listNetworkProfiles();
+        if (result.success) {
+          setProfiles(result.data);
+        }
+      } catch (error) {
+        console.error('Failed to load network profiles:', error);
+      }
+    };
+
+    void loadProfiles();
+  }, []);
+
+  const defaultProfile = profiles.find(p => p.isDefault);
+
+  return (
+    <FormControl fullWidth size={size} sx={sx}>
+      <InputLabel>网络配置</InputLabel>
+      <Select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        label="网络配置"
+      >
+        <MenuItem value="">
+          {defaultProfile ? `默认 (${defaultProfile.name})` : '默认 (直接连接)'}
+        </MenuItem>
+        {profiles.map(profile => (
+          <MenuItem key={profile.id} value={profile.id}>
+            {profile.name}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default NetworkProfileSelect;
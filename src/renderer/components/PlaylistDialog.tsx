@@ -0,0 +1,270 @@
+/**
+ * Playlist dialog component for picking items from a playlist or channel
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  TextField,
+  Typography,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  CircularProgress,
+  Alert,
+  Chip,
+  Stack
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  FilterList as FilterIcon
+} from '@mui/icons-material';
+import { useSnackbar } from 'notistack';
+import { PlaylistInfo, PlaylistFetchOptions } from '../../shared/types/video';
+import { formatDuration } from '../utils/format';
+import NetworkProfileSelect from './NetworkProfileSelect';
+
+interface PlaylistDialogProps {
+  open: boolean;
+  url: string;
+  onClose: () => void;
+  onQueued?: (count: number) => void;
+}
+
+const PlaylistDialog: React.FC<PlaylistDialogProps> = ({ open, url, onClose, onQueued }) => {
+  const { enqueueSnackbar } = useSnackbar();
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playlist, setPlaylist] = useState<PlaylistInfo | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Filters
+  const [startIndex, setStartIndex] = useState('');
+  const [endIndex, setEndIndex] = useState('');
+  const [dateAfter, setDateAfter] = useState('');
+  const [dateBefore, setDateBefore] = useState('');
+  const [networkProfileId, setNetworkProfileId] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (open && url) {
+      fetchPlaylist();
+    }
+    if (!open) {
+      setPlaylist(null);
+      setSelected(new Set());
+      setError(null);
+    }
+  }, [open, url]);
+
+  const fetchPlaylist = async () => {
+    const options: PlaylistFetchOptions = {
+      startIndex: startIndex ? parseInt(startIndex) : undefined,
+      endIndex: endIndex ? parseInt(endIndex) : undefined,
+      dateAfter: dateAfter || undefined,
+      dateBefore: dateBefore || undefined,
+      networkProfileId
+    };
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.prevideo.video.fetchPlaylist(url, options);
+      if (result.success) {
+        const fetched: PlaylistInfo = result.data;
+        setPlaylist(fetched);
+        setSelected(new Set(fetched.entries.map(entry => entry.id)));
+      } else {
+        setError(result.error || '获取播放列表失败');
+      }
+    } catch (error) {
+      console.error('Failed to fetch playlist:', error);
+      setError('获取播放列表失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleEntry = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    if (!playlist) return;
+    if (selected.size === playlist.entries.length) {
+      setSelected(new Set());
+    } else {
+      setSelected(new Set(playlist.entries.map(entry => entry.id)));
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!playlist || selected.size === 0) return;
+
+    setSubmitting(true);
+    try {
+      // Empty options fall back to the user's default download preferences
+      const result = await window.prevideo.video.downloadPlaylist(
+        playlist,
+        Array.from(selected),
+        { outputPath: '', networkProfileId }
+      );
+      if (result.success) {
+        enqueueSnackbar(`已添加 ${result.data.length} 个下载任务`, { variant: 'success' });
+        onQueued?.(result.data.length);
+        onClose();
+      } else {
+        enqueueSnackbar(result.error || '添加下载任务失败', { variant: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to download playlist:', error);
+      enqueueSnackbar('添加下载任务失败', { variant: 'error' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {playlist ? playlist.title : '播放列表'}
+        {playlist && (
+          <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+            <Chip
+              size="small"
+              label={playlist.type === 'channel' ? '频道' : '播放列表'}
+              color="primary"
+            />
+            <Chip size="small" label={`共 ${playlist.totalCount} 个视频`} />
+            {playlist.author && <Chip size="small" label={playlist.author} />}
+          </Stack>
+        )}
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {/* Filters */}
+        <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            size="small"
+            type="number"
+            label="起始序号"
+            value={startIndex}
+            onChange={(e) => setStartIndex(e.target.value)}
+            sx={{ width: 110 }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="结束序号"
+            value={endIndex}
+            onChange={(e) => setEndIndex(e.target.value)}
+            sx={{ width: 110 }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="发布于之后"
+            value={dateAfter}
+            onChange={(e) => setDateAfter(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="发布于之前"
+            value={dateBefore}
+            onChange={(e) => setDateBefore(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <NetworkProfileSelect
+            value={networkProfileId}
+            onChange={setNetworkProfileId}
+            sx={{ width: 180 }}
+          />
+          <Button
+            variant="outlined"
+            startIcon={<FilterIcon />}
+            onClick={fetchPlaylist}
+            disabled={loading}
+          >
+            筛选
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ py: 4, textAlign: 'center' }}>
+            <CircularProgress />
+          </Box>
+        ) : playlist && (
+          playlist.entries.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              没有符合条件的视频
+            </Typography>
+          ) : (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                <Checkbox
+                  checked={selected.size === playlist.entries.length}
+                  indeterminate={selected.size > 0 && selected.size < playlist.entries.length}
+                  onChange={toggleAll}
+                />
+                <Typography variant="body2">
+                  已选择 {selected.size} / {playlist.entries.length}
+                </Typography>
+              </Box>
+              <List dense>
+                {playlist.entries.map(entry => (
+                  <ListItem key={entry.id} button onClick={() => toggleEntry(entry.id)}>
+                    <ListItemIcon>
+                      <Checkbox edge="start" checked={selected.has(entry.id)} tabIndex={-1} />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={`${entry.playlistIndex ?? ''}. ${entry.title}`}
+                      secondary={[
+                        entry.duration ? formatDuration(entry.duration) : null,
+                        entry.uploadDate ? new Date(entry.uploadDate).toLocaleDateString() : null
+                      ].filter(Boolean).join(' · ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>取消</Button>
+        <Button
+          variant="contained"
+          startIcon={submitting ? <CircularProgress size={20} /> : <DownloadIcon />}
+          onClick={handleDownload}
+          disabled={!playlist || selected.size === 0 || submitting}
+        >
+          下载所选 ({selected.size})
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PlaylistDialog;
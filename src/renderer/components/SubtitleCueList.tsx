@@ -0,0 +1,211 @@
+/**
+ * Cue list for the subtitle editor - inline text and time editing with
+ * split, merge and delete per cue
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  IconButton,
+  Stack,
+  Tooltip
+} from '@mui/material';
+import {
+  ContentCut as SplitIcon,
+  MergeType as MergeIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { EditorCue, formatCueTime, parseCueTime } from '../utils/subtitle-edit';
+
+interface SubtitleCueListProps {
+  cues: EditorCue[];
+  selectedIndex: number;
+  activeIndex: number; // Cue under the playhead
+  onSelect: (index: number) => void;
+  onTextChange: (index: number, text: string) => void;
+  onTimingChange: (index: number, startTime: number, endTime: number) => void;
+  onSplit: (index: number, textOffset?: number) => void;
+  onMergeWithNext: (index: number) => void;
+  onDelete: (index: number) => void;
+}
+
+interface CueRowProps {
+  cue: EditorCue;
+  index: number;
+  isLast: boolean;
+  selected: boolean;
+  active: boolean;
+  onSelect: SubtitleCueListProps['onSelect'];
+  onTextChange: SubtitleCueListProps['onTextChange'];
+  onTimingChange: SubtitleCueListProps['onTimingChange'];
+  onSplit: SubtitleCueListProps['onSplit'];
+  onMergeWithNext: SubtitleCueListProps['onMergeWithNext'];
+  onDelete: SubtitleCueListProps['onDelete'];
+}
+
+// Time field that only commits a valid time when it loses focus
+const TimeField: React.FC<{ value: number; label: string; onCommit: (value: number) => void }> = ({
+  value,
+  label,
+  onCommit
+}) => {
+  const [text, setText] = useState(formatCueTime(value));
+
+  useEffect(() => {
+    setText(formatCueTime(value));
+  }, [value]);
+
+  const commit = (): void => {
+    const parsed = parseCueTime(text);
+    if (parsed === null) {
+      setText(formatCueTime(value));
+    } else if (parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <TextField
+      size="small"
+      variant="standard"
+      value={text}
+      error={parseCueTime(text) === null}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          (e.target as HTMLInputElement).blur();
+        }
+      }}
+      inputProps={{ 'aria-label': label, style: { fontFamily: 'monospace', fontSize: 12, width: 90 } }}
+    />
+  );
+};
+
+// Text edits are local until the field loses focus, so one edit is one undo step
+const CueRow: React.FC<CueRowProps> = React.memo(function CueRow({
+  cue,
+  index,
+  isLast,
+  selected,
+  active,
+  onSelect,
+  onTextChange,
+  onTimingChange,
+  onSplit,
+  onMergeWithNext,
+  onDelete
+}) {
+  const [text, setText] = useState(cue.text);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setText(cue.text);
+  }, [cue.text]);
+
+  useEffect(() => {
+    if (selected) {
+      rowRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [selected]);
+
+  return (
+    <Box
+      ref={rowRef}
+      onClick={() => onSelect(index)}
+      sx={{
+        display: 'flex',
+        gap: 1,
+        px: 1,
+        py: 0.5,
+        borderBottom: 1,
+        borderColor: 'divider',
+        borderLeft: 3,
+        borderLeftColor: active ? 'secondary.main' : 'transparent',
+        bgcolor: selected ? 'action.selected' : 'transparent'
+      }}
+    >
+      <Typography variant="caption" color="text.secondary" sx={{ width: 32, pt: 0.5, textAlign: 'right' }}>
+        {index + 1}
+      </Typography>
+      <Stack spacing={0.5}>
+        <TimeField value={cue.startTime} label="开始时间" onCommit={(start) => onTimingChange(index, start, Math.max(cue.endTime, start))} />
+        <TimeField value={cue.endTime} label="结束时间" onCommit={(end) => onTimingChange(index, cue.startTime, end)} />
+      </Stack>
+      <TextField
+        inputRef={inputRef}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onTextChange(index, text)}
+        multiline
+        fullWidth
+        size="small"
+        placeholder="字幕文本"
+      />
+      <Stack direction="row" alignItems="flex-start">
+        <Tooltip title="拆分（按光标位置拆分文本）">
+          <IconButton
+            size="small"
+            // Keep the caret position for the split
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => {
+              const caret = document.activeElement === inputRef.current ? inputRef.current?.selectionStart : undefined;
+              onTextChange(index, text);
+              onSplit(index, caret ?? undefined);
+            }}
+          >
+            <SplitIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="与下一条合并">
+          <span>
+            <IconButton size="small" disabled={isLast} onClick={() => onMergeWithNext(index)}>
+              <MergeIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="删除">
+          <IconButton size="small" onClick={() => onDelete(index)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+    </Box>
+  );
+});
+
+const SubtitleCueList: React.FC<SubtitleCueListProps> = ({
+  cues,
+  selectedIndex,
+  activeIndex,
+  ...handlers
+}) => {
+  if (cues.length === 0) {
+    return (
+      <Box sx={{ p: 3, textAlign: 'center' }}>
+        <Typography color="text.secondary">没有字幕，打开字幕文件或在时间轴上插入字幕</Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {cues.map((cue, index) => (
+        <CueRow
+          key={`${index}-${cue.startTime}-${cue.endTime}`}
+          cue={cue}
+          index={index}
+          isLast={index === cues.length - 1}
+          selected={index === selectedIndex}
+          active={index === activeIndex}
+          {...handlers}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export default SubtitleCueList;
@@ -45,8 +45,10 @@ import {
   SubtitleGenerationOptions,
   EmbedSubtitleOptions,
   BilingualSubtitleConfig,
-  SubtitleStyling
+  SubtitleStyling,
+  WhisperModelInfo
 } from '../../shared/types/subtitle';
+import { formatFileSize } from '../utils/format';
 
 interface SubtitleSettingsProps {
   videoPath?: string;
@@ -88,13 +90,13 @@ const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({
   const [outline, setOutline] = useState(true);
   const [shadow, setShadow] = useState(true);
   const [backgroundColor, setBackgroundColor] = useState<string>('#000000');
-  const [backgroundOpacity, setBackgroundOpacity] = useState<number>(0.5);
+  const [backgroundOpacity, setBackgroundOpacity] = useState<number>(50);
 
   // Embed settings
   const [hardSub, setHardSub] = useState(false);
 
   // Available models
-  const [availableModels, setAvailableModels] = useState<any[]>([]);
+  const [availableModels, setAvailableModels] = useState<WhisperModelInfo[]>([]);
   const [loadingModels, setLoadingModels] = useState(false);
 
   useEffect(() => {
@@ -107,7 +109,7 @@ const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({
     try {
       const result = await window.prevideo.subtitle.listModels();
       if (result.success) {
-        setAvailableModels(result.data);
+        setAvailableModels(result.data.models);
       }
     } catch (error) {
       console.error('Failed to load models:', error);
@@ -146,7 +148,7 @@ const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({
 
     const options: SubtitleGenerationOptions = {
       language: detectLanguage ? undefined : sourceLanguage,
-      model: whisperModel as any,
+      model: whisperModel,
       translate,
       detectLanguage,
       task: translate ? 'translate' : 'transcribe',
@@ -176,7 +178,8 @@ const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({
         shadow,
         backgroundColor,
         backgroundOpacity: backgroundOpacity / 100
-      }
+      },
+      hardSub
     };
 
     onBilingualCreate?.(config);
@@ -253,11 +256,13 @@ const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({
                         endAdornment={loadingModels && <CircularProgress size={20} />}
                       >
                         {availableModels.map((model) => (
-                          <MenuItem key={model.name} value={model.name}>
+                          <MenuItem key={model.id} value={model.id}>
                             <Box sx={{ display: 'flex', justifyContent: 'space-between', width: '100%' }}>
-                              <span>{model.name}</span>
+                              <span>{model.id}</span>
                               <Typography variant="caption" color="text.secondary">
-                                {model.size}
+                                {model.installed
+                                  ? formatFileSize(model.diskSize)
+                                  : `未下载 ${formatFileSize(model.downloadSize ?? 0)}`}
                               </Typography>
                             </Box>
                           </MenuItem>
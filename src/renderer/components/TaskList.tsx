@@ -27,7 +27,13 @@ import {
   FormControl,
   InputLabel,
   Select,
-  SelectChangeEvent
+  SelectChangeEvent,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  InputAdornment
 } from '@mui/material';
 import {
   Download as DownloadIcon,
@@ -47,10 +53,16 @@ import {
   Cancel as CancelledIcon,
   Replay as RetryIcon,
   DeleteSweep as ClearAllIcon,
-  Sort as SortIcon
+  Sort as SortIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+  VerticalAlignTop as MoveTopIcon,
+  VerticalAlignBottom as MoveBottomIcon,
+  DragIndicator as DragIcon,
+  Speed as SpeedIcon
 } from '@mui/icons-material';
-import { DownloadTask, ProcessingTask, TaskStatus } from '../../shared/types/tasks';
-import { formatFileSize as formatBytes, formatDuration, formatSpeed } from '../utils/format';
+import { DownloadTask, ProcessingTask, TaskStatus, TaskMoveTarget } from '../../shared/types/tasks';
+import { formatFileSize as formatBytes, formatDuration, formatSpeed, formatDownloadError } from '../utils/format';
 import DownloadProgress from './DownloadProgress';
 
 interface TaskListProps {
@@ -62,11 +74,13 @@ interface TaskListProps {
   onRemoveTask?: (taskId: string) => void;
   onClearCompleted?: () => void;
   onShowInFolder?: (path: string) => void;
+  onMoveTask?: (taskId: string, target: TaskMoveTarget) => void;
+  onSetRateLimit?: (taskId: string, limit: number | null) => void;
   variant?: 'compact' | 'detailed';
 }
 
 type TaskFilter = 'all' | 'active' | 'completed' | 'failed' | 'queued';
-type TaskSort = 'newest' | 'oldest' | 'name' | 'size' | 'progress';
+type TaskSort = 'queue' | 'newest' | 'oldest' | 'name' | 'size' | 'progress';
 
 const TaskList: React.FC<TaskListProps> = ({
   tasks,
@@ -77,13 +91,19 @@ const TaskList: React.FC<TaskListProps> = ({
   onRemoveTask,
   onClearCompleted,
   onShowInFolder,
+  onMoveTask,
+  onSetRateLimit,
   variant = 'compact'
 }) => {
   const [filter, setFilter] = useState<TaskFilter>('all');
-  const [sort, setSort] = useState<TaskSort>('newest');
+  const [sort, setSort] = useState<TaskSort>(onMoveTask ? 'queue' : 'newest');
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedTask, setSelectedTask] = useState<string | null>(null);
   const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+  const [draggedTask, setDraggedTask] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [rateLimitTask, setRateLimitTask] = useState<string | null>(null);
+  const [rateLimitValue, setRateLimitValue] = useState('');
 
   // Filter tasks
   const filteredTasks = tasks.filter(task => {
@@ -104,6 +124,11 @@ const TaskList: React.FC<TaskListProps> = ({
   // Sort tasks
   const sortedTasks = [...filteredTasks].sort((a, b) => {
     switch (sort) {
+      case 'queue':
+        return (
+          ((a as DownloadTask).queuePosition ?? Infinity) -
+          ((b as DownloadTask).queuePosition ?? Infinity)
+        );
       case 'newest':
         return b.startTime - a.startTime;
       case 'oldest':
@@ -157,14 +182,67 @@ const TaskList: React.FC<TaskListProps> = ({
       case 'remove':
         onRemoveTask?.(selectedTask);
         break;
+      case 'up':
+      case 'down':
+      case 'top':
+      case 'bottom':
+        onMoveTask?.(selectedTask, action as TaskMoveTarget);
+        break;
       case 'folder':
         const task = tasks.find(t => t.id === selectedTask);
         if (task) onShowInFolder?.(task.outputPath);
         break;
+      case 'rate-limit':
+        const current = (tasks.find(t => t.id === selectedTask) as DownloadTask | undefined)?.rateLimit;
+        setRateLimitValue(current !== undefined ? String(current) : '');
+        setRateLimitTask(selectedTask);
+        break;
     }
     handleMenuClose();
   };
 
+  // An empty value hands the task back to the shared global limit
+  const handleRateLimitSave = (useGlobal: boolean) => {
+    if (rateLimitTask) {
+      const limit = parseInt(rateLimitValue);
+      onSetRateLimit?.(rateLimitTask, useGlobal || isNaN(limit) ? null : Math.max(0, limit));
+    }
+    setRateLimitTask(null);
+  };
+
+  // Drag-and-drop reordering is only offered in queue order, where the
+  // visual position matches the task's place in its queue
+  const canReorder = Boolean(onMoveTask) && sort === 'queue';
+  const isWaiting = (task: DownloadTask | ProcessingTask) =>
+    task.status === 'queued' || task.status === 'paused';
+
+  const handleDragStart = (event: React.DragEvent, taskId: string) => {
+    event.dataTransfer.effectAllowed = 'move';
+    setDraggedTask(taskId);
+  };
+
+  const handleDragOver = (event: React.DragEvent, task: DownloadTask) => {
+    const dragged = tasks.find(t => t.id === draggedTask) as DownloadTask | undefined;
+    if (!dragged || dragged.id === task.id || dragged.queueId !== task.queueId) return;
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTarget(task.id);
+  };
+
+  const handleDrop = (event: React.DragEvent, task: DownloadTask) => {
+    event.preventDefault();
+    if (draggedTask && task.queuePosition !== undefined) {
+      onMoveTask?.(draggedTask, task.queuePosition);
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTask(null);
+    setDropTarget(null);
+  };
+
   const toggleTaskExpanded = (taskId: string) => {
     const newExpanded = new Set(expandedTasks);
     if (newExpanded.has(taskId)) {
@@ -297,6 +375,7 @@ const TaskList: React.FC<TaskListProps> = ({
               onChange={(e: SelectChangeEvent) => setSort(e.target.value as TaskSort)}
               label="排序"
             >
+              {onMoveTask && <MenuItem value="queue">队列顺序</MenuItem>}
               <MenuItem value="newest">最新</MenuItem>
               <MenuItem value="oldest">最旧</MenuItem>
               <MenuItem value="name">名称</MenuItem>
@@ -332,8 +411,23 @@ const TaskList: React.FC<TaskListProps> = ({
               {index > 0 && <Divider />}
               <ListItem
                 onClick={() => toggleTaskExpanded(task.id)}
-                sx={{ cursor: 'pointer', '&:hover': { backgroundColor: 'action.hover' } }}
+                draggable={canReorder && isWaiting(task)}
+                onDragStart={(e) => handleDragStart(e, task.id)}
+                onDragOver={(e) => handleDragOver(e, task as DownloadTask)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, task as DownloadTask)}
+                onDragEnd={handleDragEnd}
+                sx={{
+                  cursor: 'pointer',
+                  opacity: draggedTask === task.id ? 0.5 : 1,
+                  borderTop: dropTarget === task.id ? 2 : 0,
+                  borderColor: 'primary.main',
+                  '&:hover': { backgroundColor: 'action.hover' }
+                }}
               >
+                {canReorder && isWaiting(task) && (
+                  <DragIcon fontSize="small" color="action" sx={{ mr: 1, cursor: 'grab' }} />
+                )}
                 <ListItemIcon>
                   {getStatusIcon(task.status)}
                 </ListItemIcon>
@@ -372,6 +466,12 @@ const TaskList: React.FC<TaskListProps> = ({
                             剩余: {formatDuration(task.eta)}
                           </Typography>
                         )}
+                        {'nextRetryAt' in task && task.nextRetryAt && (
+                          <Typography variant="caption" color="warning.main">
+                            {formatDownloadError(task.lastErrorCode)}，将于 {new Date(task.nextRetryAt).toLocaleTimeString()} 重试
+                            （第 {task.retryCount}/{task.maxRetries} 次）
+                          </Typography>
+                        )}
                       </Box>
 
                       {/* Progress Bar */}
@@ -415,6 +515,9 @@ const TaskList: React.FC<TaskListProps> = ({
                               <Grid item xs={12}>
                                 <Alert severity="error" sx={{ py: 0 }}>
                                   <Typography variant="caption">
+                                    {'lastErrorCode' in task && task.lastErrorCode && (
+                                      <strong>{formatDownloadError(task.lastErrorCode)}: </strong>
+                                    )}
                                     {task.lastError}
                                   </Typography>
                                 </Alert>
@@ -492,6 +595,42 @@ const TaskList: React.FC<TaskListProps> = ({
                 </MenuItem>
               )}
 
+              {onMoveTask && isWaiting(task) && [
+                <MenuItem key="top" onClick={() => handleMenuAction('top')}>
+                  <ListItemIcon>
+                    <MoveTopIcon />
+                  </ListItemIcon>
+                  <ListItemText>置顶</ListItemText>
+                </MenuItem>,
+                <MenuItem key="up" onClick={() => handleMenuAction('up')}>
+                  <ListItemIcon>
+                    <MoveUpIcon />
+                  </ListItemIcon>
+                  <ListItemText>上移</ListItemText>
+                </MenuItem>,
+                <MenuItem key="down" onClick={() => handleMenuAction('down')}>
+                  <ListItemIcon>
+                    <MoveDownIcon />
+                  </ListItemIcon>
+                  <ListItemText>下移</ListItemText>
+                </MenuItem>,
+                <MenuItem key="bottom" onClick={() => handleMenuAction('bottom')}>
+                  <ListItemIcon>
+                    <MoveBottomIcon />
+                  </ListItemIcon>
+                  <ListItemText>置底</ListItemText>
+                </MenuItem>
+              ]}
+
+              {onSetRateLimit && (task.status === 'downloading' || isWaiting(task)) && (
+                <MenuItem onClick={() => handleMenuAction('rate-limit')}>
+                  <ListItemIcon>
+                    <SpeedIcon />
+                  </ListItemIcon>
+                  <ListItemText>限速</ListItemText>
+                </MenuItem>
+              )}
+
               {task.status === 'completed' && (
                 <MenuItem onClick={() => handleMenuAction('folder')}>
                   <ListItemIcon>
@@ -513,6 +652,31 @@ const TaskList: React.FC<TaskListProps> = ({
           );
         })()}
       </Menu>
+
+      {/* Per-task rate limit */}
+      <Dialog open={Boolean(rateLimitTask)} onClose={() => setRateLimitTask(null)}>
+        <DialogTitle>任务限速</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            type="number"
+            margin="dense"
+            label="限速"
+            value={rateLimitValue}
+            onChange={(e) => setRateLimitValue(e.target.value)}
+            helperText="单独设置后不再参与全局限速的分配，0 表示不限速"
+            InputProps={{ endAdornment: <InputAdornment position="end">KB/s</InputAdornment> }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => handleRateLimitSave(true)}>使用全局限速</Button>
+          <Button onClick={() => setRateLimitTask(null)}>取消</Button>
+          <Button variant="contained" onClick={() => handleRateLimitSave(false)}>
+            确定
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Paper>
   );
 };
@@ -20,7 +20,9 @@ import {
   MenuItem,
   Chip,
   Stack,
-  Tooltip
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
 import {
   Download as DownloadIcon,
@@ -32,7 +34,11 @@ import {
 } from '@mui/icons-material';
 import { useSnackbar } from 'notistack';
 import { VideoInfo } from '../../shared/types/video';
-import { DownloadOptions } from '../../shared/types/tasks';
+import { DownloadOptions, FormatSelection, AudioExtractOptions } from '../../shared/types/tasks';
+import PlaylistDialog from './PlaylistDialog';
+import NetworkProfileSelect from './NetworkProfileSelect';
+import FormatPicker from './FormatPicker';
+import AudioOptions from './AudioOptions';
 
 interface VideoInputFormProps {
   onStartDownload: (url: string, options: DownloadOptions) => Promise<void>;
@@ -44,6 +50,7 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
   const [loading, setLoading] = useState(false);
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
   const [showOptions, setShowOptions] = useState(false);
+  const [showPlaylist, setShowPlaylist] = useState(false);
 
   // Download options
   const [quality, setQuality] = useState<string>('best');
@@ -51,6 +58,14 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
   const [filename, setFilename] = useState<string>('');
   const [subtitleLanguages, setSubtitleLanguages] = useState<string[]>([]);
   const [format, setFormat] = useState<string>('mp4');
+  const [networkProfileId, setNetworkProfileId] = useState<string | undefined>();
+  const [formatSelection, setFormatSelection] = useState<FormatSelection | undefined>();
+  const [audioOnly, setAudioOnly] = useState(false);
+  const [audioOptions, setAudioOptions] = useState<AudioExtractOptions>({
+    codec: 'mp3',
+    embedCover: true,
+    embedMetadata: true
+  });
 
   const handlePaste = async () => {
     try {
@@ -68,6 +83,7 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
     setUrl('');
     setVideoInfo(null);
     setShowOptions(false);
+    setFormatSelection(undefined);
   };
 
   const validateUrl = (url: string): boolean => {
@@ -75,6 +91,10 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
     return pattern.test(url);
   };
 
+  const isPlaylistUrl = (url: string): boolean => {
+    return /[?&]list=|\/playlist\b|\/(channel|c|user)\/|\/@/.test(url);
+  };
+
   const fetchVideoInfo = async () => {
     if (!url) {
       enqueueSnackbar('请输入视频链接', { variant: 'warning' });
@@ -86,6 +106,12 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
       return;
     }
 
+    // Playlists and channels are expanded in their own dialog
+    if (isPlaylistUrl(url)) {
+      setShowPlaylist(true);
+      return;
+    }
+
     setLoading(true);
     try {
       const result = await window.prevideo.video.fetchInfo(url);
@@ -133,7 +159,13 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
       outputPath,
       filename: filename || undefined,
       subtitleLanguages: subtitleLanguages.length > 0 ? subtitleLanguages : undefined,
-      preferredFormat: format
+      preferredFormat: format,
+      networkProfileId,
+      // An empty selection leaves the choice to the quality setting
+      formatSelection: formatSelection && Object.values(formatSelection).some(v => v !== undefined)
+        ? formatSelection
+        : undefined,
+      audio: audioOnly ? audioOptions : undefined
     };
 
     try {
@@ -261,42 +293,70 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
               </Typography>
 
               <Grid container spacing={2}>
-                <Grid item xs={12} md={6}>
-                  <FormControl fullWidth size="small">
-                    <InputLabel>视频质量</InputLabel>
-                    <Select
-                      value={quality}
-                      onChange={(e) => setQuality(e.target.value)}
-                      label="视频质量"
-                    >
-                      <MenuItem value="best">最佳质量</MenuItem>
-                      <MenuItem value="2160p">4K (2160p)</MenuItem>
-                      <MenuItem value="1440p">2K (1440p)</MenuItem>
-                      <MenuItem value="1080p">全高清 (1080p)</MenuItem>
-                      <MenuItem value="720p">高清 (720p)</MenuItem>
-                      <MenuItem value="480p">标清 (480p)</MenuItem>
-                      <MenuItem value="360p">流畅 (360p)</MenuItem>
-                      <MenuItem value="worst">最小文件</MenuItem>
-                    </Select>
-                  </FormControl>
+                <Grid item xs={12}>
+                  <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={audioOnly ? 'audio' : 'video'}
+                    onChange={(_, mode: string | null) => {
+                      if (mode) {
+                        setAudioOnly(mode === 'audio');
+                      }
+                    }}
+                  >
+                    <ToggleButton value="video">视频</ToggleButton>
+                    <ToggleButton value="audio">仅音频</ToggleButton>
+                  </ToggleButtonGroup>
                 </Grid>
 
-                <Grid item xs={12} md={6}>
-                  <FormControl fullWidth size="small">
-                    <InputLabel>输出格式</InputLabel>
-                    <Select
-                      value={format}
-                      onChange={(e) => setFormat(e.target.value)}
-                      label="输出格式"
-                    >
-                      <MenuItem value="mp4">MP4</MenuItem>
-                      <MenuItem value="webm">WebM</MenuItem>
-                      <MenuItem value="mkv">MKV</MenuItem>
-                      <MenuItem value="mov">MOV</MenuItem>
-                      <MenuItem value="avi">AVI</MenuItem>
-                    </Select>
-                  </FormControl>
-                </Grid>
+                {audioOnly ? (
+                  <Grid item xs={12}>
+                    <AudioOptions
+                      value={audioOptions}
+                      onChange={setAudioOptions}
+                      chapterCount={videoInfo.chapters?.length ?? 0}
+                    />
+                  </Grid>
+                ) : (
+                  <>
+                    <Grid item xs={12} md={6}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>视频质量</InputLabel>
+                        <Select
+                          value={quality}
+                          onChange={(e) => setQuality(e.target.value)}
+                          label="视频质量"
+                        >
+                          <MenuItem value="best">最佳质量</MenuItem>
+                          <MenuItem value="2160p">4K (2160p)</MenuItem>
+                          <MenuItem value="1440p">2K (1440p)</MenuItem>
+                          <MenuItem value="1080p">全高清 (1080p)</MenuItem>
+                          <MenuItem value="720p">高清 (720p)</MenuItem>
+                          <MenuItem value="480p">标清 (480p)</MenuItem>
+                          <MenuItem value="360p">流畅 (360p)</MenuItem>
+                          <MenuItem value="worst">最小文件</MenuItem>
+                        </Select>
+                      </FormControl>
+                    </Grid>
+
+                    <Grid item xs={12} md={6}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>输出格式</InputLabel>
+                        <Select
+                          value={format}
+                          onChange={(e) => setFormat(e.target.value)}
+                          label="输出格式"
+                        >
+                          <MenuItem value="mp4">MP4</MenuItem>
+                          <MenuItem value="webm">WebM</MenuItem>
+                          <MenuItem value="mkv">MKV</MenuItem>
+                          <MenuItem value="mov">MOV</MenuItem>
+                          <MenuItem value="avi">AVI</MenuItem>
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                  </>
+                )}
 
                 <Grid item xs={12}>
                   <Box sx={{ display: 'flex', gap: 1 }}>
@@ -317,6 +377,20 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
                   </Box>
                 </Grid>
 
+                {!audioOnly && videoInfo.availableFormats.length > 0 && (
+                  <Grid item xs={12}>
+                    <FormatPicker
+                      formats={videoInfo.availableFormats}
+                      value={formatSelection}
+                      onChange={setFormatSelection}
+                    />
+                  </Grid>
+                )}
+
+                <Grid item xs={12} md={6}>
+                  <NetworkProfileSelect value={networkProfileId} onChange={setNetworkProfileId} />
+                </Grid>
+
                 <Grid item xs={12}>
                   <TextField
                     fullWidth
@@ -328,7 +402,7 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
                   />
                 </Grid>
 
-                {videoInfo.availableSubtitles.length > 0 && (
+                {!audioOnly && videoInfo.availableSubtitles.length > 0 && (
                   <Grid item xs={12}>
                     <FormControl fullWidth size="small">
                       <InputLabel>下载字幕</InputLabel>
@@ -378,6 +452,13 @@ const VideoInputForm: React.FC<VideoInputFormProps> = ({ onStartDownload }) => {
           )}
         </Collapse>
       </Paper>
+
+      <PlaylistDialog
+        open={showPlaylist}
+        url={url}
+        onClose={() => setShowPlaylist(false)}
+        onQueued={handleClear}
+      />
     </Box>
   );
 };
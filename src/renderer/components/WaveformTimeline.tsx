@@ -0,0 +1,343 @@
+/**
+ * Waveform timeline for the subtitle editor - audio peaks, cue blocks whose
+ * start and end can be dragged, and the playhead
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Stack,
+  Tooltip,
+  CircularProgress,
+  useTheme
+} from '@mui/material';
+import {
+  ZoomIn as ZoomInIcon,
+  ZoomOut as ZoomOutIcon
+} from '@mui/icons-material';
+import { WaveformData } from '../../shared/types/subtitle';
+import { EditorCue, MIN_CUE_DURATION } from '../utils/subtitle-edit';
+
+interface WaveformTimelineProps {
+  cues: EditorCue[];
+  waveform: WaveformData | null;
+  isLoadingWaveform?: boolean;
+  duration: number; // ms
+  currentTime: number; // ms
+  selectedIndex: number;
+  onSeek: (time: number) => void;
+  onSelect: (index: number) => void;
+  onTimingChange: (index: number, startTime: number, endTime: number) => void;
+}
+
+type DragMode = 'start' | 'end' | 'move';
+
+interface DragState {
+  index: number;
+  mode: DragMode;
+  originX: number;
+  startTime: number;
+  endTime: number;
+}
+
+const TIMELINE_HEIGHT = 140;
+const RULER_HEIGHT = 18;
+const HANDLE_WIDTH = 6;
+const ZOOM_LEVELS = [10, 25, 50, 100, 200, 400]; // px per second
+const TICK_INTERVALS = [1, 2, 5, 10, 30, 60, 300, 600]; // seconds
+
+const formatTick = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  cues,
+  waveform,
+  isLoadingWaveform = false,
+  duration,
+  currentTime,
+  selectedIndex,
+  onSeek,
+  onSelect,
+  onTimingChange
+}) => {
+  const theme = useTheme();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [zoom, setZoom] = useState(100);
+  const [viewport, setViewport] = useState({ left: 0, width: 0 });
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dragTiming, setDragTiming] = useState<{ startTime: number; endTime: number } | null>(null);
+
+  const pxPerMs = zoom / 1000;
+  const contentWidth = Math.max(viewport.width, Math.ceil(duration * pxPerMs));
+
+  // Follow scrolling and resizing so only the visible part gets drawn
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+
+    const update = (): void => setViewport({ left: element.scrollLeft, width: element.clientWidth });
+    update();
+    element.addEventListener('scroll', update);
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, []);
+
+  // Keep the playhead in view while playing, and centred after zooming
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || drag) {
+      return;
+    }
+
+    const x = currentTime * pxPerMs;
+    if (x < element.scrollLeft || x > element.scrollLeft + element.clientWidth) {
+      element.scrollLeft = Math.max(0, x - element.clientWidth / 4);
+    }
+  }, [currentTime]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element) {
+      element.scrollLeft = Math.max(0, currentTime * pxPerMs - element.clientWidth / 2);
+    }
+  }, [zoom]);
+
+  // Ruler and waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || viewport.width === 0) {
+      return;
+    }
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewport.width * ratio;
+    canvas.height = TIMELINE_HEIGHT * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, viewport.width, TIMELINE_HEIGHT);
+
+    // One labelled tick at least every 80px
+    const interval = TICK_INTERVALS.find(seconds => seconds * zoom >= 80) ?? TICK_INTERVALS[TICK_INTERVALS.length - 1];
+    const firstTick = Math.floor(viewport.left / zoom / interval) * interval;
+    context.fillStyle = theme.palette.text.secondary;
+    context.strokeStyle = theme.palette.divider;
+    context.font = '10px sans-serif';
+    for (let seconds = firstTick; seconds * zoom < viewport.left + viewport.width; seconds += interval) {
+      const x = Math.round(seconds * zoom - viewport.left) + 0.5;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, TIMELINE_HEIGHT);
+      context.stroke();
+      context.fillText(formatTick(seconds), x + 3, 11);
+    }
+
+    if (!waveform) {
+      return;
+    }
+
+    // Each pixel column shows the loudest peak it covers
+    const middle = RULER_HEIGHT + (TIMELINE_HEIGHT - RULER_HEIGHT) / 2;
+    const amplitude = (TIMELINE_HEIGHT - RULER_HEIGHT) / 2 - 4;
+    const peaksPerPixel = waveform.peaksPerSecond / zoom;
+    context.fillStyle = theme.palette.primary.light;
+
+    for (let x = 0; x < viewport.width; x++) {
+      const from = Math.floor((viewport.left + x) * peaksPerPixel);
+      const to = Math.max(from + 1, Math.floor((viewport.left + x + 1) * peaksPerPixel));
+      if (from >= waveform.peaks.length) {
+        break;
+      }
+
+      let peak = 0;
+      for (let i = from; i < to && i < waveform.peaks.length; i++) {
+        peak = Math.max(peak, waveform.peaks[i]);
+      }
+      const height = Math.max(1, peak * amplitude);
+      context.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [waveform, viewport, zoom, theme]);
+
+  // Dragging follows the mouse anywhere on the page and commits on release
+  useEffect(() => {
+    if (!drag) {
+      return;
+    }
+
+    const timingAt = (clientX: number): { startTime: number; endTime: number } => {
+      const delta = (clientX - drag.originX) / pxPerMs;
+      if (drag.mode === 'start') {
+        return { startTime: Math.max(0, Math.min(drag.startTime + delta, drag.endTime - MIN_CUE_DURATION)), endTime: drag.endTime };
+      }
+      if (drag.mode === 'end') {
+        return { startTime: drag.startTime, endTime: Math.max(drag.startTime + MIN_CUE_DURATION, drag.endTime + delta) };
+      }
+      const shift = Math.max(-drag.startTime, delta);
+      return { startTime: drag.startTime + shift, endTime: drag.endTime + shift };
+    };
+
+    const handleMove = (event: MouseEvent): void => {
+      setDragTiming(timingAt(event.clientX));
+    };
+
+    const handleUp = (event: MouseEvent): void => {
+      const timing = timingAt(event.clientX);
+      if (Math.round(timing.startTime) !== drag.startTime || Math.round(timing.endTime) !== drag.endTime) {
+        onTimingChange(drag.index, timing.startTime, timing.endTime);
+      }
+      setDrag(null);
+      setDragTiming(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, pxPerMs, onTimingChange]);
+
+  const startDrag = (event: React.MouseEvent, index: number, mode: DragMode): void => {
+    event.stopPropagation();
+    event.preventDefault();
+    onSelect(index);
+    setDrag({ index, mode, originX: event.clientX, startTime: cues[index].startTime, endTime: cues[index].endTime });
+  };
+
+  const handleBackgroundClick = (event: React.MouseEvent<HTMLDivElement>): void => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, (event.clientX - rect.left) / pxPerMs));
+  };
+
+  const changeZoom = (step: number): void => {
+    const index = ZOOM_LEVELS.indexOf(zoom) + step;
+    if (index >= 0 && index < ZOOM_LEVELS.length) {
+      setZoom(ZOOM_LEVELS[index]);
+    }
+  };
+
+  const visibleStart = viewport.left / pxPerMs;
+  const visibleEnd = (viewport.left + viewport.width) / pxPerMs;
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 0.5 }}>
+        <Tooltip title="缩小">
+          <span>
+            <IconButton size="small" onClick={() => changeZoom(-1)} disabled={zoom === ZOOM_LEVELS[0]}>
+              <ZoomOutIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="放大">
+          <span>
+            <IconButton size="small" onClick={() => changeZoom(1)} disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}>
+              <ZoomInIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Typography variant="caption" color="text.secondary">
+          {zoom} 像素/秒 · 拖动字幕两端调整开始/结束时间，拖动中间整体移动
+        </Typography>
+        {isLoadingWaveform && <CircularProgress size={14} />}
+      </Stack>
+
+      <Box
+        ref={scrollRef}
+        sx={{
+          position: 'relative',
+          height: TIMELINE_HEIGHT + 16,
+          overflowX: 'auto',
+          overflowY: 'hidden',
+          bgcolor: 'background.default',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1
+        }}
+      >
+        <Box
+          onMouseDown={handleBackgroundClick}
+          sx={{ position: 'relative', width: contentWidth, height: TIMELINE_HEIGHT, cursor: 'text' }}
+        >
+          <canvas
+            ref={canvasRef}
+            style={{
+              position: 'sticky',
+              left: 0,
+              width: viewport.width,
+              height: TIMELINE_HEIGHT,
+              display: 'block',
+              pointerEvents: 'none'
+            }}
+          />
+
+          {cues.map((cue, index) => {
+            const timing = drag?.index === index && dragTiming ? dragTiming : cue;
+            if (timing.endTime < visibleStart || timing.startTime > visibleEnd) {
+              return null;
+            }
+            const selected = index === selectedIndex;
+
+            return (
+              <Box
+                key={`${index}-${cue.startTime}`}
+                onMouseDown={(event) => startDrag(event, index, 'move')}
+                title={cue.text}
+                sx={{
+                  position: 'absolute',
+                  top: RULER_HEIGHT + 4,
+                  left: timing.startTime * pxPerMs,
+                  width: Math.max(2, (timing.endTime - timing.startTime) * pxPerMs),
+                  height: TIMELINE_HEIGHT - RULER_HEIGHT - 8,
+                  bgcolor: selected ? 'rgba(25, 118, 210, 0.45)' : 'rgba(255, 255, 255, 0.12)',
+                  border: 1,
+                  borderColor: selected ? 'primary.main' : 'rgba(255, 255, 255, 0.3)',
+                  borderRadius: 0.5,
+                  overflow: 'hidden',
+                  cursor: 'grab'
+                }}
+              >
+                <Typography variant="caption" sx={{ display: 'block', px: 1, lineHeight: 1.3, whiteSpace: 'pre-line', pointerEvents: 'none' }}>
+                  {cue.text}
+                </Typography>
+                <Box
+                  onMouseDown={(event) => startDrag(event, index, 'start')}
+                  sx={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: HANDLE_WIDTH, cursor: 'ew-resize' }}
+                />
+                <Box
+                  onMouseDown={(event) => startDrag(event, index, 'end')}
+                  sx={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: HANDLE_WIDTH, cursor: 'ew-resize' }}
+                />
+              </Box>
+            );
+          })}
+
+          <Box
+            sx={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: currentTime * pxPerMs,
+              width: 2,
+              bgcolor: 'secondary.main',
+              pointerEvents: 'none'
+            }}
+          />
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default WaveformTimeline;
@@ -4,6 +4,7 @@
 
 export { useDownloadManager } from './useDownloadManager';
 export { useSubtitleGenerator } from './useSubtitleGenerator';
+export { useSubtitleEditor } from './useSubtitleEditor';
 export { useVideoCompressor } from './useVideoCompressor';
 export { usePreferences } from './usePreferences';
 export { useAppDispatch, useAppSelector } from './redux';
\ No newline at end of file
@@ -0,0 +1,130 @@
+/**
+ * Custom hook for the subtitle editor: loaded subtitle, edit history,
+ * waveform and saving
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useSnackbar } from 'notistack';
+import { Subtitle, WaveformData } from '../../shared/types/subtitle';
+import {
+  EditorCue,
+  EditorHistory,
+  createHistory,
+  commitEdit,
+  undo as undoHistory,
+  redo as redoHistory
+} from '../utils/subtitle-edit';
+
+interface SubtitleEditorState {
+  subtitle: Subtitle | null;
+  subtitlePath: string | null;
+  videoPath: string | null;
+  waveform: WaveformData | null;
+  cues: EditorCue[];
+  isDirty: boolean;
+  isLoadingWaveform: boolean;
+  isSaving: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface SubtitleEditorActions {
+  openSubtitle: (filePath: string) => Promise<void>;
+  openVideo: (filePath: string) => Promise<void>;
+  edit: (update: (cues: EditorCue[]) => EditorCue[]) => void;
+  undo: () => void;
+  redo: () => void;
+  save: () => Promise<void>;
+}
+
+export function useSubtitleEditor(): SubtitleEditorState & SubtitleEditorActions {
+  const { enqueueSnackbar } = useSnackbar();
+  const [subtitle, setSubtitle] = useState<Subtitle | null>(null);
+  const [subtitlePath, setSubtitlePath] = useState<string | null>(null);
+  const [videoPath, setVideoPath] = useState<string | null>(null);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [history, setHistory] = useState<EditorHistory>(createHistory([]));
+  // The cue list as last saved, to tell whether there are unsaved edits
+  const [savedCues, setSavedCues] = useState<EditorCue[]>([]);
+  const [isLoadingWaveform, setIsLoadingWaveform] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openSubtitle = useCallback(async (filePath: string) => {
+    const result = await window.prevideo.subtitle.load(filePath);
+    if (!result.success) {
+      enqueueSnackbar(`无法打开字幕：${result.error}`, { variant: 'error' });
+      return;
+    }
+
+    const loaded: Subtitle = result.data;
+    const initial = createHistory(loaded.timestamps ?? []);
+    setSubtitle(loaded);
+    setSubtitlePath(filePath);
+    setHistory(initial);
+    setSavedCues(initial.present);
+  }, [enqueueSnackbar]);
+
+  const openVideo = useCallback(async (filePath: string) => {
+    setVideoPath(filePath);
+    setWaveform(null);
+    setIsLoadingWaveform(true);
+
+    try {
+      const result = await window.prevideo.subtitle.getWaveform(filePath);
+      if (result.success) {
+        setWaveform(result.data);
+      } else {
+        enqueueSnackbar(`无法读取音频波形：${result.error}`, { variant: 'warning' });
+      }
+    } finally {
+      setIsLoadingWaveform(false);
+    }
+  }, [enqueueSnackbar]);
+
+  const edit = useCallback((update: (cues: EditorCue[]) => EditorCue[]) => {
+    setHistory(prev => commitEdit(prev, update(prev.present)));
+  }, []);
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+
+  const save = useCallback(async () => {
+    if (!subtitle || !subtitlePath) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await window.prevideo.subtitle.save(subtitle, subtitlePath, history.present);
+      if (result.success) {
+        setSavedCues(history.present);
+        enqueueSnackbar('字幕已保存', { variant: 'success' });
+      } else {
+        enqueueSnackbar(`保存失败：${result.error}`, { variant: 'error' });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  }, [subtitle, subtitlePath, history.present, enqueueSnackbar]);
+
+  const isDirty = useMemo(() => history.present !== savedCues, [history.present, savedCues]);
+
+  return {
+    subtitle,
+    subtitlePath,
+    videoPath,
+    waveform,
+    cues: history.present,
+    isDirty,
+    isLoadingWaveform,
+    isSaving,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    openSubtitle,
+    openVideo,
+    edit,
+    undo,
+    redo,
+    save
+  };
+}
@@ -22,7 +22,7 @@ import {
 import { useAppSelector, useAppDispatch } from '../hooks/redux';
 import VideoInputForm from '../components/VideoInputForm';
 import TaskList from '../components/TaskList';
-import { DownloadOptions } from '../../shared/types/tasks';
+import { DownloadOptions, TaskMoveTarget } from '../../shared/types/tasks';
 import { useSnackbar } from 'notistack';
 
 const HomePage: React.FC = () => {
@@ -63,8 +63,15 @@ const HomePage: React.FC = () => {
       updateTaskInList(data.taskId, data);
     };
 
-    const unsubscribe = window.prevideo.video.onProgress(handleProgress);
-    return unsubscribe;
+    const unsubscribeProgress = window.prevideo.video.onProgress(handleProgress);
+    const unsubscribeQueue = window.prevideo.video.onQueueUpdated(() => loadTasks());
+    const unsubscribeRetry = window.prevideo.video.onRetrying(() => loadTasks());
+
+    return () => {
+      unsubscribeProgress();
+      unsubscribeQueue();
+      unsubscribeRetry();
+    };
   };
 
   const categorizeAndSetTasks = (tasks: any[]) => {
@@ -174,6 +181,31 @@ const HomePage: React.FC = () => {
     }
   };
 
+  const handleMoveTask = async (taskId: string, target: TaskMoveTarget) => {
+    try {
+      const result = await window.prevideo.video.moveTask(taskId, target);
+      if (!result.success) {
+        enqueueSnackbar(result.error || '调整顺序失败', { variant: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to move task:', error);
+    }
+  };
+
+  const handleSetRateLimit = async (taskId: string, limit: number | null) => {
+    try {
+      const result = await window.prevideo.video.setTaskRateLimit(taskId, limit);
+      if (result.success) {
+        enqueueSnackbar(limit === null ? '已恢复全局限速' : '任务限速已更新', { variant: 'info' });
+        loadTasks();
+      } else {
+        enqueueSnackbar(result.error || '设置限速失败', { variant: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to set rate limit:', error);
+    }
+  };
+
   const handleClearCompleted = async () => {
     try {
       const result = await window.prevideo.tasks.clearCompletedTasks();
@@ -231,6 +263,7 @@ const HomePage: React.FC = () => {
               onCancelTask={handleCancelTask}
               onRemoveTask={handleRemoveTask}
               onShowInFolder={handleShowInFolder}
+              onSetRateLimit={handleSetRateLimit}
             />
           </Box>
         )}
@@ -246,6 +279,8 @@ const HomePage: React.FC = () => {
               variant="compact"
               onCancelTask={handleCancelTask}
               onRemoveTask={handleRemoveTask}
+              onMoveTask={handleMoveTask}
+              onSetRateLimit={handleSetRateLimit}
             />
           </Box>
         )}
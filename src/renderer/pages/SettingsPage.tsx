@@ -39,6 +39,8 @@ import { useSnackbar } from 'notistack';
 import { UserPreferences, DEFAULT_PREFERENCES } from '../../shared/types/preferences';
 import SubtitleSettings from '../components/SubtitleSettings';
 import CompressionSettings from '../components/CompressionSettings';
+import BandwidthSettings from '../components/BandwidthSettings';
+import NetworkProfileSettings from '../components/NetworkProfileSettings';
 
 type SettingsSection = 'general' | 'download' | 'subtitle' | 'compression' | 'network' | 'appearance' | 'storage' | 'update' | 'about';
 
@@ -402,6 +404,15 @@ const SettingsPage: React.FC = () => {
                   <Alert severity="info" sx={{ mb: 2 }}>
                     配置代理和网络相关选项。
                   </Alert>
+                  <NetworkProfileSettings />
+                  <BandwidthSettings
+                    bandwidthLimit={preferences.bandwidthLimit}
+                    schedule={preferences.bandwidthSchedule ?? []}
+                    onChange={(bandwidthLimit, bandwidthSchedule) => {
+                      setPreferences({ ...preferences, bandwidthLimit, bandwidthSchedule });
+                      setHasChanges(true);
+                    }}
+                  />
                 </Box>
               )}
 
@@ -0,0 +1,313 @@
+/**
+ * Subtitle editor page - cue list, waveform timeline and video preview
+ */
+
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  IconButton,
+  Stack,
+  Grid,
+  TextField,
+  Tooltip,
+  Divider,
+  InputAdornment
+} from '@mui/material';
+import {
+  FolderOpen as OpenIcon,
+  Movie as VideoIcon,
+  Undo as UndoIcon,
+  Redo as RedoIcon,
+  Save as SaveIcon,
+  Add as AddIcon
+} from '@mui/icons-material';
+import { useSubtitleEditor } from '../hooks/useSubtitleEditor';
+import SubtitleCueList from '../components/SubtitleCueList';
+import WaveformTimeline from '../components/WaveformTimeline';
+import {
+  findCueAt,
+  updateCueText,
+  setCueTiming,
+  splitCue,
+  mergeWithNext,
+  insertCue,
+  deleteCue,
+  shiftCues
+} from '../utils/subtitle-edit';
+
+// Local files reach the <video> element through the prevideo-media protocol
+const toMediaUrl = (filePath: string): string => `prevideo-media://local/${encodeURIComponent(filePath)}`;
+
+const fileName = (filePath: string | null): string => (filePath ? filePath.split(/[\\/]/).pop() ?? filePath : '');
+
+const SubtitleEditorPage: React.FC = () => {
+  const editor = useSubtitleEditor();
+  const { cues, edit } = editor;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [offset, setOffset] = useState('0');
+  // Read by the split handler, so the memoized cue rows don't re-render every frame
+  const currentTimeRef = useRef(0);
+  currentTimeRef.current = currentTime;
+
+  const activeIndex = useMemo(() => findCueAt(cues, currentTime), [cues, currentTime]);
+  const duration = Math.max(
+    videoDuration,
+    editor.waveform?.duration ?? 0,
+    (cues[cues.length - 1]?.endTime ?? 0) + 5000
+  );
+
+  // The playhead follows playback every frame, timeupdate alone is too coarse
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !playing) {
+      return;
+    }
+
+    let frame = 0;
+    const tick = (): void => {
+      setCurrentTime(video.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  const seek = useCallback((time: number) => {
+    setCurrentTime(time);
+    if (videoRef.current) {
+      videoRef.current.currentTime = time / 1000;
+    }
+  }, []);
+
+  const selectCue = useCallback((index: number) => {
+    setSelectedIndex(index);
+  }, []);
+
+  const handleTextChange = useCallback((index: number, text: string) => {
+    edit(prev => updateCueText(prev, index, text));
+  }, [edit]);
+
+  const handleTimingChange = useCallback((index: number, startTime: number, endTime: number) => {
+    edit(prev => setCueTiming(prev, index, startTime, endTime));
+  }, [edit]);
+
+  const handleSplit = useCallback((index: number, textOffset?: number) => {
+    // Split at the playhead when it's inside the cue, in the middle otherwise
+    const time = currentTimeRef.current;
+    edit(prev => {
+      const cue = prev[index];
+      const inside = cue && time > cue.startTime && time < cue.endTime;
+      return splitCue(prev, index, inside ? time : undefined, textOffset);
+    });
+  }, [edit]);
+
+  const handleMerge = useCallback((index: number) => {
+    edit(prev => mergeWithNext(prev, index));
+  }, [edit]);
+
+  const handleDelete = useCallback((index: number) => {
+    edit(prev => deleteCue(prev, index));
+    setSelectedIndex(-1);
+  }, [edit]);
+
+  const handleInsert = (): void => {
+    const { index } = insertCue(cues, currentTime);
+    edit(prev => insertCue(prev, currentTime).cues);
+    setSelectedIndex(index);
+  };
+
+  const handleShift = (): void => {
+    const ms = parseInt(offset) || 0;
+    edit(prev => shiftCues(prev, ms));
+  };
+
+  const openSubtitle = async (): Promise<void> => {
+    if (editor.isDirty && !window.confirm('当前字幕有未保存的修改，确定要打开其他字幕吗？')) {
+      return;
+    }
+    const result = await window.prevideo.subtitle.selectFile('subtitle');
+    if (result.success) {
+      await editor.openSubtitle(result.data);
+      setSelectedIndex(-1);
+    }
+  };
+
+  const openVideo = async (): Promise<void> => {
+    const result = await window.prevideo.subtitle.selectFile('video');
+    if (result.success) {
+      setCurrentTime(0);
+      setVideoDuration(0);
+      await editor.openVideo(result.data);
+    }
+  };
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z or Ctrl+Y, Ctrl/Cmd+S; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (!(event.ctrlKey || event.metaKey)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      const target = event.target as HTMLElement;
+      const inField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
+
+      if (key === 's') {
+        event.preventDefault();
+        void editor.save();
+      } else if (!inField && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          editor.redo();
+        } else {
+          editor.undo();
+        }
+      } else if (!inField && key === 'y') {
+        event.preventDefault();
+        editor.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editor.save, editor.undo, editor.redo]);
+
+  return (
+    <Box>
+      <Paper sx={{ p: 1.5, mb: 2 }}>
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+          <Button startIcon={<OpenIcon />} onClick={openSubtitle}>
+            打开字幕
+          </Button>
+          <Button startIcon={<VideoIcon />} onClick={openVideo}>
+            打开视频
+          </Button>
+          <Divider orientation="vertical" flexItem />
+          <Tooltip title="撤销 (Ctrl+Z)">
+            <span>
+              <IconButton onClick={editor.undo} disabled={!editor.canUndo}>
+                <UndoIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="重做 (Ctrl+Shift+Z)">
+            <span>
+              <IconButton onClick={editor.redo} disabled={!editor.canRedo}>
+                <RedoIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Button startIcon={<AddIcon />} onClick={handleInsert} disabled={!editor.subtitle}>
+            在播放位置插入
+          </Button>
+          <TextField
+            size="small"
+            type="number"
+            label="整体偏移"
+            value={offset}
+            onChange={(e) => setOffset(e.target.value)}
+            InputProps={{ endAdornment: <InputAdornment position="end">ms</InputAdornment> }}
+            sx={{ width: 150 }}
+          />
+          <Button onClick={handleShift} disabled={!editor.subtitle || !(parseInt(offset) || 0)}>
+            应用偏移
+          </Button>
+          <Box sx={{ flexGrow: 1 }} />
+          <Typography variant="body2" color="text.secondary" noWrap sx={{ maxWidth: 320 }}>
+            {editor.subtitlePath ? `${fileName(editor.subtitlePath)}${editor.isDirty ? ' *' : ''}` : '未打开字幕'}
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<SaveIcon />}
+            onClick={() => void editor.save()}
+            disabled={!editor.subtitle || !editor.isDirty || editor.isSaving}
+          >
+            保存
+          </Button>
+        </Stack>
+      </Paper>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={5}>
+          <Paper sx={{ position: 'relative', bgcolor: 'black', aspectRatio: '16 / 9', overflow: 'hidden' }}>
+            {editor.videoPath ? (
+              <video
+                ref={videoRef}
+                src={toMediaUrl(editor.videoPath)}
+                controls
+                style={{ width: '100%', height: '100%' }}
+                onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration * 1000)}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime * 1000)}
+                onPlay={() => setPlaying(true)}
+                onPause={() => setPlaying(false)}
+              />
+            ) : (
+              <Stack alignItems="center" justifyContent="center" sx={{ height: '100%' }}>
+                <Typography color="text.secondary">打开视频以预览字幕和显示音频波形</Typography>
+              </Stack>
+            )}
+            {activeIndex >= 0 && (
+              <Typography
+                sx={{
+                  position: 'absolute',
+                  left: '5%',
+                  right: '5%',
+                  bottom: '14%',
+                  textAlign: 'center',
+                  color: 'white',
+                  whiteSpace: 'pre-line',
+                  textShadow: '0 0 3px black, 0 0 3px black',
+                  pointerEvents: 'none'
+                }}
+              >
+                {cues[activeIndex].text}
+              </Typography>
+            )}
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          <Paper sx={{ height: 360, overflowY: 'auto' }}>
+            <SubtitleCueList
+              cues={cues}
+              selectedIndex={selectedIndex}
+              activeIndex={activeIndex}
+              onSelect={(index) => {
+                selectCue(index);
+                seek(cues[index].startTime);
+              }}
+              onTextChange={handleTextChange}
+              onTimingChange={handleTimingChange}
+              onSplit={handleSplit}
+              onMergeWithNext={handleMerge}
+              onDelete={handleDelete}
+            />
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12}>
+          <WaveformTimeline
+            cues={cues}
+            waveform={editor.waveform}
+            isLoadingWaveform={editor.isLoadingWaveform}
+            duration={duration}
+            currentTime={currentTime}
+            selectedIndex={selectedIndex}
+            onSeek={seek}
+            onSelect={selectCue}
+            onTimingChange={handleTimingChange}
+          />
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default SubtitleEditorPage;
@@ -1,5 +1,7 @@
 // 格式化工具函数
 
+import { DownloadErrorCode } from '../../shared/types/tasks';
+
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -54,4 +56,18 @@ export const formatTimeRemaining = (bytesRemaining: number, bytesPerSecond: numb
     const minutes = Math.floor((secondsRemaining % 3600) / 60);
     return `${hours} 小时 ${minutes} 分钟`;
   }
-};
\ No newline at end of file
+};
+
+export const formatDownloadError = (code?: DownloadErrorCode): string => {
+  switch (code) {
+    case 'NETWORK': return '网络错误';
+    case 'HTTP_403': return '访问被拒绝 (403)';
+    case 'HTTP_429': return '请求过于频繁 (429)';
+    case 'GEO_BLOCKED': return '地区限制';
+    case 'PRIVATE': return '私享视频';
+    case 'AGE_RESTRICTED': return '年龄限制';
+    case 'UNAVAILABLE': return '视频不可用';
+    case 'DISK_FULL': return '磁盘空间不足';
+    default: return '未知错误';
+  }
+};
@@ -0,0 +1,197 @@
+// 字幕编辑器的纯函数操作：每次编辑返回新的字幕列表，便于撤销/重做
+
+import { SubtitleTimestamp } from '../../shared/types/subtitle';
+
+export type EditorCue = SubtitleTimestamp;
+
+export interface EditorHistory {
+  past: EditorCue[][];
+  present: EditorCue[];
+  future: EditorCue[][];
+}
+
+export const MIN_CUE_DURATION = 100; // 毫秒
+export const DEFAULT_CUE_DURATION = 2000;
+const HISTORY_LIMIT = 200;
+
+const byStart = (a: EditorCue, b: EditorCue): number => a.startTime - b.startTime || a.endTime - b.endTime;
+
+export const createHistory = (cues: EditorCue[]): EditorHistory => ({
+  past: [],
+  present: [...cues].sort(byStart),
+  future: []
+});
+
+// 记录一次编辑；内容没有变化时不产生历史记录
+export const commitEdit = (history: EditorHistory, cues: EditorCue[]): EditorHistory => {
+  if (cues === history.present) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: cues,
+    future: []
+  };
+};
+
+export const undo = (history: EditorHistory): EditorHistory => {
+  if (history.past.length === 0) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redo = (history: EditorHistory): EditorHistory => {
+  if (history.future.length === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
+
+// 当前时间所在的字幕，没有时返回 -1
+export const findCueAt = (cues: EditorCue[], time: number): number =>
+  cues.findIndex(cue => cue.startTime <= time && time < cue.endTime);
+
+export const updateCueText = (cues: EditorCue[], index: number, text: string): EditorCue[] => {
+  if (!cues[index] || cues[index].text === text) {
+    return cues;
+  }
+  return cues.map((cue, i) => (i === index ? { ...cue, text } : cue));
+};
+
+/**
+ * 修改字幕时间，保证开始时间不小于 0、时长不短于 MIN_CUE_DURATION，
+ * 修改后按开始时间重新排序
+ */
+export const setCueTiming = (cues: EditorCue[], index: number, startTime: number, endTime: number): EditorCue[] => {
+  const cue = cues[index];
+  if (!cue) {
+    return cues;
+  }
+
+  const start = Math.max(0, Math.round(startTime));
+  const end = Math.max(start + MIN_CUE_DURATION, Math.round(endTime));
+  if (start === cue.startTime && end === cue.endTime) {
+    return cues;
+  }
+
+  return cues.map((c, i) => (i === index ? { ...c, startTime: start, endTime: end } : c)).sort(byStart);
+};
+
+// 文本拆分位置：优先 textOffset（光标位置），否则取最接近中间的空格或换行
+const findTextSplit = (text: string, textOffset?: number): number => {
+  if (textOffset !== undefined && textOffset > 0 && textOffset < text.length) {
+    return textOffset;
+  }
+
+  const middle = text.length / 2;
+  let best = -1;
+  for (let i = 0; i < text.length; i++) {
+    if ((text[i] === ' ' || text[i] === '\n') && (best < 0 || Math.abs(i - middle) < Math.abs(best - middle))) {
+      best = i;
+    }
+  }
+  return best > 0 ? best : Math.floor(middle);
+};
+
+/**
+ * 在 time 处把字幕拆成两条（默认在中间），文本按光标位置或最接近中间的空格拆分
+ */
+export const splitCue = (cues: EditorCue[], index: number, time?: number, textOffset?: number): EditorCue[] => {
+  const cue = cues[index];
+  if (!cue || cue.endTime - cue.startTime < MIN_CUE_DURATION * 2) {
+    return cues;
+  }
+
+  const at = Math.round(Math.min(
+    cue.endTime - MIN_CUE_DURATION,
+    Math.max(cue.startTime + MIN_CUE_DURATION, time ?? (cue.startTime + cue.endTime) / 2)
+  ));
+  const split = findTextSplit(cue.text, textOffset);
+
+  return [
+    ...cues.slice(0, index),
+    { startTime: cue.startTime, endTime: at, text: cue.text.slice(0, split).trim() },
+    { startTime: at, endTime: cue.endTime, text: cue.text.slice(split).trim() },
+    ...cues.slice(index + 1)
+  ];
+};
+
+// 把字幕和下一条合并为一条
+export const mergeWithNext = (cues: EditorCue[], index: number): EditorCue[] => {
+  const cue = cues[index];
+  const next = cues[index + 1];
+  if (!cue || !next) {
+    return cues;
+  }
+
+  const merged: EditorCue = {
+    startTime: Math.min(cue.startTime, next.startTime),
+    endTime: Math.max(cue.endTime, next.endTime),
+    text: [cue.text, next.text].filter(text => text.trim()).join('\n')
+  };
+
+  return [...cues.slice(0, index), merged, ...cues.slice(index + 2)];
+};
+
+/**
+ * 在 time 处插入空字幕，时长不超过到下一条字幕之间的空隙；
+ * 返回新列表和新字幕的位置
+ */
+export const insertCue = (
+  cues: EditorCue[],
+  time: number,
+  duration: number = DEFAULT_CUE_DURATION
+): { cues: EditorCue[]; index: number } => {
+  const start = Math.max(0, Math.round(time));
+  const next = cues.find(cue => cue.startTime > start);
+  const end = Math.max(start + MIN_CUE_DURATION, Math.min(start + duration, next?.startTime ?? Infinity));
+  const cue: EditorCue = { startTime: start, endTime: end, text: '' };
+
+  const sorted = [...cues, cue].sort(byStart);
+  return { cues: sorted, index: sorted.indexOf(cue) };
+};
+
+export const deleteCue = (cues: EditorCue[], index: number): EditorCue[] =>
+  (cues[index] ? cues.filter((_, i) => i !== index) : cues);
+
+// 整体平移字幕时间，offset 为负时提前
+export const shiftCues = (cues: EditorCue[], offset: number): EditorCue[] => {
+  if (offset === 0) {
+    return cues;
+  }
+  return cues.map(cue => {
+    const startTime = Math.max(0, cue.startTime + offset);
+    return { ...cue, startTime, endTime: Math.max(startTime + MIN_CUE_DURATION, cue.endTime + offset) };
+  });
+};
+
+// 时间码显示：时:分:秒.毫秒
+export const formatCueTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+};
+
+// 解析 formatCueTime 的格式，也接受 分:秒.毫秒 和纯秒数；无法解析时返回 null
+export const parseCueTime = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(?:(\d+):)?(\d{1,2}):)?(\d+(?:[.,]\d{1,3})?)$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1] ?? 0);
+  const minutes = Number(match[2] ?? 0);
+  const seconds = Number(match[3].replace(',', '.'));
+  return Math.round((hours * 3600 + minutes * 60 + seconds) * 1000);
+};
@@ -23,6 +23,14 @@ export type VideoResolution =
   | '240p'
   | 'original';
 
+export type QualityMetric = 'vmaf' | 'ssim';
+
+// A perceptual score the encode must reach, e.g. VMAF 93 or SSIM 0.98
+export interface QualityTarget {
+  metric: QualityMetric;
+  score: number; // VMAF 0-100, SSIM 0-1
+}
+
 export interface CompressionConfig {
   id: string;
   outputFormat: 'mp4' | 'webm' | 'mkv' | 'mov' | 'avi';
@@ -34,20 +42,82 @@ export interface CompressionConfig {
   preset?: CompressionPreset;
   crf?: number; // Constant Rate Factor (0-51, lower = better quality)
   twoPass?: boolean;
-  hardwareAcceleration?: boolean;
-  targetFileSize?: number; // bytes
-  maxFileSize?: number; // bytes
+  hardwareAcceleration?: boolean; // Encode on a working hardware encoder for videoCodec, software if none
+  targetFileSize?: number; // bytes, encodes two-pass at the bitrate that fills it
+  maxFileSize?: number; // bytes, re-encodes lower while the output is bigger
+  qualityTarget?: QualityTarget; // Searches the CRF on samples, takes priority over crf and file sizes
   fps?: number;
   startTime?: number; // seconds
   endTime?: number; // seconds
   removeAudio?: boolean;
   normalizeAudio?: boolean;
+  threads?: number; // ffmpeg -threads, set by the compression queue; unset lets ffmpeg decide
+}
+
+// Everything a saved preset keeps: a CompressionConfig without the task id
+export type CompressionPresetConfig = Omit<CompressionConfig, 'id'>;
+
+// A named compression config stored in the database
+export interface CompressionPresetRecord {
+  id: string;
+  name: string;
+  description?: string;
+  config: CompressionPresetConfig;
+  isDefault: boolean; // Default for config.outputFormat, at most one per format
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompressionPresetInput {
+  name: string;
+  description?: string;
+  config: CompressionPresetConfig;
+  isDefault?: boolean;
+}
+
+// How a target-size encode went: the bitrates of the attempt that fit and its size
+export interface TargetSizeResult {
+  targetBytes: number;
+  limitBytes: number;
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps, 0 without audio
+  attempts: number;
+  outputBytes: number;
+}
+
+export type HardwareEncoderFamily = 'nvenc' | 'qsv' | 'amf' | 'vaapi' | 'videotoolbox';
+
+// What `ffmpeg -encoders`/`-hwaccels` and test encodes found, cached per ffmpeg build
+export interface HardwareEncoderProbe {
+  ffmpegVersion: string;
+  hwaccels: string[];
+  available: string[]; // Hardware encoders this ffmpeg was built with
+  working: string[]; // The ones that encoded a test clip, preferred first
+  failures: Record<string, string>; // Encoder -> why it didn't work
+  probedAt: string;
+}
+
+// A CRF tried on the samples and their average score
+export interface QualityProbe {
+  crf: number;
+  score: number;
+}
+
+// How a quality-target encode went, with the score measured on the final output
+export interface QualityReport {
+  metric: QualityMetric;
+  target: number;
+  crf: number;
+  sampleScore: number; // Average over the samples at `crf`
+  score: number; // Whole output against the source
+  met: boolean;
+  probes: QualityProbe[];
 }
 
 export interface CompressionTask {
   id: string;
   type: 'VIDEO_COMPRESSION' | 'FORMAT_CONVERSION' | 'AUDIO_EXTRACTION';
-  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: number; // 0-100
   currentStep?: string;
   totalSteps?: number;
@@ -56,6 +126,9 @@ export interface CompressionTask {
   inputFile: string;
   outputFile: string;
   config?: CompressionConfig;
+  videoEncoder?: string; // The encoder in use, e.g. h264_nvenc, or libx264 after a hardware failure
+  targetSize?: TargetSizeResult; // Set in target-size mode (targetFileSize or maxFileSize)
+  quality?: QualityReport; // Set in quality-target mode
   error?: string;
   startedAt?: Date;
   completedAt?: Date;
@@ -63,12 +136,44 @@ export interface CompressionTask {
 
 export interface CompressionResult {
   success: boolean;
+  inputFile?: string;
   outputFile?: string;
   originalSize: number;
   compressedSize: number;
   compressionRatio: number; // percentage
   timeTaken: number; // seconds
+  quality?: QualityReport;
+  error?: string;
+}
+
+export type CompressionJobStatus = 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// A file waiting in, or run by, the compression queue; its id is also the CompressionTask id
+export interface CompressionJob {
+  id: string;
+  batchId?: string;
+  status: CompressionJobStatus;
+  inputFile: string;
+  outputFile?: string;
+  config: CompressionConfig;
+  progress: number; // 0-100
+  result?: CompressionResult; // Set once the job has finished, failed or been cancelled
   error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+// The finished jobs of a compress:batch call; sizes count successful files only
+export interface CompressionBatchSummary {
+  batchId: string;
+  results: CompressionResult[]; // In the order the files were added
+  completed: number;
+  failed: number;
+  cancelled: number;
+  remaining: number; // Jobs still waiting or running
+  originalSize: number; // bytes
+  compressedSize: number; // bytes
+  spaceSaved: number; // bytes
 }
 
 export interface StreamingOptimization {
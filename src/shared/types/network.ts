@@ -0,0 +1,35 @@
+/**
+ * Network profile types - proxy, cookies and request identity used for
+ * yt-dlp and the app's own HTTPS requests
+ */
+
+export type CookieBrowser =
+  | 'chrome'
+  | 'chromium'
+  | 'edge'
+  | 'firefox'
+  | 'brave'
+  | 'opera'
+  | 'vivaldi'
+  | 'safari';
+
+export interface BrowserCookieSource {
+  browser: CookieBrowser;
+  profile?: string; // Browser profile name or path, the browser's default otherwise
+}
+
+export interface NetworkProfile {
+  id: string;
+  name: string;
+  proxy?: string; // http://, https://, socks4://, socks5:// with optional user:pass@
+  cookiesFile?: string; // Netscape-format cookies.txt
+  cookiesFromBrowser?: BrowserCookieSource;
+  userAgent?: string;
+  headers?: Record<string, string>;
+  sourceAddress?: string; // Local IP to bind to, yt-dlp only
+  isDefault: boolean; // Used when a download or subscription selects no profile
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NetworkProfileInput = Omit<NetworkProfile, 'id' | 'isDefault' | 'createdAt' | 'updatedAt'>;
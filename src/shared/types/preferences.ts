@@ -3,7 +3,7 @@
  */
 
 import { VideoQuality, VideoContainer } from './video';
-import { CompressionPreset } from './compression';
+import { CompressionPreset, HardwareEncoderProbe } from './compression';
 
 export interface UserPreferences {
   // Download settings
@@ -31,6 +31,8 @@ export interface UserPreferences {
   compressionPreset: CompressionPreset;
   targetFileSize?: number; // MB
   preserveQuality: boolean;
+  maxConcurrentCompressions: number; // Encodes the compression queue runs at once
+  compressionThreads: number; // ffmpeg threads per queued encode, 0 lets ffmpeg decide
   
   // UI settings
   theme: 'light' | 'dark' | 'system';
@@ -42,7 +44,8 @@ export interface UserPreferences {
   // Network settings
   proxyEnabled: boolean;
   proxyUrl?: string;
-  bandwidthLimit?: number; // KB/s
+  bandwidthLimit?: number; // KB/s, shared by all active downloads
+  bandwidthSchedule?: BandwidthWindow[]; // Overrides bandwidthLimit inside each window
   retryAttempts: number;
   connectionTimeout: number; // seconds
   
@@ -61,6 +64,12 @@ export interface UserPreferences {
   debugMode: boolean;
 }
 
+export interface BandwidthWindow {
+  start: string; // HH:mm, local time
+  end: string; // HH:mm, may be earlier than start to span midnight
+  limit: number; // KB/s, 0 for unlimited
+}
+
 export interface AppSettings {
   version: string;
   firstRun: boolean;
@@ -69,6 +78,7 @@ export interface AppSettings {
   updateChannel: 'stable' | 'beta' | 'dev';
   telemetryEnabled: boolean;
   crashReporting: boolean;
+  hardwareEncoders?: HardwareEncoderProbe; // Re-probed when the ffmpeg version changes
   windowState?: {
     width: number;
     height: number;
@@ -110,6 +120,8 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
   autoCompress: false,
   compressionPreset: 'medium',
   preserveQuality: true,
+  maxConcurrentCompressions: 1,
+  compressionThreads: 0,
   theme: 'system',
   language: 'zh-CN',
   showAdvancedOptions: false,
@@ -0,0 +1,41 @@
+/**
+ * Channel and playlist subscription types
+ */
+
+import { VideoQuality, VideoContainer } from './video';
+
+export interface SubscriptionDownloadDefaults {
+  quality?: VideoQuality;
+  preferredFormat?: VideoContainer;
+  subtitleLanguages?: string[];
+  outputPath?: string; // Falls back to the user's default output path
+  queueId?: string;
+  networkProfileId?: string; // Used for syncing and downloads
+}
+
+export interface Subscription {
+  id: string;
+  url: string;
+  title: string;
+  type: 'playlist' | 'channel';
+  enabled: boolean;
+  checkIntervalMinutes: number;
+  archivePath: string; // yt-dlp --download-archive file
+  defaults: SubscriptionDownloadDefaults;
+  lastCheckedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSubscriptionOptions {
+  checkIntervalMinutes?: number;
+  defaults?: SubscriptionDownloadDefaults;
+  backfill?: boolean; // Also download items published before subscribing
+}
+
+export interface SubscriptionSyncResult {
+  subscriptionId: string;
+  queuedCount: number;
+  error?: string;
+}
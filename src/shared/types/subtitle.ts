@@ -6,19 +6,127 @@ export interface SubtitleTimestamp {
   startTime: number; // milliseconds
   endTime: number; // milliseconds
   text: string;
+  words?: SubtitleWord[]; // Word timing from Whisper
 }
 
+export interface SubtitleWord {
+  text: string;
+  startTime: number; // milliseconds
+  endTime: number; // milliseconds
+  probability?: number; // 0-1
+  speaker?: string; // From diarization
+}
+
+export type SubtitleFormat =
+  | 'srt'
+  | 'vtt'
+  | 'ass'
+  | 'ssa'
+  | 'ttml'
+  | 'dfxp'
+  | 'sbv'
+  | 'lrc'
+  | 'json';
+
 export interface Subtitle {
   id: string;
   videoId: string;
   language: string; // ISO 639-1 code
   languageName: string;
-  format: 'srt' | 'vtt' | 'ass' | 'json';
+  format: SubtitleFormat;
   content: string;
   isAutoGenerated: boolean;
   timestamps?: SubtitleTimestamp[];
 }
 
+/**
+ * Format-independent subtitle model. Every parser produces it and every
+ * serializer writes what its format can express, so converting keeps
+ * styling, positioning and speakers wherever the target supports them.
+ */
+export interface SubtitleDocument {
+  cues: SubtitleCue[];
+  styles: SubtitleStyle[];
+  info: Record<string, string>; // ASS [Script Info], WebVTT header, TTML metadata, LRC ID tags
+  notes?: string[]; // WebVTT NOTE blocks
+  css?: string[]; // WebVTT STYLE blocks
+  regions?: string[]; // WebVTT REGION blocks
+  sections?: SubtitleRawSection[]; // ASS sections without a model, e.g. [Fonts]
+}
+
+export interface SubtitleCue {
+  id?: string; // SRT number, WebVTT identifier or TTML xml:id
+  startTime: number; // milliseconds
+  endTime: number; // milliseconds
+  text: string; // Plain text, lines separated by \n
+  spans?: SubtitleSpan[]; // Inline formatting, the span texts join up to `text`
+  speaker?: string;
+  style?: string; // Name of a SubtitleStyle
+  position?: SubtitlePosition;
+  margins?: { left: number; right: number; vertical: number }; // ASS per-line margins
+  layer?: number; // ASS layer
+  effect?: string; // ASS effect
+  comment?: boolean; // ASS Comment event, only written back to ASS
+  words?: SubtitleWord[]; // Word timing, only kept by JSON
+}
+
+export interface SubtitleSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikeout?: boolean;
+  color?: string; // #RRGGBB
+  fontName?: string;
+  fontSize?: number;
+  classes?: string[]; // WebVTT <c.class>
+  startTime?: number; // Karaoke timing: WebVTT <00:00:01.000>, enhanced LRC <00:01.00>
+  tags?: string; // ASS override tags without a portable meaning, kept verbatim
+}
+
+export interface SubtitlePosition {
+  alignment?: number; // 1-9 in numpad layout, as ASS \an (2 = bottom center)
+  x?: number; // Anchor in percent of the frame width
+  y?: number; // Anchor in percent of the frame height
+  line?: number; // WebVTT line number, negative counts from the bottom
+  lineAlign?: 'start' | 'center' | 'end';
+  positionAlign?: 'line-left' | 'center' | 'line-right' | 'auto';
+  size?: number; // WebVTT cue box width in percent
+  vertical?: 'rl' | 'lr';
+  region?: string; // WebVTT region id
+}
+
+export interface SubtitleStyle {
+  name: string;
+  fontName?: string;
+  fontSize?: number;
+  primaryColor?: string; // #RRGGBB or #RRGGBBAA
+  secondaryColor?: string;
+  outlineColor?: string;
+  backColor?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikeout?: boolean;
+  scaleX?: number;
+  scaleY?: number;
+  spacing?: number;
+  angle?: number;
+  borderStyle?: number;
+  outline?: number;
+  shadow?: number;
+  alignment?: number; // 1-9 in numpad layout
+  marginL?: number;
+  marginR?: number;
+  marginV?: number;
+  encoding?: number;
+}
+
+export interface SubtitleRawSection {
+  name: string;
+  lines: string[];
+}
+
 export interface SubtitleInfo {
   language: string;
   languageName: string;
@@ -30,9 +138,10 @@ export interface BilingualSubtitleConfig {
   primaryLanguage: string;
   secondaryLanguage: string;
   layout: 'stacked' | 'side_by_side';
-  primaryPosition?: 'top' | 'bottom';
+  primaryPosition?: 'top' | 'bottom'; // Stacked: line order, side by side: frame edge
   secondaryPosition?: 'top' | 'bottom';
   styling?: SubtitleStyling;
+  hardSub?: boolean; // Burn into the video (default) or add as a soft track
 }
 
 export interface SubtitleStyling {
@@ -44,23 +153,174 @@ export interface SubtitleStyling {
   outline?: boolean;
   shadow?: boolean;
   backgroundColor?: string;
-  backgroundOpacity?: number;
+  backgroundOpacity?: number; // 0-1, 0 turns the background box off
 }
 
 export interface SubtitleGenerationOptions {
   language?: string;
-  model?: 'tiny' | 'base' | 'small' | 'medium' | 'large';
+  model?: string; // Whisper model id, default from the per-language defaults
   translate?: boolean;
   detectLanguage?: boolean;
   task?: 'transcribe' | 'translate';
   outputFormat?: 'srt' | 'vtt' | 'json';
+  wordTimestamps?: boolean; // Keep word timing in the cues, default true
+  maxLineLength?: number; // Characters per line when re-segmenting, default 42
+  maxLines?: number; // Lines per cue, default 2
+  maxCueDuration?: number; // milliseconds, default 7000
+  workers?: number; // Whisper processes at once, default half the CPU cores
+  diarization?: SubtitleDiarizationOptions; // Label cues with speakers
+  lint?: SubtitleLintOptions; // Fix what these rules can fix before returning
+}
+
+export interface SubtitleDiarizationOptions {
+  command: string; // Offline diarization executable
+  args?: string[]; // {audio} is replaced by a 16kHz mono WAV file, {speakers} by numSpeakers (0 when unknown)
+  numSpeakers?: number;
+  speakerNames?: Record<string, string>; // 'Speaker 1' etc. to display name
+}
+
+export type SubtitleLintPreset = 'netflix' | 'broadcast' | 'custom';
+
+export type SubtitleLintRule =
+  | 'empty'
+  | 'hallucination'
+  | 'repeated_line'
+  | 'overlap'
+  | 'min_gap'
+  | 'min_duration'
+  | 'max_duration'
+  | 'max_lines'
+  | 'max_line_length'
+  | 'reading_speed';
+
+// Limits left out are not checked
+export interface SubtitleLintRules {
+  minDuration?: number; // milliseconds
+  maxDuration?: number; // milliseconds
+  minGap?: number; // milliseconds between cues
+  maxLines?: number;
+  maxLineLength?: number; // characters
+  maxReadingSpeed?: number; // characters per second
+  maxRepeats?: number; // Identical cues allowed in a row
+  hallucinations?: string[]; // Lines Whisper makes up over silence or music
+}
+
+export interface SubtitleLintOptions {
+  preset?: SubtitleLintPreset; // Default netflix; custom starts with no rules
+  rules?: SubtitleLintRules; // Override the preset's limits
+}
+
+export interface SubtitleLintIssue {
+  cueIndex: number; // Index in Subtitle.timestamps
+  rule: SubtitleLintRule;
+  severity: 'error' | 'warning';
+  message: string;
+  fixable: boolean;
+}
+
+export interface SubtitleFixResult {
+  subtitle: Subtitle;
+  fixed: number; // Issues gone after fixing
+  remaining: SubtitleLintIssue[];
+}
+
+export interface SubtitleSpeaker {
+  name: string;
+  cues: number;
+  duration: number; // milliseconds
+}
+
+export type WhisperModelSize = 'tiny' | 'base' | 'small' | 'medium' | 'large-v2' | 'large-v3' | 'large-v3-turbo';
+
+export type WhisperQuantization = 'q5_0' | 'q5_1' | 'q8_0';
+
+export interface WhisperModelInfo {
+  id: string; // ggml file name without prefix and extension, e.g. 'base.en-q5_1'
+  size?: WhisperModelSize; // Missing for imported models outside the catalog
+  englishOnly: boolean;
+  quantization?: WhisperQuantization;
+  downloadSize?: number; // bytes, approximate, catalog models only
+  installed: boolean;
+  diskSize: number; // bytes, 0 when not installed
+  partialSize: number; // bytes of an interrupted download
+  imported: boolean;
+  defaultFor: string[]; // Language codes, '*' for every other language
+}
+
+export interface WhisperModelList {
+  models: WhisperModelInfo[];
+  diskUsage: number; // bytes used by installed models and partial downloads
+  modelsPath: string;
+  mirrorUrl: string;
+}
+
+export interface WhisperModelSettings {
+  mirrorUrl?: string; // Base URL serving ggml-<id>.bin files
+  defaultModels: Record<string, string>; // Language code or '*' to model id
+}
+
+export interface WhisperModelDownloadProgress {
+  modelId: string;
+  status: 'downloading' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+  downloaded: number; // bytes
+  total: number; // bytes, 0 when unknown
+  percent: number;
+  error?: string;
 }
 
 export interface EmbedSubtitleOptions {
   primarySubtitle: Subtitle;
   secondarySubtitle?: Subtitle;
   layout: 'stacked' | 'side_by_side';
+  primaryPosition?: 'top' | 'bottom';
+  secondaryPosition?: 'top' | 'bottom';
   styling?: SubtitleStyling;
   outputPath: string;
   hardSub?: boolean; // Burn subtitles into video
-}
\ No newline at end of file
+}
+/**
+ * Audio waveform for the subtitle editor timeline
+ */
+export interface WaveformData {
+  peaksPerSecond: number;
+  duration: number; // milliseconds
+  peaks: number[]; // 0-1, the loudest sample of each slice
+}
+
+/**
+ * Timing correction for subtitle:sync
+ */
+export interface SubtitleSyncOptions {
+  mode: 'offset' | 'two_point' | 'framerate' | 'ranges';
+  offsetMs?: number; // offset
+  points?: SubtitleSyncPoint[]; // two_point: exactly two
+  sourceFps?: number; // framerate: the release the subtitle was timed for
+  targetFps?: number; // framerate: the video
+  ranges?: SubtitleSyncRange[]; // ranges
+}
+
+// Moves the start of a cue (index into Subtitle.timestamps) to `time`
+export interface SubtitleSyncPoint {
+  cueIndex: number;
+  time: number; // milliseconds
+}
+
+// Shifts the cues starting inside [startTime, endTime) of the original timing
+export interface SubtitleSyncRange {
+  startTime: number; // milliseconds
+  endTime?: number; // milliseconds, open-ended when left out
+  offsetMs: number;
+}
+
+export interface SubtitleAutoSyncOptions {
+  maxOffsetMs?: number; // Largest shift searched in either direction, default 60s
+  framerateCorrection?: boolean; // Also try 23.976/24/25 fps stretches, default true
+}
+
+export interface SubtitleAutoSyncResult {
+  subtitle: Subtitle;
+  offsetMs: number;
+  scale: number; // Stretch applied before the offset, 1 when none
+  confidence: number; // 0-1, how clearly the chosen alignment beats the others
+  speechOverlap: number; // 0-1, share of cue time with detected speech after syncing
+}
@@ -33,12 +33,20 @@ export interface DownloadTask {
   lastCheckpoint?: Date;
   pauseReason?: string;
   lastError?: string;
+  lastErrorCode?: DownloadErrorCode;
   resumePosition?: number;
   resumeTime?: Date;
   failureHistory?: FailureRecord[];
+  retryCount?: number;
+  maxRetries?: number;
+  retryDelay?: number; // Base delay in ms, doubled on every attempt
+  nextRetryAt?: Date; // Set while a transient failure waits for its retry
+  rateLimit?: number; // KB/s, overrides the shared limit (0 for unlimited)
   metadata?: TaskMetadata;
-  outputFiles?: string[];
+  outputFiles?: string[]; // Chapter tracks split from an audio download
   subtitles?: Subtitle[];
+  queueId?: string;
+  queuePosition?: number;
 }
 
 export interface ProcessingTask {
@@ -58,9 +66,20 @@ export interface FailureRecord {
   timestamp: Date;
   progress: number;
   reason: string;
-  errorCode?: string;
+  errorCode?: DownloadErrorCode;
 }
 
+export type DownloadErrorCode =
+  | 'NETWORK'
+  | 'HTTP_403'
+  | 'HTTP_429'
+  | 'GEO_BLOCKED'
+  | 'PRIVATE'
+  | 'AGE_RESTRICTED'
+  | 'UNAVAILABLE'
+  | 'DISK_FULL'
+  | 'UNKNOWN';
+
 export interface TaskMetadata {
   videoTitle: string;
   videoAuthor: string;
@@ -69,6 +88,14 @@ export interface TaskMetadata {
   selectedFormat: string;
   subtitleLanguages?: string[];
   downloadStartTime: Date;
+  playlistId?: string;
+  playlistTitle?: string;
+  playlistIndex?: number;
+  subscriptionId?: string;
+  downloadArchive?: string;
+  networkProfileId?: string;
+  formatSelection?: FormatSelection;
+  audio?: AudioExtractOptions;
   userPreferences?: {
     outputPath: string;
     autoGenerateSubtitles: boolean;
@@ -89,6 +116,47 @@ export interface DownloadOptions {
   retryDelay?: number;
   chunkSize?: number;
   parallelChunks?: number;
+  queueId?: string;
+  playlist?: {
+    id: string;
+    title: string;
+    index?: number;
+  };
+  subscriptionId?: string;
+  downloadArchive?: string; // yt-dlp records finished videos here
+  rateLimit?: number; // KB/s, overrides the shared limit (0 for unlimited)
+  networkProfileId?: string; // Falls back to the default network profile
+  formatSelection?: FormatSelection; // Takes over from quality when set
+  audio?: AudioExtractOptions; // Download the audio track only
+}
+
+export type AudioCodec = 'mp3' | 'm4a' | 'opus' | 'flac';
+
+/**
+ * Audio-only download. yt-dlp extracts the audio and tags it from the
+ * video's title, uploader, upload date and description.
+ */
+export interface AudioExtractOptions {
+  codec: AudioCodec;
+  bitrate?: number; // kbps, ignored for flac; unset keeps yt-dlp's VBR default
+  embedCover?: boolean; // Thumbnail as cover art
+  embedMetadata?: boolean;
+  splitChapters?: boolean; // Also write one track per chapter
+}
+
+export type VideoCodecPreference = 'av1' | 'vp9' | 'h264';
+
+/**
+ * Detailed format choice. Explicit format IDs win over a sort expression,
+ * which wins over the codec, dynamic range and filesize preferences.
+ */
+export interface FormatSelection {
+  videoFormatId?: string;
+  audioFormatId?: string; // Alone, downloads that audio format only
+  sort?: string; // yt-dlp --format-sort expression, e.g. "res:1080,vcodec:av01"
+  codec?: VideoCodecPreference;
+  dynamicRange?: 'hdr' | 'sdr';
+  maxFilesize?: number; // bytes, preferred upper bound
 }
 
 export interface DownloadProgress {
@@ -108,7 +176,15 @@ export interface TaskQueue {
   maxConcurrent: number;
   currentlyProcessing: number;
   autoStart: boolean;
-  priority: 'high' | 'normal' | 'low';
+  priority: QueuePriority;
+  paused?: boolean;
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
+
+export type QueuePriority = 'high' | 'normal' | 'low';
+
+// Position change for a waiting task; a number is the absolute index in its queue
+export type TaskMoveTarget = 'up' | 'down' | 'top' | 'bottom' | number;
+
+export const DEFAULT_QUEUE_ID = 'default';
\ No newline at end of file
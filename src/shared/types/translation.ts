@@ -0,0 +1,43 @@
+/**
+ * Subtitle translation types - configured translation providers and the
+ * options of a translation run
+ */
+
+export type TranslationProviderType =
+  | 'openai' // OpenAI-compatible chat completions: OpenAI, llama.cpp server, Ollama, ...
+  | 'deepl' // DeepL-style REST: POST /v2/translate
+  | 'command'; // Offline command-line translator
+
+export interface TranslationProviderConfig {
+  id: string;
+  name: string;
+  type: TranslationProviderType;
+  baseUrl?: string; // e.g. https://api.openai.com/v1, http://localhost:11434/v1, https://api-free.deepl.com
+  apiKey?: string;
+  model?: string; // Chat model, openai only
+  command?: string; // Executable, command only
+  args?: string[]; // {source} and {target} are replaced by the language codes
+  batchSize?: number; // Cues per request
+  contextSize?: number; // Neighbouring cues sent along, untranslated, on each side of a batch
+  maxRetries?: number; // Extra attempts for a failed batch
+  networkProfileId?: string; // Default network profile otherwise
+  isDefault: boolean; // Used when a translation selects no provider
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type TranslationProviderInput = Omit<TranslationProviderConfig, 'id' | 'isDefault' | 'createdAt' | 'updatedAt'>;
+
+export interface SubtitleTranslationOptions {
+  targetLanguage: string; // ISO 639-1 code
+  sourceLanguage?: string; // The subtitle's language otherwise
+  providerId?: string; // The default provider otherwise
+  useCache?: boolean; // Defaults to true
+}
+
+export interface TranslationProgress {
+  subtitleId: string;
+  translated: number; // Cues done, including cached ones
+  cached: number;
+  total: number;
+}
@@ -10,9 +10,14 @@ export interface VideoFormat {
   vcodec?: string;
   acodec?: string;
   filesize?: number;
+  filesizeApprox?: number; // Estimated from the bitrate when filesize is unknown
   width?: number;
   height?: number;
   tbr?: number; // Total bitrate
+  vbr?: number; // Video bitrate, kbps
+  abr?: number; // Audio bitrate, kbps
+  dynamicRange?: string; // SDR, HDR10, HDR10+, HLG, DV
+  note?: string; // yt-dlp format_note
 }
 
 export interface VideoInfo {
@@ -31,6 +36,33 @@ export interface VideoInfo {
   isLive?: boolean;
   isPrivate?: boolean;
   ageRestricted?: boolean;
+  playlistIndex?: number; // 1-based position when listed from a playlist
+  extractor?: string; // yt-dlp extractor key, e.g. "Youtube"
+  chapters?: VideoChapter[];
+}
+
+export interface VideoChapter {
+  title: string;
+  startTime: number; // seconds
+  endTime: number; // seconds
+}
+
+export interface PlaylistInfo {
+  id: string;
+  url: string;
+  title: string;
+  author: string;
+  type: 'playlist' | 'channel';
+  totalCount: number; // Items in the playlist before filtering
+  entries: VideoInfo[]; // Flat entries, availableFormats is empty
+}
+
+export interface PlaylistFetchOptions {
+  startIndex?: number; // 1-based, inclusive
+  endIndex?: number; // 1-based, inclusive
+  dateAfter?: string; // YYYYMMDD or YYYY-MM-DD, inclusive
+  dateBefore?: string; // YYYYMMDD or YYYY-MM-DD, inclusive
+  networkProfileId?: string;
 }
 
 export interface VideoMetadata {
@@ -47,6 +79,63 @@ export interface VideoMetadata {
   creationTime?: Date;
 }
 
+export type MediaStreamType = 'video' | 'audio' | 'subtitle';
+
+export interface MediaStream {
+  index: number; // Stream index in the file, as ffprobe numbers it
+  type: MediaStreamType;
+  typeIndex: number; // Position among streams of the same type
+  codec: string;
+  codecName?: string; // Long codec name
+  language?: string; // ISO 639-2, e.g. 'eng'
+  title?: string;
+  default: boolean;
+  forced: boolean;
+  hearingImpaired: boolean;
+  textBased?: boolean; // Subtitles only: false for bitmap formats such as PGS and VobSub
+  duration?: number; // seconds
+  bitrate?: number; // bits per second
+  width?: number;
+  height?: number;
+  fps?: number;
+  channels?: number;
+  channelLayout?: string;
+  sampleRate?: number;
+}
+
+export interface StreamExtractRequest {
+  index: number;
+  format?: string; // Output extension, e.g. 'srt' or 'mp3'; the stream's own format when left out
+}
+
+export interface StreamExtractOptions {
+  streams: StreamExtractRequest[];
+  outputDir?: string; // Default: the input file's folder
+}
+
+export interface StreamExtractResult {
+  index: number;
+  type: MediaStreamType;
+  format: string;
+  outputPath: string;
+  converted: boolean; // Re-encoded rather than copied
+}
+
+// One output track of a remux, in output order; streams not listed are dropped
+export interface RemuxTrack {
+  index?: number; // Stream index in the input, or in `file`; a file's first stream when left out
+  file?: string; // Add a stream from another file, such as a subtitle or audio track
+  language?: string;
+  title?: string;
+  default?: boolean;
+  forced?: boolean;
+}
+
+export interface RemuxOptions {
+  tracks: RemuxTrack[];
+  outputPath?: string; // Default: <name>.remux.<ext> next to the input
+}
+
 export type VideoQuality = '2160p' | '1440p' | '1080p' | '720p' | '480p' | '360p' | '240p' | '144p' | 'best' | 'worst';
 
 export type VideoContainer = 'mp4' | 'webm' | 'mkv' | 'mov' | 'avi' | 'flv';
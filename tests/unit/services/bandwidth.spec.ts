@@ -0,0 +1,134 @@
+/**
+ * Unit tests for BandwidthManager
+ */
+
+import { BandwidthManager, getScheduledLimit } from '../../../src/main/services/bandwidth';
+import { DownloadTask } from '../../../src/shared/types/tasks';
+import { UserPreferences } from '../../../src/shared/types/preferences';
+
+function createTask(id: string, status: DownloadTask['status'] = 'downloading'): DownloadTask {
+  return {
+    id,
+    videoInfo: global.createMockVideoInfo(),
+    status,
+    progress: 0,
+    outputPath: `/downloads/${id}.mp4`,
+    startTime: new Date()
+  } as DownloadTask;
+}
+
+function createDownloader(tasks: DownloadTask[]) {
+  const limits = new Map<string, number>();
+
+  return {
+    limits,
+    getTask: jest.fn((taskId: string) => tasks.find(t => t.id === taskId)),
+    listTasks: jest.fn(() => tasks),
+    setRateLimit: jest.fn((taskId: string, limit?: number) => {
+      if (limit !== undefined && limit > 0) {
+        limits.set(taskId, limit);
+      } else {
+        limits.delete(taskId);
+      }
+    }),
+    getRateLimit: jest.fn((taskId: string) => limits.get(taskId)),
+    restartTask: jest.fn()
+  };
+}
+
+function createManager(tasks: DownloadTask[], preferences: Partial<UserPreferences>) {
+  const downloader = createDownloader(tasks);
+  const storage = {
+    getPreferences: jest.fn(async () => preferences)
+  };
+  const manager = new BandwidthManager(downloader as any, storage as any);
+  return { manager, downloader };
+}
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes);
+
+describe('getScheduledLimit', () => {
+  const preferences = {
+    bandwidthLimit: 1000,
+    bandwidthSchedule: [
+      { start: '09:00', end: '18:00', limit: 200 },
+      { start: '23:00', end: '06:00', limit: 0 }
+    ]
+  } as UserPreferences;
+
+  it('should use the limit of the window containing the time', () => {
+    expect(getScheduledLimit(preferences, at(9))).toBe(200);
+    expect(getScheduledLimit(preferences, at(17, 59))).toBe(200);
+  });
+
+  it('should handle windows spanning midnight', () => {
+    expect(getScheduledLimit(preferences, at(23, 30))).toBe(0);
+    expect(getScheduledLimit(preferences, at(5))).toBe(0);
+  });
+
+  it('should fall back to the global limit outside all windows', () => {
+    expect(getScheduledLimit(preferences, at(18))).toBe(1000);
+    expect(getScheduledLimit({} as UserPreferences, at(12))).toBe(0);
+  });
+});
+
+describe('BandwidthManager', () => {
+  it('should split the limit and restart tasks whose share shrinks', async () => {
+    const tasks = [createTask('a')];
+    const { manager, downloader } = createManager(tasks, { bandwidthLimit: 1000 });
+
+    await manager.refresh();
+    manager.allocate('a');
+    expect(downloader.limits.get('a')).toBe(1000);
+
+    tasks.push(createTask('b', 'queued'));
+    manager.allocate('b');
+    tasks[1].status = 'downloading';
+
+    expect(downloader.limits.get('b')).toBe(500);
+    expect(downloader.limits.get('a')).toBe(500);
+    expect(downloader.restartTask).toHaveBeenCalledWith('a');
+  });
+
+  it('should keep per-task overrides out of the shared limit', async () => {
+    const tasks = [createTask('a'), createTask('b')];
+    tasks[0].rateLimit = 300;
+    const { manager, downloader } = createManager(tasks, { bandwidthLimit: 1000 });
+
+    await manager.refresh();
+
+    expect(downloader.limits.get('a')).toBe(300);
+    expect(downloader.limits.get('b')).toBe(1000);
+  });
+
+  it('should hand freed bandwidth back on refresh', async () => {
+    const tasks = [createTask('a'), createTask('b')];
+    const { manager, downloader } = createManager(tasks, { bandwidthLimit: 1000 });
+
+    await manager.refresh();
+    expect(downloader.limits.get('a')).toBe(500);
+
+    tasks[1].status = 'completed';
+    downloader.restartTask.mockClear();
+    await manager.refresh();
+
+    expect(downloader.limits.get('a')).toBe(1000);
+    expect(downloader.restartTask).toHaveBeenCalledWith('a');
+  });
+
+  it('should lift limits when the schedule becomes unlimited', async () => {
+    const tasks = [createTask('a')];
+    const preferences: Partial<UserPreferences> = { bandwidthLimit: 1000 };
+    const { manager, downloader } = createManager(tasks, preferences);
+    const changed = jest.fn();
+    manager.on('limit-changed', changed);
+
+    await manager.refresh();
+    preferences.bandwidthLimit = 0;
+    await manager.refresh();
+
+    expect(changed).toHaveBeenLastCalledWith(0);
+    expect(downloader.limits.has('a')).toBe(false);
+    expect(downloader.restartTask).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Unit tests for DownloadScheduler
+ */
+
+import { EventEmitter } from 'events';
+import { DownloadScheduler } from '../../../src/main/services/download-scheduler';
+import { DownloadTask, TaskQueue } from '../../../src/shared/types/tasks';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+function createTask(id: string, status: DownloadTask['status'] = 'queued'): DownloadTask {
+  return {
+    id,
+    videoInfo: global.createMockVideoInfo(),
+    status,
+    progress: 0,
+    downloadedBytes: 0,
+    totalBytes: 0,
+    speed: 0,
+    eta: 0,
+    outputPath: `/downloads/${id}.mp4`,
+    startTime: new Date(),
+    retryCount: 0,
+    maxRetries: 3
+  } as DownloadTask;
+}
+
+function createRepository() {
+  const tasks = new Map<string, DownloadTask>();
+  const running = () =>
+    Array.from(tasks.values()).filter(t => t.status === 'downloading').length;
+
+  return {
+    tasks,
+    saveDownloadTask: jest.fn(async (task: DownloadTask) => {
+      tasks.set(task.id, { ...task });
+    }),
+    getDownloadTasksByStatus: jest.fn(async (statuses: string[]) =>
+      Array.from(tasks.values()).filter(t => statuses.includes(t.status))
+    ),
+    canStartNewTask: jest.fn(async (max: number) => running() < max),
+    startTask: jest.fn(async (task: DownloadTask) => {
+      tasks.get(task.id)!.status = 'downloading';
+      return task;
+    }),
+    updateDownloadTask: jest.fn(async (taskId: string, updates: Partial<DownloadTask>) => {
+      Object.assign(tasks.get(taskId)!, updates);
+    }),
+    updateTaskStatus: jest.fn(async (taskId: string, status: DownloadTask['status']) => {
+      const task = tasks.get(taskId);
+      if (task) {
+        task.status = status;
+      }
+    }),
+    markTaskFailed: jest.fn(async (taskId: string) => {
+      const task = tasks.get(taskId);
+      if (task) {
+        task.status = 'failed';
+      }
+    }),
+    removeTask: jest.fn(async (taskId: string) => {
+      tasks.delete(taskId);
+    })
+  };
+}
+
+function createDownloader() {
+  const known = new Map<string, DownloadTask>();
+  const downloader = Object.assign(new EventEmitter(), {
+    createTask: jest.fn(async (url: string) => {
+      const task = createTask(`task-${known.size + 1}`);
+      task.videoInfo.url = url;
+      known.set(task.id, task);
+      return task;
+    }),
+    resolveVideoInfo: jest.fn(async (taskId: string) => known.get(taskId)!),
+    launchTask: jest.fn((taskId: string) => {
+      const task = known.get(taskId)!;
+      task.status = 'downloading';
+      return task;
+    }),
+    restoreTask: jest.fn((task: DownloadTask) => {
+      known.set(task.id, task);
+    }),
+    getTask: jest.fn((taskId: string) => known.get(taskId)),
+    pauseDownload: jest.fn(),
+    requeueTask: jest.fn((taskId: string) => {
+      const task = known.get(taskId)!;
+      task.status = 'queued';
+      return task;
+    }),
+    cancelDownload: jest.fn()
+  });
+  return { downloader, known };
+}
+
+function createStorage() {
+  const queues = new Map<string, TaskQueue>();
+  return {
+    queues,
+    getPreferences: jest.fn(async () => ({ maxConcurrentDownloads: 2 })),
+    getTaskQueues: jest.fn(async () => Array.from(queues.values())),
+    getTaskQueue: jest.fn(async (queueId: string) => queues.get(queueId) || null),
+    createTaskQueue: jest.fn(async (name: string, maxConcurrent: number, options: any = {}) => {
+      const queue = {
+        id: options.id || `queue-${queues.size + 1}`,
+        name,
+        tasks: [],
+        maxConcurrent,
+        currentlyProcessing: 0,
+        autoStart: true,
+        priority: options.priority || 'normal',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      } as TaskQueue;
+      queues.set(queue.id, queue);
+      return queue;
+    }),
+    updateTaskQueue: jest.fn(async (queue: TaskQueue) => {
+      queues.set(queue.id, queue);
+    })
+  };
+}
+
+describe('DownloadScheduler', () => {
+  let repository: ReturnType<typeof createRepository>;
+  let downloader: ReturnType<typeof createDownloader>['downloader'];
+  let known: Map<string, DownloadTask>;
+  let storage: ReturnType<typeof createStorage>;
+  let scheduler: DownloadScheduler;
+
+  const waitingOrder = () =>
+    Array.from(repository.tasks.values())
+      .filter(t => t.status === 'queued')
+      .sort((a, b) => a.queuePosition! - b.queuePosition!)
+      .map(t => t.id);
+
+  beforeEach(() => {
+    repository = createRepository();
+    ({ downloader, known } = createDownloader());
+    storage = createStorage();
+    scheduler = new DownloadScheduler(downloader as any, repository as any, storage as any);
+  });
+
+  it('should not start more tasks than maxConcurrentDownloads', async () => {
+    for (let i = 0; i < 5; i++) {
+      await scheduler.enqueue(`https://example.com/video${i}`, { outputPath: '/downloads' });
+    }
+    await flush();
+
+    expect(downloader.launchTask).toHaveBeenCalledTimes(2);
+    expect(Array.from(repository.tasks.values()).filter(t => t.status === 'queued')).toHaveLength(3);
+  });
+
+  it('should start the next queued task when a slot frees up', async () => {
+    for (let i = 0; i < 3; i++) {
+      await scheduler.enqueue(`https://example.com/video${i}`, { outputPath: '/downloads' });
+    }
+    await flush();
+
+    const first = known.get('task-1')!;
+    first.status = 'completed';
+    downloader.emit('download-complete', first.id, first);
+    await flush();
+    await flush();
+
+    expect(repository.removeTask).toHaveBeenCalledWith('task-1');
+    expect(downloader.launchTask).toHaveBeenLastCalledWith('task-3');
+  });
+
+  it('should requeue tasks that were downloading when the app quit', async () => {
+    repository.tasks.set('old-1', createTask('old-1', 'downloading'));
+    repository.tasks.set('old-2', createTask('old-2', 'paused'));
+
+    await scheduler.restore();
+    await flush();
+
+    expect(downloader.restoreTask).toHaveBeenCalledTimes(2);
+    expect(downloader.launchTask).toHaveBeenCalledWith('old-1');
+    expect(downloader.launchTask).not.toHaveBeenCalledWith('old-2');
+    expect(known.get('old-1')!.startTime).toBeInstanceOf(Date);
+  });
+
+  it('should resume tasks interrupted by quitting and keep user-paused ones', async () => {
+    const interrupted = createTask('old-1', 'paused');
+    interrupted.pauseReason = 'Interrupted';
+    const userPaused = createTask('old-2', 'paused');
+    userPaused.pauseReason = 'User requested';
+    repository.tasks.set(interrupted.id, interrupted);
+    repository.tasks.set(userPaused.id, userPaused);
+
+    await scheduler.restore();
+    await flush();
+
+    expect(downloader.launchTask).toHaveBeenCalledWith('old-1');
+    expect(downloader.launchTask).not.toHaveBeenCalledWith('old-2');
+    expect(repository.tasks.get('old-1')!.pauseReason).toBeUndefined();
+  });
+
+  it('should let failed tasks from the previous session be retried', async () => {
+    repository.tasks.set('old-1', createTask('old-1', 'failed'));
+
+    await scheduler.restore();
+    await flush();
+
+    expect(downloader.launchTask).not.toHaveBeenCalled();
+
+    await scheduler.resume('old-1');
+    await flush();
+
+    expect(downloader.requeueTask).toHaveBeenCalledWith('old-1');
+    expect(downloader.launchTask).toHaveBeenCalledWith('old-1');
+  });
+
+  it('should fetch the full info of playlist entries when they start', async () => {
+    const entry = { ...global.createMockVideoInfo(), availableFormats: [] };
+    downloader.resolveVideoInfo.mockImplementation(async (taskId: string) => {
+      const task = known.get(taskId)!;
+      task.videoInfo = global.createMockVideoInfo();
+      return task;
+    });
+
+    await scheduler.enqueue(entry.url, { outputPath: '/downloads' }, entry);
+    expect(downloader.createTask).toHaveBeenCalledWith(entry.url, { outputPath: '/downloads' }, entry);
+    await flush();
+
+    expect(downloader.resolveVideoInfo).toHaveBeenCalledWith('task-1');
+    expect(repository.tasks.get('task-1')!.videoInfo.availableFormats).toHaveLength(2);
+    expect(downloader.launchTask).toHaveBeenCalledWith('task-1');
+  });
+
+  it('should persist download checkpoints', async () => {
+    await scheduler.enqueue('https://example.com/a', { outputPath: '/downloads' });
+    await flush();
+
+    const task = known.get('task-1')!;
+    Object.assign(task, {
+      progress: 40,
+      partialFilePath: '/downloads/task-1.mp4.part',
+      resumePosition: 4096,
+      lastCheckpoint: new Date()
+    });
+    downloader.emit('download-checkpoint', task.id, task);
+    await flush();
+
+    expect(repository.tasks.get('task-1')).toMatchObject({
+      progress: 40,
+      partialFilePath: '/downloads/task-1.mp4.part',
+      resumePosition: 4096
+    });
+  });
+
+  it('should retry transient failures and give up on permanent ones', async () => {
+    await scheduler.enqueue('https://example.com/a', { outputPath: '/downloads' });
+    await scheduler.enqueue('https://example.com/b', { outputPath: '/downloads' });
+    await flush();
+
+    const transient = Object.assign(known.get('task-1')!, {
+      status: 'failed',
+      lastErrorCode: 'NETWORK',
+      maxRetries: 2,
+      retryDelay: 0
+    });
+    const permanent = Object.assign(known.get('task-2')!, {
+      status: 'failed',
+      lastErrorCode: 'PRIVATE',
+      maxRetries: 2
+    });
+    downloader.emit('download-failed', transient.id, transient);
+    downloader.emit('download-failed', permanent.id, permanent);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await flush();
+
+    expect(transient.retryCount).toBe(1);
+    expect(repository.tasks.get('task-1')!.nextRetryAt).toBeInstanceOf(Date);
+    expect(downloader.launchTask).toHaveBeenLastCalledWith('task-1');
+    expect(repository.tasks.get('task-2')!.status).toBe('failed');
+  });
+
+  it('should start tasks from high priority queues first', async () => {
+    const urgent = await scheduler.createQueue('Urgent', 'high');
+    await scheduler.pauseQueue('default');
+    await scheduler.enqueue('https://example.com/a', { outputPath: '/downloads' });
+    await scheduler.enqueue('https://example.com/b', { outputPath: '/downloads', queueId: urgent.id });
+    await flush();
+
+    expect(downloader.launchTask).toHaveBeenCalledTimes(1);
+    expect(downloader.launchTask).toHaveBeenCalledWith('task-2');
+
+    await scheduler.resumeQueue('default');
+    await flush();
+
+    expect(downloader.launchTask).toHaveBeenLastCalledWith('task-1');
+  });
+
+  it('should reorder waiting tasks within a queue', async () => {
+    await scheduler.pauseQueue('default');
+    for (let i = 0; i < 4; i++) {
+      await scheduler.enqueue(`https://example.com/video${i}`, { outputPath: '/downloads' });
+    }
+
+    await scheduler.moveTask('task-4', 'top');
+    expect(waitingOrder()).toEqual(['task-4', 'task-1', 'task-2', 'task-3']);
+
+    await scheduler.moveTask('task-1', 'down');
+    expect(waitingOrder()).toEqual(['task-4', 'task-2', 'task-1', 'task-3']);
+
+    await scheduler.moveTask('task-4', 2);
+    expect(waitingOrder()).toEqual(['task-2', 'task-1', 'task-4', 'task-3']);
+    expect(downloader.launchTask).not.toHaveBeenCalled();
+  });
+
+  it('should move a task to the end of another queue', async () => {
+    const other = await scheduler.createQueue('Later', 'low');
+    await scheduler.pauseQueue('default');
+    await scheduler.pauseQueue(other.id);
+    await scheduler.enqueue('https://example.com/a', { outputPath: '/downloads', queueId: other.id });
+    await scheduler.enqueue('https://example.com/b', { outputPath: '/downloads' });
+
+    await scheduler.transferTask('task-2', other.id);
+
+    const moved = repository.tasks.get('task-2')!;
+    expect(moved.queueId).toBe(other.id);
+    expect(moved.queuePosition).toBe(1);
+    await expect(scheduler.transferTask('task-2', 'missing')).rejects.toThrow('Queue not found');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for DownloaderService playlist expansion
+ */
+
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { DownloaderService } from '../../../src/main/services/downloader';
+
+function mockYtdlpOutput(json: unknown, code = 0) {
+  (spawn as jest.Mock).mockImplementation(() => {
+    const process = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter()
+    });
+    setImmediate(() => {
+      process.stdout.emit('data', Buffer.from(JSON.stringify(json)));
+      process.emit('close', code);
+    });
+    return process;
+  });
+}
+
+const playlistJson = {
+  _type: 'playlist',
+  id: 'PL123',
+  title: 'Test Playlist',
+  uploader: 'Test Channel',
+  playlist_count: 3,
+  entries: [
+    { id: 'a', url: 'https://www.youtube.com/watch?v=a', title: 'First', duration: 60, upload_date: '20240105' },
+    { id: 'b', url: 'https://www.youtube.com/watch?v=b', title: 'Second', duration: 90, upload_date: '20240320' },
+    { id: 'c', url: 'https://www.youtube.com/watch?v=c', title: 'Third', duration: 30 }
+  ]
+};
+
+describe('DownloaderService.fetchPlaylist', () => {
+  let service: DownloaderService;
+
+  beforeEach(() => {
+    service = new DownloaderService('yt-dlp');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should expand a playlist into flat video entries', async () => {
+    mockYtdlpOutput(playlistJson);
+
+    const playlist = await service.fetchPlaylist('https://www.youtube.com/playlist?list=PL123');
+
+    expect(spawn).toHaveBeenCalledWith('yt-dlp', expect.arrayContaining(['--flat-playlist']));
+    expect(playlist.type).toBe('playlist');
+    expect(playlist.totalCount).toBe(3);
+    expect(playlist.entries.map(e => e.playlistIndex)).toEqual([1, 2, 3]);
+    expect(playlist.entries[0].uploadDate?.toISOString()).toBe('2024-01-05T00:00:00.000Z');
+  });
+
+  it('should pass the index range to yt-dlp and number entries from the start index', async () => {
+    mockYtdlpOutput({ ...playlistJson, entries: playlistJson.entries.slice(1) });
+
+    const playlist = await service.fetchPlaylist('https://www.youtube.com/playlist?list=PL123', {
+      startIndex: 2,
+      endIndex: 3
+    });
+
+    expect(spawn).toHaveBeenCalledWith(
+      'yt-dlp',
+      expect.arrayContaining(['--playlist-items', '2:3'])
+    );
+    expect(playlist.entries.map(e => e.playlistIndex)).toEqual([2, 3]);
+  });
+
+  it('should filter dated entries and keep undated ones', async () => {
+    mockYtdlpOutput(playlistJson);
+
+    const playlist = await service.fetchPlaylist('https://www.youtube.com/playlist?list=PL123', {
+      dateAfter: '2024-02-01'
+    });
+
+    expect(playlist.entries.map(e => e.id)).toEqual(['b', 'c']);
+  });
+
+  it('should reject channel URLs that only list tabs', async () => {
+    mockYtdlpOutput({
+      ...playlistJson,
+      entries: [{ _type: 'playlist', id: 'tab', url: 'https://www.youtube.com/@test/videos' }]
+    });
+
+    await expect(service.fetchPlaylist('https://www.youtube.com/@test'))
+      .rejects.toThrow('open a specific tab');
+  });
+});
+
+describe('DownloaderService tasks from playlist entries', () => {
+  let service: DownloaderService;
+
+  beforeEach(() => {
+    service = new DownloaderService('yt-dlp');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should queue a flat entry without fetching the video', async () => {
+    const entry = { ...global.createMockVideoInfo(), availableFormats: [] };
+
+    const task = await service.createTask(entry.url, {
+      outputPath: '/downloads',
+      formatSelection: { videoFormatId: '22' },
+      playlist: { id: 'PL123', title: 'Test Playlist', index: 4 }
+    }, entry);
+
+    expect(spawn).not.toHaveBeenCalled();
+    expect(task.status).toBe('queued');
+    expect(task.outputPath).toBe('/downloads/004 - Test Video.mp4');
+  });
+});
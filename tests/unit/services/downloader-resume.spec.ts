@@ -0,0 +1,119 @@
+/**
+ * Unit tests for DownloaderService partial file tracking and failure history
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { DownloaderService } from '../../../src/main/services/downloader';
+import { DownloadTask } from '../../../src/shared/types/tasks';
+
+function mockYtdlpProcess() {
+  const process = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: jest.fn()
+  });
+  (spawn as jest.Mock).mockReturnValue(process);
+  return process;
+}
+
+function createTask(overrides: Partial<DownloadTask> = {}): DownloadTask {
+  return {
+    id: 'task-1',
+    videoInfo: global.createMockVideoInfo(),
+    status: 'queued',
+    progress: 0,
+    downloadedBytes: 0,
+    totalBytes: 0,
+    speed: 0,
+    eta: 0,
+    outputPath: '/downloads/Test Video.mp4',
+    startTime: new Date(),
+    resumable: true,
+    ...overrides
+  } as DownloadTask;
+}
+
+describe('DownloaderService resumable downloads', () => {
+  let service: DownloaderService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    service = new DownloaderService('yt-dlp');
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prevideo-resume-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should track the .part file and emit a checkpoint', () => {
+    const process = mockYtdlpProcess();
+    const checkpoint = jest.fn();
+    service.on('download-checkpoint', checkpoint);
+    service.restoreTask(createTask());
+    service.launchTask('task-1');
+
+    process.stdout.emit('data', Buffer.from(
+      '[download] Destination: /downloads/Test Video.f137.mp4\n' +
+      '[download]  10.0% of 100.00MiB at 1.00MiB/s ETA 01:30\n'
+    ));
+
+    const task = service.getTask('task-1')!;
+    expect(task.partialFilePath).toBe('/downloads/Test Video.f137.mp4.part');
+    expect(task.progress).toBe(10);
+    expect(checkpoint).toHaveBeenCalledWith('task-1', task);
+  });
+
+  it('should append every failed attempt to the failure history', () => {
+    service.restoreTask(createTask());
+
+    for (const reason of ['HTTP Error 403: Forbidden', 'Connection reset by peer']) {
+      const process = mockYtdlpProcess();
+      service.launchTask('task-1');
+      process.stderr.emit('data', Buffer.from(`ERROR: unable to download video data: ${reason}\n`));
+      process.emit('close', 1);
+    }
+
+    const task = service.getTask('task-1')!;
+    expect(task.status).toBe('failed');
+    expect(task.failureHistory).toHaveLength(2);
+    expect(task.failureHistory![1].reason).toBe(
+      'unable to download video data: Connection reset by peer'
+    );
+  });
+
+  it('should continue from the size of the partial file on disk', () => {
+    const partialFilePath = path.join(tempDir, 'video.mp4.part');
+    fs.writeFileSync(partialFilePath, Buffer.alloc(2048));
+    mockYtdlpProcess();
+
+    service.restoreTask(createTask({ status: 'paused', progress: 40, partialFilePath, resumePosition: 1024 }));
+    service.launchTask('task-1');
+
+    const task = service.getTask('task-1')!;
+    expect(task.resumePosition).toBe(2048);
+    expect(task.progress).toBe(40);
+    expect(spawn).toHaveBeenCalledWith('yt-dlp', expect.arrayContaining(['--continue']));
+  });
+
+  it('should reset progress when the partial file is gone', () => {
+    mockYtdlpProcess();
+
+    service.restoreTask(createTask({
+      status: 'paused',
+      progress: 40,
+      partialFilePath: path.join(tempDir, 'missing.mp4.part'),
+      resumePosition: 1024
+    }));
+    service.launchTask('task-1');
+
+    const task = service.getTask('task-1')!;
+    expect(task.progress).toBe(0);
+    expect(task.resumePosition).toBeUndefined();
+  });
+});
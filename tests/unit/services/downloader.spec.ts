@@ -2,246 +2,257 @@
  * Unit tests for DownloaderService
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
 import { DownloaderService } from '../../../src/main/services/downloader';
-import { YtDlpWrapper } from '../../../src/main/binaries/ytdlp-wrapper';
-import { VideoInfo } from '../../../src/shared/types/video';
 
-jest.mock('../../../src/main/binaries/ytdlp-wrapper');
+type MockProcess = EventEmitter & { stdout: EventEmitter; stderr: EventEmitter; kill: jest.Mock };
+
+function createProcess(): MockProcess {
+  return Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: jest.fn()
+  });
+}
+
+// A yt-dlp run that prints `stdout` and `stderr`, then exits with `code`
+function createFinishedProcess(stdout: string, code = 0, stderr = ''): MockProcess {
+  const process = createProcess();
+  setImmediate(() => {
+    if (stdout !== '') {
+      process.stdout.emit('data', Buffer.from(stdout));
+    }
+    if (stderr !== '') {
+      process.stderr.emit('data', Buffer.from(stderr));
+    }
+    process.emit('close', code);
+  });
+  return process;
+}
+
+const videoJson = {
+  id: 'test-id',
+  webpage_url: 'https://example.com/video',
+  title: 'Test Video',
+  uploader: 'Test Author',
+  duration: 120,
+  thumbnail: 'https://example.com/thumb.jpg',
+  description: 'Test description',
+  view_count: 1000,
+  like_count: 100,
+  upload_date: '20240101',
+  formats: [],
+  subtitles: { en: [] }
+};
 
 describe('DownloaderService', () => {
   let service: DownloaderService;
-  let mockYtdlp: jest.Mocked<YtDlpWrapper>;
+  let download: MockProcess;
+
+  // The video info lookup, then the download itself
+  const mockDownload = () => {
+    download = createProcess();
+    (spawn as jest.Mock)
+      .mockImplementationOnce(() => createFinishedProcess(JSON.stringify(videoJson)))
+      .mockImplementationOnce(() => download);
+  };
+
+  const downloadArgs = (): string[] => (spawn as jest.Mock).mock.calls[1][1];
 
   beforeEach(() => {
-    mockYtdlp = new YtDlpWrapper() as jest.Mocked<YtDlpWrapper>;
-    service = new DownloaderService();
-    (service as any).ytdlp = mockYtdlp;
+    service = new DownloaderService('yt-dlp');
   });
 
   afterEach(() => {
     jest.clearAllMocks();
+    (spawn as jest.Mock).mockReset();
   });
 
   describe('fetchVideoInfo', () => {
     it('should fetch video info successfully', async () => {
-      const mockVideoInfo: VideoInfo = {
+      (spawn as jest.Mock).mockImplementation(() => createFinishedProcess(JSON.stringify(videoJson)));
+
+      const result = await service.fetchVideoInfo('https://example.com/video');
+
+      expect(result).toMatchObject({
         id: 'test-id',
+        url: 'https://example.com/video',
         title: 'Test Video',
         author: 'Test Author',
         duration: 120,
-        thumbnail: 'https://example.com/thumb.jpg',
-        description: 'Test description',
         viewCount: 1000,
         likeCount: 100,
-        uploadDate: '2024-01-01',
         availableFormats: [],
-        availableSubtitles: []
-      };
-
-      mockYtdlp.fetchVideoInfo.mockResolvedValue(mockVideoInfo);
-
-      const result = await service.fetchVideoInfo('https://example.com/video');
-
-      expect(result).toEqual(mockVideoInfo);
-      expect(mockYtdlp.fetchVideoInfo).toHaveBeenCalledWith('https://example.com/video');
+        availableSubtitles: ['en']
+      });
+      expect(spawn).toHaveBeenCalledWith(
+        'yt-dlp',
+        expect.arrayContaining(['https://example.com/video', '--dump-json', '--no-playlist'])
+      );
     });
 
     it('should handle fetch error gracefully', async () => {
-      const error = new Error('Failed to fetch');
-      mockYtdlp.fetchVideoInfo.mockRejectedValue(error);
+      (spawn as jest.Mock).mockImplementation(() =>
+        createFinishedProcess('', 1, 'ERROR: Unable to download webpage'));
 
       await expect(service.fetchVideoInfo('https://example.com/video'))
-        .rejects.toThrow('Failed to fetch');
+        .rejects.toThrow('Failed to fetch video info: ERROR: Unable to download webpage');
     });
 
-    it('should validate URL before fetching', async () => {
+    it('should reject URLs yt-dlp cannot handle', async () => {
+      (spawn as jest.Mock).mockImplementation(() =>
+        createFinishedProcess('', 1, "ERROR: 'invalid-url' is not a valid URL"));
+
       await expect(service.fetchVideoInfo('invalid-url'))
-        .rejects.toThrow('Invalid URL');
+        .rejects.toThrow('is not a valid URL');
     });
   });
 
   describe('startDownload', () => {
     it('should start download with default options', async () => {
-      const mockTask = {
-        taskId: 'task-123',
-        process: {} as any
-      };
+      mockDownload();
 
-      mockYtdlp.download.mockResolvedValue(mockTask);
+      const task = await service.startDownload('https://example.com/video', { outputPath: '/output' });
 
-      const result = await service.startDownload(
+      expect(task.status).toBe('downloading');
+      expect(task.outputPath).toBe(path.join('/output', 'Test Video.mp4'));
+      expect(downloadArgs()).toEqual(expect.arrayContaining([
         'https://example.com/video',
-        '/output/path.mp4'
-      );
-
-      expect(result.taskId).toBe('task-123');
-      expect(mockYtdlp.download).toHaveBeenCalledWith(
-        'https://example.com/video',
-        '/output/path.mp4',
-        expect.objectContaining({
-          quality: 'best',
-          format: 'mp4'
-        })
-      );
+        '-o', path.join('/output', 'Test Video.mp4'),
+        '--continue',
+        '--newline'
+      ]));
+      expect(downloadArgs()).not.toContain('--write-sub');
     });
 
     it('should start download with custom options', async () => {
-      const mockTask = {
-        taskId: 'task-456',
-        process: {} as any
-      };
-
-      mockYtdlp.download.mockResolvedValue(mockTask);
+      mockDownload();
 
-      const options = {
+      const task = await service.startDownload('https://example.com/video', {
+        outputPath: '/output',
         quality: '1080p',
-        format: 'webm',
+        preferredFormat: 'webm',
         subtitleLanguages: ['en', 'zh-CN']
-      };
-
-      const result = await service.startDownload(
-        'https://example.com/video',
-        '/output/path.webm',
-        options
-      );
+      });
 
-      expect(result.taskId).toBe('task-456');
-      expect(mockYtdlp.download).toHaveBeenCalledWith(
-        'https://example.com/video',
-        '/output/path.webm',
-        expect.objectContaining({
-          quality: '1080p',
-          format: 'webm',
-          subtitles: ['en', 'zh-CN']
-        })
-      );
+      expect(task.outputPath).toBe(path.join('/output', 'Test Video.webm'));
+      expect(task.metadata).toMatchObject({ videoQuality: '1080p', subtitleLanguages: ['en', 'zh-CN'] });
+      expect(downloadArgs()).toEqual(expect.arrayContaining([
+        '--merge-output-format', 'webm',
+        '--write-sub',
+        '--sub-langs', 'en,zh-CN'
+      ]));
     });
 
     it('should handle progress updates', async () => {
+      mockDownload();
       const progressCallback = jest.fn();
-      const mockTask = {
-        taskId: 'task-789',
-        process: {
-          stdout: {
-            on: (event: string, callback: Function) => {
-              if (event === 'data') {
-                // Simulate progress data
-                callback(Buffer.from('[download]  50.0%'));
-              }
-            }
-          }
-        } as any
-      };
-
-      mockYtdlp.download.mockImplementation((url, output, options) => {
-        if (options?.onProgress) {
-          options.onProgress({
-            taskId: 'task-789',
-            progress: 50.0,
-            speed: '2.5MB/s',
-            eta: '00:30'
-          });
-        }
-        return Promise.resolve(mockTask);
-      });
-
-      const result = await service.startDownload(
-        'https://example.com/video',
-        '/output/path.mp4',
-        { onProgress: progressCallback }
-      );
-
-      expect(progressCallback).toHaveBeenCalledWith(
-        expect.objectContaining({
-          taskId: 'task-789',
-          progress: 50.0
-        })
-      );
+      service.on('download-progress', progressCallback);
+
+      const task = await service.startDownload('https://example.com/video', { outputPath: '/output' });
+      download.stdout.emit('data', Buffer.from('[download]  50.0% of 10.00MiB at 2.50MiB/s ETA 00:30\n'));
+
+      expect(progressCallback).toHaveBeenCalledWith(task.id, expect.objectContaining({
+        progress: 50,
+        totalBytes: 10 * 1024 * 1024,
+        downloadedBytes: 5 * 1024 * 1024,
+        speed: 2.5 * 1024 * 1024,
+        eta: 30
+      }));
+      expect(service.getProgress(task.id)).toMatchObject({ taskId: task.id, progress: 50, status: 'downloading' });
     });
   });
 
   describe('pauseDownload', () => {
     it('should pause active download', async () => {
-      const taskId = 'task-123';
-      service.addActiveDownload(taskId, {} as any);
+      mockDownload();
+      const task = await service.startDownload('https://example.com/video', { outputPath: '/output' });
 
-      const result = await service.pauseDownload(taskId);
+      await service.pauseDownload(task.id);
 
-      expect(result).toBe(true);
-      expect(service.isDownloadActive(taskId)).toBe(false);
+      expect(download.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(service.getTask(task.id)).toMatchObject({ status: 'paused', pauseReason: 'User requested' });
     });
 
-    it('should return false for non-existent task', async () => {
-      const result = await service.pauseDownload('non-existent');
-      expect(result).toBe(false);
+    it('should reject a non-existent task', async () => {
+      await expect(service.pauseDownload('non-existent')).rejects.toThrow('Task not found');
     });
   });
 
   describe('resumeDownload', () => {
     it('should resume paused download', async () => {
-      const mockTask = {
-        taskId: 'task-123',
-        process: {} as any
-      };
-
-      mockYtdlp.download.mockResolvedValue(mockTask);
+      mockDownload();
+      const task = await service.startDownload('https://example.com/video', { outputPath: '/output' });
+      await service.pauseDownload(task.id);
+      (spawn as jest.Mock).mockImplementationOnce(() => createProcess());
 
-      const result = await service.resumeDownload(
-        'task-123',
-        'https://example.com/video',
-        '/output/path.mp4',
-        { resumeFrom: 1024 * 1024 } // 1MB
-      );
+      await service.resumeDownload(task.id);
 
-      expect(result).toBe(true);
-      expect(mockYtdlp.download).toHaveBeenCalled();
+      expect(spawn).toHaveBeenCalledTimes(3);
+      expect((spawn as jest.Mock).mock.calls[2][1]).toContain('--continue');
+      expect(service.getTask(task.id)!.status).toBe('downloading');
+      expect(service.getTask(task.id)!.resumeTime).toBeInstanceOf(Date);
     });
   });
 
   describe('cancelDownload', () => {
-    it('should cancel active download', () => {
-      mockYtdlp.cancelDownload.mockReturnValue(true);
+    it('should cancel active download', async () => {
+      mockDownload();
+      const cancelled = jest.fn();
+      service.on('download-cancelled', cancelled);
+      const task = await service.startDownload('https://example.com/video', { outputPath: '/output' });
 
-      const result = service.cancelDownload('task-123');
+      await service.cancelDownload(task.id);
 
-      expect(result).toBe(true);
-      expect(mockYtdlp.cancelDownload).toHaveBeenCalledWith('task-123');
+      expect(download.kill).toHaveBeenCalledWith('SIGKILL');
+      expect(cancelled).toHaveBeenCalledWith(task.id);
+      expect(service.getTask(task.id)).toBeUndefined();
     });
 
-    it('should return false for non-existent task', () => {
-      mockYtdlp.cancelDownload.mockReturnValue(false);
-
-      const result = service.cancelDownload('non-existent');
-
-      expect(result).toBe(false);
+    it('should reject a non-existent task', async () => {
+      await expect(service.cancelDownload('non-existent')).rejects.toThrow('Task not found');
     });
   });
 
-  describe('getActiveDownloads', () => {
-    it('should return list of active downloads', () => {
-      service.addActiveDownload('task-1', { url: 'url1' } as any);
-      service.addActiveDownload('task-2', { url: 'url2' } as any);
+  describe('listTasks', () => {
+    it('should return list of active downloads', async () => {
+      mockDownload();
+      const first = await service.startDownload('https://example.com/video', { outputPath: '/output' });
+      mockDownload();
+      const second = await service.startDownload('https://example.com/video', { outputPath: '/output' });
 
-      const active = service.getActiveDownloads();
+      const tasks = service.listTasks();
 
-      expect(active).toHaveLength(2);
-      expect(active).toContain('task-1');
-      expect(active).toContain('task-2');
+      expect(tasks).toHaveLength(2);
+      expect(tasks.map(t => t.id)).toEqual([first.id, second.id]);
     });
 
     it('should return empty array when no active downloads', () => {
-      const active = service.getActiveDownloads();
-      expect(active).toEqual([]);
+      expect(service.listTasks()).toEqual([]);
     });
   });
 
   describe('cleanup', () => {
-    it('should cleanup all resources', () => {
-      mockYtdlp.cleanup.mockImplementation(() => {});
-
-      service.cleanup();
-
-      expect(mockYtdlp.cleanup).toHaveBeenCalled();
+    it('should remove the partial file of a cancelled download', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prevideo-cancel-'));
+      const partialFile = path.join(tempDir, 'Test Video.mp4.part');
+      fs.writeFileSync(partialFile, 'partial');
+
+      try {
+        mockDownload();
+        const task = await service.startDownload('https://example.com/video', { outputPath: tempDir });
+        download.stdout.emit('data', Buffer.from(`[download] Destination: ${path.join(tempDir, 'Test Video.mp4')}\n`));
+
+        await service.cancelDownload(task.id);
+
+        expect(fs.existsSync(partialFile)).toBe(false);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
     });
   });
-});
\ No newline at end of file
+});
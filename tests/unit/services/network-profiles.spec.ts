@@ -0,0 +1,136 @@
+/**
+ * Unit tests for NetworkProfileService
+ */
+
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { DownloaderService } from '../../../src/main/services/downloader';
+import {
+  NetworkProfileService,
+  buildNetworkArgs
+} from '../../../src/main/services/network-profiles';
+import { NetworkProfile } from '../../../src/shared/types/network';
+
+function createStorage(preferences: Record<string, unknown> = {}) {
+  let saved: NetworkProfile[] = [];
+
+  return {
+    getNetworkProfiles: jest.fn(async () => saved),
+    saveNetworkProfiles: jest.fn(async (profiles: NetworkProfile[]) => {
+      saved = profiles;
+    }),
+    getPreferences: jest.fn(async () => preferences)
+  };
+}
+
+describe('buildNetworkArgs', () => {
+  it('should translate every profile setting into yt-dlp options', () => {
+    const args = buildNetworkArgs({
+      id: 'network-1',
+      name: 'Work',
+      proxy: 'socks5://127.0.0.1:1080',
+      cookiesFromBrowser: { browser: 'firefox', profile: 'default-release' },
+      userAgent: 'Mozilla/5.0',
+      headers: { Referer: 'https://example.com' },
+      sourceAddress: '192.168.1.10',
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    expect(args).toEqual([
+      '--proxy', 'socks5://127.0.0.1:1080',
+      '--cookies-from-browser', 'firefox:default-release',
+      '--add-header', 'User-Agent:Mozilla/5.0',
+      '--add-header', 'Referer:https://example.com',
+      '--source-address', '192.168.1.10'
+    ]);
+  });
+
+  it('should add nothing without a profile', () => {
+    expect(buildNetworkArgs(undefined)).toEqual([]);
+  });
+});
+
+describe('NetworkProfileService', () => {
+  it('should fall back to the default profile for unknown or missing selections', async () => {
+    const service = new NetworkProfileService(createStorage() as any);
+    await service.load();
+
+    const work = await service.createProfile({ name: 'Work', proxy: 'http://proxy:8080' });
+    const home = await service.createProfile({ name: 'Home' });
+    await service.setDefaultProfile(work.id);
+
+    expect(service.resolveProfile(home.id)?.id).toBe(home.id);
+    expect(service.resolveProfile()?.id).toBe(work.id);
+    expect(service.resolveProfile('network-deleted')?.id).toBe(work.id);
+  });
+
+  it('should turn a proxy saved before profiles existed into the default profile', async () => {
+    const storage = createStorage({ proxyEnabled: true, proxyUrl: 'http://proxy:3128' });
+    const service = new NetworkProfileService(storage as any);
+
+    await service.load();
+
+    expect(service.getYtDlpArgs()).toEqual(['--proxy', 'http://proxy:3128']);
+    expect(storage.saveNetworkProfiles).toHaveBeenCalled();
+  });
+
+  it('should clear settings left out of an update', async () => {
+    const service = new NetworkProfileService(createStorage() as any);
+    const profile = await service.createProfile({
+      name: 'Work',
+      proxy: 'http://proxy:8080',
+      userAgent: 'Mozilla/5.0'
+    });
+
+    const updated = await service.updateProfile(profile.id, { name: 'Work', userAgent: 'Mozilla/5.0' });
+
+    expect(updated.proxy).toBeUndefined();
+    expect(updated.userAgent).toBe('Mozilla/5.0');
+  });
+
+  it('should reject invalid profiles', async () => {
+    const service = new NetworkProfileService(createStorage() as any);
+    await service.createProfile({ name: 'Work' });
+
+    await expect(service.createProfile({ name: 'Work' })).rejects.toThrow('already exists');
+    await expect(service.createProfile({ name: 'Ftp', proxy: 'ftp://proxy' })).rejects.toThrow('Proxy');
+    await expect(service.createProfile({
+      name: 'Both',
+      cookiesFile: __filename,
+      cookiesFromBrowser: { browser: 'chrome' }
+    })).rejects.toThrow('either');
+    await expect(service.createProfile({
+      name: 'Header',
+      headers: { 'Bad Header': 'x' }
+    })).rejects.toThrow('Invalid header name');
+  });
+
+  it('should apply the selected profile to yt-dlp calls', async () => {
+    const service = new NetworkProfileService(createStorage() as any);
+    const profile = await service.createProfile({ name: 'Proxy', proxy: 'http://proxy:8080' });
+
+    const downloader = new DownloaderService('yt-dlp');
+    downloader.setNetworkProfiles(service);
+
+    (spawn as jest.Mock).mockImplementation(() => {
+      const process = Object.assign(new EventEmitter(), {
+        stdout: new EventEmitter(),
+        stderr: new EventEmitter()
+      });
+      setImmediate(() => {
+        process.stdout.emit('data', Buffer.from(JSON.stringify({ id: 'a', title: 'A' })));
+        process.emit('close', 0);
+      });
+      return process;
+    });
+
+    await downloader.fetchVideoInfo('https://www.youtube.com/watch?v=a', profile.id);
+
+    expect(spawn).toHaveBeenCalledWith(
+      'yt-dlp',
+      expect.arrayContaining(['--proxy', 'http://proxy:8080'])
+    );
+  });
+});
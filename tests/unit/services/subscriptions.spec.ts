@@ -0,0 +1,181 @@
+/**
+ * Unit tests for SubscriptionService
+ */
+
+import * as fs from 'fs';
+import { SubscriptionService } from '../../../src/main/services/subscriptions';
+import { DownloadTask } from '../../../src/shared/types/tasks';
+import { PlaylistInfo } from '../../../src/shared/types/video';
+import { Subscription } from '../../../src/shared/types/subscription';
+
+function createPlaylist(ids: string[]): PlaylistInfo {
+  return {
+    id: 'UC123',
+    url: 'https://www.youtube.com/@test/videos',
+    title: 'Test Channel',
+    author: 'Test',
+    type: 'channel',
+    totalCount: ids.length,
+    entries: ids.map((id, index) => ({
+      ...global.createMockVideoInfo(),
+      id,
+      url: `https://www.youtube.com/watch?v=${id}`,
+      extractor: 'Youtube',
+      playlistIndex: index + 1
+    }))
+  };
+}
+
+function createStorage() {
+  const subscriptions = new Map<string, Subscription>();
+  return {
+    subscriptions,
+    getSubscriptions: jest.fn(async () => Array.from(subscriptions.values())),
+    getSubscription: jest.fn(async (id: string) => subscriptions.get(id) || null),
+    saveSubscription: jest.fn(async (subscription: Subscription) => {
+      subscriptions.set(subscription.id, { ...subscription });
+    }),
+    deleteSubscription: jest.fn(async (id: string) => {
+      subscriptions.delete(id);
+    }),
+    getPreferences: jest.fn(async () => ({
+      defaultQuality: '1080p',
+      defaultOutputPath: '/downloads',
+      defaultSubtitleLanguages: ['en'],
+      defaultFormat: 'mp4',
+      retryAttempts: 3
+    })),
+    saveDownloadTask: jest.fn()
+  };
+}
+
+describe('SubscriptionService', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let downloader: { fetchPlaylist: jest.Mock };
+  let scheduler: { enqueue: jest.Mock };
+  let repository: { getDownloadTasksByStatus: jest.Mock };
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    storage = createStorage();
+    downloader = {
+      fetchPlaylist: jest.fn(async () => createPlaylist(['a', 'b']))
+    };
+    scheduler = {
+      enqueue: jest.fn(async (url: string) => ({ id: `task-${url}` } as DownloadTask))
+    };
+    repository = {
+      getDownloadTasksByStatus: jest.fn(async () => [])
+    };
+    service = new SubscriptionService(storage as any, downloader as any, scheduler as any, repository as any);
+  });
+
+  afterEach(() => {
+    service.stopAutoSync();
+    jest.clearAllMocks();
+  });
+
+  it('should archive existing items so only new uploads are downloaded', async () => {
+    const subscription = await service.createSubscription('https://www.youtube.com/@test');
+
+    expect(subscription.type).toBe('channel');
+    expect(subscription.archivePath).toBe(`/mock/path/userData/archives/${subscription.id}.txt`);
+    expect(fs.promises.writeFile).toHaveBeenCalledWith(
+      subscription.archivePath,
+      'youtube a\nyoutube b\n',
+      { flag: 'a' }
+    );
+  });
+
+  it('should leave the archive empty when a backfill is asked for', async () => {
+    await service.createSubscription('https://www.youtube.com/@test', { backfill: true });
+
+    expect(fs.promises.writeFile).toHaveBeenCalledWith(expect.any(String), '', { flag: 'a' });
+  });
+
+  it('should queue only items missing from the archive, oldest first', async () => {
+    const subscription = await service.createSubscription('https://www.youtube.com/@test', {
+      defaults: { quality: '720p' }
+    });
+    downloader.fetchPlaylist.mockResolvedValue(createPlaylist(['c', 'b', 'a']));
+    (fs.promises.readFile as jest.Mock).mockResolvedValue('youtube a\n');
+
+    const result = await service.syncSubscription(subscription.id);
+
+    expect(result.queuedCount).toBe(2);
+    expect(scheduler.enqueue.mock.calls.map(call => call[0])).toEqual([
+      'https://www.youtube.com/watch?v=b',
+      'https://www.youtube.com/watch?v=c'
+    ]);
+    expect(scheduler.enqueue).toHaveBeenCalledWith(
+      'https://www.youtube.com/watch?v=b',
+      expect.objectContaining({
+        quality: '720p',
+        outputPath: '/downloads',
+        subscriptionId: subscription.id,
+        downloadArchive: subscription.archivePath
+      }),
+      expect.objectContaining({ id: 'b', playlistIndex: 2 })
+    );
+    expect(storage.subscriptions.get(subscription.id)!.lastCheckedAt).toBeInstanceOf(Date);
+  });
+
+  it('should skip items that are already waiting in the queue', async () => {
+    const subscription = await service.createSubscription('https://www.youtube.com/@test');
+    (fs.promises.readFile as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+    repository.getDownloadTasksByStatus.mockResolvedValue([{
+      status: 'queued',
+      videoInfo: { id: 'a' },
+      metadata: { subscriptionId: subscription.id }
+    }]);
+
+    const result = await service.syncSubscription(subscription.id);
+
+    expect(result.queuedCount).toBe(1);
+    expect(scheduler.enqueue).toHaveBeenCalledWith(
+      'https://www.youtube.com/watch?v=b',
+      expect.anything(),
+      expect.objectContaining({ id: 'b' })
+    );
+  });
+
+  it('should not queue items whose download failed again on every sync', async () => {
+    const subscription = await service.createSubscription('https://www.youtube.com/@test');
+    (fs.promises.readFile as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+    repository.getDownloadTasksByStatus.mockResolvedValue([
+      { status: 'failed', videoInfo: { id: 'a' }, metadata: { subscriptionId: subscription.id } },
+      { status: 'failed', videoInfo: { id: 'b' }, metadata: { subscriptionId: 'other' } }
+    ]);
+
+    const result = await service.syncSubscription(subscription.id);
+
+    expect(repository.getDownloadTasksByStatus).toHaveBeenCalledWith(expect.arrayContaining(['failed']));
+    expect(result.queuedCount).toBe(1);
+    expect(scheduler.enqueue.mock.calls.map(call => call[0])).toEqual([
+      'https://www.youtube.com/watch?v=b'
+    ]);
+  });
+
+  it('should stamp the subscription when it is updated', async () => {
+    const subscription = await service.createSubscription('https://www.youtube.com/@test');
+    const createdAt = new Date(subscription.updatedAt).getTime();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const updated = await service.updateSubscription(subscription.id, { enabled: false });
+
+    expect(updated.enabled).toBe(false);
+    expect(updated.updatedAt.getTime()).toBeGreaterThan(createdAt);
+    expect(storage.subscriptions.get(subscription.id)!.updatedAt).toEqual(updated.updatedAt);
+  });
+
+  it('should record fetch errors on the subscription', async () => {
+    const subscription = await service.createSubscription('https://www.youtube.com/@test');
+    downloader.fetchPlaylist.mockRejectedValue(new Error('Network unreachable'));
+
+    const result = await service.syncSubscription(subscription.id);
+
+    expect(result.error).toBe('Network unreachable');
+    expect(storage.subscriptions.get(subscription.id)!.lastError).toBe('Network unreachable');
+    expect(scheduler.enqueue).not.toHaveBeenCalled();
+  });
+});
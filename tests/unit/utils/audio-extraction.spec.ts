@@ -0,0 +1,49 @@
+/**
+ * Unit tests for audio-only download arguments
+ */
+
+import * as path from 'path';
+import {
+  buildAudioArgs,
+  validateAudioOptions
+} from '../../../src/main/utils/audio-extraction';
+
+describe('buildAudioArgs', () => {
+  const outputPath = path.join('/music', 'Song.mp3');
+
+  it('should extract, tag and embed the cover', () => {
+    expect(buildAudioArgs({
+      codec: 'mp3',
+      bitrate: 192,
+      embedCover: true,
+      embedMetadata: true
+    }, outputPath)).toEqual([
+      '-x', '--audio-format', 'mp3',
+      '--audio-quality', '192K',
+      '--embed-thumbnail', '--convert-thumbnails', 'jpg',
+      '--embed-metadata'
+    ]);
+  });
+
+  it('should ignore the bitrate for lossless audio', () => {
+    expect(buildAudioArgs({ codec: 'flac', bitrate: 320 }, outputPath))
+      .toEqual(['-x', '--audio-format', 'flac']);
+  });
+
+  it('should write chapter tracks next to the full track', () => {
+    const args = buildAudioArgs({ codec: 'opus', splitChapters: true }, outputPath);
+
+    expect(args).toContain('--split-chapters');
+    expect(args[args.length - 1]).toBe(
+      `chapter:${path.join('/music', 'Song', '%(section_number)03d - %(section_title)s.%(ext)s')}`
+    );
+  });
+});
+
+describe('validateAudioOptions', () => {
+  it('should reject unknown codecs and out of range bitrates', () => {
+    expect(() => validateAudioOptions({ codec: 'm4a', bitrate: 256 })).not.toThrow();
+    expect(() => validateAudioOptions({ codec: 'wav' as any })).toThrow('Unsupported audio codec');
+    expect(() => validateAudioOptions({ codec: 'mp3', bitrate: 1000 })).toThrow('between 32 and 320');
+  });
+});
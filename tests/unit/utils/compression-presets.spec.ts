@@ -0,0 +1,124 @@
+/**
+ * Unit tests for saved compression preset checks and JSON files
+ */
+
+import {
+  PRESET_FILE_VERSION,
+  applyPresetDefaults,
+  parsePresetFile,
+  serializePresets,
+  setDefaultPreset,
+  uniquePresetName,
+  validatePresetConfig
+} from '../../../src/main/utils/compression-presets';
+import { CompressionPresetConfig, CompressionPresetRecord } from '../../../src/shared/types/compression';
+
+const config: CompressionPresetConfig = {
+  outputFormat: 'mp4',
+  resolution: '1080p',
+  videoCodec: 'libx264',
+  audioCodec: 'aac',
+  preset: 'slow',
+  crf: 20,
+  audioBitrate: 192,
+  twoPass: false
+};
+
+const record = (id: string, outputFormat: CompressionPresetConfig['outputFormat'], isDefault: boolean): CompressionPresetRecord => ({
+  id,
+  name: id,
+  config: { ...config, outputFormat },
+  isDefault,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+});
+
+describe('validatePresetConfig', () => {
+  it('keeps only compression settings', () => {
+    const checked = validatePresetConfig({ ...config, id: 'task-1', extra: true } as unknown as CompressionPresetConfig);
+
+    expect(checked).toEqual(config);
+  });
+
+  it('accepts trimming defaults', () => {
+    expect(validatePresetConfig({ ...config, startTime: 0, endTime: 30 })).toMatchObject({ startTime: 0, endTime: 30 });
+  });
+
+  it('rejects values ffmpeg would refuse', () => {
+    expect(() => validatePresetConfig({ ...config, outputFormat: 'flv' as any })).toThrow('Unsupported output format: flv');
+    expect(() => validatePresetConfig({ ...config, resolution: '8K' as any })).toThrow('Unsupported resolution: 8K');
+    expect(() => validatePresetConfig({ ...config, preset: 'fastest' as any })).toThrow('Unknown encoder preset: fastest');
+    expect(() => validatePresetConfig({ ...config, crf: 64 })).toThrow('CRF must be a whole number from 0 to 63');
+    expect(() => validatePresetConfig({ ...config, crf: 22.5 })).toThrow('CRF');
+    expect(() => validatePresetConfig({ ...config, fps: 0 })).toThrow('greater than 0');
+    expect(() => validatePresetConfig({ ...config, startTime: -1 })).toThrow('Start time must not be negative');
+    expect(() => validatePresetConfig({ ...config, startTime: 10, endTime: 10 })).toThrow('End time must be after the start time');
+  });
+});
+
+describe('applyPresetDefaults', () => {
+  const request = { id: 'request', outputFormat: 'mp4', resolution: '720p' } as const;
+
+  it('fills only the settings the request leaves unset', () => {
+    const merged = applyPresetDefaults({ ...request, preset: 'fast' }, config);
+
+    expect(merged).toMatchObject({ resolution: '720p', preset: 'fast', crf: 20, videoCodec: 'libx264', audioBitrate: 192 });
+  });
+
+  it('keeps the preset CRF away from a request that sets its own rate', () => {
+    expect(applyPresetDefaults({ ...request, videoBitrate: 2500 }, config)).toMatchObject({ videoBitrate: 2500 });
+    expect(applyPresetDefaults({ ...request, videoBitrate: 2500 }, config).crf).toBeUndefined();
+    expect(applyPresetDefaults({ ...request, targetFileSize: 50e6 }, config).crf).toBeUndefined();
+    expect(applyPresetDefaults({ ...request, qualityTarget: { metric: 'vmaf', score: 93 } }, config).crf).toBeUndefined();
+  });
+
+  it('never takes a size target from the preset', () => {
+    const merged = applyPresetDefaults(request, { ...config, targetFileSize: 50e6, maxFileSize: 60e6 });
+
+    expect(merged.targetFileSize).toBeUndefined();
+    expect(merged.maxFileSize).toBeUndefined();
+    expect(merged.crf).toBe(20);
+  });
+});
+
+describe('setDefaultPreset', () => {
+  it('replaces the default for the same output format only', () => {
+    const presets = [record('a', 'mp4', true), record('b', 'mp4', false), record('c', 'webm', true)];
+
+    const updated = setDefaultPreset(presets, 'b');
+
+    expect(updated.map(p => [p.id, p.isDefault])).toEqual([['a', false], ['b', true], ['c', true]]);
+  });
+
+  it('throws for an unknown preset', () => {
+    expect(() => setDefaultPreset([], 'missing')).toThrow('Compression preset not found: missing');
+  });
+});
+
+describe('uniquePresetName', () => {
+  it('numbers names that are taken, ignoring case', () => {
+    expect(uniquePresetName('Web', ['Other'])).toBe('Web');
+    expect(uniquePresetName('Web', ['web', 'Web (2)'])).toBe('Web (3)');
+  });
+});
+
+describe('preset files', () => {
+  it('round-trips exported presets without ids or defaults', () => {
+    const text = serializePresets([{ ...record('a', 'mp4', true), name: 'Archive', description: 'Keep forever' }]);
+
+    expect(JSON.parse(text).version).toBe(PRESET_FILE_VERSION);
+    expect(parsePresetFile(text)).toEqual([{ name: 'Archive', description: 'Keep forever', config }]);
+  });
+
+  it('reads a bare array or a single preset', () => {
+    expect(parsePresetFile(JSON.stringify([{ name: 'One', config }]))).toHaveLength(1);
+    expect(parsePresetFile(JSON.stringify({ name: ' Single ', config }))[0].name).toBe('Single');
+  });
+
+  it('rejects files without usable presets', () => {
+    expect(() => parsePresetFile('{"presets": []}')).toThrow('The file has no compression presets');
+    expect(() => parsePresetFile(JSON.stringify({ presets: [{ name: 'ok', config }, { config }] })))
+      .toThrow('Preset 2 in the file needs a name and a config');
+    expect(() => parsePresetFile(JSON.stringify({ name: 'Bad', config: { ...config, crf: -1 } }))).toThrow('CRF');
+  });
+});
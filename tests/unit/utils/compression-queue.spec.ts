@@ -0,0 +1,102 @@
+/**
+ * Unit tests for compression queue ordering, persistence records and batch summaries
+ */
+
+import {
+  fromQueueRecord,
+  moveJob,
+  summarizeBatch,
+  toQueueRecord
+} from '../../../src/main/utils/compression-queue';
+import { CompressionConfig, CompressionJob, CompressionJobStatus } from '../../../src/shared/types/compression';
+
+const config: CompressionConfig = { id: 'config', outputFormat: 'mp4', resolution: '720p', crf: 23 };
+
+const job = (id: string, status: CompressionJobStatus = 'pending', extra: Partial<CompressionJob> = {}): CompressionJob => ({
+  id,
+  status,
+  inputFile: `/videos/${id}.mp4`,
+  config,
+  progress: 0,
+  ...extra
+});
+
+const ids = (jobs: CompressionJob[]): string[] => jobs.map(j => j.id);
+
+describe('moveJob', () => {
+  const jobs = [job('a', 'completed'), job('b', 'processing'), job('c'), job('d', 'paused'), job('e')];
+
+  it('moves a waiting job among the waiting ones', () => {
+    expect(ids(moveJob(jobs, 'e', 'top'))).toEqual(['a', 'b', 'e', 'c', 'd']);
+    expect(ids(moveJob(jobs, 'c', 'down'))).toEqual(['a', 'b', 'd', 'c', 'e']);
+    expect(ids(moveJob(jobs, 'c', 'bottom'))).toEqual(['a', 'b', 'd', 'e', 'c']);
+    expect(ids(moveJob(jobs, 'e', 1))).toEqual(['a', 'b', 'c', 'e', 'd']);
+  });
+
+  it('clamps moves past either end', () => {
+    expect(ids(moveJob(jobs, 'c', 'up'))).toEqual(ids(jobs));
+    expect(ids(moveJob(jobs, 'd', 99))).toEqual(['a', 'b', 'c', 'e', 'd']);
+  });
+
+  it('refuses running and finished jobs', () => {
+    expect(() => moveJob(jobs, 'b', 'top')).toThrow('Only waiting jobs can be reordered');
+    expect(() => moveJob(jobs, 'a', 'bottom')).toThrow('Only waiting jobs can be reordered');
+  });
+});
+
+describe('queue records', () => {
+  it('stores the job with its position', () => {
+    const record = toQueueRecord(job('a', 'processing', { batchId: 'batch-1', progress: 40 }), 3);
+
+    expect(record).toMatchObject({
+      id: 'a',
+      type: 'video_compression',
+      status: 'processing',
+      priority: 3,
+      batchId: 'batch-1',
+      inputFile: '/videos/a.mp4',
+      config: { crf: 23 },
+      progress: 40
+    });
+  });
+
+  it('starts interrupted encodes over and keeps paused jobs paused', () => {
+    const running = fromQueueRecord(toQueueRecord(job('a', 'processing', { progress: 40 }), 0));
+    const paused = fromQueueRecord(toQueueRecord(job('b', 'paused'), 1));
+
+    expect(running).toMatchObject({ status: 'pending', progress: 0, config });
+    expect(paused.status).toBe('paused');
+  });
+});
+
+describe('summarizeBatch', () => {
+  const result = (success: boolean, originalSize: number, compressedSize: number) => ({
+    success,
+    originalSize,
+    compressedSize,
+    compressionRatio: 0,
+    timeTaken: 1
+  });
+
+  it('totals the space saved by the files that compressed', () => {
+    const jobs = [
+      job('a', 'completed', { batchId: 'b1', result: result(true, 1000, 400) }),
+      job('b', 'failed', { batchId: 'b1', result: result(false, 500, 0) }),
+      job('c', 'completed', { batchId: 'b1', result: result(true, 2000, 1500) }),
+      job('d', 'pending', { batchId: 'b1' }),
+      job('e', 'completed', { batchId: 'b2', result: result(true, 9000, 1000) })
+    ];
+
+    expect(summarizeBatch('b1', jobs)).toMatchObject({
+      batchId: 'b1',
+      completed: 2,
+      failed: 1,
+      cancelled: 0,
+      remaining: 1,
+      originalSize: 3000,
+      compressedSize: 1900,
+      spaceSaved: 1100
+    });
+    expect(summarizeBatch('b1', jobs).results).toHaveLength(3);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for speaker diarization
+ */
+
+import {
+  assignSpeakers,
+  listSpeakers,
+  parseSpeakerTurns,
+  renameSpeakers
+} from '../../../src/main/utils/diarization';
+import { resegment } from '../../../src/main/utils/transcription';
+import { parseSubtitle, serializeSubtitle } from '../../../src/main/utils/subtitle-formats';
+import { SubtitleCue, SubtitleDocument } from '../../../src/shared/types/subtitle';
+
+describe('parseSpeakerTurns', () => {
+  it('should read RTTM and number speakers by first turn', () => {
+    const rttm = [
+      'SPEAKER audio 1 4.50 2.00 <NA> <NA> SPEAKER_01 <NA> <NA>',
+      'SPEAKER audio 1 0.00 4.25 <NA> <NA> SPEAKER_00 <NA> <NA>',
+      'SPEAKER audio 1 7.00 1.00 <NA> <NA> SPEAKER_00 <NA> <NA>'
+    ].join('\n');
+
+    expect(parseSpeakerTurns(rttm)).toEqual([
+      { startTime: 0, endTime: 4250, speaker: 'Speaker 1' },
+      { startTime: 4500, endTime: 6500, speaker: 'Speaker 2' },
+      { startTime: 7000, endTime: 8000, speaker: 'Speaker 1' }
+    ]);
+  });
+
+  it('should read JSON segments', () => {
+    const json = JSON.stringify({ segments: [{ start: 1, end: 2.5, speaker: 3 }, { start: 3, end: 3, speaker: 4 }] });
+    expect(parseSpeakerTurns(json)).toEqual([{ startTime: 1000, endTime: 2500, speaker: 'Speaker 1' }]);
+    expect(() => parseSpeakerTurns('{"speakers": []}')).toThrow('no segments');
+  });
+});
+
+describe('assignSpeakers', () => {
+  const turns = [
+    { startTime: 0, endTime: 2100, speaker: 'Speaker 1' },
+    { startTime: 2000, endTime: 5000, speaker: 'Speaker 2' }
+  ];
+
+  it('should label words and split cues where the speaker changes', () => {
+    const cues: SubtitleCue[] = [{
+      startTime: 0,
+      endTime: 4000,
+      text: '',
+      words: [
+        { text: 'How', startTime: 0, endTime: 500 },
+        { text: 'are', startTime: 500, endTime: 1000 },
+        { text: 'you', startTime: 1000, endTime: 1900 },
+        { text: 'Fine', startTime: 2050, endTime: 2600 },
+        { text: 'thanks', startTime: 2600, endTime: 3200 }
+      ]
+    }];
+
+    const labelled = assignSpeakers(cues, turns);
+    expect(labelled[0].speaker).toBe('Speaker 1');
+
+    const result = resegment(labelled);
+    expect(result.map(cue => [cue.speaker, cue.text])).toEqual([
+      ['Speaker 1', 'How are you'],
+      ['Speaker 2', 'Fine thanks']
+    ]);
+  });
+
+  it('should keep the previous speaker where no turn overlaps', () => {
+    const result = assignSpeakers([
+      { startTime: 2500, endTime: 4000, text: 'A' },
+      { startTime: 6000, endTime: 7000, text: 'B' }
+    ], turns);
+
+    expect(result.map(cue => cue.speaker)).toEqual(['Speaker 2', 'Speaker 2']);
+  });
+});
+
+describe('speaker labels in subtitle formats', () => {
+  const document: SubtitleDocument = {
+    cues: [
+      { startTime: 0, endTime: 1000, text: 'Hello', speaker: 'Speaker 1' },
+      { startTime: 1000, endTime: 3000, text: 'Hi there', speaker: 'Speaker 2' },
+      { startTime: 3000, endTime: 4000, text: 'Welcome', speaker: 'Speaker 1' }
+    ],
+    styles: [],
+    info: {}
+  };
+
+  it('should list and rename speakers', () => {
+    expect(listSpeakers(document)).toEqual([
+      { name: 'Speaker 1', cues: 2, duration: 2000 },
+      { name: 'Speaker 2', cues: 1, duration: 2000 }
+    ]);
+
+    const renamed = renameSpeakers(document, { 'Speaker 1': 'Alice', 'Speaker 2': ' ' });
+    expect(renamed.cues.map(cue => cue.speaker)).toEqual(['Alice', undefined, 'Alice']);
+  });
+
+  it('should write voice tags, actor fields and SRT prefixes', () => {
+    const renamed = renameSpeakers(document, { 'Speaker 1': 'Alice' });
+
+    expect(serializeSubtitle(renamed, 'srt')).toContain('[Alice] Hello\n');
+    expect(serializeSubtitle(renamed, 'vtt')).toContain('<v Alice>Hello');
+    expect(parseSubtitle(serializeSubtitle(renamed, 'ass'), 'ass').cues.map(cue => cue.speaker))
+      .toEqual(['Alice', 'Speaker 2', 'Alice']);
+  });
+});
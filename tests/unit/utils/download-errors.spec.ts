@@ -0,0 +1,61 @@
+/**
+ * Unit tests for yt-dlp error classification and retry timing
+ */
+
+import {
+  classifyDownloadError,
+  isTransientError,
+  getRetryDelay
+} from '../../../src/main/utils/download-errors';
+
+describe('classifyDownloadError', () => {
+  it.each([
+    ['unable to download video data: HTTP Error 403: Forbidden', 'HTTP_403'],
+    ['Unable to download webpage: HTTP Error 429: Too Many Requests', 'HTTP_429'],
+    ['Unable to download webpage: <urlopen error [Errno -3] Temporary failure in name resolution>', 'NETWORK'],
+    ['unable to download video data: Connection reset by peer', 'NETWORK'],
+    ['[youtube] abc: Private video. Sign in if you\'ve been granted access to this video', 'PRIVATE'],
+    ['[youtube] abc: Sign in to confirm your age. This video may be inappropriate for some users.', 'AGE_RESTRICTED'],
+    ['[youtube] abc: The uploader has not made this video available in your country', 'GEO_BLOCKED'],
+    ['[youtube] abc: Video unavailable. This video has been removed by the uploader', 'UNAVAILABLE'],
+    ['unable to write data: [Errno 28] No space left on device', 'DISK_FULL'],
+    ['Process exited with code 1', 'UNKNOWN']
+  ])('should classify "%s" as %s', (message, code) => {
+    expect(classifyDownloadError(message)).toBe(code);
+  });
+
+  it('should only treat network and HTTP throttling errors as transient', () => {
+    expect(isTransientError('NETWORK')).toBe(true);
+    expect(isTransientError('HTTP_429')).toBe(true);
+    expect(isTransientError('PRIVATE')).toBe(false);
+    expect(isTransientError('DISK_FULL')).toBe(false);
+    expect(isTransientError(undefined)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should double the delay on every attempt', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(1, 1000)).toBe(1000);
+    expect(getRetryDelay(2, 1000)).toBe(2000);
+    expect(getRetryDelay(3, 1000)).toBe(4000);
+  });
+
+  it('should randomise the upper half of the delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(getRetryDelay(3, 1000)).toBe(2000);
+  });
+
+  it('should wait longer after rate limiting and cap the delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(1, 1000, 'HTTP_429')).toBe(30000);
+    expect(getRetryDelay(20, 1000)).toBe(10 * 60 * 1000);
+  });
+});
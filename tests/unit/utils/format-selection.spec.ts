@@ -0,0 +1,55 @@
+/**
+ * Unit tests for yt-dlp format selection arguments
+ */
+
+import {
+  buildFormatArgs,
+  validateFormatSelection
+} from '../../../src/main/utils/format-selection';
+import { VideoFormat } from '../../../src/shared/types/video';
+
+const formats: VideoFormat[] = [
+  { formatId: '137', quality: '1080p', ext: 'mp4', fps: 30, vcodec: 'avc1.640028', acodec: 'none', height: 1080 },
+  { formatId: '140', quality: 'medium', ext: 'm4a', fps: 0, vcodec: 'none', acodec: 'mp4a.40.2' }
+];
+
+describe('buildFormatArgs', () => {
+  it('should keep the quality based selectors without a format selection', () => {
+    expect(buildFormatArgs('best')).toEqual(['-f', 'bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best']);
+    expect(buildFormatArgs('worst')).toEqual(['-f', 'worst']);
+    expect(buildFormatArgs('720p')).toEqual(['-f', 'bestvideo[height<=720]+bestaudio/best[height<=720]']);
+    expect(buildFormatArgs(undefined)).toEqual([]);
+  });
+
+  it('should use explicit format IDs over every other setting', () => {
+    expect(buildFormatArgs('720p', { videoFormatId: '137', audioFormatId: '140', codec: 'av1' }))
+      .toEqual(['-f', '137+140']);
+    expect(buildFormatArgs('best', { videoFormatId: '137' })).toEqual(['-f', '137+bestaudio/137']);
+    expect(buildFormatArgs('best', { audioFormatId: '140' })).toEqual(['-f', '140']);
+  });
+
+  it('should pass a sort expression through and ignore the preferences', () => {
+    expect(buildFormatArgs('1080p', { sort: 'vcodec:av01,+size', codec: 'h264' }))
+      .toEqual(['-f', 'bv*[height<=1080]+ba/b[height<=1080]', '-S', 'vcodec:av01,+size']);
+  });
+
+  it('should turn codec, dynamic range and size preferences into sort fields', () => {
+    expect(buildFormatArgs('best', {
+      codec: 'av1',
+      dynamicRange: 'sdr',
+      maxFilesize: 500 * 1024 * 1024
+    })).toEqual(['-f', 'bv*+ba/b', '-S', 'size:500MiB,hdr:sdr,vcodec:av01']);
+  });
+});
+
+describe('validateFormatSelection', () => {
+  it('should reject format IDs the video does not offer', () => {
+    expect(() => validateFormatSelection({ videoFormatId: '137', audioFormatId: '140' }, formats)).not.toThrow();
+    expect(() => validateFormatSelection({ videoFormatId: '313' }, formats)).toThrow('Format 313');
+  });
+
+  it('should reject malformed sort expressions', () => {
+    expect(() => validateFormatSelection({ sort: 'res:1080,+size,filesize~50M' }, formats)).not.toThrow();
+    expect(() => validateFormatSelection({ sort: 'res:1080 --exec rm' }, formats)).toThrow('Invalid format sort expression');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for hardware encoder detection and selection
+ */
+
+import {
+  candidateEncoders,
+  hardwareInputArgs,
+  hardwareRateArgs,
+  hardwareUploadFilter,
+  isHardwareEncoder,
+  parseEncoderList,
+  parseHwaccels,
+  selectHardwareEncoder,
+  softwareEncoderFor,
+  summarizeFailure,
+  testEncodeArgs
+} from '../../../src/main/utils/hardware-encoders';
+import { CompressionConfig } from '../../../src/shared/types/compression';
+
+const ENCODERS_OUTPUT = `Encoders:
+ V..... = Video
+ A..... = Audio
+ ------
+ V....D libx264              libx264 H.264 / AVC / MPEG-4 AVC / MPEG-4 part 10 (codec h264)
+ V....D h264_nvenc           NVIDIA NVENC H.264 encoder (codec h264)
+ V....D h264_vaapi           H.264/AVC (VAAPI) (codec h264)
+ V....D hevc_nvenc           NVIDIA NVENC hevc encoder (codec hevc)
+ V....D av1_nvenc            NVIDIA NVENC av1 encoder (codec av1)
+ A....D aac                  AAC (Advanced Audio Coding)
+`;
+
+const HWACCELS_OUTPUT = `Hardware acceleration methods:
+vdpau
+cuda
+vaapi
+
+`;
+
+describe('probe output', () => {
+  it('lists video encoders only', () => {
+    const encoders = parseEncoderList(ENCODERS_OUTPUT);
+
+    expect([...encoders]).toEqual(['libx264', 'h264_nvenc', 'h264_vaapi', 'hevc_nvenc', 'av1_nvenc']);
+  });
+
+  it('lists hardware acceleration methods', () => {
+    expect(parseHwaccels(HWACCELS_OUTPUT)).toEqual(['vdpau', 'cuda', 'vaapi']);
+    expect(parseHwaccels('')).toEqual([]);
+  });
+
+  it('keeps the last line of a failed test encode', () => {
+    const output = '[h264_nvenc @ 0x1] Cannot load libcuda.so.1\nError while opening encoder\n';
+
+    expect(summarizeFailure(output, 1)).toBe('Error while opening encoder');
+    expect(summarizeFailure('', 1)).toBe('ffmpeg exited with code 1');
+  });
+});
+
+describe('candidateEncoders', () => {
+  it('probes the families each platform has, preferred first', () => {
+    expect(candidateEncoders('darwin')).toEqual(['h264_videotoolbox', 'hevc_videotoolbox']);
+    expect(candidateEncoders('linux')[0]).toBe('h264_nvenc');
+    expect(candidateEncoders('linux')).toContain('av1_vaapi');
+    expect(candidateEncoders('linux')).not.toContain('h264_amf');
+    expect(candidateEncoders('win32')).toContain('av1_amf');
+    expect(candidateEncoders('freebsd')).toEqual([]);
+  });
+});
+
+describe('testEncodeArgs', () => {
+  it('encodes a blank clip to nowhere', () => {
+    const args = testEncodeArgs('h264_nvenc');
+
+    expect(args.join(' ')).toContain('-f lavfi -i color=c=black');
+    expect(args.join(' ')).toContain('-c:v h264_nvenc -f null -');
+  });
+
+  it('opens the device and uploads frames for VAAPI', () => {
+    const args = testEncodeArgs('h264_vaapi');
+
+    expect(args.slice(3, 5)).toEqual(['-vaapi_device', '/dev/dri/renderD128']);
+    expect(args).toContain('format=nv12,hwupload');
+    expect(hardwareInputArgs('h264_nvenc')).toEqual([]);
+    expect(hardwareUploadFilter('h264_qsv')).toBeUndefined();
+  });
+});
+
+describe('selectHardwareEncoder', () => {
+  const working = ['h264_nvenc', 'hevc_nvenc', 'h264_qsv'];
+
+  it('picks the preferred working encoder for the codec', () => {
+    expect(selectHardwareEncoder('libx264', working)).toBe('h264_nvenc');
+    expect(selectHardwareEncoder(undefined, working)).toBe('h264_nvenc');
+    expect(selectHardwareEncoder('libx265', working)).toBe('hevc_nvenc');
+  });
+
+  it('uses a working encoder asked for by name', () => {
+    expect(selectHardwareEncoder('h264_qsv', working)).toBe('h264_qsv');
+    expect(selectHardwareEncoder('h264_vaapi', working)).toBe('h264_nvenc');
+  });
+
+  it('stays in software when nothing fits', () => {
+    expect(selectHardwareEncoder('libaom-av1', working)).toBeUndefined();
+    expect(selectHardwareEncoder('libvpx-vp9', working)).toBeUndefined();
+    expect(selectHardwareEncoder('libx264', [])).toBeUndefined();
+  });
+
+  it('falls back to the software encoder of the same codec', () => {
+    expect(isHardwareEncoder('hevc_videotoolbox')).toBe(true);
+    expect(isHardwareEncoder('libx264')).toBe(false);
+    expect(softwareEncoderFor('hevc_nvenc')).toBe('libx265');
+    expect(softwareEncoderFor('av1_qsv')).toBe('libaom-av1');
+    expect(softwareEncoderFor('libvpx-vp9')).toBe('libvpx-vp9');
+  });
+});
+
+describe('hardwareRateArgs', () => {
+  const config: CompressionConfig = { id: 'task', outputFormat: 'mp4', resolution: '1080p', crf: 23, preset: 'slow' };
+
+  it('maps CRF to each family\'s constant-quality mode', () => {
+    expect(hardwareRateArgs('h264_nvenc', config)).toEqual(['-rc', 'vbr', '-cq', '23', '-b:v', '0', '-preset', 'p6']);
+    expect(hardwareRateArgs('h264_qsv', config)).toEqual(['-global_quality', '23', '-preset', 'slow']);
+    expect(hardwareRateArgs('h264_vaapi', config)).toEqual(['-rc_mode', 'CQP', '-qp', '23']);
+    expect(hardwareRateArgs('h264_amf', config)).toEqual(['-rc', 'cqp', '-qp_i', '23', '-qp_p', '23', '-quality', 'quality']);
+    expect(hardwareRateArgs('h264_videotoolbox', config)).toEqual(['-q:v', '56']);
+  });
+
+  it('passes a bitrate through when there is no CRF', () => {
+    const bitrate = { ...config, crf: undefined, videoBitrate: 2500, preset: 'ultrafast' as const };
+
+    expect(hardwareRateArgs('hevc_nvenc', bitrate)).toEqual(['-b:v', '2500k', '-preset', 'p1']);
+    expect(hardwareRateArgs('hevc_qsv', bitrate)).toEqual(['-b:v', '2500k', '-preset', 'veryfast']);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for embedded stream listing, extraction and remuxing
+ */
+
+import * as path from 'path';
+import {
+  buildExtractArgs,
+  buildRemuxArgs,
+  getRemuxPath,
+  parseStreams,
+  planExtraction,
+  planStreamFormat
+} from '../../../src/main/utils/media-streams';
+import { MediaStream } from '../../../src/shared/types/video';
+
+const probe = {
+  streams: [
+    {
+      index: 0,
+      codec_type: 'video',
+      codec_name: 'h264',
+      codec_long_name: 'H.264 / AVC / MPEG-4 AVC / MPEG-4 part 10',
+      width: 1920,
+      height: 1080,
+      avg_frame_rate: '24000/1001',
+      disposition: { default: 1, forced: 0 },
+      tags: { DURATION: '00:01:30.500000000' }
+    },
+    {
+      index: 1,
+      codec_type: 'audio',
+      codec_name: 'aac',
+      channels: 2,
+      channel_layout: 'stereo',
+      sample_rate: '48000',
+      bit_rate: '128000',
+      disposition: { default: 1 },
+      tags: { language: 'eng' }
+    },
+    { index: 2, codec_type: 'attachment', codec_name: 'ttf', tags: { filename: 'font.ttf' } },
+    {
+      index: 3,
+      codec_type: 'subtitle',
+      codec_name: 'subrip',
+      disposition: { default: 0, forced: 1, hearing_impaired: 0 },
+      tags: { LANGUAGE: 'chi', title: 'Signs' }
+    },
+    { index: 4, codec_type: 'subtitle', codec_name: 'hdmv_pgs_subtitle', disposition: { default: 1 }, tags: { language: 'und' } }
+  ]
+};
+
+const streams = parseStreams(probe);
+const [video, audio, signs, pgs] = streams;
+
+describe('parseStreams', () => {
+  it('should list video, audio and subtitle streams with their details', () => {
+    expect(streams.map(s => [s.index, s.type, s.typeIndex])).toEqual([
+      [0, 'video', 0],
+      [1, 'audio', 0],
+      [3, 'subtitle', 0],
+      [4, 'subtitle', 1]
+    ]);
+    expect(video).toMatchObject({ codec: 'h264', width: 1920, height: 1080, fps: 23.976, duration: 90.5, default: true });
+    expect(audio).toMatchObject({ language: 'eng', channels: 2, sampleRate: 48000, bitrate: 128000 });
+    expect(signs).toMatchObject({ language: 'chi', title: 'Signs', default: false, forced: true, textBased: true });
+    expect(pgs).toMatchObject({ language: undefined, default: true, textBased: false });
+  });
+});
+
+describe('planStreamFormat', () => {
+  it('should copy streams in their own format or a container that holds them', () => {
+    expect(planStreamFormat(signs)).toEqual({ format: 'srt', codec: 'copy' });
+    expect(planStreamFormat(audio)).toEqual({ format: 'm4a', codec: 'copy' });
+    expect(planStreamFormat(pgs)).toEqual({ format: 'sup', codec: 'copy' });
+    expect(planStreamFormat(pgs, 'mks')).toEqual({ format: 'mks', codec: 'copy' });
+    expect(planStreamFormat(video, 'mkv')).toEqual({ format: 'mkv', codec: 'copy' });
+  });
+
+  it('should convert to another format of the same kind', () => {
+    expect(planStreamFormat(signs, '.ASS')).toEqual({ format: 'ass', codec: 'ass' });
+    expect(planStreamFormat(audio, 'mp3')).toEqual({ format: 'mp3', codec: 'libmp3lame' });
+
+    const movText: MediaStream = { ...signs, codec: 'mov_text' };
+    expect(planStreamFormat(movText)).toEqual({ format: 'srt', codec: 'srt' });
+  });
+
+  it('should refuse formats the stream cannot go into', () => {
+    expect(() => planStreamFormat(pgs, 'srt')).toThrow('bitmap subtitle');
+    expect(() => planStreamFormat(audio, 'srt')).toThrow("can't be saved as srt");
+    expect(() => planStreamFormat(video, 'mp3')).toThrow("can't be saved as mp3");
+  });
+});
+
+describe('planExtraction', () => {
+  it('should name outputs after the input, stream and language', () => {
+    const outputs = planExtraction('/videos/movie.mkv', streams, [{ index: 3 }, { index: 1, format: 'mp3' }], '/out');
+
+    expect(outputs).toEqual([
+      { index: 3, type: 'subtitle', format: 'srt', outputPath: path.join('/out', 'movie.3.chi.srt'), converted: false, codec: 'copy' },
+      { index: 1, type: 'audio', format: 'mp3', outputPath: path.join('/out', 'movie.1.eng.mp3'), converted: true, codec: 'libmp3lame' }
+    ]);
+    expect(buildExtractArgs('/videos/movie.mkv', outputs)).toEqual([
+      '-v', 'error', '-y', '-i', '/videos/movie.mkv',
+      '-map', '0:3', '-c', 'copy', path.join('/out', 'movie.3.chi.srt'),
+      '-map', '0:1', '-c', 'libmp3lame', path.join('/out', 'movie.1.eng.mp3')
+    ]);
+    expect(() => planExtraction('/videos/movie.mkv', streams, [{ index: 2 }], '/out')).toThrow('No video, audio or subtitle stream 2');
+  });
+});
+
+describe('buildRemuxArgs', () => {
+  const external = parseStreams({ streams: [{ index: 0, codec_type: 'subtitle', codec_name: 'ass' }] });
+  const sources = [
+    { path: '/videos/movie.mkv', streams },
+    { path: '/subs/movie.en.ass', streams: external }
+  ];
+
+  it('should map tracks in order, relabel them and keep one default per type', () => {
+    const args = buildRemuxArgs(sources, [
+      { index: 0 },
+      { index: 1, title: 'Stereo' },
+      { file: '/subs/movie.en.ass', language: 'eng', default: true },
+      { index: 4 }
+    ], '/videos/movie.remux.mkv');
+
+    expect(args).toEqual([
+      '-v', 'error', '-y',
+      '-i', '/videos/movie.mkv',
+      '-i', '/subs/movie.en.ass',
+      '-map', '0:0', '-map', '0:1', '-map', '1:0', '-map', '0:4',
+      '-map_metadata', '0', '-map_chapters', '0', '-c', 'copy',
+      '-disposition:0', 'default',
+      '-metadata:s:1', 'title=Stereo', '-disposition:1', 'default',
+      '-metadata:s:2', 'language=eng', '-disposition:2', 'default',
+      '-disposition:3', '0',
+      '/videos/movie.remux.mkv'
+    ]);
+  });
+
+  it('should convert subtitles for containers that need it', () => {
+    const args = buildRemuxArgs(sources, [{ index: 0 }, { index: 3, forced: false }], '/videos/movie.mp4');
+    expect(args).toContain('-c:1');
+    expect(args[args.indexOf('-c:1') + 1]).toBe('mov_text');
+    expect(args[args.indexOf('-disposition:1') + 1]).toBe('0');
+
+    expect(() => buildRemuxArgs(sources, [{ index: 4 }], '/videos/movie.mp4')).toThrow("MP4 can't hold bitmap subtitles");
+    expect(() => buildRemuxArgs(sources, [{ index: 9 }], '/videos/out.mkv')).toThrow('No video, audio or subtitle stream 9');
+    expect(() => buildRemuxArgs(sources, [], '/videos/out.mkv')).toThrow('at least one track');
+  });
+
+  it('should write next to the input by default', () => {
+    expect(getRemuxPath('/videos/movie.mkv')).toBe(path.join('/videos', 'movie.remux.mkv'));
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for quality-target sampling, scoring and CRF search
+ */
+
+import {
+  crfRange,
+  parseQualityScore,
+  pickSampleWindows,
+  sampleEncodeArgs,
+  scoreArgs,
+  searchCrf,
+  validateQualityTarget
+} from '../../../src/main/utils/quality-target';
+import { CompressionConfig } from '../../../src/shared/types/compression';
+
+describe('validateQualityTarget', () => {
+  it('checks the score against the metric scale', () => {
+    expect(() => validateQualityTarget({ metric: 'vmaf', score: 93 })).not.toThrow();
+    expect(() => validateQualityTarget({ metric: 'ssim', score: 0.98 })).not.toThrow();
+    expect(() => validateQualityTarget({ metric: 'vmaf', score: 120 })).toThrow('A VMAF target must be between 0 and 100');
+    expect(() => validateQualityTarget({ metric: 'ssim', score: 93 })).toThrow('An SSIM target must be between 0 and 1');
+    expect(() => validateQualityTarget({ metric: 'psnr' as any, score: 40 })).toThrow('Unknown quality metric: psnr');
+  });
+});
+
+describe('crfRange', () => {
+  it('searches higher for VP9 and AV1', () => {
+    expect(crfRange('libx264')).toEqual({ min: 15, max: 40 });
+    expect(crfRange(undefined)).toEqual({ min: 15, max: 40 });
+    expect(crfRange('libvpx-vp9').max).toBe(55);
+  });
+});
+
+describe('pickSampleWindows', () => {
+  it('spreads windows between the 5% margins', () => {
+    const windows = pickSampleWindows(0, 1000, 4, 5);
+
+    expect(windows).toHaveLength(4);
+    expect(windows[0]).toEqual({ start: 50, length: 5 });
+    expect(windows[3].start + windows[3].length).toBe(950);
+    expect(windows[1].start).toBeCloseTo(348.333, 2);
+  });
+
+  it('stays inside a trimmed range', () => {
+    const windows = pickSampleWindows(100, 300, 4, 5);
+
+    expect(windows[0].start).toBeGreaterThanOrEqual(100);
+    expect(windows[3].start + 5).toBeLessThanOrEqual(300);
+  });
+
+  it('samples short videos whole', () => {
+    expect(pickSampleWindows(0, 30, 4, 5)).toEqual([{ start: 0, length: 30 }]);
+    expect(() => pickSampleWindows(0, 0)).toThrow('needs the video duration');
+  });
+});
+
+describe('ffmpeg arguments', () => {
+  const config: CompressionConfig = {
+    id: 'task',
+    outputFormat: 'mp4',
+    resolution: '720p',
+    videoCodec: 'libx265',
+    preset: 'slow',
+    crf: 20
+  };
+
+  it('encodes a video-only sample at the candidate CRF', () => {
+    const args = sampleEncodeArgs('/in.mp4', { start: 12.5, length: 5 }, config, 28, 'scale=1280:720', '/tmp/s.mkv');
+
+    expect(args.slice(0, 9)).toEqual(['-v', 'error', '-y', '-ss', '12.5', '-t', '5', '-i', '/in.mp4']);
+    expect(args.join(' ')).toContain('-c:v libx265 -crf 28 -preset slow -vf scale=1280:720');
+    expect(args.slice(-2)).toEqual(['-an', '/tmp/s.mkv']);
+  });
+
+  it('scores against the same stretch of the source at its size', () => {
+    const args = scoreArgs('/tmp/s.mkv', '/in.mp4', { start: 12.5, length: 5 }, 'vmaf');
+
+    expect(args.join(' ')).toContain('-i /tmp/s.mkv -ss 12.5 -t 5 -i /in.mp4');
+    expect(args[args.indexOf('-lavfi') + 1]).toMatch(/^\[0:v\]\[1:v\]scale2ref.*\[d\]\[r\]libvmaf$/);
+    expect(scoreArgs('/out.mp4', '/in.mp4', undefined, 'ssim')).toContain('/in.mp4');
+    expect(scoreArgs('/out.mp4', '/in.mp4', undefined, 'ssim').join(' ')).toContain('[d][r]ssim');
+  });
+});
+
+describe('parseQualityScore', () => {
+  it('reads libvmaf and ssim summaries', () => {
+    expect(parseQualityScore('[Parsed_libvmaf_4 @ 0x1] VMAF score: 93.412345', 'vmaf')).toBeCloseTo(93.412345);
+    expect(parseQualityScore('[libvmaf @ 0x1] VMAF score = 88.1', 'vmaf')).toBeCloseTo(88.1);
+    expect(parseQualityScore('[Parsed_ssim_4 @ 0x1] SSIM Y:0.98 U:0.99 V:0.99 All:0.984321 (18.05)', 'ssim'))
+      .toBeCloseTo(0.984321);
+  });
+
+  it('explains a missing score', () => {
+    expect(() => parseQualityScore('No such filter: libvmaf', 'vmaf')).toThrow('is ffmpeg built with libvmaf?');
+  });
+});
+
+describe('searchCrf', () => {
+  // Quality falling two points per CRF step from 100 at CRF 15
+  const linear = (crf: number): Promise<number> => Promise.resolve(100 - (crf - 15) * 2);
+
+  it('finds the highest CRF meeting the target', async () => {
+    const result = await searchCrf(93, { min: 15, max: 40 }, linear);
+
+    expect(result).toMatchObject({ crf: 18, score: 94, met: true });
+    expect(result.probes.length).toBeLessThanOrEqual(5);
+    expect(result.probes[0].crf).toBe(27);
+  });
+
+  it('returns the lowest CRF when nothing meets the target', async () => {
+    const result = await searchCrf(101, { min: 15, max: 40 }, linear);
+
+    expect(result).toMatchObject({ crf: 15, score: 100, met: false });
+  });
+
+  it('returns the highest CRF when everything meets the target', async () => {
+    const result = await searchCrf(10, { min: 15, max: 40 }, linear);
+
+    expect(result).toMatchObject({ crf: 40, met: true });
+  });
+});
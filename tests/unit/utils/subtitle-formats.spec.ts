@@ -0,0 +1,331 @@
+/**
+ * Unit tests for the subtitle format engine
+ */
+
+import {
+  applyTimestamps,
+  convertSubtitle,
+  detectSubtitleFormat,
+  parseSubtitle,
+  serializeSubtitle,
+  SUBTITLE_FORMATS
+} from '../../../src/main/utils/subtitle-formats';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+<b>Hello</b> <font color="#FF0000">world</font>
+
+2
+00:00:04,000 --> 00:00:06,000
+{\\an8}Top line
+second line
+`;
+
+const VTT = `WEBVTT - Demo
+Language: en
+
+STYLE
+::cue(.loud) { color: red; }
+
+NOTE written by hand
+
+intro
+00:00:01.000 --> 00:00:03.000 line:0 position:10%,line-left align:start
+<v Alice>Hi <c.loud>there</c> &amp; welcome
+
+00:00:04.000 --> 00:00:06.000
+<v Bob><00:00:04.000>One <00:00:05.000>two
+`;
+
+const ASS = `[Script Info]
+Title: Demo
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,20,20,30,1
+Style: Sign,Georgia,36,&H0000FFFF,&H000000FF,&H00000000,&H00000000,-1,0,0,0,100,100,0,0,1,2,0,8,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:03.00,Default,Alice,0,0,0,,{\\i1}Hello{\\i0}\\Nworld{\\blur3}
+Comment: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,timing note
+Dialogue: 1,0:00:04.00,0:00:06.00,Sign,,0,0,0,,{\\pos(960,540)}Centered sign
+
+[Fonts]
+fontname: custom.ttf
+`;
+
+const TTML = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling"
+    xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xmlns:ttp="http://www.w3.org/ns/ttml#parameter"
+    ttp:frameRate="25" xml:lang="en">
+  <head>
+    <metadata>
+      <ttm:title>Demo</ttm:title>
+      <ttm:agent xml:id="a1" type="person"><ttm:name type="full">Alice</ttm:name></ttm:agent>
+    </metadata>
+    <styling>
+      <style xml:id="s1" tts:fontFamily="Arial" tts:color="white" tts:fontWeight="bold"/>
+    </styling>
+    <layout>
+      <region xml:id="top" tts:textAlign="center" tts:displayAlign="before"/>
+    </layout>
+  </head>
+  <body>
+    <div>
+      <p begin="00:00:01:05" end="00:00:03.000" style="s1" region="top" ttm:agent="a1">
+        Hello <span tts:fontStyle="italic">there</span><br/>
+        second &amp; last
+      </p>
+      <p begin="4s" dur="2000ms">Plain</p>
+    </div>
+  </body>
+</tt>
+`;
+
+describe('parseSubtitle', () => {
+  it('should read SRT tags and the alignment prefix', () => {
+    const document = parseSubtitle(SRT, 'srt');
+
+    expect(document.cues).toHaveLength(2);
+    expect(document.cues[0]).toMatchObject({ id: '1', startTime: 1000, endTime: 3500, text: 'Hello world' });
+    expect(document.cues[0].spans).toEqual([
+      { text: 'Hello', bold: true },
+      { text: ' ' },
+      { text: 'world', color: '#FF0000' }
+    ]);
+    expect(document.cues[1]).toMatchObject({ text: 'Top line\nsecond line', position: { alignment: 8 } });
+  });
+
+  it('should read WebVTT speakers, classes, karaoke and settings', () => {
+    const document = parseSubtitle(VTT, 'vtt');
+
+    expect(document.info).toEqual({ title: 'Demo', Language: 'en' });
+    expect(document.css).toEqual(['::cue(.loud) { color: red; }']);
+    expect(document.notes).toEqual(['written by hand']);
+    expect(document.cues[0]).toMatchObject({
+      id: 'intro',
+      speaker: 'Alice',
+      text: 'Hi there & welcome',
+      position: { line: 0, x: 10, positionAlign: 'line-left', alignment: 1 }
+    });
+    expect(document.cues[0].spans?.[1]).toEqual({ text: 'there', classes: ['loud'] });
+    expect(document.cues[1].spans).toEqual([
+      { text: 'One ', startTime: 4000 },
+      { text: 'two', startTime: 5000 }
+    ]);
+  });
+
+  it('should read ASS styles, override tags and extra sections', () => {
+    const document = parseSubtitle(ASS, 'ass');
+
+    expect(document.info.Title).toBe('Demo');
+    expect(document.styles[1]).toMatchObject({
+      name: 'Sign',
+      fontName: 'Georgia',
+      primaryColor: '#FFFF00',
+      bold: true,
+      alignment: 8
+    });
+    expect(document.cues[0]).toMatchObject({ speaker: 'Alice', text: 'Hello\nworld', style: 'Default' });
+    expect(document.cues[0].spans?.[0]).toMatchObject({ text: 'Hello', italic: true });
+    expect(document.cues[1]).toMatchObject({ comment: true, text: 'timing note' });
+    expect(document.cues[2]).toMatchObject({ layer: 1, position: { x: 50, y: 50 } });
+    expect(document.sections).toEqual([{ name: 'Fonts', lines: ['fontname: custom.ttf'] }]);
+  });
+
+  it('should read TTML timing, styles, regions and agents', () => {
+    const document = parseSubtitle(TTML, 'ttml');
+
+    expect(document.info).toEqual({ language: 'en', title: 'Demo' });
+    expect(document.styles[0]).toMatchObject({ name: 's1', fontName: 'Arial', primaryColor: '#FFFFFF', bold: true });
+    expect(document.cues[0]).toMatchObject({
+      startTime: 1200,
+      endTime: 3000,
+      text: 'Hello there\nsecond & last',
+      speaker: 'Alice',
+      style: 's1',
+      position: { alignment: 8 }
+    });
+    expect(document.cues[1]).toMatchObject({ startTime: 4000, endTime: 6000, text: 'Plain' });
+  });
+
+  it('should read SBV blocks', () => {
+    const document = parseSubtitle('0:00:01.000,0:00:02.500\nFirst\nline\n\n0:00:03.000,0:00:04.000\nSecond\n', 'sbv');
+
+    expect(document.cues).toEqual([
+      { startTime: 1000, endTime: 2500, text: 'First\nline' },
+      { startTime: 3000, endTime: 4000, text: 'Second' }
+    ]);
+  });
+
+  it('should read LRC repeated timestamps, offsets and word timing', () => {
+    const lrc = '[ti:Song]\n[offset:500]\n[00:01.50][00:10.50]Chorus\n[00:05.50]<00:05.50>Word <00:06.50>by word\n[00:08.50]\n';
+    const document = parseSubtitle(lrc, 'lrc');
+
+    expect(document.info).toEqual({ title: 'Song' });
+    expect(document.cues.map(c => [c.startTime, c.endTime, c.text])).toEqual([
+      [1000, 5000, 'Chorus'],
+      [5000, 8000, 'Word by word'],
+      [10000, 15000, 'Chorus']
+    ]);
+    expect(document.cues[1].spans?.map(s => s.startTime)).toEqual([5000, 6000]);
+  });
+
+  it('should read Whisper and YouTube JSON', () => {
+    expect(parseSubtitle('{"segments":[{"start":1.5,"end":2,"text":" Hi"}]}', 'json').cues)
+      .toEqual([{ startTime: 1500, endTime: 2000, text: 'Hi', speaker: undefined }]);
+    expect(parseSubtitle('{"events":[{"tStartMs":100,"dDurationMs":900,"segs":[{"utf8":"Hey"}]},{"tStartMs":0}]}', 'json').cues)
+      .toEqual([{ startTime: 100, endTime: 1000, text: 'Hey' }]);
+  });
+});
+
+describe('round trips', () => {
+  it.each([
+    ['srt', SRT],
+    ['vtt', VTT],
+    ['ass', ASS],
+    ['ttml', TTML]
+  ] as const)('should keep %s unchanged through its own serializer', (format, content) => {
+    const document = parseSubtitle(content, format);
+    const written = serializeSubtitle(document, format);
+
+    expect(parseSubtitle(written, format)).toEqual(document);
+  });
+
+  it('should write stable SRT', () => {
+    expect(convertSubtitle(SRT, 'srt', 'srt')).toBe(SRT);
+  });
+
+  it('should keep every field through JSON', () => {
+    for (const [format, content] of [['ass', ASS], ['vtt', VTT], ['ttml', TTML]] as const) {
+      const document = parseSubtitle(content, format);
+      expect(parseSubtitle(serializeSubtitle(document, 'json'), 'json')).toEqual(document);
+    }
+  });
+
+  it('should keep lines, timing and word timing through LRC', () => {
+    const document = parseSubtitle(VTT, 'vtt');
+    const lrc = parseSubtitle(serializeSubtitle(document, 'lrc'), 'lrc');
+
+    expect(lrc.cues.map(c => [c.startTime, c.endTime, c.text])).toEqual([
+      [1000, 3000, 'Hi there & welcome'],
+      [4000, 6000, 'One two']
+    ]);
+    expect(lrc.cues[1].spans?.map(s => s.startTime)).toEqual([4000, 5000]);
+  });
+});
+
+describe('convertSubtitle', () => {
+  it('should turn the SRT alignment prefix into a WebVTT line setting', () => {
+    expect(convertSubtitle(SRT, 'srt', 'vtt')).toContain('00:00:04.000 --> 00:00:06.000 line:0 align:center\nTop line');
+  });
+
+  it('should keep WebVTT speakers and karaoke in ASS', () => {
+    const ass = convertSubtitle(VTT, 'vtt', 'ass');
+
+    expect(ass).toContain(',Alice,');
+    expect(ass).toMatch(/\{\\an7\}Hi there & welcome/);
+    expect(ass).toContain('{\\k100}One {\\k100}two');
+  });
+
+  it('should keep ASS formatting and position in WebVTT', () => {
+    const vtt = convertSubtitle(ASS, 'ass', 'vtt');
+
+    expect(vtt).toContain('00:00:01.000 --> 00:00:03.000\n<v Alice><i>Hello</i>\nworld');
+    expect(vtt).toContain('line:50% position:50%');
+    expect(vtt).not.toContain('timing note');
+  });
+
+  it('should write ASS back with styles and unknown tags', () => {
+    const ass = convertSubtitle(ASS, 'ass', 'ass');
+
+    expect(ass).toContain('Style: Sign,Georgia,36,&H0000FFFF');
+    expect(ass).toContain('{\\blur3}');
+    expect(ass).toContain('[Fonts]\nfontname: custom.ttf');
+  });
+
+  it('should drop ASS-only override tags from SSA', () => {
+    const ssa = convertSubtitle(ASS, 'ass', 'ssa');
+
+    expect(ssa).toContain('ScriptType: v4.00\n');
+    expect(ssa).not.toContain('\\blur3');
+    expect(ssa).not.toContain('[Fonts]');
+  });
+
+  it('should write TTML regions, agents and spans', () => {
+    const ttml = convertSubtitle(VTT, 'vtt', 'ttml');
+
+    expect(ttml).toContain('<ttm:agent xml:id="speaker1" type="person"><ttm:name type="full">Alice</ttm:name></ttm:agent>');
+    expect(ttml).toContain('tts:displayAlign="before"');
+    expect(ttml).toContain('<span style="loud">there</span> &amp; welcome');
+  });
+
+  it('should only write xml:lang when the language is known', () => {
+    expect(convertSubtitle(SRT, 'srt', 'ttml')).not.toContain('xml:lang');
+    expect(convertSubtitle(TTML, 'ttml', 'ttml')).toContain('xml:lang="en"');
+  });
+
+  it('should use the DFXP namespace', () => {
+    expect(convertSubtitle(SRT, 'srt', 'dfxp')).toContain('xmlns="http://www.w3.org/2006/10/ttaf1"');
+  });
+});
+
+describe('applyTimestamps', () => {
+  it('should keep the style of the cue an edit overlaps most', () => {
+    const document = applyTimestamps(parseSubtitle(ASS, 'ass'), [
+      { startTime: 1000, endTime: 2000, text: 'Hello' },
+      { startTime: 2000, endTime: 3200, text: 'world' },
+      { startTime: 4500, endTime: 6000, text: 'Moved sign' },
+      { startTime: 8000, endTime: 9000, text: 'New line' }
+    ]);
+
+    const dialogue = document.cues.filter(cue => !cue.comment);
+    expect(dialogue.map(cue => [cue.speaker, cue.style])).toEqual([
+      ['Alice', 'Default'],
+      ['Alice', 'Default'],
+      [undefined, 'Sign'],
+      [undefined, undefined]
+    ]);
+    expect(dialogue[2].layer).toBe(1);
+    expect(document.cues.some(cue => cue.comment)).toBe(true);
+  });
+
+  it('should keep inline formatting only for unchanged text', () => {
+    const original = parseSubtitle(SRT, 'srt');
+    const document = applyTimestamps(original, [
+      { startTime: 1500, endTime: 3500, text: original.cues[0].text },
+      { startTime: 4000, endTime: 6000, text: 'Rewritten' }
+    ]);
+
+    expect(document.cues[0].spans).toEqual(original.cues[0].spans);
+    expect(document.cues[1].spans).toBeUndefined();
+    expect(serializeSubtitle(document, 'srt')).toContain('00:00:01,500 --> 00:00:03,500\n<b>Hello</b>');
+  });
+});
+
+describe('detectSubtitleFormat', () => {
+  it('should prefer the file extension', () => {
+    expect(detectSubtitleFormat(SRT, '/subs/movie.en.vtt')).toBe('vtt');
+    expect(detectSubtitleFormat(TTML, '/subs/movie.xml')).toBe('ttml');
+  });
+
+  it('should recognize every format from its content', () => {
+    expect(detectSubtitleFormat(SRT)).toBe('srt');
+    expect(detectSubtitleFormat(VTT)).toBe('vtt');
+    expect(detectSubtitleFormat(ASS)).toBe('ass');
+    expect(detectSubtitleFormat(ASS.replace('v4.00+', 'v4.00'))).toBe('ssa');
+    expect(detectSubtitleFormat(TTML)).toBe('ttml');
+    expect(detectSubtitleFormat('0:00:01.000,0:00:02.000\nHi\n')).toBe('sbv');
+    expect(detectSubtitleFormat('[00:01.00]Hi\n')).toBe('lrc');
+    expect(detectSubtitleFormat('{"segments":[]}')).toBe('json');
+    expect(detectSubtitleFormat('plain text')).toBeNull();
+  });
+
+  it('should list every supported format', () => {
+    expect(SUBTITLE_FORMATS).toEqual(['srt', 'vtt', 'ass', 'ssa', 'ttml', 'dfxp', 'sbv', 'lrc', 'json']);
+  });
+});
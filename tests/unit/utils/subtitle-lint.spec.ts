@@ -0,0 +1,126 @@
+/**
+ * Unit tests for subtitle linting and auto-fix
+ */
+
+import {
+  fixTimestamps,
+  LINT_PRESETS,
+  lintTimestamps,
+  readingSpeed,
+  resolveLintRules
+} from '../../../src/main/utils/subtitle-lint';
+import { SubtitleLintIssue } from '../../../src/shared/types/subtitle';
+
+const summarize = (issues: SubtitleLintIssue[]): Array<[number, string, boolean]> =>
+  issues.map(issue => [issue.cueIndex, issue.rule, issue.fixable]);
+
+describe('resolveLintRules', () => {
+  it('should start from the preset and apply overrides', () => {
+    expect(resolveLintRules()).toEqual(LINT_PRESETS.netflix);
+    expect(resolveLintRules({ preset: 'broadcast', rules: { maxLineLength: 32 } })).toMatchObject({
+      maxLineLength: 32,
+      maxReadingSpeed: 17
+    });
+    expect(resolveLintRules({ preset: 'custom', rules: { minGap: 40 } })).toEqual({ minGap: 40 });
+  });
+});
+
+describe('readingSpeed', () => {
+  it('should count characters per second without line breaks', () => {
+    expect(readingSpeed({ startTime: 0, endTime: 2000, text: 'Hello\nthere' })).toBe(5);
+    expect(readingSpeed({ startTime: 1000, endTime: 1000, text: 'Hi' })).toBe(Infinity);
+  });
+});
+
+describe('lintTimestamps', () => {
+  const rules = resolveLintRules();
+
+  it('should flag timing issues and whether they can be fixed', () => {
+    const issues = lintTimestamps([
+      { startTime: 0, endTime: 500, text: 'Hi' },
+      { startTime: 1000, endTime: 9000, text: 'Long one' },
+      { startTime: 8900, endTime: 10000, text: 'Next' },
+      { startTime: 10050, endTime: 10600, text: 'Close' }
+    ], rules);
+
+    expect(summarize(issues)).toEqual([
+      [0, 'min_duration', true],
+      [1, 'max_duration', true],
+      [2, 'overlap', true],
+      [3, 'min_gap', true],
+      [3, 'min_duration', true]
+    ]);
+    expect(issues[2].message).toContain('100 ms');
+  });
+
+  it('should flag text issues', () => {
+    const issues = lintTimestamps([
+      { startTime: 0, endTime: 2000, text: ' ' },
+      { startTime: 3000, endTime: 5000, text: 'Thanks for watching!' },
+      { startTime: 6000, endTime: 8000, text: 'Hello' },
+      { startTime: 9000, endTime: 11000, text: 'hello.' },
+      { startTime: 12000, endTime: 14000, text: 'one\ntwo\nthree' },
+      { startTime: 15000, endTime: 17000, text: 'x'.repeat(43) }
+    ], rules);
+
+    expect(summarize(issues)).toEqual([
+      [0, 'empty', true],
+      [1, 'hallucination', true],
+      [3, 'repeated_line', true],
+      [4, 'max_lines', true],
+      [5, 'max_line_length', true],
+      [5, 'reading_speed', true]
+    ]);
+  });
+
+  it('should mark short cues without room after them as not fixable', () => {
+    const issues = lintTimestamps([
+      { startTime: 0, endTime: 400, text: 'Quick' },
+      { startTime: 500, endTime: 2000, text: 'Next line' }
+    ], rules);
+
+    expect(summarize(issues)).toEqual([[0, 'min_duration', false]]);
+  });
+});
+
+describe('fixTimestamps', () => {
+  it('should drop unwanted cues and move ends only', () => {
+    const fixed = fixTimestamps([
+      { startTime: 900, endTime: 2500, text: 'Second' },
+      { startTime: 0, endTime: 1000, text: 'First' },
+      { startTime: 1500, endTime: 2400, text: 'second' },
+      { startTime: 2600, endTime: 3000, text: '' },
+      { startTime: 3000, endTime: 3400, text: 'Thanks for watching' },
+      { startTime: 4000, endTime: 4300, text: 'Hi' },
+      { startTime: 4500, endTime: 6000, text: 'Last' }
+    ], resolveLintRules());
+
+    expect(fixed).toEqual([
+      { startTime: 0, endTime: 817, text: 'First' },
+      { startTime: 900, endTime: 2500, text: 'Second' },
+      { startTime: 4000, endTime: 4417, text: 'Hi' },
+      { startTime: 4500, endTime: 6000, text: 'Last' }
+    ]);
+  });
+
+  it('should split cues that do not fit and leave nothing to fix', () => {
+    const text = 'The quick brown fox jumps over the lazy dog and keeps running far away from the farmer who chases it';
+    const rules = resolveLintRules();
+    const fixed = fixTimestamps([
+      { startTime: 0, endTime: 10000, text: 'Short' },
+      { startTime: 20000, endTime: 28000, text }
+    ], rules);
+
+    expect(fixed[0]).toEqual({ startTime: 0, endTime: 7000, text: 'Short' });
+    expect(fixed.length).toBeGreaterThan(2);
+    expect(fixed.slice(1).map(cue => cue.text.replace(/\n/g, ' ')).join(' ')).toBe(text);
+    expect(lintTimestamps(fixed, rules)).toEqual([]);
+  });
+
+  it('should not shorten a long cue below its reading time', () => {
+    const rules = resolveLintRules({ preset: 'custom', rules: { maxDuration: 7000, maxReadingSpeed: 20 } });
+    const fixed = fixTimestamps([{ startTime: 0, endTime: 9000, text: 'y'.repeat(160) }], rules);
+
+    expect(fixed).toEqual([{ startTime: 0, endTime: 8000, text: 'y'.repeat(160) }]);
+  });
+});
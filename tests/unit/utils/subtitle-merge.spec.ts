@@ -0,0 +1,127 @@
+/**
+ * Unit tests for bilingual subtitle merging
+ */
+
+import { SubtitleCue, SubtitleDocument } from '../../../src/shared/types/subtitle';
+import { alignCues, mergeSubtitleTracks } from '../../../src/main/utils/subtitle-merge';
+import { parseSubtitle, serializeSubtitle } from '../../../src/main/utils/subtitle-formats';
+
+const cue = (startTime: number, endTime: number, text: string): SubtitleCue => ({ startTime, endTime, text });
+
+const track = (...cues: SubtitleCue[]): SubtitleDocument => ({ cues, styles: [], info: {} });
+
+describe('alignCues', () => {
+  it('should pair cues with the same timing', () => {
+    const primary = [cue(1000, 2000, '你好'), cue(3000, 4000, '再见')];
+    const secondary = [cue(1000, 2000, 'Hello'), cue(3000, 4000, 'Bye')];
+
+    expect(alignCues(primary, secondary)).toEqual([
+      { startTime: 1000, endTime: 2000, primary: [primary[0]], secondary: [secondary[0]] },
+      { startTime: 3000, endTime: 4000, primary: [primary[1]], secondary: [secondary[1]] }
+    ]);
+  });
+
+  it('should snap small timing differences onto the primary track', () => {
+    const primary = [cue(1000, 3000, '你好')];
+    const secondary = [cue(1200, 2900, 'Hello')];
+
+    expect(alignCues(primary, secondary)).toEqual([
+      { startTime: 1000, endTime: 3000, primary, secondary }
+    ]);
+  });
+
+  it('should split cues that only partly overlap', () => {
+    const primary = [cue(1000, 4000, '一句很长的话')];
+    const secondary = [cue(2000, 5000, 'A long line')];
+
+    expect(alignCues(primary, secondary).map(p => [p.startTime, p.endTime, p.primary.length, p.secondary.length])).toEqual([
+      [1000, 2000, 1, 0],
+      [2000, 4000, 1, 1],
+      [4000, 5000, 0, 1]
+    ]);
+  });
+
+  it('should repeat a long cue next to each cue it spans', () => {
+    const primary = [cue(0, 4000, '一二三四')];
+    const secondary = [cue(0, 2000, 'One two'), cue(2000, 4000, 'three four')];
+
+    expect(alignCues(primary, secondary).map(p => [p.startTime, p.endTime, p.secondary[0].text])).toEqual([
+      [0, 2000, 'One two'],
+      [2000, 4000, 'three four']
+    ]);
+  });
+
+  it('should leave gaps empty', () => {
+    expect(alignCues([cue(0, 1000, 'a')], [cue(5000, 6000, 'b')])).toHaveLength(2);
+  });
+});
+
+describe('mergeSubtitleTracks', () => {
+  const primary = track(cue(1000, 2000, '你好'));
+  const secondary = track(cue(1000, 2000, 'Hello'));
+
+  it('should stack both languages in one event with the secondary on top', () => {
+    const ass = serializeSubtitle(mergeSubtitleTracks(primary, secondary, { layout: 'stacked' }), 'ass');
+
+    expect(ass).toContain('Dialogue: 0,0:00:01.00,0:00:02.00,Secondary,,0,0,0,,Hello\\N{\\rPrimary}你好');
+  });
+
+  it('should put the primary line on top when asked', () => {
+    const document = mergeSubtitleTracks(primary, secondary, { layout: 'stacked', primaryPosition: 'top' });
+
+    expect(document.cues[0]).toMatchObject({ style: 'Primary', text: '你好\nHello' });
+  });
+
+  it('should place the languages left and right side by side', () => {
+    const document = mergeSubtitleTracks(primary, secondary, { layout: 'side_by_side', secondaryPosition: 'top' });
+    const [primaryStyle, secondaryStyle] = document.styles;
+
+    expect(document.cues.map(c => c.style)).toEqual(['Primary', 'Secondary']);
+    expect(primaryStyle).toMatchObject({ alignment: 2, marginL: 10, marginR: 197 });
+    expect(secondaryStyle).toMatchObject({ alignment: 8, marginL: 197, marginR: 10 });
+  });
+
+  it('should turn the styling into ASS styles', () => {
+    const document = mergeSubtitleTracks(primary, secondary, {
+      layout: 'stacked',
+      styling: {
+        primaryFontSize: 30,
+        primaryColor: '#ff0000',
+        secondaryColor: '&H00FFFF&',
+        fontFamily: 'PingFang SC',
+        backgroundColor: '#000000',
+        backgroundOpacity: 0.5
+      }
+    });
+
+    expect(document.styles[0]).toMatchObject({
+      fontName: 'PingFang SC',
+      fontSize: 30,
+      primaryColor: '#FF0000',
+      borderStyle: 3,
+      outlineColor: '#00000080'
+    });
+    expect(document.styles[1]).toMatchObject({ fontSize: 20, primaryColor: '#FFFF00' });
+  });
+
+  it('should draw an outline and shadow without a background', () => {
+    const document = mergeSubtitleTracks(primary, undefined, {
+      layout: 'stacked',
+      styling: { outline: true, shadow: false }
+    });
+
+    expect(document.styles[0]).toMatchObject({ borderStyle: 1, outline: 1, shadow: 0 });
+    expect(document.cues).toEqual([{ startTime: 1000, endTime: 2000, style: 'Primary', text: '你好', spans: undefined }]);
+  });
+
+  it('should keep inline formatting and drop ASS-only tags', () => {
+    const ass = parseSubtitle(
+      '[Events]\nFormat: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n'
+        + 'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\i1\\blur2}Hi\n',
+      'ass'
+    );
+    const document = mergeSubtitleTracks(ass, undefined, { layout: 'stacked' });
+
+    expect(document.cues[0].spans).toEqual([{ text: 'Hi', italic: true }]);
+  });
+});
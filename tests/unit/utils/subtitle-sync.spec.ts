@@ -0,0 +1,146 @@
+/**
+ * Unit tests for subtitle timing correction
+ */
+
+import {
+  buildTimeMap,
+  detectSpeech,
+  findAlignment,
+  normalizeFramerate,
+  retimeDocument
+} from '../../../src/main/utils/subtitle-sync';
+import { parseSubtitle } from '../../../src/main/utils/subtitle-formats';
+import { SubtitleCue, SubtitleDocument } from '../../../src/shared/types/subtitle';
+
+const document = (cues: Array<[number, number]>): SubtitleDocument => ({
+  cues: cues.map(([startTime, endTime], index) => ({ startTime, endTime, text: `Line ${index + 1}` })),
+  styles: [],
+  info: {}
+});
+
+const times = (doc: SubtitleDocument): Array<[number, number]> =>
+  doc.cues.map(cue => [cue.startTime, cue.endTime]);
+
+describe('buildTimeMap', () => {
+  const doc = document([[1000, 2000], [5000, 6000], [11000, 12000]]);
+
+  it('should stretch linearly between two points', () => {
+    const map = buildTimeMap(doc, {
+      mode: 'two_point',
+      points: [{ cueIndex: 0, time: 2000 }, { cueIndex: 2, time: 22000 }]
+    });
+
+    expect(times(retimeDocument(doc, map))).toEqual([[2000, 4000], [10000, 12000], [22000, 24000]]);
+  });
+
+  it('should reject points on the same cue time or in reverse', () => {
+    expect(() => buildTimeMap(doc, {
+      mode: 'two_point',
+      points: [{ cueIndex: 0, time: 0 }, { cueIndex: 0, time: 1000 }]
+    })).toThrow('different start times');
+    expect(() => buildTimeMap(doc, {
+      mode: 'two_point',
+      points: [{ cueIndex: 0, time: 5000 }, { cueIndex: 1, time: 1000 }]
+    })).toThrow('reverse');
+    expect(() => buildTimeMap(doc, { mode: 'two_point', points: [{ cueIndex: 0, time: 0 }] })).toThrow('exactly two');
+  });
+
+  it('should convert between framerates using exact NTSC rates', () => {
+    expect(normalizeFramerate(23.976)).toBeCloseTo(24000 / 1001, 10);
+    expect(normalizeFramerate(25)).toBe(25);
+
+    const map = buildTimeMap(doc, { mode: 'framerate', sourceFps: 25, targetFps: 23.976 });
+    expect(times(retimeDocument(doc, map))[2]).toEqual([11470, 12513]);
+  });
+
+  it('should move whole cues by the range their start is in', () => {
+    const map = buildTimeMap(doc, {
+      mode: 'ranges',
+      ranges: [
+        { startTime: 0, endTime: 5000, offsetMs: -500 },
+        { startTime: 5000, offsetMs: 1500 }
+      ]
+    });
+
+    expect(times(retimeDocument(doc, map))).toEqual([[500, 1500], [6500, 7500], [12500, 13500]]);
+  });
+
+  it('should keep karaoke timing and clamp at zero', () => {
+    const lrc = parseSubtitle('[00:01.00]<00:01.00>Hello <00:01.50>world\n[00:03.00]Next\n', 'lrc');
+    const synced = retimeDocument(lrc, buildTimeMap(lrc, { mode: 'offset', offsetMs: -1200 }));
+
+    expect(synced.cues[0].startTime).toBe(0);
+    expect(synced.cues[0].spans?.map(span => span.startTime)).toEqual([0, 300]);
+  });
+});
+
+describe('detectSpeech', () => {
+  it('should bridge short pauses and drop clicks', () => {
+    const peaks = [
+      ...new Array<number>(50).fill(0.001),
+      ...new Array<number>(40).fill(0.3),
+      ...new Array<number>(10).fill(0.001), // 100ms pause
+      ...new Array<number>(40).fill(0.3),
+      ...new Array<number>(50).fill(0.001),
+      ...new Array<number>(5).fill(0.5), // 50ms click
+      ...new Array<number>(50).fill(0.001)
+    ];
+
+    const speech = detectSpeech({ peaksPerSecond: 100, duration: peaks.length * 10, peaks });
+    expect(speech.slice(50, 140).every(flag => flag === 1)).toBe(true);
+    expect(speech.slice(190, 195).every(flag => flag === 0)).toBe(true);
+    expect(speech[20]).toBe(0);
+  });
+});
+
+describe('findAlignment', () => {
+  // Irregular cue lengths and gaps so only one shift lines up
+  const cues: SubtitleCue[] = [];
+  let time = 5000;
+  for (let i = 0; i < 120; i++) {
+    const length = 1200 + (i * 733) % 2300;
+    cues.push({ startTime: time, endTime: time + length, text: `Line ${i}` });
+    time += length + 300 + (i * 389) % 1900;
+  }
+
+  const speechFor = (map: (t: number) => number, frames: number): Uint8Array => {
+    const speech = new Uint8Array(frames);
+    for (const cue of cues) {
+      speech.fill(1, Math.round(map(cue.startTime) / 10), Math.round(map(cue.endTime) / 10));
+    }
+    return speech;
+  };
+
+  it('should find a constant offset with high confidence', () => {
+    const speech = speechFor(t => t + 2500, Math.ceil(time / 10) + 1000);
+    const alignment = findAlignment(cues, speech, 10, 20000, false);
+
+    expect(alignment.offsetMs).toBe(2500);
+    expect(alignment.scale).toBe(1);
+    expect(alignment.confidence).toBeGreaterThan(0.7);
+    expect(alignment.speechOverlap).toBe(1);
+  });
+
+  it('should detect a PAL release playing against a film framerate video', () => {
+    const scale = 25 / 23.976;
+    const speech = speechFor(t => t * scale - 800, Math.ceil(time * scale / 10) + 1000);
+    const alignment = findAlignment(cues, speech, 10, 20000);
+
+    expect(alignment.scale).toBeCloseTo(scale, 6);
+    expect(Math.abs(alignment.offsetMs + 800)).toBeLessThanOrEqual(20);
+    expect(alignment.speechOverlap).toBeGreaterThan(0.95);
+  });
+
+  it('should report low confidence when the audio has nothing to do with the cues', () => {
+    const speech = new Uint8Array(Math.ceil(time / 10));
+    for (let i = 0; i < speech.length; i += 400) {
+      speech.fill(1, i, i + 200);
+    }
+
+    expect(findAlignment(cues, speech, 10, 20000, false).confidence).toBeLessThan(0.3);
+  });
+
+  it('should fail without speech', () => {
+    expect(() => findAlignment(cues, new Uint8Array(1000), 10)).toThrow('No speech');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for batched subtitle translation
+ */
+
+import {
+  TranslationProvider,
+  TranslationRequest,
+  applyTranslations,
+  buildBatches,
+  buildChatMessages,
+  hashCue,
+  parseNumberedLines,
+  translateTexts
+} from '../../../src/main/utils/subtitle-translation';
+import { parseSubtitle, serializeSubtitle } from '../../../src/main/utils/subtitle-formats';
+
+class FakeProvider implements TranslationProvider {
+  readonly name = 'Fake';
+  calls: Array<{ texts: string[]; request: TranslationRequest }> = [];
+  failures = 0;
+
+  async translate(texts: string[], request: TranslationRequest): Promise<string[]> {
+    this.calls.push({ texts, request });
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Service unavailable');
+    }
+    return texts.map(text => text.toUpperCase());
+  }
+}
+
+describe('buildBatches', () => {
+  const texts = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should split pending texts and add the neighbouring cues as context', () => {
+    expect(buildBatches(texts, [0, 1, 2, 3, 4], 2, 1)).toEqual([
+      { indexes: [0, 1], context: { before: [], after: ['c'] } },
+      { indexes: [2, 3], context: { before: ['b'], after: ['e'] } },
+      { indexes: [4], context: { before: ['d'], after: [] } }
+    ]);
+  });
+
+  it('should only batch the pending texts', () => {
+    expect(buildBatches(texts, [1, 3], 10, 1)).toEqual([
+      { indexes: [1, 3], context: { before: ['a'], after: ['e'] } }
+    ]);
+  });
+});
+
+describe('buildChatMessages', () => {
+  it('should number the lines and mark line breaks', () => {
+    const [system, user] = buildChatMessages(['Hello\nthere', 'Bye'], {
+      sourceLanguage: 'en',
+      targetLanguage: 'zh-CN',
+      context: { before: ['Earlier'], after: [] }
+    });
+
+    expect(system.content).toContain('from en into zh-CN');
+    expect(user.content).toBe('Context before:\nEarlier\n\nLines:\n[1] Hello<br>there\n[2] Bye');
+  });
+});
+
+describe('parseNumberedLines', () => {
+  it('should read numbered lines and restore line breaks', () => {
+    expect(parseNumberedLines('[2] 再见\n[1] 你好 <br> 朋友\n', 2)).toEqual(['你好\n朋友', '再见']);
+  });
+
+  it('should skip reasoning and text around the answer', () => {
+    expect(parseNumberedLines('<think>[1] draft</think>\nHere you go:\n[1] 你好', 1)).toEqual(['你好']);
+  });
+
+  it('should throw when a line is missing', () => {
+    expect(() => parseNumberedLines('[1] 你好', 2)).toThrow('line 2 is missing');
+  });
+});
+
+describe('translateTexts', () => {
+  const options = { targetLanguage: 'zh', cacheKey: 'fake|en|zh', retryDelay: 0 };
+
+  it('should translate in batches and keep empty texts empty', async () => {
+    const provider = new FakeProvider();
+    const result = await translateTexts(['a', '', 'b', 'c'], provider, { ...options, batchSize: 2 });
+
+    expect(result).toEqual(['A', '', 'B', 'C']);
+    expect(provider.calls.map(call => call.texts)).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('should retry a failed batch', async () => {
+    const provider = new FakeProvider();
+    provider.failures = 2;
+
+    expect(await translateTexts(['a'], provider, { ...options, maxRetries: 2 })).toEqual(['A']);
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it('should report which cues failed once retries run out', async () => {
+    const provider = new FakeProvider();
+    provider.failures = 5;
+
+    await expect(translateTexts(['a', 'b'], provider, { ...options, maxRetries: 1 }))
+      .rejects.toThrow('Fake failed to translate cues 1-2: Service unavailable');
+  });
+
+  it('should use cached translations and cache new ones by cue hash', async () => {
+    const provider = new FakeProvider();
+    const cache = new Map([[hashCue('a', options.cacheKey), '甲']]);
+
+    const result = await translateTexts(['a', 'b'], provider, { ...options, cache });
+
+    expect(result).toEqual(['甲', 'B']);
+    expect(provider.calls.map(call => call.texts)).toEqual([['b']]);
+    expect(cache.get(hashCue('b', options.cacheKey))).toBe('B');
+    expect(hashCue('b', 'other|en|ja')).not.toBe(hashCue('b', options.cacheKey));
+  });
+
+  it('should report progress including cached cues', async () => {
+    const progress: number[][] = [];
+    const cache = new Map([[hashCue('a', options.cacheKey), '甲']]);
+
+    await translateTexts(['a', 'b', 'c'], new FakeProvider(), {
+      ...options,
+      cache,
+      batchSize: 1,
+      onProgress: (translated, cached) => progress.push([translated, cached])
+    });
+
+    expect(progress).toEqual([[1, 1], [2, 1], [3, 1]]);
+  });
+});
+
+describe('applyTranslations', () => {
+  it('should keep cue timing and drop inline formatting', () => {
+    const document = parseSubtitle('1\n00:00:01,000 --> 00:00:02,500\n<i>Hello</i>\n', 'srt');
+    const translated = applyTranslations(document, ['你好']);
+
+    expect(serializeSubtitle(translated, 'srt')).toBe('1\n00:00:01,000 --> 00:00:02,500\n你好\n');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for target-size bitrate planning and correction
+ */
+
+import {
+  MIN_AUDIO_BITRATE,
+  MIN_VIDEO_BITRATE,
+  correctVideoBitrate,
+  encodedDuration,
+  isTargetSizeMode,
+  planTargetSize
+} from '../../../src/main/utils/target-size';
+
+const MB = 1024 * 1024;
+
+// Size of an encode at the planned bitrates, before container overhead
+const payloadBytes = (videoBitrate: number, audioBitrate: number, duration: number): number =>
+  ((videoBitrate + audioBitrate) * 1000 * duration) / 8;
+
+describe('isTargetSizeMode', () => {
+  it('is on when either size is set', () => {
+    expect(isTargetSizeMode({ outputFormat: 'mp4' })).toBe(false);
+    expect(isTargetSizeMode({ outputFormat: 'mp4', targetFileSize: 25 * MB })).toBe(true);
+    expect(isTargetSizeMode({ outputFormat: 'mp4', maxFileSize: 25 * MB })).toBe(true);
+  });
+});
+
+describe('encodedDuration', () => {
+  it('uses the trimmed range, clamped to the source', () => {
+    expect(encodedDuration({ outputFormat: 'mp4' }, 120)).toBe(120);
+    expect(encodedDuration({ outputFormat: 'mp4', startTime: 30, endTime: 90 }, 120)).toBe(60);
+    expect(encodedDuration({ outputFormat: 'mp4', startTime: 100, endTime: 500 }, 120)).toBe(20);
+  });
+});
+
+describe('planTargetSize', () => {
+  it('fills the target with room for container overhead', () => {
+    const plan = planTargetSize({ outputFormat: 'mp4', targetFileSize: 25 * MB, audioBitrate: 128 }, 180);
+
+    expect(plan.audioBitrate).toBe(128);
+    expect(plan.limitBytes).toBe(25 * MB);
+    const payload = payloadBytes(plan.videoBitrate, plan.audioBitrate, 180);
+    expect(payload).toBeLessThan(25 * MB * 0.98);
+    expect(payload).toBeGreaterThan(25 * MB * 0.9);
+  });
+
+  it('aims for the target but checks against maxFileSize', () => {
+    const plan = planTargetSize({ outputFormat: 'mkv', targetFileSize: 90 * MB, maxFileSize: 100 * MB }, 600);
+
+    expect(plan.targetBytes).toBe(90 * MB);
+    expect(plan.limitBytes).toBe(100 * MB);
+  });
+
+  it('plans for the trimmed duration', () => {
+    const full = planTargetSize({ outputFormat: 'mp4', maxFileSize: 25 * MB }, 600);
+    const trimmed = planTargetSize({ outputFormat: 'mp4', maxFileSize: 25 * MB, startTime: 0, endTime: 300 }, 600);
+
+    expect(trimmed.videoBitrate).toBeGreaterThan(full.videoBitrate * 1.9);
+  });
+
+  it('lowers the audio bitrate when it would take more than a quarter of the budget', () => {
+    const plan = planTargetSize({ outputFormat: 'mp4', targetFileSize: 8 * MB, audioBitrate: 192 }, 300);
+
+    expect(plan.audioBitrate).toBeLessThan(192);
+    expect(plan.audioBitrate).toBeGreaterThanOrEqual(MIN_AUDIO_BITRATE);
+    expect(plan.videoBitrate).toBeGreaterThanOrEqual(plan.audioBitrate * 3);
+  });
+
+  it('gives the whole budget to video without audio', () => {
+    const withAudio = planTargetSize({ outputFormat: 'webm', targetFileSize: 25 * MB }, 120);
+    const silent = planTargetSize({ outputFormat: 'webm', targetFileSize: 25 * MB, removeAudio: true }, 120);
+
+    expect(silent.audioBitrate).toBe(0);
+    expect(silent.videoBitrate).toBeGreaterThan(withAudio.videoBitrate);
+  });
+
+  it('rejects targets too small for the duration', () => {
+    expect(() => planTargetSize({ outputFormat: 'mp4', targetFileSize: 1 * MB }, 3600))
+      .toThrow(`1.0 MB is too small for 3600s of video`);
+    expect(() => planTargetSize({ outputFormat: 'mp4' }, 60)).toThrow('needs targetFileSize or maxFileSize');
+    expect(() => planTargetSize({ outputFormat: 'mp4', targetFileSize: 25 * MB }, 0)).toThrow('needs the video duration');
+  });
+});
+
+describe('correctVideoBitrate', () => {
+  const plan = planTargetSize({ outputFormat: 'mp4', maxFileSize: 25 * MB }, 180);
+
+  it('scales the video share down to fit the limit', () => {
+    const corrected = correctVideoBitrate(plan, 28 * MB);
+    const audioBytes = payloadBytes(0, plan.audioBitrate, 180);
+    const expectedBytes = audioBytes + (28 * MB - audioBytes) * (corrected / plan.videoBitrate);
+
+    expect(corrected).toBeLessThan(plan.videoBitrate);
+    expect(expectedBytes).toBeLessThanOrEqual(25 * MB);
+  });
+
+  it('always lowers the bitrate, even for a tiny overshoot', () => {
+    expect(correctVideoBitrate(plan, 25 * MB + 1)).toBeLessThanOrEqual(Math.floor(plan.videoBitrate * 0.99));
+  });
+
+  it('gives up below the minimum bitrate', () => {
+    const tight = { ...plan, videoBitrate: MIN_VIDEO_BITRATE + 5 };
+
+    expect(() => correctVideoBitrate(tight, 50 * MB)).toThrow(`Can't fit the video under 25.0 MB`);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for chunked transcription and re-segmentation
+ */
+
+import {
+  joinWords,
+  offsetCues,
+  planChunks,
+  resegment,
+  wrapLines
+} from '../../../src/main/utils/transcription';
+import { parseSubtitle } from '../../../src/main/utils/subtitle-formats';
+import { SubtitleCue, SubtitleWord } from '../../../src/shared/types/subtitle';
+
+const words = (text: string, start: number, step = 300): SubtitleWord[] =>
+  text.split(' ').map((word, i) => ({ text: word, startTime: start + i * step, endTime: start + i * step + step - 50 }));
+
+describe('planChunks', () => {
+  it('should cut in the middle of the longest pause and skip silent chunks', () => {
+    // 10ms slices: a 2s pause at 3:00, a short one at 2:30 and silence from 6:40 on
+    const speech = new Uint8Array(60000).fill(1);
+    speech.fill(0, 15000, 15050);
+    speech.fill(0, 18000, 18200);
+    speech.fill(0, 40000, 60000);
+
+    const chunks = planChunks(speech, 10);
+    expect(chunks).toEqual([
+      { index: 0, startTime: 0, endTime: 181000, speech: 179500 },
+      { index: 1, startTime: 181000, endTime: 440500, speech: 218000 }
+    ]);
+  });
+
+  it('should keep short files in one chunk', () => {
+    const speech = new Uint8Array(1000).fill(1);
+    expect(planChunks(speech, 10)).toEqual([{ index: 0, startTime: 0, endTime: 10000, speech: 10000 }]);
+  });
+});
+
+describe('offsetCues', () => {
+  it('should move cues and words into video time', () => {
+    const cues = offsetCues([{ startTime: 0, endTime: 1000, text: 'Hi', words: words('Hi', 0) }], 60000);
+    expect(cues[0]).toMatchObject({ startTime: 60000, endTime: 61000 });
+    expect(cues[0].words?.[0]).toMatchObject({ startTime: 60000, endTime: 60250 });
+  });
+});
+
+describe('wrapLines', () => {
+  it('should balance lines', () => {
+    expect(wrapLines('The quick brown fox jumps over the lazy dog near the river', 42))
+      .toBe('The quick brown fox jumps over\nthe lazy dog near the river');
+  });
+
+  it('should break CJK text between characters', () => {
+    expect(wrapLines('今天我们来讨论一下关于机器学习的基础知识和应用', 16)).toBe('今天我们来讨论一下关于机\n器学习的基础知识和应用');
+  });
+
+  it('should join words with spaces only where needed', () => {
+    expect(joinWords(['Hello', ',', 'world', '!'])).toBe('Hello, world!');
+    expect(joinWords(['我们', '开始', 'OK'])).toBe('我们开始 OK');
+  });
+});
+
+describe('resegment', () => {
+  const options = { maxLineLength: 20, maxLines: 2, maxCueDuration: 3000 };
+
+  it('should end cues at sentences, pauses and limits', () => {
+    const cues: SubtitleCue[] = [{
+      startTime: 0,
+      endTime: 10000,
+      text: '',
+      words: [
+        ...words('Hello there.', 0),
+        ...words('This is', 600),
+        ...words('after a pause and it keeps going for quite a while', 2500)
+      ]
+    }];
+
+    const result = resegment(cues, options);
+    expect(result.map(cue => cue.text)).toEqual([
+      'Hello there.',
+      'This is',
+      'after a pause and\nit keeps going for',
+      'quite a while'
+    ]);
+    expect(result[2]).toMatchObject({ startTime: 2500, endTime: 4850 });
+    expect(result[2].words).toHaveLength(8);
+  });
+
+  it('should split long segments without words by text length', () => {
+    const result = resegment([{
+      startTime: 0,
+      endTime: 8000,
+      text: 'one two three four five six seven eight nine ten eleven twelve thirteen fourteen fifteen'
+    }], options);
+
+    expect(result.length).toBeGreaterThan(1);
+    expect(result[0].startTime).toBe(0);
+    expect(result[result.length - 1].endTime).toBe(8000);
+    for (const cue of result) {
+      expect(cue.endTime - cue.startTime).toBeLessThanOrEqual(3000);
+      expect(cue.text.split('\n').every(line => line.length <= 20)).toBe(true);
+    }
+  });
+
+  it('should read word timing from Whisper JSON', () => {
+    const document = parseSubtitle(JSON.stringify({
+      language: 'en',
+      segments: [{
+        start: 1,
+        end: 2,
+        text: ' Hi there',
+        words: [{ word: ' Hi', start: 1, end: 1.4, probability: 0.9 }, { word: ' there', start: 1.5, end: 2 }]
+      }]
+    }), 'json');
+
+    expect(document.cues[0].words).toEqual([
+      { text: 'Hi', startTime: 1000, endTime: 1400, probability: 0.9 },
+      { text: 'there', startTime: 1500, endTime: 2000, probability: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for waveform peak extraction
+ */
+
+import { PeakAccumulator } from '../../../src/main/utils/waveform';
+
+const pcm = (samples: number[]): Buffer => {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, index) => buffer.writeInt16LE(sample, index * 2));
+  return buffer;
+};
+
+describe('PeakAccumulator', () => {
+  it('should keep the loudest sample of each slice', () => {
+    const accumulator = new PeakAccumulator(8, 2);
+    accumulator.push(pcm([0, 100, -16384, 50, 8192, -32768, 0, 0]));
+
+    expect(accumulator.finish()).toEqual({
+      peaksPerSecond: 2,
+      duration: 1000,
+      peaks: [0.5, 1]
+    });
+  });
+
+  it('should join samples split across chunks', () => {
+    const data = pcm([1000, -16384, 200, 300]);
+    const accumulator = new PeakAccumulator(4, 2);
+    accumulator.push(data.subarray(0, 3));
+    accumulator.push(data.subarray(3));
+
+    expect(accumulator.finish().peaks).toEqual([0.5, 0.009]);
+  });
+
+  it('should flush a partial last slice', () => {
+    const accumulator = new PeakAccumulator(8000, 100);
+    accumulator.push(pcm(new Array(120).fill(3277)));
+
+    const waveform = accumulator.finish();
+    expect(waveform.peaks).toEqual([0.1, 0.1]);
+    expect(waveform.duration).toBe(15);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the Whisper model catalog helpers
+ */
+
+import {
+  DEFAULT_MODEL_MIRROR,
+  WHISPER_MODEL_CATALOG,
+  findModelDefinition,
+  getModelUrl,
+  isGgmlModel,
+  modelIdFromFileName,
+  parseChecksum,
+  pickDefaultModel
+} from '../../../src/main/utils/whisper-models';
+
+describe('Whisper model catalog', () => {
+  it('should describe English-only and quantized variants', () => {
+    expect(findModelDefinition('base.en-q5_1')).toMatchObject({ size: 'base', englishOnly: true, quantization: 'q5_1' });
+    expect(findModelDefinition('medium-q8_0')).toMatchObject({ size: 'medium', englishOnly: false, quantization: 'q8_0' });
+    expect(findModelDefinition('small')?.quantization).toBeUndefined();
+    expect(new Set(WHISPER_MODEL_CATALOG.map(model => model.id)).size).toBe(WHISPER_MODEL_CATALOG.length);
+  });
+
+  it('should resolve the old large name', () => {
+    expect(findModelDefinition('large')?.id).toBe('large-v3');
+    expect(findModelDefinition('huge')).toBeUndefined();
+  });
+
+  it('should build file names and mirror URLs', () => {
+    expect(getModelUrl(DEFAULT_MODEL_MIRROR, 'tiny.en'))
+      .toBe('https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-tiny.en.bin');
+    expect(getModelUrl('http://files.local/whisper/', 'large')).toBe('http://files.local/whisper/ggml-large-v3.bin');
+    expect(modelIdFromFileName('ggml-small.en-q5_1.bin')).toBe('small.en-q5_1');
+    expect(modelIdFromFileName('my-finetune.bin')).toBe('my-finetune');
+  });
+});
+
+describe('parseChecksum', () => {
+  const digest = 'A'.repeat(8) + '0123456789abcdef'.repeat(3) + 'b'.repeat(8);
+
+  it('should read the X-Linked-Etag header and sha256sum files', () => {
+    expect(parseChecksum(`"${digest}"`)).toBe(digest.toLowerCase());
+    expect(parseChecksum(`${digest}  ggml-base.bin\n`)).toBe(digest.toLowerCase());
+  });
+
+  it('should ignore anything that is not a SHA-256 digest', () => {
+    expect(parseChecksum('"5a1c0b2e"')).toBeNull();
+    expect(parseChecksum(undefined)).toBeNull();
+  });
+});
+
+describe('isGgmlModel', () => {
+  it('should check the file magic', () => {
+    expect(isGgmlModel(Buffer.from('lmgg\x00\x00', 'latin1'))).toBe(true);
+    expect(isGgmlModel(Buffer.from('GGUF', 'latin1'))).toBe(false);
+    expect(isGgmlModel(Buffer.alloc(2))).toBe(false);
+  });
+});
+
+describe('pickDefaultModel', () => {
+  const defaults = { 'zh': 'medium-q5_0', 'en': 'small.en', '*': 'base-q8_0' };
+
+  it('should fall back from the language to its base language to any language', () => {
+    expect(pickDefaultModel(defaults, 'en')).toBe('small.en');
+    expect(pickDefaultModel(defaults, 'zh-CN')).toBe('medium-q5_0');
+    expect(pickDefaultModel(defaults, 'fr')).toBe('base-q8_0');
+    expect(pickDefaultModel(defaults)).toBe('base-q8_0');
+    expect(pickDefaultModel({}, 'ja')).toBe('base');
+  });
+});